@@ -6,6 +6,7 @@ export type Category = {
   id: string
   name: string
   description: string | null
+  tax_rate_id: string | null
   created_at: string
   updated_at: string
 }
@@ -0,0 +1,19 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+
+// Head-only counts for the dashboard cards; no rows are fetched
+export async function getDashboardCounts(): Promise<{ products: number; customers: number; error: string | null }> {
+  const supabase = await createClient()
+  const [products, customers] = await Promise.all([
+    supabase.from('products').select('id', { count: 'exact', head: true }),
+    supabase.from('customers').select('id', { count: 'exact', head: true }),
+  ])
+
+  const error = products.error || customers.error
+  if (error) {
+    console.error('Error counting dashboard totals:', error)
+    return { products: 0, customers: 0, error: error.message }
+  }
+  return { products: products.count ?? 0, customers: customers.count ?? 0, error: null }
+}
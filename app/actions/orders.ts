@@ -2,6 +2,11 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
+import { ORDER_STATUS_TRANSITIONS, type OrderStatus, type PaymentStatus } from '@/lib/order-status'
+import type { OrderReturn } from '@/app/actions/returns'
+import type { Payment, PaymentInput } from '@/app/actions/payments'
+import type { OrderDiscountInput } from '@/lib/pricing'
+import { requestApproval, type ApprovalCredentials } from '@/lib/approvals'
 
 export type Order = {
   id: string
@@ -10,8 +15,23 @@ export type Order = {
   total_amount: number
   discount: number
   tax: number
-  status: 'pending' | 'processing' | 'completed' | 'cancelled'
-  payment_status: 'unpaid' | 'partial' | 'paid' | 'refunded'
+  prices_include_tax: boolean
+  promo_code_id: string | null
+  invoice_number: string | null
+  invoice_issued_at: string | null
+  approved_by: string | null
+  approval_reason: string | null
+  offline_sold_at: string | null
+  walk_in_phone: string | null
+  voided_at: string | null
+  voided_by: string | null
+  void_reason: string | null
+  paid_amount: number
+  refunded_amount: number
+  // Returned goods taken off the unpaid balance instead of refunded
+  credited_amount: number
+  status: OrderStatus
+  payment_status: PaymentStatus
   payment_method: string | null
   notes: string | null
   created_at: string
@@ -23,31 +43,203 @@ export type OrderItem = {
   order_id: string
   product_id: string | null
   product_name: string
+  // In the unit sold; unit_name is null for the product's base unit
   quantity: number
+  unit_name: string | null
+  unit_factor: number
+  list_price: number | null
   unit_price: number
+  price_overridden: boolean
+  discount: number
+  order_discount: number
+  price_rule_id: string | null
   subtotal: number
+  tax_rate: number
+  tax_amount: number
+  created_at: string
+}
+
+// A lot an order line took stock from; quantity is in base units still held
+export type OrderItemBatch = {
+  id: string
+  batch_id: string
+  quantity: number
+  product_batches: { lot_number: string; expiry_date: string } | null
+}
+
+export type OrderStatusHistoryEntry = {
+  id: string
+  order_id: string
+  field: 'status' | 'payment_status'
+  from_value: string | null
+  to_value: string
+  note: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+export type OrderAmendmentChange = {
+  product_name: string
+  from_quantity: number
+  to_quantity: number
+  from_unit_price: number | null
+  to_unit_price: number | null
+  from_subtotal: number
+  to_subtotal: number
+}
+
+export type OrderAmendment = {
+  id: string
+  order_id: string
+  reason: string
+  changes: OrderAmendmentChange[]
+  total_before: number
+  total_after: number
+  approved_by: string | null
+  approval_reason: string | null
+  amended_by: string | null
   created_at: string
+  amender: { id: string; full_name: string | null; email: string | null } | null
+}
+
+export type OrderDetail = Order & {
+  customers: {
+    id: string
+    name: string
+    email: string | null
+    phone: string | null
+  } | null
+  promo_codes: { id: string; code: string } | null
+  approver: { id: string; full_name: string | null; email: string | null } | null
+  voider: { id: string; full_name: string | null; email: string | null } | null
+  order_items: (OrderItem & {
+    price_rules: { id: string; name: string } | null
+    order_item_batches: OrderItemBatch[]
+  })[]
+  order_status_history: OrderStatusHistoryEntry[]
+  order_returns: OrderReturn[]
+  order_amendments: OrderAmendment[]
+  payments: Payment[]
 }
 
 export type CreateOrderItemInput = {
   product_id: string
-  product_name: string
+  // Names and prices are resolved from products at checkout. unit_price is the
+  // price the cashier saw: checkout is refused if it no longer matches, unless
+  // price_override marks it as a deliberate (approved) price change.
+  product_name?: string
+  // A sellable product unit; quantity and unit_price are then per that unit
+  unit_id?: string | null
   quantity: number
   unit_price: number
+  price_override?: boolean
+  // Manual line discount in rupiah, on top of any automatic price rule
   discount?: number
 }
 
 export type CreateOrderPayload = {
-  customer_id: string
-  payment_method: string
+  // Null for a walk-in sale, which must be paid in full
+  customer_id: string | null
+  walk_in_phone?: string | null
+  // Tenders taken at checkout; a total below the order amount leaves a balance
+  payments: PaymentInput[]
   notes?: string
+  order_discount?: OrderDiscountInput | null
+  promo_code?: string | null
+  // Supervisor credentials for overrides and discounts above the store limit
+  approval?: ApprovalCredentials | null
+  // Set by the POS offline queue: retries with the same key return the first order
+  client_reference?: string | null
+  offline_sold_at?: string | null
   items: CreateOrderItemInput[]
 }
 
-export async function getOrders() {
-  const supabase = await createClient()
-  
-  const { data, error } = await supabase
+export type AmendOrderItemInput = {
+  // Null for a line added by the amendment
+  order_item_id: string | null
+  product_id: string
+  quantity: number
+  unit_price: number
+  price_override?: boolean
+  // Manual line discount in rupiah; price rules are applied again on top
+  discount?: number
+}
+
+export type AmendOrderPayload = {
+  reason: string
+  approval?: ApprovalCredentials | null
+  items: AmendOrderItemInput[]
+}
+
+export type OrderWithCustomer = Order & {
+  customers: {
+    id: string
+    name: string
+    email: string | null
+  } | null
+  order_items: { id: string; quantity: number }[]
+}
+
+export type OrderSortColumn = 'created_at' | 'order_number' | 'total_amount' | 'status'
+
+export type OrderFilters = {
+  q?: string
+  status?: Order['status']
+  payment_status?: Order['payment_status']
+  payment_method?: string
+  date_from?: string
+  date_to?: string
+  customer_type?: CustomerType
+  sort?: OrderSortColumn
+  dir?: 'asc' | 'desc'
+  cursor?: string
+  limit?: number
+}
+
+export type CustomerType = 'walk_in' | 'registered'
+
+export type OrderSummary = {
+  totalOrders: number
+  pending: number
+  processing: number
+  completed: number
+  cancelled: number
+  // Counted in the statuses above too, but never in revenue
+  voided: number
+  revenue: number
+  walkInOrders: number
+  walkInRevenue: number
+  registeredOrders: number
+  registeredRevenue: number
+}
+
+const DEFAULT_PAGE_SIZE = 20
+
+// The clinic trades on Western Indonesia Time; filter dates are its calendar days
+const STORE_UTC_OFFSET = '+07:00'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// The search and filter part of OrderFilters (not sorting or paging), shared
+// by the list and the summary cards so both always describe the same orders
+function orderFilterValues(filters: OrderFilters) {
+  return {
+    q: filters.q?.replace(/[,()%*"]/g, ' ').trim() || null,
+    customer_type: filters.customer_type || null,
+    status: filters.status || null,
+    payment_status: filters.payment_status || null,
+    payment_method: filters.payment_method || null,
+    created_from:
+      filters.date_from && DATE_PATTERN.test(filters.date_from) ? `${filters.date_from}T00:00:00${STORE_UTC_OFFSET}` : null,
+    created_to:
+      filters.date_to && DATE_PATTERN.test(filters.date_to) ? `${filters.date_to}T23:59:59.999${STORE_UTC_OFFSET}` : null,
+  }
+}
+
+function selectOrders(supabase: Awaited<ReturnType<typeof createClient>>) {
+  return supabase
     .from('orders')
     .select(`
       *,
@@ -56,143 +248,246 @@ export async function getOrders() {
         name,
         email
       ),
-      order_items (*)
+      order_items (id, quantity)
     `)
-    .order('created_at', { ascending: false })
-  
+}
+
+type OrderListQuery = ReturnType<typeof selectOrders>
+
+// Customers whose name matches the search, for the list's order filter
+async function matchingCustomerIds(supabase: Awaited<ReturnType<typeof createClient>>, q: string) {
+  const { data } = await supabase.from('customers').select('id').ilike('name', `%${q}%`)
+  return ((data || []) as { id: string }[]).map((c) => c.id)
+}
+
+// Mirrored by the get_order_summary RPC.
+// Kept synchronous: an awaited query builder runs the query.
+function applyOrderFilters(query: OrderListQuery, filters: OrderFilters, customerIds: string[]): OrderListQuery {
+  const values = orderFilterValues(filters)
+  if (values.q) {
+    const matches = [`order_number.ilike.%${values.q}%`, `walk_in_phone.ilike.%${values.q}%`]
+    if (customerIds.length > 0) matches.push(`customer_id.in.(${customerIds.join(',')})`)
+    query = query.or(matches.join(','))
+  }
+  if (values.customer_type === 'walk_in') query = query.is('customer_id', null)
+  if (values.customer_type === 'registered') query = query.not('customer_id', 'is', null)
+  if (values.status) query = query.eq('status', values.status)
+  if (values.payment_status) query = query.eq('payment_status', values.payment_status)
+  if (values.payment_method) query = query.eq('payment_method', values.payment_method)
+  if (values.created_from) query = query.gte('created_at', values.created_from)
+  if (values.created_to) query = query.lte('created_at', values.created_to)
+  return query
+}
+
+function encodeCursor(value: string | number, id: string) {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url')
+}
+
+// The cursor ends up in a filter string, so anything that is not a plausible
+// value of the sort column is dropped and the list starts from the first page
+function isCursorValue(sort: OrderSortColumn, value: unknown) {
+  switch (sort) {
+    case 'created_at':
+      return typeof value === 'string' && TIMESTAMP_PATTERN.test(value)
+    case 'total_amount':
+      return typeof value === 'number' && Number.isSafeInteger(value)
+    case 'status':
+      return typeof value === 'string' && Object.keys(ORDER_STATUS_TRANSITIONS).includes(value)
+    case 'order_number':
+      return typeof value === 'string' && value.length > 0 && !/["\\]/.test(value)
+  }
+}
+
+function decodeCursor(cursor: string, sort: OrderSortColumn): [string | number, string] | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (!Array.isArray(parsed) || parsed.length !== 2) return null
+    const [value, id] = parsed
+    if (typeof id !== 'string' || !UUID_PATTERN.test(id) || !isCursorValue(sort, value)) return null
+    return [value, id]
+  } catch {
+    return null
+  }
+}
+
+export async function getOrders(filters: OrderFilters = {}): Promise<{ orders: OrderWithCustomer[]; nextCursor: string | null; error: string | null }> {
+  const supabase = await createClient()
+  const sort = filters.sort || 'created_at'
+  const ascending = filters.dir === 'asc'
+  const limit = filters.limit || DEFAULT_PAGE_SIZE
+
+  const q = orderFilterValues(filters).q
+  const customerIds = q ? await matchingCustomerIds(supabase, q) : []
+  let query = applyOrderFilters(selectOrders(supabase), filters, customerIds)
+
+  // Keyset pagination on (sort column, id) so pages stay stable while new orders come in
+  const cursor = filters.cursor ? decodeCursor(filters.cursor, sort) : null
+  if (cursor) {
+    const op = ascending ? 'gt' : 'lt'
+    const [value, id] = cursor
+    query = query.or(`${sort}.${op}."${value}",and(${sort}.eq."${value}",id.${op}.${id})`)
+  }
+
+  const { data, error } = await query
+    .order(sort, { ascending })
+    .order('id', { ascending })
+    .limit(limit + 1)
+
   if (error) {
     console.error('Error fetching orders:', error)
-    return { orders: [], error: error.message }
+    return { orders: [], nextCursor: null, error: error.message }
   }
-  
-  return { orders: data, error: null }
+
+  const rows = (data || []) as OrderWithCustomer[]
+  const orders = rows.slice(0, limit)
+  const last = orders[orders.length - 1]
+  const nextCursor = rows.length > limit && last ? encodeCursor(last[sort], last.id) : null
+
+  return { orders, nextCursor, error: null }
 }
 
-export async function createOrder(formData: FormData) {
+type OrderSummaryRow = {
+  total_orders: number
+  pending: number
+  processing: number
+  completed: number
+  cancelled: number
+  voided: number
+  revenue: number
+  walk_in_orders: number
+  walk_in_revenue: number
+  registered_orders: number
+  registered_revenue: number
+}
+
+export async function getOrderSummary(filters: OrderFilters = {}): Promise<{ summary: OrderSummary; error: string | null }> {
   const supabase = await createClient()
-  
-  // Generate order number
-  const orderNumber = `ORD-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`
-  
-  const order = {
-    order_number: orderNumber,
-    customer_id: formData.get('customer_id') as string || null,
-    total_amount: parseFloat(formData.get('total_amount') as string),
-    discount: parseFloat(formData.get('discount') as string) || 0,
-    tax: parseFloat(formData.get('tax') as string) || 0,
-    status: formData.get('status') as 'pending' | 'processing' | 'completed' | 'cancelled',
-    payment_status: formData.get('payment_status') as 'unpaid' | 'partial' | 'paid' | 'refunded',
-    payment_method: formData.get('payment_method') as string || null,
-    notes: formData.get('notes') as string || null,
+  const summary: OrderSummary = {
+    totalOrders: 0,
+    pending: 0,
+    processing: 0,
+    completed: 0,
+    cancelled: 0,
+    voided: 0,
+    revenue: 0,
+    walkInOrders: 0,
+    walkInRevenue: 0,
+    registeredOrders: 0,
+    registeredRevenue: 0,
   }
-  
-  const { error } = await supabase
-    .from('orders')
-    .insert([order])
-  
+
+  // Totalled in the database: fetching the rows would stop at the API's row limit
+  const { data, error } = await supabase.rpc('get_order_summary', { p_payload: orderFilterValues(filters) })
   if (error) {
-    return { success: false, error: error.message }
+    console.error('Error fetching order summary:', error)
+    return { summary, error: error.message }
+  }
+
+  const row = ((data || []) as OrderSummaryRow[])[0]
+  if (!row) {
+    return { summary, error: null }
+  }
+
+  return {
+    summary: {
+      totalOrders: Number(row.total_orders),
+      pending: Number(row.pending),
+      processing: Number(row.processing),
+      completed: Number(row.completed),
+      cancelled: Number(row.cancelled),
+      voided: Number(row.voided),
+      revenue: Number(row.revenue),
+      walkInOrders: Number(row.walk_in_orders),
+      walkInRevenue: Number(row.walk_in_revenue),
+      registeredOrders: Number(row.registered_orders),
+      registeredRevenue: Number(row.registered_revenue),
+    },
+    error: null,
   }
-  
-  revalidatePath('/admin/orders')
-  return { success: true, error: null }
 }
 
-export async function createOrderWithItems(payload: CreateOrderPayload): Promise<{ success: boolean; error?: string; order_id?: string; order_number?: string }>{
+export async function getOrder(id: string): Promise<{ order: OrderDetail | null; error: string | null }> {
   const supabase = await createClient()
 
-  if (!payload.customer_id) {
-    return { success: false, error: 'Customer is required' }
+  const { data, error } = await supabase
+    .from('orders')
+    .select(`
+      *,
+      customers (
+        id,
+        name,
+        email,
+        phone
+      ),
+      promo_codes (id, code),
+      approver:profiles!orders_approved_by_fkey (id, full_name, email),
+      voider:profiles!orders_voided_by_fkey (id, full_name, email),
+      order_items (
+        *,
+        price_rules (id, name),
+        order_item_batches (id, batch_id, quantity, product_batches (lot_number, expiry_date))
+      ),
+      order_status_history (*),
+      order_returns (
+        *,
+        order_return_items (*)
+      ),
+      order_amendments (
+        *,
+        amender:profiles!order_amendments_amended_by_fkey (id, full_name, email)
+      ),
+      payments (*)
+    `)
+    .eq('id', id)
+    .order('created_at', { referencedTable: 'order_items', ascending: true })
+    .order('created_at', { referencedTable: 'order_status_history', ascending: true })
+    .order('created_at', { referencedTable: 'order_returns', ascending: true })
+    .order('created_at', { referencedTable: 'order_amendments', ascending: true })
+    .order('created_at', { referencedTable: 'payments', ascending: true })
+    .single()
+
+  if (error) {
+    return { order: null, error: error.message }
   }
+  return { order: data as OrderDetail, error: null }
+}
+
+export async function createOrderWithItems(payload: CreateOrderPayload): Promise<{ success: boolean; error?: string; approval_required?: boolean; order_id?: string; order_number?: string }>{
+  const supabase = await createClient()
+
   if (!payload.items || payload.items.length === 0) {
     return { success: false, error: 'No items in order' }
   }
 
-  // Validate stock availability
-  const productIds = Array.from(new Set(payload.items.map((i) => i.product_id)))
-  const { data: productsData, error: productsError } = await supabase
-    .from('products')
-    .select('id, stock')
-    .in('id', productIds)
-
-  if (productsError) {
-    return { success: false, error: productsError.message }
+  if (payload.order_discount) {
+    const { type, value } = payload.order_discount
+    if (!(value >= 0) || (type === 'percentage' && value > 100)) {
+      return { success: false, error: 'Invalid order discount' }
+    }
   }
 
-  const stockMap = new Map<string, number>()
-  for (const p of productsData || []) {
-    stockMap.set(p.id as string, p.stock as number)
-  }
-  for (const item of payload.items) {
-    const available = stockMap.get(item.product_id) ?? 0
-    if (item.quantity > available) {
-      return { success: false, error: `Insufficient stock for product ${item.product_name}` }
-    }
+  const { approval, error: approvalError } = await requestApproval(supabase, payload.approval)
+  if (approvalError) {
+    return { success: false, error: approvalError, approval_required: true }
   }
 
-  // Compute totals
-  const itemsWithSubtotal = payload.items.map((i) => {
-    const subtotal = i.unit_price * i.quantity - (i.discount || 0)
-    return { ...i, subtotal: Math.max(0, subtotal) }
-  })
-  const total_amount = itemsWithSubtotal.reduce((sum, i) => sum + i.subtotal, 0)
-
-  // Create order first and get id
-  const orderNumber = `ORD-${new Date().getFullYear()}-${String(Date.now()).slice(-6)}`
-  const orderRow = {
-    order_number: orderNumber,
-    customer_id: payload.customer_id,
-    total_amount,
-    discount: 0,
-    tax: 0,
-    status: 'completed' as const,
-    payment_status: 'paid' as const,
-    payment_method: payload.payment_method,
-    notes: payload.notes || null,
-  }
-
-  const { data: insertedOrders, error: insertOrderError } = await supabase
-    .from('orders')
-    .insert([orderRow])
-    .select('id, order_number')
-    .limit(1)
-
-  if (insertOrderError || !insertedOrders || insertedOrders.length === 0) {
-    return { success: false, error: insertOrderError?.message || 'Failed to create order' }
-  }
-
-  const order_id = insertedOrders[0].id as string
-
-  // Insert order items
-  const orderItems = itemsWithSubtotal.map((i) => ({
-    order_id,
-    product_id: i.product_id,
-    product_name: i.product_name,
-    quantity: i.quantity,
-    unit_price: i.unit_price,
-    subtotal: i.subtotal,
-  }))
-
-  const { error: itemsError } = await supabase.from('order_items').insert(orderItems)
-  if (itemsError) {
-    return { success: false, error: itemsError.message }
-  }
-
-  // Decrement stock for each product
-  for (const item of payload.items) {
-    const newStock = (stockMap.get(item.product_id) || 0) - item.quantity
-    const { error: updError } = await supabase
-      .from('products')
-      .update({ stock: newStock })
-      .eq('id', item.product_id)
-    if (updError) {
-      return { success: false, error: updError.message }
+  // Pricing, stock validation, order/items insert and stock decrement run in
+  // one transaction inside the database (see create_order_with_items).
+  const { data, error } = await supabase
+    .rpc('create_order_with_items', { p_payload: { ...payload, approval } })
+    .single<{ order_id: string; order_number: string }>()
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: error?.message || 'Failed to create order',
+      approval_required: error?.hint === 'approval_required',
     }
   }
 
   revalidatePath('/admin/orders')
   revalidatePath('/admin/products')
-  return { success: true, order_id, order_number: orderNumber }
+  return { success: true, order_id: data.order_id, order_number: data.order_number }
 }
 
 export async function getCustomersForSelect(): Promise<{ customers: { id: string; name: string; email: string | null }[]; error: string | null }>{
@@ -211,33 +506,114 @@ export async function getCustomersForSelect(): Promise<{ customers: { id: string
   return { customers, error: null }
 }
 
-export async function updateOrder(id: string, formData: FormData) {
+// Adds, removes or re-quantifies lines on an open order, or a completed one
+// still owing money. Stock moves by the difference and the order is repriced
+// inside amend_order_items.
+export async function amendOrderItems(
+  orderId: string,
+  payload: AmendOrderPayload
+): Promise<{ success: boolean; error: string | null; approval_required?: boolean }> {
   const supabase = await createClient()
-  
-  const order = {
-    customer_id: formData.get('customer_id') as string || null,
-    total_amount: parseFloat(formData.get('total_amount') as string),
-    discount: parseFloat(formData.get('discount') as string) || 0,
-    tax: parseFloat(formData.get('tax') as string) || 0,
-    status: formData.get('status') as 'pending' | 'processing' | 'completed' | 'cancelled',
-    payment_status: formData.get('payment_status') as 'unpaid' | 'partial' | 'paid' | 'refunded',
-    payment_method: formData.get('payment_method') as string || null,
-    notes: formData.get('notes') as string || null,
+
+  if (!payload.reason.trim()) {
+    return { success: false, error: 'A reason is required to edit an order' }
   }
-  
-  const { error } = await supabase
-    .from('orders')
-    .update(order)
-    .eq('id', id)
-  
+  if (payload.items.length === 0) {
+    return { success: false, error: 'An order needs at least one item; cancel it instead' }
+  }
+
+  const { approval, error: approvalError } = await requestApproval(supabase, payload.approval)
+  if (approvalError) {
+    return { success: false, error: approvalError, approval_required: true }
+  }
+
+  const { error } = await supabase.rpc('amend_order_items', { p_order_id: orderId, p_payload: { ...payload, approval } })
+
+  if (error) {
+    return { success: false, error: error.message, approval_required: error.hint === 'approval_required' }
+  }
+
+  revalidatePath('/admin/orders')
+  revalidatePath(`/admin/orders/${orderId}`)
+  revalidatePath('/admin/products')
+  return { success: true, error: null }
+}
+
+export async function issueInvoice(orderId: string): Promise<{ invoice_number: string | null; error: string | null }> {
+  const supabase = await createClient()
+
+  // Idempotent: an order that already has an invoice keeps its number
+  const { data, error } = await supabase.rpc('issue_invoice', { p_order_id: orderId })
+
+  if (error) {
+    return { invoice_number: null, error: error.message }
+  }
+
+  revalidatePath(`/admin/orders/${orderId}`)
+  return { invoice_number: data as string, error: null }
+}
+
+// Status only changes through the transition_order_status RPC, which
+// validates the move and records it in the order timeline. Payment status is
+// derived from the payments ledger instead (see app/actions/payments.ts).
+async function transitionOrder(id: string, to: OrderStatus, note?: string) {
+  const supabase = await createClient()
+
+  const { error } = await supabase.rpc('transition_order_status', {
+    p_order_id: id,
+    p_field: 'status',
+    p_to: to,
+    p_note: note || null,
+  })
+
   if (error) {
     return { success: false, error: error.message }
   }
-  
+
   revalidatePath('/admin/orders')
+  revalidatePath(`/admin/orders/${id}`)
+  revalidatePath('/admin/products')
   return { success: true, error: null }
 }
 
+export async function startProcessingOrder(id: string) {
+  return transitionOrder(id, 'processing')
+}
+
+export async function completeOrder(id: string) {
+  return transitionOrder(id, 'completed')
+}
+
+export async function cancelOrder(id: string, reason: string) {
+  if (!reason.trim()) {
+    return { success: false, error: 'A cancellation reason is required' }
+  }
+  return transitionOrder(id, 'cancelled', reason.trim())
+}
+
+// Voiding keeps the order and its history but takes it out of revenue and
+// puts its stock back (see void_order)
+export async function voidOrder(id: string, reason: string) {
+  const supabase = await createClient()
+
+  if (!reason.trim()) {
+    return { success: false, error: 'A reason is required to void an order' }
+  }
+
+  const { error } = await supabase.rpc('void_order', { p_order_id: id, p_reason: reason.trim() })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/orders')
+  revalidatePath(`/admin/orders/${id}`)
+  revalidatePath('/admin/products')
+  return { success: true, error: null }
+}
+
+// Only administrators may delete, and only draft orders (pending, unpaid,
+// uninvoiced); the database refuses anything else. Everything else is voided.
 export async function deleteOrder(id: string) {
   const supabase = await createClient()
   
@@ -251,5 +627,6 @@ export async function deleteOrder(id: string) {
   }
   
   revalidatePath('/admin/orders')
+  revalidatePath('/admin/products')
   return { success: true, error: null }
 }
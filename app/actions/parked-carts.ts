@@ -0,0 +1,110 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import type { OrderDiscountInput } from '@/lib/pricing'
+
+export type ParkedCartItem = {
+  product_id: string
+  // Carts parked before units existed have no unit_id
+  unit_id?: string | null
+  quantity: number
+  unit_price: number
+  price_override: boolean
+  discount: number
+}
+
+export type ParkedCartInput = {
+  label: string
+  customer_id: string | null
+  items: ParkedCartItem[]
+  notes: string | null
+  order_discount: OrderDiscountInput | null
+  promo_code: string | null
+  total_amount: number
+}
+
+export type ParkedCart = ParkedCartInput & {
+  id: string
+  item_count: number
+  parked_by: string | null
+  created_at: string
+  expires_at: string
+  customers: { id: string; name: string } | null
+}
+
+export async function getParkedCarts(): Promise<{ parkedCarts: ParkedCart[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('parked_carts')
+    .select('*, customers (id, name)')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching parked carts:', error)
+    return { parkedCarts: [], error: error.message }
+  }
+  return { parkedCarts: data as ParkedCart[], error: null }
+}
+
+export async function parkCart(input: ParkedCartInput) {
+  const supabase = await createClient()
+
+  if (!input.label.trim()) {
+    return { success: false, error: 'A label is required to park a cart' }
+  }
+  if (input.items.length === 0) {
+    return { success: false, error: 'Cannot park an empty cart' }
+  }
+
+  // Expired carts are never resumed, so clear them out while we are here
+  await supabase
+    .from('parked_carts')
+    .delete()
+    .lte('expires_at', new Date().toISOString())
+
+  const { error } = await supabase
+    .from('parked_carts')
+    .insert([{
+      ...input,
+      label: input.label.trim(),
+      item_count: input.items.reduce((sum, item) => sum + item.quantity, 0),
+    }])
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  return { success: true, error: null }
+}
+
+// Taking the cart removes it, so a second terminal gets "no longer available"
+export async function resumeParkedCart(id: string): Promise<{ parkedCart: ParkedCart | null; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('parked_carts')
+    .delete()
+    .eq('id', id)
+    .gt('expires_at', new Date().toISOString())
+    .select('*, customers (id, name)')
+
+  if (error) {
+    return { parkedCart: null, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { parkedCart: null, error: 'This cart has already been resumed or has expired' }
+  }
+  return { parkedCart: data[0] as ParkedCart, error: null }
+}
+
+export async function deleteParkedCart(id: string) {
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('parked_carts')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  return { success: true, error: null }
+}
@@ -0,0 +1,76 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+
+export type Payment = {
+  id: string
+  order_id: string
+  method: string
+  amount: number
+  reference: string | null
+  received_by: string | null
+  created_at: string
+}
+
+export type PaymentInput = {
+  method: string
+  amount: number
+  reference?: string | null
+}
+
+export type CustomerBalance = {
+  customer_id: string
+  name: string
+  open_orders: number
+  // Net of returned goods taken off unpaid balances
+  total_billed: number
+  total_paid: number
+  outstanding: number
+}
+
+export async function recordPayment(orderId: string, input: PaymentInput) {
+  const supabase = await createClient()
+
+  if (!input.method) {
+    return { success: false, error: 'Payment method is required' }
+  }
+  if (!(input.amount > 0)) {
+    return { success: false, error: 'Payment amount must be greater than zero' }
+  }
+
+  // The ledger trigger validates the balance and updates the order's payment status
+  const { error } = await supabase
+    .from('payments')
+    .insert([{
+      order_id: orderId,
+      method: input.method,
+      amount: Math.round(input.amount),
+      reference: input.reference || null,
+    }])
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/orders')
+  revalidatePath(`/admin/orders/${orderId}`)
+  revalidatePath('/admin/customers')
+  return { success: true, error: null }
+}
+
+export async function getCustomerBalances(): Promise<{ balances: CustomerBalance[]; error: string | null }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('customer_balances')
+    .select('*')
+    .order('outstanding', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching customer balances:', error)
+    return { balances: [], error: error.message }
+  }
+
+  return { balances: data as CustomerBalance[], error: null }
+}
@@ -8,51 +8,126 @@ export type Product = {
   name: string
   description: string | null
   category_id: string | null
-  category_name?: string
+  category_name?: string | null
+  category_tax_rate_id?: string | null
   sku: string
+  barcodes: string[]
   price: number
   cost: number | null
   stock: number
+  quarantine_stock: number
   min_stock: number
+  // Base unit; stock is always counted in it
   unit: string
+  tax_rate_id: string | null
   status: 'active' | 'inactive' | 'discontinued'
+  // Set on a pack size or flavour of another product
+  parent_id: string | null
+  variant_name: string | null
+  units: ProductUnit[]
+  // Lots on record, earliest expiry first
+  batches: ProductBatch[]
   created_at: string
   updated_at: string
 }
 
+// A larger unit made of `factor` base units, e.g. a strip of 10 tablets
+export type ProductUnit = {
+  id: string
+  product_id: string
+  name: string
+  factor: number
+  // Null sells at factor x the product price
+  price: number | null
+  sellable: boolean
+  is_purchase_unit: boolean
+  is_stock_unit: boolean
+}
+
+// A lot of the product; quantity is the sellable stock known to come from it
+export type ProductBatch = {
+  id: string
+  product_id: string
+  lot_number: string
+  expiry_date: string
+  quantity: number
+  created_at: string
+  updated_at: string
+}
+
+export type ProductUnitInput = Omit<ProductUnit, 'id' | 'product_id'> & {
+  id?: string
+}
+
 export type ProductWithCategory = Product & {
   categories: {
     id: string
     name: string
+    tax_rate_id: string | null
   } | null
 }
 
+const NOT_ALLOWED_ERROR = 'Only supervisors and admins can change products'
+
+const PRODUCT_SELECT = `
+  *,
+  categories (id, name, tax_rate_id),
+  product_units (*),
+  product_batches (*)
+`
+
+type ProductRow = Omit<Product, 'category_name' | 'category_tax_rate_id' | 'units' | 'batches'> & {
+  categories: { name: string; tax_rate_id: string | null } | null
+  product_units: ProductUnit[] | null
+  product_batches: ProductBatch[] | null
+}
+
+// Transform the data to match the Product type
+function toProduct({ product_units, product_batches, ...product }: ProductRow): Product {
+  return {
+    ...product,
+    category_id: product.category_id,
+    category_name: product.categories?.name || null,
+    category_tax_rate_id: product.categories?.tax_rate_id || null,
+    units: (product_units || []).sort((a, b) => a.factor - b.factor),
+    batches: (product_batches || []).sort((a, b) => a.expiry_date.localeCompare(b.expiry_date))
+  }
+}
+
 export async function getProducts() {
   const supabase = await createClient()
   
   const { data, error } = await supabase
     .from('products')
-    .select(`
-      *,
-      categories (id, name)
-    `)
+    .select(PRODUCT_SELECT)
     .order('created_at', { ascending: false })
+    .overrideTypes<ProductRow[], { merge: false }>()
   
   if (error) {
     console.error('Error fetching products:', error)
     return { products: [], error: error.message }
   }
   
-  // Transform the data to match the Product type
-  const products = data.map(product => ({
-    ...product,
-    category_id: product.category_id,
-    category_name: product.categories?.name || null
-  }))
+  const products = data.map(toProduct)
   
   return { products, error: null }
 }
 
+export async function getProduct(id: string): Promise<{ product: Product | null; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('products')
+    .select(PRODUCT_SELECT)
+    .eq('id', id)
+    .maybeSingle<ProductRow>()
+
+  if (error) {
+    console.error('Error fetching product:', error)
+    return { product: null, error: error.message }
+  }
+  return { product: data ? toProduct(data) : null, error: null }
+}
+
 export async function getCategoriesForSelect() {
   const supabase = await createClient()
   const { data, error } = await supabase
@@ -68,6 +143,84 @@ export async function getCategoriesForSelect() {
   return { categories: data, error: null }
 }
 
+// One barcode per line (or comma separated), as typed or scanned into the form
+function readBarcodes(formData: FormData) {
+  const value = formData.get('barcodes') as string || ''
+  return Array.from(new Set(value.split(/[\n,]/).map((b) => b.trim()).filter(Boolean)))
+}
+
+// 'default' leaves the product on its category or store rate
+function readTaxRateId(formData: FormData) {
+  const value = formData.get('tax_rate_id') as string
+  return value && value !== 'default' ? value : null
+}
+
+// 'none' keeps the product on its own rather than as a variant
+function readParentId(formData: FormData) {
+  const value = formData.get('parent_id') as string
+  return value && value !== 'none' ? value : null
+}
+
+// Unit rows are edited as a list in the form and posted as JSON
+function readUnits(formData: FormData): { units: ProductUnitInput[]; error: string | null } {
+  const value = formData.get('units') as string
+  if (!value) {
+    return { units: [], error: null }
+  }
+  try {
+    const units = JSON.parse(value)
+    return Array.isArray(units) ? { units, error: null } : { units: [], error: 'Units could not be read' }
+  } catch {
+    return { units: [], error: 'Units could not be read' }
+  }
+}
+
+function validateUnits(units: ProductUnitInput[]) {
+  if (units.some((unit) => !unit.name.trim() || !Number.isInteger(unit.factor) || unit.factor <= 1)) {
+    return 'Each unit needs a name and a whole number of base units greater than 1'
+  }
+  const names = units.map((unit) => unit.name.trim().toLowerCase())
+  if (new Set(names).size !== names.length) {
+    return 'Unit names must be unique'
+  }
+  if (units.filter((unit) => unit.is_purchase_unit).length > 1 || units.filter((unit) => unit.is_stock_unit).length > 1) {
+    return 'Only one unit can be used for purchasing and one for counting stock'
+  }
+  return null
+}
+
+// Units left out of the form are removed; the others are updated or added.
+// Roles are cleared first so moving "purchase" or "stock" to another unit
+// does not trip the one-per-product indexes halfway through.
+async function saveProductUnits(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  productId: string,
+  units: ProductUnitInput[]
+) {
+  const keptIds = units.flatMap((unit) => (unit.id ? [unit.id] : []))
+
+  let removed = supabase.from('product_units').delete().eq('product_id', productId)
+  if (keptIds.length > 0) removed = removed.not('id', 'in', `(${keptIds.join(',')})`)
+  const { error: deleteError } = await removed
+  if (deleteError) return deleteError.message
+
+  const { error: resetError } = await supabase
+    .from('product_units')
+    .update({ is_purchase_unit: false, is_stock_unit: false })
+    .eq('product_id', productId)
+  if (resetError) return resetError.message
+
+  for (const { id, ...unit } of units) {
+    const row = { ...unit, name: unit.name.trim(), product_id: productId }
+    const { error } = id
+      ? await supabase.from('product_units').update(row).eq('id', id)
+      : await supabase.from('product_units').insert(row)
+    if (error) return error.message
+  }
+
+  return null
+}
+
 export async function createProduct(formData: FormData) {
   const supabase = await createClient()
   const sku = formData.get('sku') as string
@@ -90,18 +243,35 @@ export async function createProduct(formData: FormData) {
     sku: sku,
     price: parseFloat(formData.get('price') as string),
     cost: formData.get('cost') ? parseFloat(formData.get('cost') as string) : null,
-    stock: parseInt(formData.get('stock') as string) || 0,
     min_stock: parseInt(formData.get('min_stock') as string) || 0,
     unit: formData.get('unit') as string || 'unit',
+    tax_rate_id: readTaxRateId(formData),
+    barcodes: readBarcodes(formData),
     status: formData.get('status') as 'active' | 'inactive' | 'discontinued' || 'active',
+    parent_id: readParentId(formData),
+    variant_name: (formData.get('variant_name') as string)?.trim() || null,
+  }
+
+  const { units, error: readError } = readUnits(formData)
+  if (readError) {
+    return { success: false, error: readError }
+  }
+  const unitsError = validateUnits(units)
+  if (unitsError) {
+    return { success: false, error: unitsError }
   }
   
-  const { error } = await supabase
-    .from('products')
-    .insert([product])
+  // One transaction, so a failed unit or opening stock leaves no product behind
+  const { error } = await supabase.rpc('create_product', {
+    p_payload: {
+      ...product,
+      units: units.map((unit) => ({ ...unit, name: unit.name.trim() })),
+      opening_stock: parseInt(formData.get('stock') as string) || 0,
+    },
+  })
   
   if (error) {
-    return { success: false, error: error.message }
+    return { success: false, error: error.code === '42501' ? NOT_ALLOWED_ERROR : error.message }
   }
   
   revalidatePath('/admin/products')
@@ -118,20 +288,42 @@ export async function updateProduct(id: string, formData: FormData) {
     sku: formData.get('sku') as string,
     price: parseFloat(formData.get('price') as string),
     cost: formData.get('cost') ? parseFloat(formData.get('cost') as string) : null,
-    stock: parseInt(formData.get('stock') as string),
     min_stock: parseInt(formData.get('min_stock') as string),
     unit: formData.get('unit') as string || 'unit',
+    tax_rate_id: readTaxRateId(formData),
+    barcodes: readBarcodes(formData),
     status: formData.get('status') as 'active' | 'inactive' | 'discontinued',
+    parent_id: readParentId(formData),
+    variant_name: (formData.get('variant_name') as string)?.trim() || null,
+  }
+
+  const { units, error: readError } = readUnits(formData)
+  if (readError) {
+    return { success: false, error: readError }
+  }
+  const unitsError = validateUnits(units)
+  if (unitsError) {
+    return { success: false, error: unitsError }
   }
   
-  const { error } = await supabase
+  const { data: updated, error } = await supabase
     .from('products')
     .update(product)
     .eq('id', id)
+    .select('id')
   
   if (error) {
     return { success: false, error: error.message }
   }
+  // Row level security skips the row rather than failing for other staff
+  if (!updated?.length) {
+    return { success: false, error: NOT_ALLOWED_ERROR }
+  }
+
+  const saveError = await saveProductUnits(supabase, id, units)
+  if (saveError) {
+    return { success: false, error: saveError }
+  }
   
   revalidatePath('/admin/products')
   return { success: true, error: null }
@@ -140,14 +332,18 @@ export async function updateProduct(id: string, formData: FormData) {
 export async function deleteProduct(id: string) {
   const supabase = await createClient()
   
-  const { error } = await supabase
+  const { data: deleted, error } = await supabase
     .from('products')
     .delete()
     .eq('id', id)
+    .select('id')
   
   if (error) {
     return { success: false, error: error.message }
   }
+  if (!deleted?.length) {
+    return { success: false, error: NOT_ALLOWED_ERROR }
+  }
   
   revalidatePath('/admin/products')
   return { success: true, error: null }
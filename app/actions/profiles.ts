@@ -0,0 +1,74 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+
+export type StaffRole = 'cashier' | 'supervisor' | 'admin'
+
+export type Profile = {
+  id: string
+  email: string | null
+  full_name: string | null
+  role: StaffRole
+  created_at: string
+  updated_at: string
+}
+
+export async function getCurrentProfile(): Promise<Profile | null> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  return data as Profile | null
+}
+
+export async function getProfiles(): Promise<{ profiles: Profile[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .order('full_name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching profiles:', error)
+    return { profiles: [], error: error.message }
+  }
+  return { profiles: data as Profile[], error: null }
+}
+
+export async function updateProfileRole(id: string, role: StaffRole) {
+  const supabase = await createClient()
+
+  // RLS only lets admins update profiles; a silent no-op means permission was denied
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ role })
+    .eq('id', id)
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only admins can change staff roles' }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function setApprovalPin(pin: string) {
+  const supabase = await createClient()
+  const { error } = await supabase.rpc('set_approval_pin', { p_pin: pin })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  return { success: true, error: null }
+}
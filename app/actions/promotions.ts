@@ -0,0 +1,323 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { isWithinDates, type DiscountType } from '@/lib/pricing'
+
+export type PromoCode = {
+  id: string
+  code: string
+  description: string | null
+  discount_type: DiscountType
+  value: number
+  min_order_amount: number
+  starts_on: string | null
+  ends_on: string | null
+  usage_limit: number | null
+  times_used: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type PriceRuleType = 'buy_x_get_y' | 'percentage'
+
+export type PriceRule = {
+  id: string
+  name: string
+  rule_type: PriceRuleType
+  product_id: string | null
+  category_id: string | null
+  buy_quantity: number | null
+  free_quantity: number | null
+  percentage: number | null
+  starts_on: string | null
+  ends_on: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type PriceRuleWithTarget = PriceRule & {
+  products: { id: string; name: string } | null
+  categories: { id: string; name: string } | null
+}
+
+// NUMERIC columns come back from PostgREST as strings
+type PromoCodeRow = Omit<PromoCode, 'value'> & { value: string }
+
+type PriceRuleRow<T extends PriceRule = PriceRule> = Omit<T, 'percentage'> & { percentage: string | null }
+
+function toPromoCode(row: PromoCodeRow): PromoCode {
+  return { ...row, value: Number(row.value) }
+}
+
+function toPriceRule<T extends PriceRule>(row: PriceRuleRow<T>): T {
+  return { ...row, percentage: row.percentage === null ? null : Number(row.percentage) } as T
+}
+
+function readDate(formData: FormData, key: string) {
+  return (formData.get(key) as string) || null
+}
+
+function readPromoCode(formData: FormData) {
+  const usageLimit = formData.get('usage_limit') as string
+  return {
+    code: ((formData.get('code') as string) || '').trim().toUpperCase(),
+    description: formData.get('description') as string || null,
+    discount_type: formData.get('discount_type') as DiscountType,
+    value: parseFloat(formData.get('value') as string) || 0,
+    min_order_amount: parseInt(formData.get('min_order_amount') as string) || 0,
+    starts_on: readDate(formData, 'starts_on'),
+    ends_on: readDate(formData, 'ends_on'),
+    usage_limit: usageLimit ? parseInt(usageLimit) : null,
+    is_active: formData.get('is_active') !== 'false',
+  }
+}
+
+function validatePromoCodeInput(promo: ReturnType<typeof readPromoCode>) {
+  if (!promo.code) return 'Code is required'
+  if (promo.discount_type !== 'percentage' && promo.discount_type !== 'fixed') return 'Discount type is required'
+  if (promo.value <= 0) return 'Discount value must be greater than zero'
+  if (promo.discount_type === 'percentage' && promo.value > 100) return 'Percentage cannot exceed 100'
+  if (promo.starts_on && promo.ends_on && promo.ends_on < promo.starts_on) return 'End date must be after start date'
+  return null
+}
+
+export async function getPromoCodes(): Promise<{ promoCodes: PromoCode[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .overrideTypes<PromoCodeRow[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching promo codes:', error)
+    return { promoCodes: [], error: error.message }
+  }
+  return { promoCodes: data.map(toPromoCode), error: null }
+}
+
+export async function createPromoCode(formData: FormData) {
+  const supabase = await createClient()
+  const promo = readPromoCode(formData)
+
+  const invalid = validatePromoCodeInput(promo)
+  if (invalid) {
+    return { success: false, error: invalid }
+  }
+
+  const { error } = await supabase
+    .from('promo_codes')
+    .insert([promo])
+
+  if (error) {
+    return { success: false, error: error.code === '23505' ? 'Promo code already exists' : error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  return { success: true, error: null }
+}
+
+export async function updatePromoCode(id: string, formData: FormData) {
+  const supabase = await createClient()
+  const promo = readPromoCode(formData)
+
+  const invalid = validatePromoCodeInput(promo)
+  if (invalid) {
+    return { success: false, error: invalid }
+  }
+
+  const { error } = await supabase
+    .from('promo_codes')
+    .update(promo)
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.code === '23505' ? 'Promo code already exists' : error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  return { success: true, error: null }
+}
+
+export async function deletePromoCode(id: string) {
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('promo_codes')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  return { success: true, error: null }
+}
+
+// Preview only: checkout re-validates the code and counts the redemption
+export async function validatePromoCode(code: string): Promise<{ promoCode: PromoCode | null; error: string | null }> {
+  const supabase = await createClient()
+  const normalized = code.trim().toUpperCase()
+
+  if (!normalized) {
+    return { promoCode: null, error: 'Enter a promo code' }
+  }
+
+  const { data, error } = await supabase
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalized)
+    .maybeSingle<PromoCodeRow>()
+
+  if (error) {
+    return { promoCode: null, error: error.message }
+  }
+  if (!data) {
+    return { promoCode: null, error: `Promo code ${normalized} not found` }
+  }
+
+  const promo = toPromoCode(data)
+  if (!promo.is_active || !isWithinDates(promo.starts_on, promo.ends_on)) {
+    return { promoCode: null, error: `Promo code ${normalized} is not valid today` }
+  }
+  if (promo.usage_limit !== null && promo.times_used >= promo.usage_limit) {
+    return { promoCode: null, error: `Promo code ${normalized} has reached its usage limit` }
+  }
+
+  return { promoCode: promo, error: null }
+}
+
+function readPriceRule(formData: FormData) {
+  const ruleType = formData.get('rule_type') as PriceRuleType
+  const target = formData.get('target') as string
+  const targetId = formData.get('target_id') as string
+
+  return {
+    name: ((formData.get('name') as string) || '').trim(),
+    rule_type: ruleType,
+    product_id: target === 'product' && targetId ? targetId : null,
+    category_id: target === 'category' && targetId ? targetId : null,
+    buy_quantity: ruleType === 'buy_x_get_y' ? parseInt(formData.get('buy_quantity') as string) || null : null,
+    free_quantity: ruleType === 'buy_x_get_y' ? parseInt(formData.get('free_quantity') as string) || null : null,
+    percentage: ruleType === 'percentage' ? parseFloat(formData.get('percentage') as string) || null : null,
+    starts_on: readDate(formData, 'starts_on'),
+    ends_on: readDate(formData, 'ends_on'),
+    is_active: formData.get('is_active') !== 'false',
+  }
+}
+
+function validatePriceRuleInput(rule: ReturnType<typeof readPriceRule>) {
+  if (!rule.name) return 'Name is required'
+  if (!rule.product_id && !rule.category_id) return 'Choose a product or category'
+  if (rule.rule_type === 'buy_x_get_y' && (!rule.buy_quantity || !rule.free_quantity)) {
+    return 'Buy and free quantities are required'
+  }
+  if (rule.rule_type === 'percentage' && (!rule.percentage || rule.percentage > 100)) {
+    return 'Percentage must be between 0 and 100'
+  }
+  if (rule.starts_on && rule.ends_on && rule.ends_on < rule.starts_on) return 'End date must be after start date'
+  return null
+}
+
+export async function getPriceRules(): Promise<{ priceRules: PriceRuleWithTarget[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('price_rules')
+    .select(`
+      *,
+      products (id, name),
+      categories (id, name)
+    `)
+    .order('created_at', { ascending: false })
+    .overrideTypes<PriceRuleRow<PriceRuleWithTarget>[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching price rules:', error)
+    return { priceRules: [], error: error.message }
+  }
+  return { priceRules: data.map(toPriceRule), error: null }
+}
+
+export async function getActivePriceRules(): Promise<{ priceRules: PriceRule[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('price_rules')
+    .select('*')
+    .eq('is_active', true)
+    .overrideTypes<PriceRuleRow[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching price rules:', error)
+    return { priceRules: [], error: error.message }
+  }
+  return {
+    priceRules: data
+      .map(toPriceRule)
+      .filter((rule) => isWithinDates(rule.starts_on, rule.ends_on)),
+    error: null,
+  }
+}
+
+export async function createPriceRule(formData: FormData) {
+  const supabase = await createClient()
+  const rule = readPriceRule(formData)
+
+  const invalid = validatePriceRuleInput(rule)
+  if (invalid) {
+    return { success: false, error: invalid }
+  }
+
+  const { error } = await supabase
+    .from('price_rules')
+    .insert([rule])
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  revalidatePath('/admin/orders/new')
+  return { success: true, error: null }
+}
+
+export async function updatePriceRule(id: string, formData: FormData) {
+  const supabase = await createClient()
+  const rule = readPriceRule(formData)
+
+  const invalid = validatePriceRuleInput(rule)
+  if (invalid) {
+    return { success: false, error: invalid }
+  }
+
+  const { error } = await supabase
+    .from('price_rules')
+    .update(rule)
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  revalidatePath('/admin/orders/new')
+  return { success: true, error: null }
+}
+
+export async function deletePriceRule(id: string) {
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('price_rules')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/promotions')
+  revalidatePath('/admin/orders/new')
+  return { success: true, error: null }
+}
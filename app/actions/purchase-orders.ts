@@ -0,0 +1,308 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { StockMovement } from '@/app/actions/stock'
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled'
+
+export type PurchaseOrder = {
+  id: string
+  po_number: string
+  supplier_id: string
+  status: PurchaseOrderStatus
+  expected_date: string | null
+  total_amount: number
+  notes: string | null
+  sent_at: string | null
+  received_at: string | null
+  cancelled_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PurchaseOrderItem = {
+  id: string
+  purchase_order_id: string
+  product_id: string | null
+  product_name: string
+  // The unit bought in; null is the product's base unit
+  unit_name: string | null
+  unit_factor: number
+  // Both in the unit bought in
+  quantity: number
+  received_quantity: number
+  // Agreed cost of one unit bought in
+  unit_cost: number
+  subtotal: number
+  position: number
+}
+
+export type PurchaseOrderWithSupplier = PurchaseOrder & {
+  suppliers: { id: string; name: string } | null
+}
+
+export type PurchaseOrderDetail = PurchaseOrder & {
+  suppliers: {
+    id: string
+    name: string
+    contact_person: string | null
+    email: string | null
+    phone: string | null
+    address: string | null
+  } | null
+  purchase_order_items: (PurchaseOrderItem & { products: { unit: string } | null })[]
+}
+
+// A delivery booked against the order, one movement per line received
+export type PurchaseReceipt = StockMovement & {
+  products: { name: string; unit: string } | null
+  batch: { lot_number: string; expiry_date: string } | null
+  creator: { full_name: string | null; email: string | null } | null
+}
+
+export type PurchaseOrderItemInput = {
+  product_id: string
+  // Null buys in the base unit
+  unit_id: string | null
+  quantity: number
+  unit_cost: number
+}
+
+export type PurchaseOrderInput = {
+  supplier_id: string
+  expected_date: string | null
+  notes: string | null
+  items: PurchaseOrderItemInput[]
+}
+
+export type ReceivePurchaseOrderInput = {
+  // The supplier's delivery note
+  reference_number: string | null
+  items: {
+    id: string
+    quantity: number
+    lot_number: string | null
+    expiry_date: string | null
+  }[]
+}
+
+export async function getPurchaseOrders(): Promise<{ purchaseOrders: PurchaseOrderWithSupplier[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, suppliers (id, name)')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching purchase orders:', error)
+    return { purchaseOrders: [], error: error.message }
+  }
+  return { purchaseOrders: data as PurchaseOrderWithSupplier[], error: null }
+}
+
+export async function getPurchaseOrder(id: string): Promise<{ purchaseOrder: PurchaseOrderDetail | null; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(`
+      *,
+      suppliers (
+        id,
+        name,
+        contact_person,
+        email,
+        phone,
+        address
+      ),
+      purchase_order_items (*, products (unit))
+    `)
+    .eq('id', id)
+    .order('position', { referencedTable: 'purchase_order_items', ascending: true })
+    .single()
+
+  if (error) {
+    return { purchaseOrder: null, error: error.message }
+  }
+  return { purchaseOrder: data as PurchaseOrderDetail, error: null }
+}
+
+export async function getPurchaseReceipts(id: string): Promise<{ receipts: PurchaseReceipt[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*, products (name, unit), batch:product_batches (lot_number, expiry_date), creator:profiles (full_name, email)')
+    .eq('reference_type', 'purchase_order')
+    .eq('reference_id', id)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching purchase receipts:', error)
+    return { receipts: [], error: error.message }
+  }
+  return { receipts: data as PurchaseReceipt[], error: null }
+}
+
+// The product fields savePurchaseOrder snapshots onto a line
+type PurchasedProductRow = {
+  id: string
+  name: string
+  product_units: { id: string; name: string; factor: number }[]
+}
+
+// Lines keep the product name and unit as ordered, so renaming a product or
+// changing its units later does not change the document sent to the supplier
+export async function savePurchaseOrder(
+  id: string | null,
+  input: PurchaseOrderInput
+): Promise<{ success: boolean; error: string | null; purchase_order_id?: string }> {
+  const supabase = await createClient()
+
+  if (!input.supplier_id) {
+    return { success: false, error: 'Supplier is required' }
+  }
+  if (input.items.length === 0) {
+    return { success: false, error: 'A purchase order needs at least one item' }
+  }
+  if (input.items.some((item) => !(Number.isInteger(item.quantity) && item.quantity > 0) || !(item.unit_cost >= 0))) {
+    return { success: false, error: 'Invalid quantity or cost' }
+  }
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, name, product_units (id, name, factor)')
+    .in('id', input.items.map((item) => item.product_id))
+    .overrideTypes<PurchasedProductRow[], { merge: false }>()
+
+  if (productsError) {
+    return { success: false, error: productsError.message }
+  }
+
+  const items = []
+  for (const item of input.items) {
+    const product = (products || []).find((p) => p.id === item.product_id)
+    if (!product) {
+      return { success: false, error: 'One of the products no longer exists' }
+    }
+    const unit = item.unit_id ? product.product_units.find((u) => u.id === item.unit_id) : null
+    if (item.unit_id && !unit) {
+      return { success: false, error: `The unit chosen for ${product.name} no longer exists` }
+    }
+    items.push({
+      product_id: product.id,
+      product_name: product.name,
+      unit_name: unit?.name ?? null,
+      unit_factor: unit?.factor ?? 1,
+      quantity: item.quantity,
+      unit_cost: Math.round(item.unit_cost),
+    })
+  }
+
+  const { data, error } = await supabase.rpc('save_purchase_order', {
+    p_purchase_order_id: id,
+    p_payload: {
+      supplier_id: input.supplier_id,
+      expected_date: input.expected_date,
+      notes: input.notes,
+      items,
+    },
+  })
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to save purchase order' }
+  }
+
+  revalidatePath('/admin/purchases')
+  return { success: true, error: null, purchase_order_id: data as string }
+}
+
+export async function markPurchaseOrderSent(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only a draft purchase order can be marked as sent' }
+  }
+
+  revalidatePath('/admin/purchases')
+  return { success: true, error: null }
+}
+
+// Once anything has been received the order stays on record; it can only be
+// cancelled before the first delivery
+export async function cancelPurchaseOrder(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ['draft', 'sent'])
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only a purchase order with nothing received can be cancelled' }
+  }
+
+  revalidatePath('/admin/purchases')
+  return { success: true, error: null }
+}
+
+export async function deletePurchaseOrder(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .delete()
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only a draft purchase order can be deleted' }
+  }
+
+  revalidatePath('/admin/purchases')
+  return { success: true, error: null }
+}
+
+// Books the delivered quantities into stock as purchase receipts
+export async function receivePurchaseOrder(id: string, input: ReceivePurchaseOrderInput) {
+  const supabase = await createClient()
+
+  if (input.items.some((item) => !(Number.isInteger(item.quantity) && item.quantity >= 0))) {
+    return { success: false, error: 'Received quantities must be whole numbers of zero or more' }
+  }
+  if (!input.items.some((item) => item.quantity > 0)) {
+    return { success: false, error: 'Enter a quantity received for at least one line' }
+  }
+
+  const { error } = await supabase.rpc('receive_purchase_order', {
+    p_purchase_order_id: id,
+    p_payload: input,
+  })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/purchases')
+  revalidatePath(`/admin/purchases/${id}`)
+  revalidatePath('/admin/products')
+  revalidatePath('/admin/expiry')
+  revalidatePath('/admin')
+  return { success: true, error: null }
+}
@@ -0,0 +1,343 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { createOrderWithItems, type CreateOrderPayload } from '@/app/actions/orders'
+import { getTaxContext } from '@/app/actions/settings'
+import { getActivePriceRules } from '@/app/actions/promotions'
+import { priceCart } from '@/lib/pricing'
+import { resolveTaxRate } from '@/lib/tax'
+import type { ApprovalCredentials } from '@/lib/approvals'
+
+export type QuotationStatus = 'draft' | 'sent' | 'accepted' | 'expired'
+
+export type Quotation = {
+  id: string
+  quotation_number: string
+  customer_id: string
+  status: QuotationStatus
+  valid_until: string
+  subtotal: number
+  discount: number
+  tax: number
+  total_amount: number
+  prices_include_tax: boolean
+  notes: string | null
+  order_id: string | null
+  accepted_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type QuotationItem = {
+  id: string
+  quotation_id: string
+  product_id: string | null
+  product_name: string
+  quantity: number
+  list_price: number
+  unit_price: number
+  discount: number
+  tax_rate: number
+  tax_amount: number
+  subtotal: number
+  position: number
+}
+
+export type QuotationWithCustomer = Quotation & {
+  customers: { id: string; name: string } | null
+  orders: { id: string; order_number: string } | null
+}
+
+export type QuotationDetail = Quotation & {
+  customers: {
+    id: string
+    name: string
+    email: string | null
+    phone: string | null
+  } | null
+  orders: { id: string; order_number: string } | null
+  quotation_items: QuotationItem[]
+}
+
+export type QuotationItemInput = {
+  product_id: string
+  quantity: number
+  // A price other than the product's list price is quoted as an override and
+  // needs supervisor approval when the quotation is converted
+  unit_price: number
+  discount: number
+}
+
+export type QuotationInput = {
+  customer_id: string
+  valid_until: string
+  notes: string | null
+  items: QuotationItemInput[]
+}
+
+// Calendar day in UTC, matching CURRENT_DATE in the database
+function today() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+// Open quotations past their validity date are flipped to expired when read
+async function expireQuotations(supabase: Awaited<ReturnType<typeof createClient>>) {
+  await supabase
+    .from('quotations')
+    .update({ status: 'expired' })
+    .in('status', ['draft', 'sent'])
+    .lt('valid_until', today())
+}
+
+export async function getQuotations(): Promise<{ quotations: QuotationWithCustomer[]; error: string | null }> {
+  const supabase = await createClient()
+  await expireQuotations(supabase)
+
+  const { data, error } = await supabase
+    .from('quotations')
+    .select('*, customers (id, name), orders (id, order_number)')
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching quotations:', error)
+    return { quotations: [], error: error.message }
+  }
+  return { quotations: data as QuotationWithCustomer[], error: null }
+}
+
+export async function getQuotation(id: string): Promise<{ quotation: QuotationDetail | null; error: string | null }> {
+  const supabase = await createClient()
+  await expireQuotations(supabase)
+
+  const { data, error } = await supabase
+    .from('quotations')
+    .select(`
+      *,
+      customers (
+        id,
+        name,
+        email,
+        phone
+      ),
+      orders (id, order_number),
+      quotation_items (*)
+    `)
+    .eq('id', id)
+    .order('position', { referencedTable: 'quotation_items', ascending: true })
+    .single()
+
+  if (error) {
+    return { quotation: null, error: error.message }
+  }
+  return { quotation: data as QuotationDetail, error: null }
+}
+
+// The product fields saveQuotation prices a line from
+type QuotedProductRow = {
+  id: string
+  name: string
+  price: number
+  category_id: string | null
+  tax_rate_id: string | null
+  status: string
+  categories: { tax_rate_id: string | null } | null
+}
+
+// Prices the lines the same way the POS cart does, so the quoted total is
+// what checkout would charge today
+export async function saveQuotation(
+  id: string | null,
+  input: QuotationInput
+): Promise<{ success: boolean; error: string | null; quotation_id?: string }> {
+  const supabase = await createClient()
+
+  if (!input.customer_id) {
+    return { success: false, error: 'Customer is required' }
+  }
+  if (!input.valid_until) {
+    return { success: false, error: 'Valid until date is required' }
+  }
+  if (input.valid_until < today()) {
+    return { success: false, error: 'Valid until date cannot be in the past' }
+  }
+  if (input.items.length === 0) {
+    return { success: false, error: 'A quotation needs at least one item' }
+  }
+  if (input.items.some((item) => !(item.quantity > 0) || item.unit_price < 0 || item.discount < 0)) {
+    return { success: false, error: 'Invalid quantity, price or discount' }
+  }
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, name, price, category_id, tax_rate_id, status, categories (tax_rate_id)')
+    .in('id', input.items.map((item) => item.product_id))
+    .overrideTypes<QuotedProductRow[], { merge: false }>()
+
+  if (productsError) {
+    return { success: false, error: productsError.message }
+  }
+
+  const lines = []
+  for (const item of input.items) {
+    const product = (products || []).find((p) => p.id === item.product_id)
+    if (!product || product.status !== 'active') {
+      return { success: false, error: 'One of the products is no longer available' }
+    }
+    lines.push({ item, product })
+  }
+
+  const [tax, { priceRules }] = await Promise.all([getTaxContext(), getActivePriceRules()])
+  const priced = priceCart(
+    lines.map(({ item, product }) => ({
+      product_id: product.id,
+      category_id: product.category_id,
+      list_price: product.price,
+      unit_price: item.unit_price,
+      quantity: item.quantity,
+      manual_discount: item.discount,
+      tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.categories?.tax_rate_id),
+    })),
+    { rules: priceRules, orderDiscount: null, promoCode: null, pricesIncludeTax: tax.pricesIncludeTax }
+  )
+
+  const { data, error } = await supabase.rpc('save_quotation', {
+    p_quotation_id: id,
+    p_payload: {
+      customer_id: input.customer_id,
+      valid_until: input.valid_until,
+      notes: input.notes,
+      subtotal: priced.gross,
+      discount: priced.lineDiscounts,
+      tax: priced.tax,
+      total_amount: priced.total,
+      prices_include_tax: tax.pricesIncludeTax,
+      items: lines.map(({ item, product }, index) => ({
+        product_id: product.id,
+        product_name: product.name,
+        quantity: item.quantity,
+        list_price: product.price,
+        unit_price: item.unit_price,
+        discount: item.discount,
+        tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.categories?.tax_rate_id),
+        tax_amount: priced.lines[index].tax,
+        subtotal: priced.lines[index].subtotal,
+      })),
+    },
+  })
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to save quotation' }
+  }
+
+  revalidatePath('/admin/quotations')
+  return { success: true, error: null, quotation_id: data as string }
+}
+
+export async function markQuotationSent(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('quotations')
+    .update({ status: 'sent' })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only a draft quotation can be marked as sent' }
+  }
+
+  revalidatePath('/admin/quotations')
+  return { success: true, error: null }
+}
+
+export async function deleteQuotation(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('quotations')
+    .delete()
+    .eq('id', id)
+    .neq('status', 'accepted')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'An accepted quotation cannot be deleted' }
+  }
+
+  revalidatePath('/admin/quotations')
+  return { success: true, error: null }
+}
+
+// Goes through the normal checkout, so stock, prices and approval limits are
+// checked as they stand now. The quotation id is the order's client_reference:
+// converting twice returns the order created the first time.
+export async function convertQuotation(
+  id: string,
+  approval?: ApprovalCredentials | null
+): Promise<{ success: boolean; error?: string; approval_required?: boolean; order_id?: string; order_number?: string }> {
+  const supabase = await createClient()
+  const { quotation, error } = await getQuotation(id)
+
+  if (error || !quotation) {
+    return { success: false, error: error || 'Quotation not found' }
+  }
+  if (quotation.status === 'accepted') {
+    return { success: false, error: 'This quotation has already been converted' }
+  }
+  if (quotation.status === 'expired') {
+    return { success: false, error: 'This quotation has expired' }
+  }
+  if (quotation.quotation_items.some((item) => !item.product_id)) {
+    return { success: false, error: 'A product on this quotation has been deleted' }
+  }
+
+  // Lines quoted at list price are charged at today's list price; only a
+  // deliberately changed price is carried over as an override
+  const { data: products } = await supabase
+    .from('products')
+    .select('id, price')
+    .in('id', quotation.quotation_items.map((item) => item.product_id as string))
+
+  const payload: CreateOrderPayload = {
+    customer_id: quotation.customer_id,
+    payments: [],
+    notes: [`Quotation ${quotation.quotation_number}`, quotation.notes].filter(Boolean).join('\n'),
+    approval: approval ?? null,
+    client_reference: quotation.id,
+    items: quotation.quotation_items.map((item) => {
+      const currentPrice = (products || []).find((p) => p.id === item.product_id)?.price ?? item.list_price
+      const overridden = item.unit_price !== item.list_price
+      return {
+        product_id: item.product_id as string,
+        quantity: item.quantity,
+        unit_price: overridden ? item.unit_price : currentPrice,
+        price_override: overridden && item.unit_price !== currentPrice,
+        discount: item.discount,
+      }
+    }),
+  }
+
+  const result = await createOrderWithItems(payload)
+  if (!result.success) {
+    return result
+  }
+
+  const { error: updateError } = await supabase
+    .from('quotations')
+    .update({ status: 'accepted', order_id: result.order_id, accepted_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (updateError) {
+    return { success: false, error: updateError.message }
+  }
+
+  revalidatePath('/admin/quotations')
+  return result
+}
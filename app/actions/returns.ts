@@ -0,0 +1,65 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+
+export type OrderReturnItem = {
+  id: string
+  return_id: string
+  order_item_id: string
+  product_id: string | null
+  quantity: number
+  refund_amount: number
+  created_at: string
+}
+
+export type OrderReturn = {
+  id: string
+  return_number: string
+  order_id: string
+  reason: string
+  restock_to: 'sellable' | 'quarantine'
+  refund_amount: number
+  // Part of the returned value taken off the order's unpaid balance instead
+  credit_amount: number
+  refund_method: string | null
+  created_by: string | null
+  created_at: string
+  order_return_items: OrderReturnItem[]
+}
+
+export type CreateOrderReturnPayload = {
+  order_id: string
+  reason: string
+  restock_to: 'sellable' | 'quarantine'
+  refund_method: string | null
+  // Omit to refund all of the returned value not taken off the unpaid balance
+  refund_amount?: number
+  items: { order_item_id: string; quantity: number }[]
+}
+
+export async function createOrderReturn(payload: CreateOrderReturnPayload): Promise<{ success: boolean; error?: string; return_id?: string; return_number?: string }> {
+  const supabase = await createClient()
+
+  const items = payload.items.filter((i) => i.quantity > 0)
+  if (items.length === 0) {
+    return { success: false, error: 'No items selected for return' }
+  }
+  if (!payload.reason.trim()) {
+    return { success: false, error: 'A return reason is required' }
+  }
+
+  // Quantity checks, restocking and the refund run in one transaction (see create_order_return)
+  const { data, error } = await supabase
+    .rpc('create_order_return', { p_payload: { ...payload, items } })
+    .single<{ return_id: string; return_number: string }>()
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to create return' }
+  }
+
+  revalidatePath('/admin/orders')
+  revalidatePath(`/admin/orders/${payload.order_id}`)
+  revalidatePath('/admin/products')
+  return { success: true, return_id: data.return_id, return_number: data.return_number }
+}
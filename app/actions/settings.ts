@@ -0,0 +1,287 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { TaxContext } from '@/lib/tax'
+import { validateNumberingPattern, type DocumentType } from '@/lib/numbering'
+
+export type TaxRate = {
+  id: string
+  name: string
+  rate: number
+  description: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type StoreSettings = {
+  prices_include_tax: boolean
+  default_tax_rate_id: string | null
+  max_discount_percent: number
+  branch_code: string | null
+  store_name: string
+  address: string | null
+  phone: string | null
+  email: string | null
+  tax_id: string | null
+  receipt_footer: string | null
+  receipt_width: 58 | 80
+  // Lots expiring within these many days are flagged, smallest window first
+  expiry_alert_days: number[]
+  updated_at: string
+}
+
+export type NumberingFormat = {
+  document_type: DocumentType
+  prefix: string
+  pattern: string
+  padding: number
+  per_branch: boolean
+  updated_at: string
+}
+
+export async function getTaxRates(): Promise<{ taxRates: TaxRate[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching tax rates:', error)
+    return { taxRates: [], error: error.message }
+  }
+  return { taxRates: data.map((t) => ({ ...t, rate: Number(t.rate) })) as TaxRate[], error: null }
+}
+
+function readTaxRate(formData: FormData) {
+  return {
+    name: (formData.get('name') as string || '').trim(),
+    rate: parseFloat(formData.get('rate') as string),
+    description: formData.get('description') as string || null,
+  }
+}
+
+export async function createTaxRate(formData: FormData) {
+  const supabase = await createClient()
+  const taxRate = readTaxRate(formData)
+
+  if (!taxRate.name) {
+    return { success: false, error: 'Name is required' }
+  }
+  if (!Number.isFinite(taxRate.rate) || taxRate.rate < 0 || taxRate.rate > 100) {
+    return { success: false, error: 'Rate must be between 0 and 100' }
+  }
+
+  const { error } = await supabase
+    .from('tax_rates')
+    .insert([taxRate])
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function updateTaxRate(id: string, formData: FormData) {
+  const supabase = await createClient()
+  const taxRate = readTaxRate(formData)
+
+  if (!taxRate.name) {
+    return { success: false, error: 'Name is required' }
+  }
+  if (!Number.isFinite(taxRate.rate) || taxRate.rate < 0 || taxRate.rate > 100) {
+    return { success: false, error: 'Rate must be between 0 and 100' }
+  }
+
+  const { error } = await supabase
+    .from('tax_rates')
+    .update(taxRate)
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function deleteTaxRate(id: string) {
+  const supabase = await createClient()
+
+  // Products and categories using this rate fall back to the next level
+  const { error } = await supabase
+    .from('tax_rates')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  revalidatePath('/admin/products')
+  return { success: true, error: null }
+}
+
+export async function getStoreSettings(): Promise<{ settings: StoreSettings | null; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching store settings:', error)
+    return { settings: null, error: error.message }
+  }
+  return {
+    settings: data ? { ...data, max_discount_percent: Number(data.max_discount_percent) } as StoreSettings : null,
+    error: null,
+  }
+}
+
+export async function updateStoreSettings(formData: FormData) {
+  const supabase = await createClient()
+  const defaultTaxRateId = formData.get('default_tax_rate_id') as string
+  const maxDiscountPercent = parseFloat(formData.get('max_discount_percent') as string)
+  const branchCode = (formData.get('branch_code') as string || '').trim().toUpperCase()
+  const expiryAlertDays = Array.from(new Set(
+    (formData.get('expiry_alert_days') as string || '').split(',').map((day) => day.trim()).filter(Boolean).map(Number)
+  )).sort((a, b) => a - b)
+
+  if (!Number.isFinite(maxDiscountPercent) || maxDiscountPercent < 0 || maxDiscountPercent > 100) {
+    return { success: false, error: 'Discount limit must be between 0 and 100' }
+  }
+  if (branchCode && !/^[A-Z0-9]{1,10}$/.test(branchCode)) {
+    return { success: false, error: 'Branch code must be 1 to 10 letters or digits' }
+  }
+  if (expiryAlertDays.length === 0 || expiryAlertDays.length > 5 || expiryAlertDays.some((day) => !Number.isInteger(day) || day <= 0)) {
+    return { success: false, error: 'Expiry alerts need 1 to 5 windows of whole days, e.g. 30, 60, 90' }
+  }
+
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({
+      id: true,
+      prices_include_tax: formData.get('prices_include_tax') === 'true',
+      default_tax_rate_id: defaultTaxRateId && defaultTaxRateId !== 'none' ? defaultTaxRateId : null,
+      max_discount_percent: maxDiscountPercent,
+      branch_code: branchCode || null,
+      expiry_alert_days: expiryAlertDays,
+    })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  revalidatePath('/admin/orders/new')
+  revalidatePath('/admin/expiry')
+  revalidatePath('/admin')
+  return { success: true, error: null }
+}
+
+export async function updateStoreProfile(formData: FormData) {
+  const supabase = await createClient()
+  const profile = {
+    store_name: (formData.get('store_name') as string || '').trim(),
+    address: formData.get('address') as string || null,
+    phone: formData.get('phone') as string || null,
+    email: formData.get('email') as string || null,
+    tax_id: formData.get('tax_id') as string || null,
+    receipt_footer: formData.get('receipt_footer') as string || null,
+    receipt_width: formData.get('receipt_width') === '58' ? 58 : 80,
+  }
+
+  if (!profile.store_name) {
+    return { success: false, error: 'Clinic name is required' }
+  }
+
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({ id: true, ...profile })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function getNumberingFormats(): Promise<{ formats: NumberingFormat[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('document_number_formats')
+    .select('*')
+    .order('document_type', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching numbering formats:', error)
+    return { formats: [], error: error.message }
+  }
+  return { formats: data as NumberingFormat[], error: null }
+}
+
+// Changing a format affects numbers issued from now on; the counters keep running
+export async function updateNumberingFormat(documentType: DocumentType, formData: FormData) {
+  const supabase = await createClient()
+  const format = {
+    prefix: (formData.get('prefix') as string || '').trim().toUpperCase(),
+    pattern: (formData.get('pattern') as string || '').trim(),
+    padding: parseInt(formData.get('padding') as string, 10),
+    per_branch: formData.get('per_branch') === 'true',
+  }
+
+  if (!/^[A-Z0-9/-]*$/.test(format.prefix)) {
+    return { success: false, error: 'Prefix may only contain letters, digits, "-" and "/"' }
+  }
+  if (!Number.isInteger(format.padding) || format.padding < 1 || format.padding > 10) {
+    return { success: false, error: 'Padding must be between 1 and 10 digits' }
+  }
+  const patternError = validateNumberingPattern(format.pattern, format.per_branch)
+  if (patternError) {
+    return { success: false, error: patternError }
+  }
+
+  const { error } = await supabase
+    .from('document_number_formats')
+    .update(format)
+    .eq('document_type', documentType)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function setCategoryTaxRate(categoryId: string, taxRateId: string | null) {
+  const supabase = await createClient()
+  const { error } = await supabase
+    .from('categories')
+    .update({ tax_rate_id: taxRateId })
+    .eq('id', categoryId)
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/settings')
+  return { success: true, error: null }
+}
+
+export async function getTaxContext(): Promise<TaxContext> {
+  const [{ taxRates }, { settings }] = await Promise.all([getTaxRates(), getStoreSettings()])
+
+  return {
+    rates: Object.fromEntries(taxRates.map((t) => [t.id, t.rate])),
+    defaultTaxRateId: settings?.default_tax_rate_id ?? null,
+    pricesIncludeTax: settings?.prices_include_tax ?? true,
+  }
+}
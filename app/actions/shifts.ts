@@ -0,0 +1,203 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+
+export type CashShift = {
+  id: string
+  opened_by: string
+  opened_at: string
+  opening_float: number
+  closed_by: string | null
+  closed_at: string | null
+  counted: Record<string, number> | null
+  expected: Record<string, number> | null
+  notes: string | null
+}
+
+export type CashShiftWithStaff = CashShift & {
+  opener: { full_name: string | null; email: string | null } | null
+  closer: { full_name: string | null; email: string | null } | null
+}
+
+export type CashMovement = {
+  id: string
+  shift_id: string
+  type: 'in' | 'out'
+  amount: number
+  reason: string
+  created_by: string | null
+  created_at: string
+}
+
+// One row per tender, from cash_shift_totals
+export type ShiftTotal = {
+  method: string
+  payments: number
+  refunds: number
+  cash_in: number
+  cash_out: number
+  expected: number
+}
+
+export type ShiftReport = {
+  shift: CashShiftWithStaff
+  movements: CashMovement[]
+  totals: ShiftTotal[]
+  orderCount: number
+  refundCount: number
+}
+
+const SHIFT_SELECT = `
+  *,
+  opener:profiles!cash_shifts_opened_by_fkey (full_name, email),
+  closer:profiles!cash_shifts_closed_by_fkey (full_name, email)
+`
+
+// The open shift of the signed-in user, if any
+export async function getCurrentShift(): Promise<CashShift | null> {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const { data } = await supabase
+    .from('cash_shifts')
+    .select('*')
+    .eq('opened_by', user.id)
+    .is('closed_at', null)
+    .maybeSingle()
+
+  return data as CashShift | null
+}
+
+export async function getShifts(limit = 50): Promise<{ shifts: CashShiftWithStaff[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select(SHIFT_SELECT)
+    .order('opened_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching shifts:', error)
+    return { shifts: [], error: error.message }
+  }
+  return { shifts: data as CashShiftWithStaff[], error: null }
+}
+
+export async function getShiftReport(id: string): Promise<{ report: ShiftReport | null; error: string | null }> {
+  const supabase = await createClient()
+
+  const [shiftResult, movementsResult, totalsResult, paymentsResult, returnsResult] = await Promise.all([
+    supabase.from('cash_shifts').select(SHIFT_SELECT).eq('id', id).maybeSingle(),
+    supabase.from('cash_movements').select('*').eq('shift_id', id).order('created_at', { ascending: true }),
+    supabase.rpc('cash_shift_totals', { p_shift_id: id }),
+    supabase.from('payments').select('order_id').eq('shift_id', id),
+    supabase.from('order_returns').select('id', { count: 'exact', head: true }).eq('shift_id', id),
+  ])
+
+  const error = shiftResult.error || movementsResult.error || totalsResult.error || paymentsResult.error || returnsResult.error
+  if (error) {
+    console.error('Error fetching shift report:', error)
+    return { report: null, error: error.message }
+  }
+  if (!shiftResult.data) {
+    return { report: null, error: 'Shift not found' }
+  }
+
+  return {
+    report: {
+      shift: shiftResult.data as CashShiftWithStaff,
+      movements: (movementsResult.data || []) as CashMovement[],
+      totals: ((totalsResult.data || []) as ShiftTotal[]).map((total) => ({
+        method: total.method,
+        payments: Number(total.payments),
+        refunds: Number(total.refunds),
+        cash_in: Number(total.cash_in),
+        cash_out: Number(total.cash_out),
+        expected: Number(total.expected),
+      })),
+      orderCount: new Set((paymentsResult.data || []).map((p: { order_id: string }) => p.order_id)).size,
+      refundCount: returnsResult.count || 0,
+    },
+    error: null,
+  }
+}
+
+export async function openShift(formData: FormData) {
+  const supabase = await createClient()
+  const openingFloat = Number(formData.get('opening_float') || 0)
+
+  if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+    return { success: false, error: 'Opening float must be zero or more' }
+  }
+
+  const { error } = await supabase
+    .from('cash_shifts')
+    .insert([{ opening_float: Math.round(openingFloat) }])
+
+  if (error) {
+    // idx_cash_shifts_one_open
+    if (error.code === '23505') {
+      return { success: false, error: 'You already have an open shift' }
+    }
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/shifts')
+  revalidatePath('/admin/orders/new')
+  return { success: true, error: null }
+}
+
+export async function recordCashMovement(shiftId: string, formData: FormData) {
+  const supabase = await createClient()
+  const type = formData.get('type') as string
+  const amount = Number(formData.get('amount') || 0)
+  const reason = ((formData.get('reason') as string) || '').trim()
+
+  if (type !== 'in' && type !== 'out') {
+    return { success: false, error: 'Choose cash in or cash out' }
+  }
+  if (!(amount > 0)) {
+    return { success: false, error: 'Amount must be greater than zero' }
+  }
+  if (!reason) {
+    return { success: false, error: 'A reason is required' }
+  }
+
+  const { error } = await supabase
+    .from('cash_movements')
+    .insert([{ shift_id: shiftId, type, amount: Math.round(amount), reason }])
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/shifts')
+  revalidatePath(`/admin/shifts/${shiftId}`)
+  return { success: true, error: null }
+}
+
+// Expected amounts are computed and stored by close_cash_shift at the moment of closing
+export async function closeShift(shiftId: string, counted: Record<string, number>, notes: string | null) {
+  const supabase = await createClient()
+
+  if (Object.values(counted).some((amount) => !Number.isFinite(amount) || amount < 0)) {
+    return { success: false, error: 'Counted amounts must be zero or more' }
+  }
+
+  const { error } = await supabase.rpc('close_cash_shift', {
+    p_shift_id: shiftId,
+    p_counted: Object.fromEntries(Object.entries(counted).map(([method, amount]) => [method, Math.round(amount)])),
+    p_notes: notes,
+  })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/shifts')
+  revalidatePath(`/admin/shifts/${shiftId}`)
+  revalidatePath('/admin/orders/new')
+  return { success: true, error: null }
+}
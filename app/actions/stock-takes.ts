@@ -0,0 +1,214 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { ProductUnit } from '@/app/actions/products'
+import { requestApproval, type ApprovalCredentials } from '@/lib/approvals'
+
+export type StockTakeStatus = 'counting' | 'posted' | 'cancelled'
+
+export type StockTake = {
+  id: string
+  stock_take_number: string
+  status: StockTakeStatus
+  // Null when every product is counted
+  category_id: string | null
+  notes: string | null
+  approved_by: string | null
+  posted_by: string | null
+  posted_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type StockTakeItem = {
+  id: string
+  stock_take_id: string
+  product_id: string
+  // Null for the stock outside any lot
+  batch_id: string | null
+  // Base units on record when the stock take started
+  expected_quantity: number
+  counted_quantity: number | null
+  // How far the stock on record had moved from expected when the count was
+  // saved; negative for sales made in between
+  moved_quantity: number
+  unit_cost: number | null
+  // Cleared in review to leave the variance unposted
+  approved: boolean
+  updated_at: string
+}
+
+export type StockTakeWithStaff = StockTake & {
+  categories: { id: string; name: string } | null
+  creator: { full_name: string | null; email: string | null } | null
+  poster: { full_name: string | null; email: string | null } | null
+}
+
+export type StockTakeItemDetail = StockTakeItem & {
+  products: {
+    id: string
+    name: string
+    variant_name: string | null
+    sku: string
+    barcodes: string[]
+    unit: string
+    product_units: ProductUnit[]
+  } | null
+  product_batches: { lot_number: string; expiry_date: string } | null
+}
+
+export type StockTakeDetail = StockTakeWithStaff & {
+  approver: { full_name: string | null; email: string | null } | null
+  stock_take_items: StockTakeItemDetail[]
+}
+
+export type StockTakeInput = {
+  category_id: string | null
+  notes: string | null
+}
+
+export type StockTakeCount = {
+  id: string
+  counted_quantity: number | null
+  approved: boolean
+}
+
+const STOCK_TAKE_SELECT = `
+  *,
+  categories (id, name),
+  creator:profiles!stock_takes_created_by_fkey (full_name, email),
+  poster:profiles!stock_takes_posted_by_fkey (full_name, email)
+`
+
+export async function getStockTakes(): Promise<{ stockTakes: StockTakeWithStaff[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .select(STOCK_TAKE_SELECT)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching stock takes:', error)
+    return { stockTakes: [], error: error.message }
+  }
+  return { stockTakes: data as StockTakeWithStaff[], error: null }
+}
+
+export async function getStockTake(id: string): Promise<{ stockTake: StockTakeDetail | null; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .select(`
+      ${STOCK_TAKE_SELECT},
+      approver:profiles!stock_takes_approved_by_fkey (full_name, email),
+      stock_take_items (
+        *,
+        products (id, name, variant_name, sku, barcodes, unit, product_units (*)),
+        product_batches (lot_number, expiry_date)
+      )
+    `)
+    .eq('id', id)
+    .single()
+
+  if (error) {
+    return { stockTake: null, error: error.message }
+  }
+
+  // Product by product, lots by expiry and the stock outside lots last
+  const stockTake = data as StockTakeDetail
+  stockTake.stock_take_items.sort(
+    (a, b) =>
+      (a.products?.name || '').localeCompare(b.products?.name || '') ||
+      a.product_id.localeCompare(b.product_id) ||
+      (a.product_batches?.expiry_date || '9999-12-31').localeCompare(b.product_batches?.expiry_date || '9999-12-31')
+  )
+  return { stockTake, error: null }
+}
+
+// Snapshots the expected stock of every active product in scope
+export async function startStockTake(
+  input: StockTakeInput
+): Promise<{ success: boolean; error: string | null; stock_take_id?: string }> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.rpc('start_stock_take', { p_payload: input })
+
+  if (error || !data) {
+    return { success: false, error: error?.message || 'Failed to start stock take' }
+  }
+
+  revalidatePath('/admin/stock-takes')
+  return { success: true, error: null, stock_take_id: data as string }
+}
+
+export async function saveStockTakeCounts(id: string, counts: StockTakeCount[]) {
+  const supabase = await createClient()
+
+  if (counts.some((count) => count.counted_quantity !== null && !(Number.isInteger(count.counted_quantity) && count.counted_quantity >= 0))) {
+    return { success: false, error: 'Counted quantities must be whole numbers of zero or more' }
+  }
+
+  const { error } = await supabase.rpc('save_stock_take_counts', {
+    p_stock_take_id: id,
+    p_payload: { items: counts },
+  })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath(`/admin/stock-takes/${id}`)
+  return { success: true, error: null }
+}
+
+// Books each approved variance as an adjustment; the counts must be saved first
+export async function postStockTake(
+  id: string,
+  credentials?: ApprovalCredentials | null
+): Promise<{ success: boolean; error: string | null; approval_required?: boolean }> {
+  const supabase = await createClient()
+
+  const { approval, error: approvalError } = await requestApproval(supabase, credentials)
+  if (approvalError) {
+    return { success: false, error: approvalError, approval_required: true }
+  }
+
+  const { error } = await supabase.rpc('post_stock_take', {
+    p_stock_take_id: id,
+    p_payload: { approval },
+  })
+
+  if (error) {
+    return { success: false, error: error.message, approval_required: error.hint === 'approval_required' }
+  }
+
+  revalidatePath('/admin/stock-takes')
+  revalidatePath(`/admin/stock-takes/${id}`)
+  revalidatePath('/admin/products')
+  revalidatePath('/admin/expiry')
+  revalidatePath('/admin')
+  return { success: true, error: null }
+}
+
+export async function cancelStockTake(id: string) {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .update({ status: 'cancelled' })
+    .eq('id', id)
+    .eq('status', 'counting')
+    .select('id')
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+  if (!data || data.length === 0) {
+    return { success: false, error: 'Only a stock take still being counted can be cancelled' }
+  }
+
+  revalidatePath('/admin/stock-takes')
+  revalidatePath(`/admin/stock-takes/${id}`)
+  return { success: true, error: null }
+}
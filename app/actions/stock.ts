@@ -0,0 +1,187 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { Product, ProductBatch } from '@/app/actions/products'
+
+export type StockMovementType =
+  | 'sale'
+  | 'return'
+  | 'purchase_receipt'
+  | 'adjustment'
+  | 'transfer'
+  | 'write_off'
+  | 'supplier_return'
+
+// Shelf stock, or returns held back in quarantine
+export type StockBucket = 'sellable' | 'quarantine'
+
+export type StockMovement = {
+  id: string
+  product_id: string
+  // The lot moved, for lot-tracked stock
+  batch_id: string | null
+  movement_type: StockMovementType
+  bucket: StockBucket
+  // Signed, in the product's base unit
+  quantity: number
+  balance_after: number
+  reason: string | null
+  reference_type: string | null
+  reference_id: string | null
+  reference_number: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export type StockMovementWithUser = StockMovement & {
+  creator: { full_name: string | null; email: string | null } | null
+  batch: { lot_number: string; expiry_date: string } | null
+}
+
+// Sales and returns are recorded by their orders, never by hand
+export type StockMovementInput = {
+  product_id: string
+  movement_type: Exclude<StockMovementType, 'sale' | 'return'>
+  // Base units; only adjustments may be negative
+  quantity: number
+  // Write-offs: where the stock is taken from
+  bucket?: StockBucket
+  // An existing lot, or for receipts a lot number (new lots need an expiry date)
+  batch_id?: string | null
+  lot_number?: string | null
+  expiry_date?: string | null
+  // Supplier returns: who the stock goes back to
+  supplier_id?: string | null
+  reason: string
+  reference_number?: string | null
+}
+
+export async function getStockMovements(
+  productId: string,
+  limit = 200
+): Promise<{ movements: StockMovementWithUser[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('*, creator:profiles (full_name, email), batch:product_batches (lot_number, expiry_date)')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error('Error fetching stock movements:', error)
+    return { movements: [], error: error.message }
+  }
+  return { movements: data as StockMovementWithUser[], error: null }
+}
+
+export async function recordStockMovement(input: StockMovementInput) {
+  const supabase = await createClient()
+
+  if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+    return { success: false, error: 'Quantity must be a whole number other than zero' }
+  }
+  if (!input.reason.trim()) {
+    return { success: false, error: 'A reason is required' }
+  }
+
+  const { error } = await supabase.rpc('record_stock_movement', { p_payload: input })
+
+  if (error) {
+    return { success: false, error: error.message }
+  }
+
+  revalidatePath('/admin/products')
+  revalidatePath(`/admin/products/${input.product_id}`)
+  revalidatePath('/admin/expiry')
+  revalidatePath('/admin')
+  return { success: true, error: null }
+}
+
+// Who received a lot, for recalls: each order line that still holds some of it
+export type BatchSale = {
+  id: string
+  quantity: number
+  order_items: {
+    product_name: string
+    orders: {
+      id: string
+      order_number: string
+      created_at: string
+      walk_in_phone: string | null
+      customers: { name: string; phone: string | null } | null
+    } | null
+  } | null
+}
+
+export async function getBatchSales(batchId: string): Promise<{ sales: BatchSale[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('order_item_batches')
+    .select(`
+      *,
+      order_items (
+        product_name,
+        orders (id, order_number, created_at, walk_in_phone, customers (name, phone))
+      )
+    `)
+    .eq('batch_id', batchId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching lot sales:', error)
+    return { sales: [], error: error.message }
+  }
+  return { sales: data as BatchSale[], error: null }
+}
+
+export type ExpiringBatch = ProductBatch & {
+  products: {
+    id: string
+    name: string
+    variant_name: string | null
+    sku: string
+    unit: string
+    price: number
+    cost: number | null
+  } | null
+}
+
+// Lots with stock that expire within the given number of days, expired ones included
+export async function getExpiringBatches(
+  withinDays: number
+): Promise<{ batches: ExpiringBatch[]; error: string | null }> {
+  const supabase = await createClient()
+  const until = new Date()
+  until.setUTCDate(until.getUTCDate() + withinDays)
+
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('*, products (id, name, variant_name, sku, unit, price, cost)')
+    .gt('quantity', 0)
+    .lte('expiry_date', until.toISOString().slice(0, 10))
+    .order('expiry_date', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching expiring lots:', error)
+    return { batches: [], error: error.message }
+  }
+  return { batches: data as ExpiringBatch[], error: null }
+}
+
+export type LowStockProduct = Pick<Product, 'id' | 'name' | 'variant_name' | 'sku' | 'unit' | 'stock' | 'min_stock'>
+
+// Active products at or below their minimum stock, most short first
+export async function getLowStockProducts(): Promise<{ products: LowStockProduct[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .rpc('get_low_stock_products')
+    .select('id, name, variant_name, sku, unit, stock, min_stock')
+
+  if (error) {
+    console.error('Error fetching low stock products:', error)
+    return { products: [], error: error.message }
+  }
+  return { products: data as LowStockProduct[], error: null }
+}
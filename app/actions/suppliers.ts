@@ -0,0 +1,23 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+
+export type SupplierOption = {
+  id: string
+  name: string
+}
+
+export async function getSuppliersForSelect(): Promise<{ suppliers: SupplierOption[]; error: string | null }> {
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('id, name')
+    .eq('status', 'active')
+    .order('name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching suppliers:', error)
+    return { suppliers: [], error: error.message }
+  }
+  return { suppliers: data as SupplierOption[], error: null }
+}
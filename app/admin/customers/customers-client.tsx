@@ -7,9 +7,11 @@ import { Plus, Search, Users, Edit, Trash2 } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { CustomerDialog } from '@/components/customers/customer-dialog'
 import { deleteCustomer, type Customer } from '@/app/actions/customers'
+import { formatRupiah } from '@/lib/utils'
 
 interface CustomersClientProps {
   initialCustomers: any[]
+  outstanding: Record<string, number>
   stats: {
     totalCustomers: number
     activeCustomers: number
@@ -17,7 +19,7 @@ interface CustomersClientProps {
   }
 }
 
-export function CustomersClient({ initialCustomers, stats }: CustomersClientProps) {
+export function CustomersClient({ initialCustomers, outstanding, stats }: CustomersClientProps) {
   const [dialogOpen, setDialogOpen] = useState(false)
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
   const [dialogMode, setDialogMode] = useState<'create' | 'edit'>('create')
@@ -95,6 +97,7 @@ export function CustomersClient({ initialCustomers, stats }: CustomersClientProp
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Email</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Phone</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Pet(s)</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Outstanding</th>
                   <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
                   <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
                 </tr>
@@ -102,7 +105,7 @@ export function CustomersClient({ initialCustomers, stats }: CustomersClientProp
               <tbody>
                 {filteredCustomers.length === 0 ? (
                   <tr>
-                    <td colSpan={6} className="px-4 py-12 text-center">
+                    <td colSpan={7} className="px-4 py-12 text-center">
                       <div className="flex flex-col items-center justify-center text-gray-500">
                         <Users className="h-12 w-12 mb-4 text-gray-400" />
                         <p className="text-lg font-medium">No customers found</p>
@@ -127,6 +130,9 @@ export function CustomersClient({ initialCustomers, stats }: CustomersClientProp
                       <td className="px-4 py-3 text-sm text-gray-600">
                         {customer.pets?.length || 0} {customer.pets?.length === 1 ? 'pet' : 'pets'}
                       </td>
+                      <td className={`px-4 py-3 text-sm text-right ${outstanding[customer.id] ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                        {outstanding[customer.id] ? formatRupiah(outstanding[customer.id]) : '-'}
+                      </td>
                       <td className="px-4 py-3 text-sm">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(customer.status)}`}>
                           {customer.status}
@@ -1,8 +1,10 @@
 import { CustomersClient } from './customers-client'
 import { getCustomers } from '@/app/actions/customers'
+import { getCustomerBalances } from '@/app/actions/payments'
 
 export default async function CustomersPage() {
-  const { customers } = await getCustomers()
+  const [{ customers }, { balances }] = await Promise.all([getCustomers(), getCustomerBalances()])
+  const outstanding = Object.fromEntries(balances.map((b) => [b.customer_id, b.outstanding]))
 
   // Calculate statistics
   const totalCustomers = customers.length
@@ -11,6 +13,7 @@ export default async function CustomersPage() {
   return (
     <CustomersClient 
       initialCustomers={customers}
+      outstanding={outstanding}
       stats={{
         totalCustomers,
         activeCustomers,
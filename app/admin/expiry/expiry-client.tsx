@@ -0,0 +1,221 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { StockMovementDialog } from '@/components/products/stock-movement-dialog'
+import { ClearanceDiscountDialog } from '@/components/products/clearance-discount-dialog'
+import type { Product, ProductBatch } from '@/app/actions/products'
+import type { StockMovementInput } from '@/app/actions/stock'
+import type { SupplierOption } from '@/app/actions/suppliers'
+import { daysUntilExpiry, expiryWindow, expiryWindowLabel, getExpiryBadge } from '@/lib/batches'
+import { formatStock } from '@/lib/units'
+import { formatRupiah } from '@/lib/utils'
+import { CalendarClock, Percent, Trash2, Truck } from 'lucide-react'
+
+interface ExpiryClientProps {
+  products: Product[]
+  // Alert windows in days, e.g. [30, 60, 90]
+  windows: number[]
+  suppliers: SupplierOption[]
+}
+
+type ExpiringLot = {
+  product: Product
+  batch: ProductBatch
+  window: number
+  // Null when the product has no cost price
+  value: number | null
+}
+
+export function ExpiryClient({ products, windows, suppliers }: ExpiryClientProps) {
+  const router = useRouter()
+  const [filter, setFilter] = useState<number | 'all'>('all')
+  const [movement, setMovement] = useState<{ lot: ExpiringLot; type: StockMovementInput['movement_type'] } | null>(null)
+  const [discountLot, setDiscountLot] = useState<ExpiringLot | null>(null)
+
+  const sortedWindows = useMemo(() => [...windows].sort((a, b) => a - b), [windows])
+
+  const lots = useMemo(
+    () =>
+      products
+        .flatMap((product) =>
+          product.batches
+            .filter((batch) => batch.quantity > 0)
+            .map((batch) => ({
+              product,
+              batch,
+              window: expiryWindow(batch, sortedWindows),
+              value: product.cost !== null ? product.cost * batch.quantity : null,
+            }))
+        )
+        .filter((lot): lot is ExpiringLot => lot.window !== null)
+        .sort((a, b) => a.batch.expiry_date.localeCompare(b.batch.expiry_date)),
+    [products, sortedWindows]
+  )
+
+  const listedLots = filter === 'all' ? lots : lots.filter((lot) => lot.window === filter)
+
+  const summary = [0, ...sortedWindows].map((window) => {
+    const inWindow = lots.filter((lot) => lot.window === window)
+    return {
+      window,
+      count: inWindow.length,
+      value: inWindow.reduce((sum, lot) => sum + (lot.value ?? 0), 0),
+    }
+  })
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Expiring Lots</h1>
+        <p className="text-gray-600 mt-2">
+          Lots expiring within {sortedWindows[sortedWindows.length - 1]} days, valued at cost
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {summary.map((entry) => (
+          <Card
+            key={entry.window}
+            className={`cursor-pointer ${filter === entry.window ? 'ring-2 ring-blue-500' : ''}`}
+            onClick={() => setFilter(filter === entry.window ? 'all' : entry.window)}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{expiryWindowLabel(entry.window)}</CardDescription>
+              <CardTitle className={entry.window === 0 && entry.count > 0 ? 'text-red-600' : ''}>
+                {entry.count} {entry.count === 1 ? 'lot' : 'lots'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600">{formatRupiah(entry.value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lots</CardTitle>
+          <CardDescription>
+            {filter === 'all' ? 'All alert windows' : expiryWindowLabel(filter)} · earliest expiry first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Expiry</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Quantity</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Cost Value</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listedLots.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center">
+                        <CalendarClock className="h-12 w-12 text-gray-400 mb-4" />
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No expiring lots</h3>
+                        <p className="text-gray-600">Nothing on hand expires within these windows</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  listedLots.map((lot) => {
+                    const days = daysUntilExpiry(lot.batch)
+                    return (
+                      <tr key={lot.batch.id} className="border-b hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          <Link href={`/admin/products/${lot.product.id}`} className="hover:underline">
+                            {lot.product.name}
+                          </Link>
+                          {lot.product.variant_name && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">{lot.product.variant_name}</span>
+                          )}
+                          <div className="text-xs font-normal text-gray-500">{lot.product.sku}</div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{lot.batch.lot_number}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="text-gray-900">{new Date(lot.batch.expiry_date).toLocaleDateString()}</div>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${getExpiryBadge(lot.window, sortedWindows)}`}
+                          >
+                            {days <= 0 ? 'Expired' : `${days} ${days === 1 ? 'day' : 'days'} left`}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {formatStock(lot.product, lot.batch.quantity)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {lot.value !== null ? formatRupiah(lot.value) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDiscountLot(lot)}
+                              disabled={lot.window === 0}
+                              title="Clearance discount"
+                            >
+                              <Percent className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMovement({ lot, type: 'supplier_return' })}
+                              disabled={suppliers.length === 0}
+                              title="Return to supplier"
+                            >
+                              <Truck className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMovement({ lot, type: 'write_off' })}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              title="Write off"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {movement && (
+        <StockMovementDialog
+          open
+          onOpenChange={(open) => !open && setMovement(null)}
+          product={movement.lot.product}
+          defaultType={movement.type}
+          defaultBatchId={movement.lot.batch.id}
+          suppliers={suppliers}
+          onSuccess={() => router.refresh()}
+        />
+      )}
+
+      <ClearanceDiscountDialog
+        open={discountLot !== null}
+        onOpenChange={(open) => !open && setDiscountLot(null)}
+        product={discountLot?.product ?? null}
+        batch={discountLot?.batch ?? null}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  )
+}
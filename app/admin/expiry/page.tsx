@@ -0,0 +1,20 @@
+import { getProducts } from '@/app/actions/products'
+import { getStoreSettings } from '@/app/actions/settings'
+import { getSuppliersForSelect } from '@/app/actions/suppliers'
+import { ExpiryClient } from './expiry-client'
+
+export default async function ExpiryPage() {
+  const [{ products }, { settings }, { suppliers }] = await Promise.all([
+    getProducts(),
+    getStoreSettings(),
+    getSuppliersForSelect(),
+  ])
+
+  return (
+    <ExpiryClient
+      products={products}
+      windows={settings?.expiry_alert_days ?? [30, 60, 90]}
+      suppliers={suppliers}
+    />
+  )
+}
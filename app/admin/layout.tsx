@@ -15,11 +15,11 @@ export default async function AdminLayout({
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
       <AdminHeader user={user} />
       <div className="flex">
         <AdminSidebar />
-        <main className="flex-1 p-8">
+        <main className="flex-1 p-8 print:p-0">
           {children}
         </main>
       </div>
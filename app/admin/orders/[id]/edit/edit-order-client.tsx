@@ -0,0 +1,432 @@
+'use client'
+
+import { useMemo, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { ApprovalDialog } from '@/components/orders/approval-dialog'
+import { amendOrderItems, type AmendOrderPayload, type OrderDetail } from '@/app/actions/orders'
+import type { Product } from '@/app/actions/products'
+import type { PriceRule } from '@/app/actions/promotions'
+import { ArrowLeft, Loader2, Minus, Plus, Search, ShoppingCart, Trash2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+import { resolveTaxRate, type TaxContext } from '@/lib/tax'
+import { bestPriceRule, priceCart } from '@/lib/pricing'
+
+interface EditOrderClientProps {
+  order: OrderDetail
+  products: Product[]
+  tax: TaxContext
+  priceRules: PriceRule[]
+}
+
+type EditLine = {
+  key: string
+  order_item_id: string | null
+  product_id: string
+  product_name: string
+  category_id: string | null
+  // Kept lines stay in the unit they were sold in; added lines use the base unit
+  unit_name: string | null
+  list_price: number
+  // What the line costs without an override: the sold price for kept lines,
+  // today's price for added ones
+  reference_price: number
+  unit_price: number
+  quantity: number
+  original_quantity: number
+  discount: number
+  tax_rate: number
+  // Shelf stock plus what this order already holds
+  available: number
+}
+
+export function EditOrderClient({ order, products, tax, priceRules }: EditOrderClientProps) {
+  const router = useRouter()
+  const [saving, startSaving] = useTransition()
+  const [error, setError] = useState('')
+  const [search, setSearch] = useState('')
+  const [reason, setReason] = useState('')
+  const [approvalReason, setApprovalReason] = useState<string | null>(null)
+
+  // Lines whose product has since been deleted cannot be repriced and are dropped
+  const orphaned = order.order_items.filter((item) => !products.some((p) => p.id === item.product_id))
+
+  const [lines, setLines] = useState<EditLine[]>(() =>
+    order.order_items.flatMap((item) => {
+      const product = products.find((p) => p.id === item.product_id)
+      if (!product) return []
+      const listPrice = item.list_price ?? item.unit_price
+      // Only the manual part of the discount is edited; rules are applied again
+      const rule =
+        item.unit_price === listPrice
+          ? bestPriceRule(priceRules, {
+              product_id: product.id,
+              category_id: product.category_id,
+              unit_price: item.unit_price,
+              quantity: item.quantity,
+            })
+          : null
+      return [{
+        key: item.id,
+        order_item_id: item.id,
+        product_id: product.id,
+        product_name: item.product_name,
+        category_id: product.category_id,
+        unit_name: item.unit_name,
+        list_price: listPrice,
+        reference_price: item.unit_price,
+        unit_price: item.unit_price,
+        quantity: item.quantity,
+        original_quantity: item.quantity,
+        discount: Math.max(0, item.discount - (rule?.discount ?? 0)),
+        tax_rate: item.tax_rate,
+        available: Math.floor(product.stock / item.unit_factor) + item.quantity,
+      }]
+    })
+  )
+
+  const filteredProducts = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return products
+      .filter((p) => p.status === 'active')
+      .filter((p) => p.name.toLowerCase().includes(term) || p.sku.toLowerCase().includes(term))
+      .slice(0, 8)
+  }, [products, search])
+
+  const pricing = useMemo(
+    () =>
+      priceCart(
+        lines.map((line) => ({
+          product_id: line.product_id,
+          category_id: line.category_id,
+          list_price: line.list_price,
+          unit_price: line.unit_price,
+          quantity: line.quantity,
+          manual_discount: line.discount,
+          tax_rate: line.tax_rate,
+        })),
+        {
+          rules: priceRules,
+          // The order discount keeps its amount, as amend_order_items does
+          orderDiscount: order.discount > 0 ? { type: 'fixed', value: order.discount } : null,
+          promoCode: null,
+          pricesIncludeTax: order.prices_include_tax,
+        }
+      ),
+    [lines, priceRules, order.discount, order.prices_include_tax]
+  )
+
+  const addProduct = (product: Product) => {
+    setSearch('')
+    const existing = lines.find((line) => line.product_id === product.id && line.order_item_id === null)
+    if (existing) {
+      updateLine(existing.key, { quantity: existing.quantity + 1 })
+      return
+    }
+    setLines((prev) => [
+      ...prev,
+      {
+        key: `new-${product.id}`,
+        order_item_id: null,
+        product_id: product.id,
+        product_name: product.name,
+        category_id: product.category_id,
+        unit_name: null,
+        list_price: product.price,
+        reference_price: product.price,
+        unit_price: product.price,
+        quantity: 1,
+        original_quantity: 0,
+        discount: 0,
+        tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.category_tax_rate_id),
+        available: product.stock,
+      },
+    ])
+  }
+
+  const updateLine = (key: string, changes: Partial<EditLine>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...changes } : line)))
+  }
+
+  const overStock = lines.find((line) => line.quantity > line.available)
+
+  const submit = async (approval: AmendOrderPayload['approval']) => {
+    return amendOrderItems(order.id, {
+      reason,
+      approval,
+      items: lines.map((line) => ({
+        order_item_id: line.order_item_id,
+        product_id: line.product_id,
+        quantity: line.quantity,
+        unit_price: line.unit_price,
+        price_override: line.unit_price !== line.reference_price,
+        discount: line.discount,
+      })),
+    })
+  }
+
+  const handleSave = () => {
+    setError('')
+    startSaving(async () => {
+      const result = await submit(null)
+      if (result.success) {
+        router.push(`/admin/orders/${order.id}`)
+        router.refresh()
+        return
+      }
+      if (result.approval_required) {
+        setApprovalReason(result.error || 'Supervisor approval required')
+        return
+      }
+      setError(result.error || 'Failed to update order')
+    })
+  }
+
+  const handleApprove = async (approval: { email: string; pin: string }) => {
+    const result = await submit(approval)
+    if (!result.success) {
+      return result.error || 'Failed to update order'
+    }
+    router.push(`/admin/orders/${order.id}`)
+    router.refresh()
+    return null
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href={`/admin/orders/${order.id}`} className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to order
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2">Edit {order.order_number}</h1>
+        <p className="text-gray-600 mt-2">
+          Only the difference in quantity is taken from or returned to stock
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>Kept lines stay at the price they were sold at</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                placeholder="Add a product by name or SKU..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+              {filteredProducts.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg">
+                  {filteredProducts.map((product) => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => addProduct(product)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                    >
+                      <span>
+                        {product.name}
+                        <span className="ml-2 text-xs text-gray-400">Stock {product.stock}</span>
+                      </span>
+                      <span className="text-gray-600">{formatRupiah(product.price)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {orphaned.length > 0 && (
+              <div className="text-sm text-amber-800 bg-amber-50 p-3 rounded-md border border-amber-200">
+                {orphaned.map((item) => item.product_name).join(', ')} no longer exist in the catalogue and will be removed
+                from the order.
+              </div>
+            )}
+
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                    <th className="px-4 py-3 text-center text-sm font-medium text-gray-700">Qty</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Price</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Discount</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-12 text-center">
+                        <div className="flex flex-col items-center justify-center text-gray-500">
+                          <ShoppingCart className="h-12 w-12 mb-4 text-gray-400" />
+                          <p className="text-lg font-medium">No items left</p>
+                          <p className="text-sm">Cancel the order instead of removing every line</p>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    lines.map((line, index) => (
+                      <tr key={line.key} className="border-b">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {line.product_name}
+                          {line.unit_name && <span className="ml-1 text-xs text-gray-500">({line.unit_name})</span>}
+                          {line.order_item_id === null ? (
+                            <div className="text-xs text-green-600">Added</div>
+                          ) : (
+                            line.quantity !== line.original_quantity && (
+                              <div className="text-xs text-gray-500">Was {line.original_quantity}</div>
+                            )
+                          )}
+                          {line.quantity > line.available && (
+                            <div className="text-xs text-red-600">Only {line.available} available</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <div className="flex items-center justify-center gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateLine(line.key, { quantity: Math.max(1, line.quantity - 1) })}
+                            >
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={line.quantity}
+                              onChange={(e) => updateLine(line.key, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                              className="w-16 text-center"
+                            />
+                            <Button variant="outline" size="sm" onClick={() => updateLine(line.key, { quantity: line.quantity + 1 })}>
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="text"
+                            value={formatRupiah(line.unit_price)}
+                            onChange={(e) => updateLine(line.key, { unit_price: parseRupiah(e.target.value) })}
+                            className="ml-auto w-32 text-right"
+                          />
+                          {line.unit_price !== line.reference_price && (
+                            <div className="text-xs text-amber-600">Was {formatRupiah(line.reference_price)}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="text"
+                            value={formatRupiah(line.discount)}
+                            onChange={(e) => updateLine(line.key, { discount: parseRupiah(e.target.value) })}
+                            className="ml-auto w-32 text-right"
+                          />
+                          {pricing.lines[index]?.rule && (
+                            <div className="text-xs text-green-600">+ {pricing.lines[index].rule?.name}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {formatRupiah(pricing.lines[index]?.subtotal ?? 0)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Amendment</CardTitle>
+            <CardDescription>Recorded on the order with the before and after totals</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span>{formatRupiah(pricing.subtotal)}</span>
+              </div>
+              {pricing.orderDiscount > 0 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Order discount</span>
+                  <span>-{formatRupiah(pricing.orderDiscount)}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">{order.prices_include_tax ? 'Tax (included)' : 'Tax'}</span>
+                <span>{formatRupiah(pricing.tax)}</span>
+              </div>
+              <div className="flex items-center justify-between text-gray-600">
+                <span>Current total</span>
+                <span>{formatRupiah(order.total_amount)}</span>
+              </div>
+              <div className="flex items-center justify-between border-t pt-2 font-semibold">
+                <span>New total</span>
+                <span>{formatRupiah(pricing.total)}</span>
+              </div>
+              {order.paid_amount > 0 && (
+                <div className="flex items-center justify-between text-gray-600">
+                  <span>Already paid</span>
+                  <span>{formatRupiah(order.paid_amount)}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="amend_reason">Reason *</Label>
+              <Textarea
+                id="amend_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                placeholder="e.g. Owner asked for a second bottle"
+              />
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+            )}
+
+            <Button
+              className="w-full"
+              onClick={handleSave}
+              disabled={saving || lines.length === 0 || !reason.trim() || !!overStock}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ApprovalDialog
+        open={approvalReason !== null}
+        onOpenChange={(open) => !open && setApprovalReason(null)}
+        reason={approvalReason || ''}
+        onApprove={handleApprove}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { notFound, redirect } from 'next/navigation'
+import { getOrder } from '@/app/actions/orders'
+import { getProducts, type Product } from '@/app/actions/products'
+import { getTaxContext } from '@/app/actions/settings'
+import { getActivePriceRules } from '@/app/actions/promotions'
+import { sellableStock } from '@/lib/batches'
+import { EditOrderClient } from './edit-order-client'
+
+export default async function EditOrderPage({ params }: { params: { id: string } }) {
+  const { order } = await getOrder(params.id)
+
+  if (!order) {
+    notFound()
+  }
+  // Paid-up completed orders are corrected with returns, cancelled ones not at all
+  const editable =
+    order.status === 'pending' ||
+    order.status === 'processing' ||
+    (order.status === 'completed' && (order.payment_status === 'unpaid' || order.payment_status === 'partial'))
+  if (!editable || order.order_returns.length > 0) {
+    redirect(`/admin/orders/${order.id}`)
+  }
+
+  const { products } = await getProducts()
+  const tax = await getTaxContext()
+  const { priceRules } = await getActivePriceRules()
+
+  // Expired lots are still on hand but cannot be sold
+  const sellable = (products || []).map((p) => ({ ...p, stock: sellableStock(p) }))
+
+  return <EditOrderClient order={order} products={sellable as Product[]} tax={tax} priceRules={priceRules} />
+}
@@ -0,0 +1,25 @@
+import { notFound } from 'next/navigation'
+import { getOrder } from '@/app/actions/orders'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildOrderDocument } from '@/lib/order-document'
+import { PrintToolbar } from '@/components/orders/print-toolbar'
+import { InvoiceView } from '@/components/orders/invoice-view'
+
+export default async function OrderInvoicePage({ params }: { params: { id: string } }) {
+  const [{ order }, { settings }] = await Promise.all([getOrder(params.id), getStoreSettings()])
+
+  if (!order) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <PrintToolbar
+        backHref={`/admin/orders/${order.id}`}
+        backLabel="Back to order"
+        pdfHref={`/admin/orders/${order.id}/pdf?layout=invoice`}
+      />
+      <InvoiceView document={buildOrderDocument(order, settings, 'invoice')} />
+    </div>
+  )
+}
@@ -0,0 +1,597 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowLeft, Loader2, User, CreditCard, Clock, RotateCcw, Wallet, FileText, Printer, Pencil, Ban, Trash2 } from 'lucide-react'
+import {
+  startProcessingOrder,
+  completeOrder,
+  cancelOrder,
+  issueInvoice,
+  voidOrder,
+  deleteOrder,
+  type OrderDetail,
+  type OrderStatusHistoryEntry,
+} from '@/app/actions/orders'
+import { ReturnDialog } from '@/components/orders/return-dialog'
+import { PaymentDialog } from '@/components/orders/payment-dialog'
+import { ORDER_STATUS_TRANSITIONS } from '@/lib/order-status'
+import { formatRupiah } from '@/lib/utils'
+
+interface OrderDetailClientProps {
+  order: OrderDetail
+  isAdmin: boolean
+}
+
+type TransitionAction = {
+  key: string
+  label: string
+  destructive?: boolean
+  run: () => Promise<{ success: boolean; error: string | null }> | null
+}
+
+export function OrderDetailClient({ order, isAdmin }: OrderDetailClientProps) {
+  const router = useRouter()
+  const [pending, startTransition] = useTransition()
+  const [runningAction, setRunningAction] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [returnOpen, setReturnOpen] = useState(false)
+  const [paymentOpen, setPaymentOpen] = useState(false)
+
+  const grossAmount = order.order_items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0)
+  const itemsSubtotal = order.order_items.reduce((sum, item) => sum + item.subtotal, 0)
+  const lineDiscounts = grossAmount - itemsSubtotal
+  const balance = Math.max(0, order.total_amount - order.credited_amount - order.paid_amount)
+  const voided = !!order.voided_at
+  const canTakePayment = !voided && balance > 0 && order.status !== 'cancelled' && order.payment_status !== 'refunded'
+  const canEditItems =
+    !voided &&
+    (order.status === 'pending' ||
+      order.status === 'processing' ||
+      (order.status === 'completed' && (order.payment_status === 'unpaid' || order.payment_status === 'partial'))) &&
+    order.order_returns.length === 0
+  // Money still held has to be refunded through a return before voiding
+  const canVoid = !voided && order.paid_amount <= order.refunded_amount
+  // A draft has no payments or invoice yet, so nothing is lost by deleting it
+  const canDelete =
+    isAdmin && !voided && order.status === 'pending' && order.paid_amount === 0 && !order.invoice_number
+
+  const statusActions: TransitionAction[] = (voided ? [] : ORDER_STATUS_TRANSITIONS[order.status]).map((status) => {
+    switch (status) {
+      case 'processing':
+        return { key: status, label: 'Start processing', run: () => startProcessingOrder(order.id) }
+      case 'completed':
+        return { key: status, label: 'Mark as completed', run: () => completeOrder(order.id) }
+      default:
+        return {
+          key: status,
+          label: 'Cancel order',
+          destructive: true,
+          run: () => {
+            const reason = prompt('Why is this order being cancelled? Stock will be returned.')
+            return reason ? cancelOrder(order.id, reason) : null
+          },
+        }
+    }
+  })
+
+  const handleAction = (action: TransitionAction) => {
+    const request = action.run()
+    if (!request) return
+    setError('')
+    setRunningAction(action.key)
+    startTransition(async () => {
+      const result = await request
+      if (!result.success) {
+        setError(result.error || 'Failed to update order')
+      }
+      setRunningAction(null)
+      router.refresh()
+    })
+  }
+
+  const handleIssueInvoice = () => {
+    setError('')
+    setRunningAction('invoice')
+    startTransition(async () => {
+      const result = await issueInvoice(order.id)
+      setRunningAction(null)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.push(`/admin/orders/${order.id}/invoice`)
+    })
+  }
+
+  const handleVoid = () => {
+    const reason = prompt('Why is this order being voided? Stock will be returned and it will no longer count as revenue.')
+    if (!reason) return
+    setError('')
+    setRunningAction('void')
+    startTransition(async () => {
+      const result = await voidOrder(order.id, reason)
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to void order')
+        return
+      }
+      router.refresh()
+    })
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Permanently delete draft order ${order.order_number}? This cannot be undone.`)) return
+    setError('')
+    setRunningAction('delete')
+    startTransition(async () => {
+      const result = await deleteOrder(order.id)
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to delete order')
+        return
+      }
+      router.push('/admin/orders')
+    })
+  }
+
+  const getStatusBadge = (status: string) => {
+    const styles = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      processing: 'bg-blue-100 text-blue-800',
+      completed: 'bg-green-100 text-green-800',
+      cancelled: 'bg-red-100 text-red-800',
+    }
+    return styles[status as keyof typeof styles] || styles.pending
+  }
+
+  const getPaymentBadge = (status: string) => {
+    const styles = {
+      unpaid: 'bg-red-100 text-red-800',
+      partial: 'bg-yellow-100 text-yellow-800',
+      paid: 'bg-green-100 text-green-800',
+      refunded: 'bg-gray-100 text-gray-800',
+    }
+    return styles[status as keyof typeof styles] || styles.unpaid
+  }
+
+  const describeHistory = (entry: OrderStatusHistoryEntry) => {
+    const label = entry.field === 'status' ? 'Status' : 'Payment'
+    return entry.from_value
+      ? `${label} changed from ${entry.from_value} to ${entry.to_value}`
+      : `${label} set to ${entry.to_value}`
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/orders" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to orders
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{order.order_number}</h1>
+          <p className="text-gray-600 mt-2">
+            Created {new Date(order.created_at).toLocaleString()}
+            {order.invoice_number && <> · Invoice {order.invoice_number}</>}
+            {order.offline_sold_at && <> · Sold offline {new Date(order.offline_sold_at).toLocaleString()}</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {voided && (
+            <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-800 text-white">voided</span>
+          )}
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusBadge(order.status)}`}>
+            {order.status}
+          </span>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${getPaymentBadge(order.payment_status)}`}>
+            {order.payment_status}
+          </span>
+        </div>
+      </div>
+
+      {voided && (
+        <div className="text-sm text-gray-800 bg-gray-100 p-3 rounded-md border border-gray-300">
+          <span className="font-medium">
+            Voided {new Date(order.voided_at!).toLocaleString()} by {order.voider?.full_name || order.voider?.email || 'staff'}:
+          </span>{' '}
+          {order.void_reason}. Stock was returned and this order is excluded from revenue.
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>{order.order_items.length} line(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Qty</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Price</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Discount</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Tax</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {order.order_items.map((item) => (
+                    <tr key={item.id} className="border-b">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {item.product_name}
+                        {item.order_item_batches.map((taken) => (
+                          <div key={taken.id} className="text-xs font-normal text-gray-500">
+                            Lot {taken.product_batches?.lot_number} · exp{' '}
+                            {taken.product_batches && new Date(taken.product_batches.expiry_date).toLocaleDateString()} ·{' '}
+                            {taken.quantity}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {item.quantity}
+                        {item.unit_name && <span className="ml-1 text-xs text-gray-500">{item.unit_name}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.unit_price)}
+                        {item.price_overridden && item.list_price !== null && (
+                          <div className="text-xs text-amber-600">List {formatRupiah(item.list_price)}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.unit_price * item.quantity - item.subtotal)}
+                        {item.price_rules && (
+                          <div className="text-xs text-green-600">{item.price_rules.name}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.tax_amount)}
+                        {item.tax_rate > 0 && <span className="text-xs text-gray-400 ml-1">({item.tax_rate}%)</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(item.subtotal)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Gross amount</span>
+                <span>{formatRupiah(grossAmount)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Line discounts</span>
+                <span>-{formatRupiah(lineDiscounts)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">
+                  Order discount{order.promo_codes ? ` (${order.promo_codes.code})` : ''}
+                </span>
+                <span>-{formatRupiah(order.discount)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">{order.prices_include_tax ? 'Tax (included)' : 'Tax'}</span>
+                <span>{formatRupiah(order.tax)}</span>
+              </div>
+              <div className="flex items-center justify-between border-t pt-2 font-semibold">
+                <span>Total</span>
+                <span>{formatRupiah(order.total_amount)}</span>
+              </div>
+              {(order.refunded_amount > 0 || order.credited_amount > 0) && (
+                <>
+                  {order.refunded_amount > 0 && (
+                    <div className="flex items-center justify-between text-red-600">
+                      <span>Refunded</span>
+                      <span>-{formatRupiah(order.refunded_amount)}</span>
+                    </div>
+                  )}
+                  {order.credited_amount > 0 && (
+                    <div className="flex items-center justify-between text-red-600">
+                      <span>Returned unpaid</span>
+                      <span>-{formatRupiah(order.credited_amount)}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between font-semibold">
+                    <span>Net</span>
+                    <span>{formatRupiah(order.total_amount - order.refunded_amount - order.credited_amount)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center">
+                <User className="mr-2 h-4 w-4" />
+                Customer
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              {order.customers ? (
+                <>
+                  <div className="font-medium">{order.customers.name}</div>
+                  <div className="text-gray-600">{order.customers.email || '-'}</div>
+                  <div className="text-gray-600">{order.customers.phone || '-'}</div>
+                </>
+              ) : (
+                <>
+                  <div className="font-medium">Walk-in customer</div>
+                  <div className="text-gray-600">{order.walk_in_phone || '-'}</div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center">
+                <CreditCard className="mr-2 h-4 w-4" />
+                Payment
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Status</span>
+                <span className="capitalize">{order.payment_status}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Paid</span>
+                <span>{formatRupiah(order.paid_amount)}</span>
+              </div>
+              <div className="flex items-center justify-between font-medium">
+                <span className="text-gray-600">Balance due</span>
+                <span className={balance > 0 ? 'text-red-600' : ''}>{formatRupiah(balance)}</span>
+              </div>
+              {order.payments.length > 0 && (
+                <ul className="pt-2 space-y-1 border-t">
+                  {order.payments.map((payment) => (
+                    <li key={payment.id} className="flex items-center justify-between text-gray-600">
+                      <span>
+                        <span className="capitalize">{payment.method}</span>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {new Date(payment.created_at).toLocaleDateString()}
+                          {payment.reference ? ` · ${payment.reference}` : ''}
+                        </span>
+                      </span>
+                      <span>{formatRupiah(payment.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {order.notes && (
+                <div className="pt-2 text-gray-600">
+                  <span className="font-medium text-gray-900">Notes:</span> {order.notes}
+                </div>
+              )}
+              {order.approved_by && (
+                <div className="pt-2 text-gray-600">
+                  <span className="font-medium text-gray-900">
+                    Approved by {order.approver?.full_name || order.approver?.email || 'supervisor'}:
+                  </span>{' '}
+                  {order.approval_reason}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Actions</CardTitle>
+              <CardDescription>Available next steps for this order</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Button variant="outline" className="w-full" asChild>
+                <Link href={`/admin/orders/${order.id}/receipt`}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print receipt
+                </Link>
+              </Button>
+              {order.invoice_number && (
+                <Button variant="outline" className="w-full" asChild>
+                  <Link href={`/admin/orders/${order.id}/invoice`}>
+                    <FileText className="mr-2 h-4 w-4" />
+                    Print invoice
+                  </Link>
+                </Button>
+              )}
+              {canEditItems && (
+                <Button variant="outline" className="w-full" disabled={pending} asChild>
+                  <Link href={`/admin/orders/${order.id}/edit`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit items
+                  </Link>
+                </Button>
+              )}
+              {!voided && order.status === 'completed' && (
+                <Button variant="outline" className="w-full" disabled={pending} onClick={() => setReturnOpen(true)}>
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Return items
+                </Button>
+              )}
+              {!voided && !order.invoice_number && order.status !== 'cancelled' && (
+                <Button variant="outline" className="w-full" disabled={pending} onClick={handleIssueInvoice}>
+                  {pending && runningAction === 'invoice'
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    : <FileText className="mr-2 h-4 w-4" />}
+                  Issue invoice
+                </Button>
+              )}
+              {canTakePayment && (
+                <Button variant="outline" className="w-full" disabled={pending} onClick={() => setPaymentOpen(true)}>
+                  <Wallet className="mr-2 h-4 w-4" />
+                  Record payment
+                </Button>
+              )}
+              {statusActions.length === 0 && !canTakePayment && !canVoid && (voided || order.status !== 'completed') && (
+                <p className="text-sm text-muted-foreground">No further actions available</p>
+              )}
+              {statusActions.map((action) => (
+                <Button
+                  key={action.label}
+                  variant={action.destructive ? 'destructive' : 'outline'}
+                  className="w-full"
+                  disabled={pending}
+                  onClick={() => handleAction(action)}
+                >
+                  {pending && runningAction === action.key && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {action.label}
+                </Button>
+              ))}
+              {canVoid && (
+                <Button variant="destructive" className="w-full" disabled={pending} onClick={handleVoid}>
+                  {pending && runningAction === 'void' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                  Void order
+                </Button>
+              )}
+              {canDelete && (
+                <Button variant="destructive" className="w-full" disabled={pending} onClick={handleDelete}>
+                  {pending && runningAction === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                  Delete draft
+                </Button>
+              )}
+              {error && (
+                <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">{error}</div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {order.order_returns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Returns</CardTitle>
+            <CardDescription>Items returned against this order</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.order_returns.map((ret) => (
+              <div key={ret.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium">{ret.return_number}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(ret.created_at).toLocaleString()}</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm font-semibold">{formatRupiah(ret.refund_amount)}</div>
+                    {ret.credit_amount > 0 && (
+                      <div className="text-xs text-muted-foreground">{formatRupiah(ret.credit_amount)} off the balance</div>
+                    )}
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {ret.refund_method || '-'} · {ret.restock_to === 'quarantine' ? 'to quarantine' : 'restocked'}
+                    </div>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">{ret.reason}</p>
+                <ul className="text-sm text-gray-600 list-disc ml-5">
+                  {ret.order_return_items.map((item) => (
+                    <li key={item.id}>
+                      {order.order_items.find((line) => line.id === item.order_item_id)?.product_name || 'Item'} × {item.quantity}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {order.order_amendments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Amendments</CardTitle>
+            <CardDescription>Line changes made after checkout</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {order.order_amendments.map((amendment) => (
+              <div key={amendment.id} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium">
+                      {amendment.amender?.full_name || amendment.amender?.email || 'Staff'}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{new Date(amendment.created_at).toLocaleString()}</div>
+                  </div>
+                  <div className="text-right text-sm">
+                    <span className="text-gray-500 line-through mr-2">{formatRupiah(amendment.total_before)}</span>
+                    <span className="font-semibold">{formatRupiah(amendment.total_after)}</span>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">{amendment.reason}</p>
+                <ul className="text-sm text-gray-600 list-disc ml-5">
+                  {amendment.changes.map((change, index) => (
+                    <li key={index}>
+                      {change.product_name}:{' '}
+                      {change.from_quantity === 0
+                        ? `added × ${change.to_quantity}`
+                        : change.to_quantity === 0
+                          ? `removed (was × ${change.from_quantity})`
+                          : `× ${change.from_quantity} → × ${change.to_quantity}`}
+                      {change.from_unit_price !== null &&
+                        change.to_unit_price !== null &&
+                        change.from_unit_price !== change.to_unit_price &&
+                        `, price ${formatRupiah(change.from_unit_price)} → ${formatRupiah(change.to_unit_price)}`}
+                    </li>
+                  ))}
+                </ul>
+                {amendment.approval_reason && (
+                  <p className="text-xs text-muted-foreground">Approved: {amendment.approval_reason}</p>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Clock className="mr-2 h-5 w-5" />
+            Timeline
+          </CardTitle>
+          <CardDescription>Status and payment changes for this order</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {order.order_status_history.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No status changes recorded</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {order.order_status_history.map((entry) => (
+                <li key={entry.id} className="ml-4">
+                  <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                  <p className="text-sm font-medium text-gray-900">{describeHistory(entry)}</p>
+                  {entry.note && <p className="text-sm text-gray-600">{entry.note}</p>}
+                  <p className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReturnDialog
+        open={returnOpen}
+        onOpenChange={setReturnOpen}
+        order={order}
+        onSuccess={() => router.refresh()}
+      />
+
+      <PaymentDialog
+        open={paymentOpen}
+        onOpenChange={setPaymentOpen}
+        orderId={order.id}
+        balance={balance}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  )
+}
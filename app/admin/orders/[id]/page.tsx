@@ -0,0 +1,14 @@
+import { notFound } from 'next/navigation'
+import { OrderDetailClient } from './order-detail-client'
+import { getOrder } from '@/app/actions/orders'
+import { getCurrentProfile } from '@/app/actions/profiles'
+
+export default async function OrderDetailPage({ params }: { params: { id: string } }) {
+  const [{ order }, profile] = await Promise.all([getOrder(params.id), getCurrentProfile()])
+
+  if (!order) {
+    notFound()
+  }
+
+  return <OrderDetailClient order={order} isAdmin={profile?.role === 'admin'} />
+}
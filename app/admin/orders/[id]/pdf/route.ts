@@ -0,0 +1,26 @@
+import { type NextRequest } from 'next/server'
+import { getOrder } from '@/app/actions/orders'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildOrderDocument } from '@/lib/order-document'
+import { renderOrderPdf } from '@/lib/order-pdf'
+
+// GET /admin/orders/:id/pdf?layout=receipt|invoice
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const layout = request.nextUrl.searchParams.get('layout') === 'invoice' ? 'invoice' : 'receipt'
+  const [{ order }, { settings }] = await Promise.all([getOrder(params.id), getStoreSettings()])
+
+  if (!order) {
+    return new Response('Order not found', { status: 404 })
+  }
+
+  const doc = buildOrderDocument(order, settings, layout)
+  const pdf = await renderOrderPdf(doc, settings?.receipt_width ?? 80)
+
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${doc.number}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
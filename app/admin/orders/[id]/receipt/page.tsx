@@ -0,0 +1,32 @@
+import { notFound } from 'next/navigation'
+import { getOrder } from '@/app/actions/orders'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildOrderDocument } from '@/lib/order-document'
+import { PrintToolbar } from '@/components/orders/print-toolbar'
+import { ReceiptView } from '@/components/orders/receipt-view'
+
+export default async function OrderReceiptPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string }
+  searchParams: { print?: string }
+}) {
+  const [{ order }, { settings }] = await Promise.all([getOrder(params.id), getStoreSettings()])
+
+  if (!order) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <PrintToolbar
+        backHref={`/admin/orders/${order.id}`}
+        backLabel="Back to order"
+        pdfHref={`/admin/orders/${order.id}/pdf?layout=receipt`}
+        autoPrint={searchParams.print === '1'}
+      />
+      <ReceiptView document={buildOrderDocument(order, settings, 'receipt')} width={settings?.receipt_width ?? 80} />
+    </div>
+  )
+}
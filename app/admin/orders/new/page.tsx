@@ -1,12 +1,22 @@
 import { getProducts, type Product } from '@/app/actions/products'
 import { getCustomersForSelect } from '@/app/actions/orders'
+import { getTaxContext } from '@/app/actions/settings'
+import { getActivePriceRules } from '@/app/actions/promotions'
+import { getCurrentShift } from '@/app/actions/shifts'
+import { sellableStock } from '@/lib/batches'
 import POSNewOrder from './pos-client'
 
 export default async function NewOrderPage() {
   const { products } = await getProducts()
   const { customers } = await getCustomersForSelect()
+  const tax = await getTaxContext()
+  const { priceRules } = await getActivePriceRules()
+  const shift = await getCurrentShift()
 
-  const activeProducts = (products || []).filter((p) => p.status === 'active')
+  // Expired lots are still on hand but cannot be sold
+  const activeProducts = (products || [])
+    .filter((p) => p.status === 'active')
+    .map((p) => ({ ...p, stock: sellableStock(p) }))
 
   return (
     <div className="space-y-6">
@@ -17,7 +27,7 @@ export default async function NewOrderPage() {
         </div>
       </div>
 
-      <POSNewOrder products={activeProducts as Product[]} customers={customers || []} />
+      <POSNewOrder products={activeProducts as Product[]} customers={customers || []} tax={tax} priceRules={priceRules} shiftOpen={!!shift} />
     </div>
   )
 }
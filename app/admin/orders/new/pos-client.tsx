@@ -1,51 +1,159 @@
 'use client'
 
-import { useEffect, useMemo, useState, useTransition } from 'react'
+import { useEffect, useMemo, useRef, useState, useTransition } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { CustomerDialog } from '@/components/customers/customer-dialog'
+import { ApprovalDialog } from '@/components/orders/approval-dialog'
+import { ParkedCartsDialog } from '@/components/orders/parked-carts-dialog'
+import { OfflineSalesDialog } from '@/components/orders/offline-sales-dialog'
 import { type Product } from '@/app/actions/products'
-import { createOrderWithItems } from '@/app/actions/orders'
-import { Loader2, Plus, Minus, Trash2, Search } from 'lucide-react'
-import { formatRupiah } from '@/lib/utils'
+import { createOrderWithItems, type CreateOrderPayload } from '@/app/actions/orders'
+import { validatePromoCode, type PriceRule, type PromoCode } from '@/app/actions/promotions'
+import { parkCart, type ParkedCart } from '@/app/actions/parked-carts'
+import { Loader2, Plus, Minus, Trash2, Search, X, ScanBarcode, PauseCircle, ListRestart, WifiOff, CloudUpload } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+import { resolveTaxRate, type TaxContext } from '@/lib/tax'
+import { priceCart, type DiscountType } from '@/lib/pricing'
+import { formatStock, saleUnits, unitPrice, unitsInStock } from '@/lib/units'
+import {
+  enqueueSale,
+  loadCatalog,
+  loadQueue,
+  queuedQuantities,
+  registerPosServiceWorker,
+  removeQueuedSale,
+  saveCatalog,
+  syncPayload,
+  updateQueuedSale,
+  type PosCatalog,
+  type QueuedSale,
+} from '@/lib/offline-pos'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 
 type POSNewOrderProps = {
   products: Product[]
   customers: { id: string; name: string; email: string | null }[]
+  tax: TaxContext
+  priceRules: PriceRule[]
+  // Payments are counted into the cashier's drawer, so selling needs an open shift
+  shiftOpen: boolean
 }
 
 type CartItem = {
   product_id: string
   product_name: string
+  category_id: string | null
+  // Null sells the product's base unit; prices and quantities are per unit
+  unit_id: string | null
+  unit_name: string
+  unit_factor: number
+  list_price: number
   unit_price: number
   quantity: number
   discount: number
+  tax_rate: number
   maxStock: number
 }
 
-export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
+// An empty amount means "whatever is still owed"
+type Tender = {
+  method: string
+  amount: string
+}
+
+const DEFAULT_TENDERS: Tender[] = [{ method: 'cash', amount: '' }]
+
+// Customer select value for a sale recorded without a customer
+const WALK_IN = 'walk_in'
+
+const SHORTCUTS = [
+  ['F2', 'Scan'],
+  ['F3', 'Search'],
+  ['F4', 'Quantity'],
+  ['F6', 'Discount'],
+  ['F7', 'Payment'],
+  ['F9', 'Checkout'],
+  ['+ / -', 'Change quantity'],
+  ['↑ / ↓', 'Select line'],
+  ['Del', 'Remove line'],
+]
+
+// Barcodes match exactly; SKUs ignore case
+function findProductByCode(products: Product[], code: string) {
+  return (
+    products.find((p) => p.barcodes?.includes(code)) ??
+    products.find((p) => p.sku.toLowerCase() === code.toLowerCase())
+  )
+}
+
+export default function POSNewOrder(props: POSNewOrderProps) {
   const router = useRouter()
+  const [catalog, setCatalog] = useState<Omit<PosCatalog, 'saved_at'>>(props)
+  const [online, setOnline] = useState(true)
+  const [queue, setQueue] = useState<QueuedSale[]>([])
+  const [offlineOpen, setOfflineOpen] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [approvalSale, setApprovalSale] = useState<QueuedSale | null>(null)
+  const syncingRef = useRef(false)
   const [search, setSearch] = useState('')
   const [cart, setCart] = useState<CartItem[]>([])
   const [customerId, setCustomerId] = useState<string>('')
-  const [paymentMethod, setPaymentMethod] = useState<string>('cash')
+  const [walkInPhone, setWalkInPhone] = useState('')
+  const [tenders, setTenders] = useState<Tender[]>(DEFAULT_TENDERS)
   const [notes, setNotes] = useState('')
+  const [orderDiscountType, setOrderDiscountType] = useState<DiscountType | 'none'>('none')
+  const [orderDiscountValue, setOrderDiscountValue] = useState('')
+  const [promoInput, setPromoInput] = useState('')
+  const [promoCode, setPromoCode] = useState<PromoCode | null>(null)
+  const [promoError, setPromoError] = useState('')
+  const [checkingPromo, startPromoCheck] = useTransition()
   const [createOpen, setCreateOpen] = useState(false)
   const [submitting, startTransition] = useTransition()
   const [error, setError] = useState<string>('')
-  const [success, setSuccess] = useState<string>('')
+  const [success, setSuccess] = useState<{ id: string; number: string } | null>(null)
+  const [approvalReason, setApprovalReason] = useState<string | null>(null)
+  const [scanCode, setScanCode] = useState('')
+  const [scanError, setScanError] = useState('')
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const [parkedOpen, setParkedOpen] = useState(false)
+  const [parking, startParking] = useTransition()
+  const [notice, setNotice] = useState('')
+  const scanRef = useRef<HTMLInputElement>(null)
+  const searchRef = useRef<HTMLInputElement>(null)
 
   // When closing the create customer dialog, refresh the page to fetch the new customer list
   useEffect(() => {
-    if (!createOpen) {
+    if (!createOpen && navigator.onLine) {
       router.refresh()
     }
   }, [createOpen, router])
 
+  // Online, the server's catalogue is cached for later; offline, the page may
+  // be an old copy from the service worker, so the newer local cache wins
+  useEffect(() => {
+    if (navigator.onLine) {
+      const { products, customers, tax, priceRules } = props
+      setCatalog({ products, customers, tax, priceRules })
+      saveCatalog({ products, customers, tax, priceRules })
+    } else {
+      const cached = loadCatalog()
+      if (cached) setCatalog(cached)
+    }
+  }, [props.products, props.customers, props.tax, props.priceRules])
+
+  const { customers, tax, priceRules } = catalog
+
+  // Stock promised to sales still in the queue is not available to sell again
+  const products = useMemo(() => {
+    const held = queuedQuantities(queue, catalog.products)
+    return catalog.products.map((p) => (held.has(p.id) ? { ...p, stock: p.stock - held.get(p.id)! } : p))
+  }, [catalog.products, queue])
+
   const filtered = useMemo(() => {
   const q = search.trim().toLowerCase()
   if (!q) return products
@@ -56,26 +164,55 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
   )
 }, [search, products])
 
-  const addToCart = (p: Product) => {
+  // Returns an error message when the stock cannot cover the extra quantity
+  const addToCart = (p: Product, quantity = 1): string | null => {
+    const found = cart.find((i) => i.product_id === p.id)
+    const available = found ? found.maxStock : p.stock
+    if ((found?.quantity ?? 0) + quantity > available) {
+      return available <= 0 ? `${p.name} is out of stock` : `Only ${available} ${found?.unit_name ?? p.unit} ${p.name} in stock`
+    }
+
     setCart((prev) => {
-      const found = prev.find((i) => i.product_id === p.id)
-      if (found) {
-        if (found.quantity + 1 > found.maxStock) return prev
-        return prev.map((i) => (i.product_id === p.id ? { ...i, quantity: i.quantity + 1 } : i))
+      if (prev.some((i) => i.product_id === p.id)) {
+        return prev.map((i) => (i.product_id === p.id ? { ...i, quantity: i.quantity + quantity } : i))
       }
-      if (p.stock <= 0) return prev
       return [
         ...prev,
         {
           product_id: p.id,
           product_name: p.name,
+          category_id: p.category_id,
+          unit_id: null,
+          unit_name: p.unit,
+          unit_factor: 1,
+          list_price: p.price,
           unit_price: p.price,
-          quantity: 1,
+          quantity,
           discount: 0,
+          tax_rate: resolveTaxRate(tax, p.tax_rate_id, p.category_tax_rate_id),
           maxStock: p.stock,
         },
       ]
     })
+    setActiveId(p.id)
+    return null
+  }
+
+  // Accepts a barcode or SKU, optionally prefixed with a quantity: "3*8991234567890"
+  const handleScan = () => {
+    const input = scanCode.trim()
+    if (!input) return
+    const match = input.match(/^(\d+)\*(.+)$/)
+    const quantity = match ? Math.max(1, Number(match[1])) : 1
+    const code = match ? match[2].trim() : input
+
+    const product = findProductByCode(products, code)
+    setScanCode('')
+    if (!product) {
+      setScanError(`No product matches "${code}"`)
+      return
+    }
+    setScanError(addToCart(product, quantity) || '')
   }
 
   const updateQty = (product_id: string, qty: number) => {
@@ -92,57 +229,520 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
     setCart((prev) => prev.map((i) => (i.product_id === product_id ? { ...i, discount: Math.max(0, discount) } : i)))
   }
 
-  const removeItem = (product_id: string) => setCart((prev) => prev.filter((i) => i.product_id !== product_id))
+  const updatePrice = (product_id: string, price: number) => {
+    setCart((prev) => prev.map((i) => (i.product_id === product_id ? { ...i, unit_price: Math.max(0, price) } : i)))
+  }
+
+  // A new unit brings its own list price and stock limit; a changed price is dropped
+  const updateUnit = (product_id: string, unitId: string | null) => {
+    const product = products.find((p) => p.id === product_id)
+    if (!product) return
+    const unit = saleUnits(product).find((u) => u.id === unitId) ?? null
+    const price = unitPrice(product, unit)
+    const maxStock = unitsInStock(product.stock, unit)
+    setCart((prev) =>
+      prev.map((i) =>
+        i.product_id === product_id
+          ? {
+              ...i,
+              unit_id: unit?.id ?? null,
+              unit_name: unit?.name ?? product.unit,
+              unit_factor: unit?.factor ?? 1,
+              list_price: price,
+              unit_price: price,
+              quantity: Math.max(1, Math.min(i.quantity, maxStock)),
+              maxStock,
+            }
+          : i
+      )
+    )
+  }
 
-  const subtotal = useMemo(() => cart.reduce((sum, i) => sum + i.unit_price * i.quantity, 0), [cart])
-  const totalDiscount = useMemo(() => cart.reduce((sum, i) => sum + i.discount, 0), [cart])
-  const total = useMemo(() => Math.max(0, subtotal - totalDiscount), [subtotal, totalDiscount])
+  const removeItem = (product_id: string) => {
+    setCart((prev) => prev.filter((i) => i.product_id !== product_id))
+    if (activeId === product_id) setActiveId(null)
+  }
 
-  const canCheckout = cart.length > 0 && !!customerId && cart.every((i) => i.quantity <= i.maxStock)
+  const activeItem = cart.find((i) => i.product_id === activeId) ?? cart[cart.length - 1]
 
-  const handleCheckout = () => {
-    setError('')
-    setSuccess('')
-    if (!canCheckout) return
+  const focusField = (id: string) => {
+    const field = document.getElementById(id) as HTMLInputElement | null
+    field?.focus()
+    field?.select?.()
+  }
 
-    startTransition(async () => {
-      const payload = {
-        customer_id: customerId,
-        payment_method: paymentMethod,
-        notes,
+  // Line shortcuts work from the empty scan field, so a scanner never triggers them
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      handleScan()
+      return
+    }
+    if (scanCode || !activeItem) return
+
+    const index = cart.indexOf(activeItem)
+    if (e.key === '+' || e.key === '-') {
+      e.preventDefault()
+      updateQty(activeItem.product_id, activeItem.quantity + (e.key === '+' ? 1 : -1))
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault()
+      const next = cart[index + (e.key === 'ArrowUp' ? -1 : 1)]
+      if (next) setActiveId(next.product_id)
+    } else if (e.key === 'Delete') {
+      e.preventDefault()
+      removeItem(activeItem.product_id)
+    }
+  }
+
+  const orderDiscount = useMemo(
+    () =>
+      orderDiscountType !== 'none' && orderDiscountValue
+        ? { type: orderDiscountType, value: Number(orderDiscountValue) || 0 }
+        : null,
+    [orderDiscountType, orderDiscountValue]
+  )
+
+  const pricing = useMemo(
+    () =>
+      priceCart(
+        cart.map((i) => ({
+          product_id: i.product_id,
+          category_id: i.category_id,
+          list_price: i.list_price,
+          unit_price: i.unit_price,
+          quantity: i.quantity,
+          manual_discount: i.discount,
+          tax_rate: i.tax_rate,
+        })),
+        { rules: priceRules, orderDiscount, promoCode, pricesIncludeTax: tax.pricesIncludeTax }
+      ),
+    [cart, priceRules, orderDiscount, promoCode, tax.pricesIncludeTax]
+  )
+  const total = pricing.total
+
+  const applyPromo = () => {
+    setPromoError('')
+    startPromoCheck(async () => {
+      const res = await validatePromoCode(promoInput)
+      if (res.promoCode) {
+        setPromoCode(res.promoCode)
+        setPromoInput('')
+      } else {
+        setPromoError(res.error || 'Invalid promo code')
+      }
+    })
+  }
+
+  // Tenders are applied in order; anything beyond the total comes back as change
+  const payments = useMemo(() => {
+    let remaining = total
+    return tenders.map((t) => {
+      const entered = t.amount ? parseRupiah(t.amount) : remaining
+      const applied = Math.min(entered, remaining)
+      remaining -= applied
+      return { method: t.method, entered, applied }
+    })
+  }, [tenders, total])
+  const tendered = payments.reduce((sum, p) => sum + p.entered, 0)
+  const paidNow = payments.reduce((sum, p) => sum + p.applied, 0)
+  const balanceDue = total - paidNow
+  const change = Math.max(0, tendered - total)
+
+  const updateTender = (index: number, patch: Partial<Tender>) => {
+    setTenders((prev) => prev.map((t, i) => (i === index ? { ...t, ...patch } : t)))
+  }
+
+  const addTender = () => setTenders((prev) => [...prev, { method: 'card', amount: '' }])
+
+  const removeTender = (index: number) => setTenders((prev) => prev.filter((_, i) => i !== index))
+
+  const isWalkIn = customerId === WALK_IN
+
+  // Walk-in buyers have no account to carry a balance
+  const canCheckout =
+    cart.length > 0 &&
+    props.shiftOpen &&
+    !!customerId &&
+    (!isWalkIn || balanceDue === 0) &&
+    cart.every((i) => i.quantity <= i.maxStock) &&
+    !pricing.promoError
+
+  const buildPayload = (approval: { email: string; pin: string } | null): CreateOrderPayload => ({
+    customer_id: isWalkIn ? null : customerId,
+    walk_in_phone: isWalkIn ? walkInPhone.trim() || null : null,
+    payments: payments
+      .filter((p) => p.applied > 0)
+      .map((p) => ({ method: p.method, amount: p.applied })),
+    notes,
+    order_discount: orderDiscount,
+    promo_code: promoCode?.code ?? null,
+    approval,
+    items: cart.map((i) => ({
+      product_id: i.product_id,
+      unit_id: i.unit_id,
+      quantity: i.quantity,
+      unit_price: i.unit_price,
+      price_override: i.unit_price !== i.list_price,
+      discount: i.discount,
+    })),
+  })
+
+  const clearCart = () => {
+    setCart([])
+    setNotes('')
+    setCustomerId('')
+    setWalkInPhone('')
+    setTenders(DEFAULT_TENDERS)
+    setOrderDiscountType('none')
+    setOrderDiscountValue('')
+    setPromoCode(null)
+    setActiveId(null)
+    scanRef.current?.focus()
+  }
+
+  const resetCart = (order: { id: string; number: string }) => {
+    setSuccess(order)
+    clearCart()
+  }
+
+  const handleParkCart = () => {
+    if (cart.length === 0) return
+    const customerName = customers.find((c) => c.id === customerId)?.name
+    const label = prompt('Label for the parked cart', customerName || `Cart ${new Date().toLocaleTimeString()}`)
+    if (!label?.trim()) return
+
+    setError('')
+    setSuccess(null)
+    setNotice('')
+    startParking(async () => {
+      const result = await parkCart({
+        label,
+        customer_id: customerId && !isWalkIn ? customerId : null,
         items: cart.map((i) => ({
           product_id: i.product_id,
-          product_name: i.product_name,
+          unit_id: i.unit_id,
           quantity: i.quantity,
           unit_price: i.unit_price,
+          price_override: i.unit_price !== i.list_price,
           discount: i.discount,
         })),
+        notes: notes || null,
+        order_discount: orderDiscount,
+        promo_code: promoCode?.code ?? null,
+        total_amount: total,
+      })
+      if (!result.success) {
+        setError(result.error || 'Failed to park cart')
+        return
       }
+      clearCart()
+      setNotice(`Cart "${label.trim()}" parked`)
+    })
+  }
+
+  // Stock was not reserved while parked, so quantities and prices are taken
+  // from the current catalogue; manual price overrides are kept
+  const handleResumeCart = (parkedCart: ParkedCart) => {
+    const changes: string[] = []
+    const items: CartItem[] = []
+    for (const item of parkedCart.items) {
+      const product = products.find((p) => p.id === item.product_id)
+      const unit = product ? saleUnits(product).find((u) => u.id === item.unit_id) ?? null : null
+      const available = product ? unitsInStock(product.stock, unit) : 0
+      if (!product || available <= 0) {
+        changes.push(`${product?.name ?? 'A product'} is no longer available`)
+        continue
+      }
+      if (item.unit_id && !unit) changes.push(`${product.name} is now sold by the ${product.unit}`)
+      const price = unitPrice(product, unit)
+      const sameUnit = (unit?.id ?? null) === (item.unit_id ?? null)
+      if (item.quantity > available) changes.push(`${product.name} reduced to ${available}`)
+      if (!item.price_override && item.unit_price !== price) {
+        changes.push(`${product.name} is now ${formatRupiah(price)}`)
+      }
+      items.push({
+        product_id: product.id,
+        product_name: product.name,
+        category_id: product.category_id,
+        unit_id: unit?.id ?? null,
+        unit_name: unit?.name ?? product.unit,
+        unit_factor: unit?.factor ?? 1,
+        list_price: price,
+        unit_price: item.price_override && sameUnit ? item.unit_price : price,
+        quantity: Math.min(item.quantity, available),
+        discount: item.discount,
+        tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.category_tax_rate_id),
+        maxStock: available,
+      })
+    }
 
-      const res = await createOrderWithItems(payload)
+    clearCart()
+    setError('')
+    setSuccess(null)
+    setCart(items)
+    setCustomerId(customers.some((c) => c.id === parkedCart.customer_id) ? parkedCart.customer_id! : '')
+    setNotes(parkedCart.notes || '')
+    setOrderDiscountType(parkedCart.order_discount?.type ?? 'none')
+    setOrderDiscountValue(parkedCart.order_discount ? String(parkedCart.order_discount.value) : '')
+    setNotice([`Resumed "${parkedCart.label}"`, ...changes].join('. '))
+
+    if (parkedCart.promo_code) {
+      setPromoError('')
+      startPromoCheck(async () => {
+        const res = await validatePromoCode(parkedCart.promo_code!)
+        if (res.promoCode) setPromoCode(res.promoCode)
+        else setPromoError(res.error || 'Promo code is no longer valid')
+      })
+    }
+  }
+
+  // The sale is kept on this device and sent later under the same client_reference
+  const queueSale = (payload: CreateOrderPayload) => {
+    const label = customers.find((c) => c.id === payload.customer_id)?.name || payload.walk_in_phone || 'Walk-in'
+    try {
+      setQueue(
+        enqueueSale({
+          id: payload.client_reference!,
+          payload: { ...payload, offline_sold_at: new Date().toISOString() },
+          label,
+          total,
+          created_at: new Date().toISOString(),
+        })
+      )
+    } catch (err) {
+      console.error('Error queueing offline sale:', err)
+      setError('No connection, and the sale could not be saved on this device')
+      return
+    }
+    clearCart()
+    setNotice(`No connection: the sale for ${label} was saved on this device and will sync when the connection returns`)
+  }
+
+  // Replays queued sales oldest first. A sale the server rejects is kept as a
+  // conflict for the cashier; a network failure stops the run with the rest
+  // still pending.
+  const syncQueue = async () => {
+    if (syncingRef.current) return
+    syncingRef.current = true
+    setSyncing(true)
+    let synced = 0
+    try {
+      for (const sale of loadQueue().filter((s) => s.status === 'pending')) {
+        const res = await createOrderWithItems(syncPayload(sale))
+        if (res.success) {
+          setQueue(removeQueuedSale(sale.id))
+          synced++
+        } else {
+          setQueue(
+            updateQueuedSale(sale.id, {
+              status: 'conflict',
+              error: res.error || 'Failed to create order',
+              approval_required: !!res.approval_required,
+            })
+          )
+        }
+      }
+    } catch (err) {
+      console.error('Error syncing offline sales:', err)
+    } finally {
+      syncingRef.current = false
+      setSyncing(false)
+    }
+
+    if (synced > 0) {
+      setNotice(`${synced} offline ${synced === 1 ? 'sale' : 'sales'} synced`)
+      router.refresh()
+    }
+    if (loadQueue().some((s) => s.status === 'conflict')) setOfflineOpen(true)
+  }
+
+  const retryQueuedSale = async (sale: QueuedSale, approval: { email: string; pin: string } | null = null) => {
+    const res = await createOrderWithItems({ ...syncPayload(sale), approval })
+    if (!res.success) {
+      setQueue(
+        updateQueuedSale(sale.id, {
+          status: 'conflict',
+          error: res.error || 'Failed to create order',
+          approval_required: !!res.approval_required,
+        })
+      )
+      return res.error || 'Failed to create order'
+    }
+    setQueue(removeQueuedSale(sale.id))
+    setNotice(`Offline sale for ${sale.label} synced as ${res.order_number}`)
+    router.refresh()
+    return null
+  }
+
+  const handleRetrySale = async (sale: QueuedSale) => {
+    // Overrides rung up offline, and prices changed since, need a supervisor's PIN
+    if (sale.approval_required) {
+      setOfflineOpen(false)
+      setApprovalSale(sale)
+      setApprovalReason(sale.error || 'Supervisor approval required')
+      return
+    }
+    await retryQueuedSale(sale)
+  }
+
+  const handleDiscardSale = (sale: QueuedSale) => {
+    setQueue(removeQueuedSale(sale.id))
+  }
+
+  useEffect(() => {
+    setQueue(loadQueue())
+    setOnline(navigator.onLine)
+    registerPosServiceWorker()
+    if (navigator.onLine) syncQueue()
+
+    const goOnline = () => {
+      setOnline(true)
+      syncQueue()
+    }
+    const goOffline = () => setOnline(false)
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+    }
+  }, [])
+
+  const handleCheckout = () => {
+    setError('')
+    setSuccess(null)
+    setNotice('')
+    if (!canCheckout) return
+
+    startTransition(async () => {
+      const payload = { ...buildPayload(null), client_reference: crypto.randomUUID() }
+      if (!navigator.onLine) {
+        queueSale(payload)
+        return
+      }
+
+      let res: Awaited<ReturnType<typeof createOrderWithItems>>
+      try {
+        res = await createOrderWithItems(payload)
+      } catch (err) {
+        // The request may or may not have reached the server; replaying it
+        // under the same client_reference cannot create a second order
+        console.error('Error creating order:', err)
+        queueSale(payload)
+        return
+      }
       if (!res.success) {
+        // Overrides and large discounts are held for a supervisor's PIN
+        if (res.approval_required) {
+          setApprovalReason(res.error || 'Supervisor approval required')
+          return
+        }
         setError(res.error || 'Failed to create order')
         return
       }
-      setSuccess(`Order ${res.order_number} created`)
-      setCart([])
-      setNotes('')
-      setCustomerId('')
-      setPaymentMethod('cash')
+      resetCart({ id: res.order_id!, number: res.order_number! })
     })
   }
 
+  const handleApprove = async (approval: { email: string; pin: string }) => {
+    const res = await createOrderWithItems(buildPayload(approval))
+    if (!res.success) {
+      if (res.approval_required) return res.error || 'Supervisor approval required'
+      setApprovalReason(null)
+      setError(res.error || 'Failed to create order')
+      return null
+    }
+    resetCart({ id: res.order_id!, number: res.order_number! })
+    return null
+  }
+
+  // Re-bound every render so the listener always sees the current cart
+  const shortcutHandler = useRef<(e: KeyboardEvent) => void>(() => {})
+  shortcutHandler.current = (e: KeyboardEvent) => {
+    if (createOpen || parkedOpen || offlineOpen || approvalReason !== null) return
+    const focusActive = (field: 'qty' | 'discount') => activeItem && focusField(`pos-${field}-${activeItem.product_id}`)
+
+    if (e.key === 'F2' || e.key === 'Escape') scanRef.current?.focus()
+    else if (e.key === 'F3') searchRef.current?.focus()
+    else if (e.key === 'F4') focusActive('qty')
+    else if (e.key === 'F6') focusActive('discount')
+    else if (e.key === 'F7') focusField('pos-tender-0')
+    else if (e.key === 'F9' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) handleCheckout()
+    else return
+    e.preventDefault()
+  }
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => shortcutHandler.current(e)
+    window.addEventListener('keydown', listener)
+    return () => window.removeEventListener('keydown', listener)
+  }, [])
+
+  const conflicts = queue.filter((s) => s.status === 'conflict').length
+
   return (
     <div className="grid gap-6 md:grid-cols-3">
+      {(!online || queue.length > 0) && (
+        <div className="md:col-span-3 flex items-center justify-between rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <span className="flex items-center gap-2">
+            {online ? <CloudUpload className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+            {online
+              ? syncing
+                ? 'Syncing offline sales...'
+                : `${queue.length - conflicts} offline ${queue.length - conflicts === 1 ? 'sale' : 'sales'} waiting to sync`
+              : 'Offline. Sales are saved on this device and synced when the connection returns.'}
+            {conflicts > 0 && <span className="font-medium text-red-600">{conflicts} need attention</span>}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setOfflineOpen(true)}>
+            Offline sales ({queue.length})
+          </Button>
+        </div>
+      )}
+
       <Card className="md:col-span-2">
         <CardHeader className="flex-row items-center justify-between space-y-0">
           <CardTitle>Products</CardTitle>
           <div className="relative w-72">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-            <Input className="pl-10" placeholder="Search products..." value={search} onChange={(e) => setSearch(e.target.value)} />
+            <Input
+              ref={searchRef}
+              className="pl-10"
+              placeholder="Search products..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && filtered.length === 1) setScanError(addToCart(filtered[0]) || '')
+              }}
+            />
           </div>
         </CardHeader>
         <CardContent>
+          <div className="mb-4 space-y-2">
+            <div className="relative">
+              <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                ref={scanRef}
+                autoFocus
+                className="pl-10"
+                placeholder="Scan a barcode or type a SKU and press Enter (3*code adds three)"
+                value={scanCode}
+                onChange={(e) => {
+                  setScanCode(e.target.value)
+                  setScanError('')
+                }}
+                onKeyDown={handleScanKeyDown}
+              />
+            </div>
+            {scanError && <p className="text-xs text-red-600">{scanError}</p>}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {SHORTCUTS.map(([key, label]) => (
+                <span key={key}>
+                  <kbd className="rounded border bg-gray-50 px-1 font-mono">{key}</kbd> {label}
+                </span>
+              ))}
+            </div>
+          </div>
+
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
             {filtered.map((p) => (
               <div key={p.id} className="border rounded-md p-3 hover:bg-gray-50">
@@ -150,11 +750,14 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
                   <div>
                     <div className="text-sm font-medium">{p.name}</div>
                     <div className="text-xs text-gray-500">SKU: {p.sku}</div>
-                    <div className="text-xs text-gray-500">Stock: {p.stock}</div>
+                    <div className="text-xs text-gray-500">Stock: {formatStock(p, p.stock)}</div>
+                  </div>
+                  <div className="text-sm font-semibold">
+                    {formatRupiah(p.price)}
+                    {p.units?.length > 0 && <span className="text-xs font-normal text-gray-500"> / {p.unit}</span>}
                   </div>
-                  <div className="text-sm font-semibold">{formatRupiah(p.price)}</div>
                 </div>
-                <Button className="mt-3 w-full" size="sm" onClick={() => addToCart(p)} disabled={p.stock <= 0}>
+                <Button className="mt-3 w-full" size="sm" onClick={() => setScanError(addToCart(p) || '')} disabled={p.stock <= 0}>
                   <Plus className="mr-2 h-4 w-4" /> Add
                 </Button>
               </div>
@@ -164,28 +767,72 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
       </Card>
 
       <Card>
-        <CardHeader>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
           <CardTitle>Cart</CardTitle>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setParkedOpen(true)} disabled={!online}>
+              <ListRestart className="mr-2 h-4 w-4" /> Parked
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleParkCart} disabled={!online || cart.length === 0 || parking}>
+              {parking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PauseCircle className="mr-2 h-4 w-4" />} Park
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {cart.length === 0 ? (
             <div className="text-sm text-gray-500">No items in cart</div>
           ) : (
             <div className="space-y-3">
-              {cart.map((i) => {
-                const lineSubtotal = i.unit_price * i.quantity
-                const lineTotal = Math.max(0, lineSubtotal - i.discount)
+              {cart.map((i, index) => {
+                const line = pricing.lines[index]
+                const product = products.find((p) => p.id === i.product_id)
+                const units = product ? saleUnits(product) : []
                 return (
-                  <div key={i.product_id} className="border rounded-md p-3 space-y-2">
+                  <div
+                    key={i.product_id}
+                    className={`border rounded-md p-3 space-y-2 ${i === activeItem ? 'border-blue-500' : ''}`}
+                    onClick={() => setActiveId(i.product_id)}
+                  >
                     <div className="flex items-center justify-between">
                       <div className="text-sm font-medium">{i.product_name}</div>
-                      <Button variant="ghost" size="icon" onClick={() => removeItem(i.product_id)}>
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        {product && units.length > 0 && (
+                          <Select
+                            value={i.unit_id ?? 'base'}
+                            onValueChange={(value) => updateUnit(i.product_id, value === 'base' ? null : value)}
+                          >
+                            <SelectTrigger className="h-8 w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="base">{product.unit}</SelectItem>
+                              {units.map((unit) => (
+                                <SelectItem key={unit.id} value={unit.id}>
+                                  {unit.name} ({unit.factor})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => removeItem(i.product_id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                    <div className="grid grid-cols-3 gap-2 items-center">
+                    <div className="grid grid-cols-2 gap-2 items-center">
                       <div>
-                        <Label className="text-xs">Qty (max {i.maxStock})</Label>
+                        <Label className="text-xs">Price</Label>
+                        <Input
+                          inputMode="numeric"
+                          value={formatRupiah(i.unit_price)}
+                          onChange={(e) => updatePrice(i.product_id, parseRupiah(e.target.value))}
+                        />
+                        {i.unit_price !== i.list_price && (
+                          <div className="text-xs text-amber-600">List {formatRupiah(i.list_price)}</div>
+                        )}
+                      </div>
+                      <div>
+                        <Label className="text-xs">Qty (max {i.maxStock} {i.unit_name})</Label>
                         <div className="flex items-center gap-2">
                           <Button
                             variant="outline"
@@ -196,6 +843,7 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
                             <Minus className="h-4 w-4" />
                           </Button>
                           <Input
+                            id={`pos-qty-${i.product_id}`}
                             inputMode="numeric"
                             value={i.quantity}
                             onChange={(e) => updateQty(i.product_id, Number(e.target.value) || 1)}
@@ -213,14 +861,25 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
                       <div>
                         <Label className="text-xs">Discount</Label>
                         <Input
+                          id={`pos-discount-${i.product_id}`}
                           inputMode="decimal"
                           value={i.discount}
                           onChange={(e) => updateDiscount(i.product_id, Number(e.target.value) || 0)}
                         />
                       </div>
                       <div className="text-right">
-                        <div className="text-xs text-gray-500">Subtotal: {formatRupiah(lineSubtotal)}</div>
-                        <div className="text-sm font-semibold">Line total: {formatRupiah(lineTotal)}</div>
+                        <div className="text-xs text-gray-500">Subtotal: {formatRupiah(line.gross)}</div>
+                        {line.rule && (
+                          <div className="text-xs text-green-600">
+                            {line.rule.name}: -{formatRupiah(line.ruleDiscount)}
+                          </div>
+                        )}
+                        <div className="text-sm font-semibold">Line total: {formatRupiah(line.subtotal)}</div>
+                        {i.tax_rate > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Tax {i.tax_rate}%: {formatRupiah(line.tax)}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -230,11 +889,21 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
               <div className="border-t pt-3 space-y-1 text-sm">
                 <div className="flex items-center justify-between">
                   <span>Subtotal</span>
-                  <span>{formatRupiah(subtotal)}</span>
+                  <span>{formatRupiah(pricing.gross)}</span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span>Discount</span>
-                  <span>-{formatRupiah(totalDiscount)}</span>
+                  <span>Line discounts</span>
+                  <span>-{formatRupiah(pricing.lineDiscounts)}</span>
+                </div>
+                {pricing.orderDiscount > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span>Order discount</span>
+                    <span>-{formatRupiah(pricing.orderDiscount)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <span>{tax.pricesIncludeTax ? 'Tax (included)' : 'Tax'}</span>
+                  <span>{formatRupiah(pricing.tax)}</span>
                 </div>
                 <div className="flex items-center justify-between font-semibold">
                   <span>Total</span>
@@ -253,6 +922,7 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
                     <SelectValue placeholder="Select customer" />
                   </SelectTrigger>
                   <SelectContent>
+                    <SelectItem value={WALK_IN}>Walk-in customer</SelectItem>
                     {customers.map((c) => (
                       <SelectItem key={c.id} value={c.id}>
                         {c.name} {c.email ? `(${c.email})` : ''}
@@ -260,24 +930,121 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
                     ))}
                   </SelectContent>
                 </Select>
-                <Button type="button" variant="outline" onClick={() => setCreateOpen(true)}>
+                <Button type="button" variant="outline" onClick={() => setCreateOpen(true)} disabled={!online}>
                   <Plus className="mr-2 h-4 w-4" /> New
                 </Button>
               </div>
+              {isWalkIn && (
+                <Input
+                  type="tel"
+                  value={walkInPhone}
+                  onChange={(e) => setWalkInPhone(e.target.value)}
+                  placeholder="Phone number (optional)"
+                />
+              )}
             </div>
 
             <div className="space-y-2">
-              <Label>Payment method</Label>
-              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="cash">Cash</SelectItem>
-                  <SelectItem value="card">Card</SelectItem>
-                  <SelectItem value="transfer">Transfer</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex items-center justify-between">
+                <Label>Payment</Label>
+                <Button type="button" variant="ghost" size="sm" onClick={addTender}>
+                  <Plus className="mr-2 h-4 w-4" /> Add tender
+                </Button>
+              </div>
+              {tenders.map((t, index) => (
+                <div key={index} className="flex gap-2">
+                  <Select value={t.method} onValueChange={(method) => updateTender(index, { method })}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="card">Card</SelectItem>
+                      <SelectItem value="transfer">Transfer</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    id={`pos-tender-${index}`}
+                    inputMode="numeric"
+                    value={t.amount ? formatRupiah(parseRupiah(t.amount)) : ''}
+                    onChange={(e) => updateTender(index, { amount: e.target.value.replace(/\D/g, '') })}
+                    placeholder={formatRupiah(payments[index]?.applied ?? 0)}
+                  />
+                  {tenders.length > 1 && (
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeTender(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <div className="text-sm space-y-1">
+                {change > 0 && (
+                  <div className="flex items-center justify-between">
+                    <span>Change</span>
+                    <span>{formatRupiah(change)}</span>
+                  </div>
+                )}
+                {balanceDue > 0 && (
+                  <div className="flex items-center justify-between text-red-600">
+                    <span>{isWalkIn ? 'Walk-in sales must be paid in full' : 'Balance due'}</span>
+                    <span>{formatRupiah(balanceDue)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Order discount</Label>
+              <div className="flex gap-2">
+                <Select value={orderDiscountType} onValueChange={(value) => setOrderDiscountType(value as DiscountType | 'none')}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="percentage">Percent</SelectItem>
+                    <SelectItem value="fixed">Rupiah</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  inputMode="decimal"
+                  value={orderDiscountValue}
+                  onChange={(e) => setOrderDiscountValue(e.target.value.replace(/[^\d.]/g, ''))}
+                  disabled={orderDiscountType === 'none'}
+                  placeholder={orderDiscountType === 'percentage' ? 'e.g. 10' : 'Amount'}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Promo code</Label>
+              {promoCode ? (
+                <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                  <span>
+                    <span className="font-medium">{promoCode.code}</span>
+                    {pricing.promoDiscount > 0 && (
+                      <span className="text-green-600 ml-2">-{formatRupiah(pricing.promoDiscount)}</span>
+                    )}
+                    {pricing.promoError && <span className="text-red-600 ml-2">{pricing.promoError}</span>}
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setPromoCode(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                    placeholder="Enter code"
+                  />
+                  <Button type="button" variant="outline" onClick={applyPromo} disabled={!online || !promoInput.trim() || checkingPromo}>
+                    {checkingPromo && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Apply
+                  </Button>
+                </div>
+              )}
+              {promoError && <p className="text-xs text-red-600">{promoError}</p>}
             </div>
 
             <div className="space-y-2">
@@ -285,17 +1052,71 @@ export default function POSNewOrder({ products, customers }: POSNewOrderProps) {
               <Input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional notes" />
             </div>
 
+            {!props.shiftOpen && (
+              <div className="text-sm text-amber-800 bg-amber-50 p-2 rounded border border-amber-200">
+                Open a shift before taking payments.{' '}
+                <Link href="/admin/shifts" className="font-medium underline">
+                  Go to shifts
+                </Link>
+              </div>
+            )}
+            {notice && <div className="text-sm text-blue-700 bg-blue-50 p-2 rounded border border-blue-200">{notice}</div>}
             {error && <div className="text-sm text-red-600 bg-red-50 p-2 rounded border border-red-200">{error}</div>}
-            {success && <div className="text-sm text-green-600 bg-green-50 p-2 rounded border border-green-200">{success}</div>}
+            {success && (
+              <div className="text-sm text-green-600 bg-green-50 p-2 rounded border border-green-200">
+                Order{' '}
+                <Link href={`/admin/orders/${success.id}`} className="font-medium underline">
+                  {success.number}
+                </Link>{' '}
+                created.{' '}
+                <a
+                  href={`/admin/orders/${success.id}/receipt?print=1`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="font-medium underline"
+                >
+                  Print receipt
+                </a>
+              </div>
+            )}
 
             <Button className="w-full" onClick={handleCheckout} disabled={!canCheckout || submitting}>
-              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} Checkout
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {online ? 'Checkout (F9)' : 'Checkout offline (F9)'}
             </Button>
           </div>
         </CardContent>
       </Card>
 
       <CustomerDialog open={createOpen} onOpenChange={setCreateOpen} mode="create" />
+
+      <ParkedCartsDialog
+        open={parkedOpen}
+        onOpenChange={setParkedOpen}
+        replacesCart={cart.length > 0}
+        onResume={handleResumeCart}
+      />
+
+      <OfflineSalesDialog
+        open={offlineOpen}
+        onOpenChange={setOfflineOpen}
+        sales={queue}
+        online={online}
+        syncing={syncing}
+        onSync={syncQueue}
+        onRetry={handleRetrySale}
+        onDiscard={handleDiscardSale}
+      />
+
+      <ApprovalDialog
+        open={approvalReason !== null}
+        onOpenChange={(open) => {
+          if (open) return
+          setApprovalReason(null)
+          setApprovalSale(null)
+        }}
+        reason={approvalReason ?? ''}
+        onApprove={approvalSale ? (approval) => retryQueuedSale(approvalSale, approval) : handleApprove}
+      />
     </div>
   )
 }
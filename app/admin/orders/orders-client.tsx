@@ -0,0 +1,417 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Search, ShoppingCart, ArrowUp, ArrowDown, ArrowUpDown, ChevronRight, Eye, X } from 'lucide-react'
+import type { OrderFilters, OrderSortColumn, OrderSummary, OrderWithCustomer } from '@/app/actions/orders'
+import { formatRupiah } from '@/lib/utils'
+
+interface OrdersClientProps {
+  orders: OrderWithCustomer[]
+  nextCursor: string | null
+  filters: OrderFilters
+  summary: OrderSummary
+  error: string | null
+}
+
+const ALL = 'all'
+
+export function OrdersClient({ orders, nextCursor, filters, summary, error }: OrdersClientProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [searchTerm, setSearchTerm] = useState(filters.q || '')
+
+  const hasFilters = !!(filters.q || filters.status || filters.payment_status || filters.payment_method || filters.date_from || filters.date_to || filters.customer_type)
+
+  // Any change other than paging starts again from the first page
+  const navigate = (changes: Partial<Record<keyof OrderFilters, string | undefined>>, keepCursor = false) => {
+    const next: Record<string, string | undefined> = {
+      q: filters.q,
+      status: filters.status,
+      payment_status: filters.payment_status,
+      payment_method: filters.payment_method,
+      date_from: filters.date_from,
+      date_to: filters.date_to,
+      customer_type: filters.customer_type,
+      sort: filters.sort,
+      dir: filters.dir,
+      cursor: keepCursor ? filters.cursor : undefined,
+      ...changes,
+    }
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(next)) {
+      if (value && value !== ALL) params.set(key, value)
+    }
+    const query = params.toString()
+    router.push(query ? `${pathname}?${query}` : pathname)
+  }
+
+  const handleSort = (column: OrderSortColumn) => {
+    const dir = filters.sort === column && filters.dir === 'desc' ? 'asc' : 'desc'
+    navigate({ sort: column, dir })
+  }
+
+  const SortIcon = ({ column }: { column: OrderSortColumn }) => {
+    if (filters.sort !== column) return <ArrowUpDown className="ml-1 h-3 w-3 text-gray-400" />
+    return filters.dir === 'asc' ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />
+  }
+
+  const SortableHeader = ({ column, label }: { column: OrderSortColumn; label: string }) => (
+    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">
+      <button type="button" className="inline-flex items-center hover:text-gray-900" onClick={() => handleSort(column)}>
+        {label}
+        <SortIcon column={column} />
+      </button>
+    </th>
+  )
+
+  const getStatusBadge = (status: string) => {
+    const styles = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      processing: 'bg-blue-100 text-blue-800',
+      completed: 'bg-green-100 text-green-800',
+      cancelled: 'bg-red-100 text-red-800',
+    }
+    return styles[status as keyof typeof styles] || styles.pending
+  }
+
+  const getPaymentBadge = (status: string) => {
+    const styles = {
+      unpaid: 'bg-red-100 text-red-800',
+      partial: 'bg-yellow-100 text-yellow-800',
+      paid: 'bg-green-100 text-green-800',
+      refunded: 'bg-gray-100 text-gray-800',
+    }
+    return styles[status as keyof typeof styles] || styles.unpaid
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Orders</h1>
+          <p className="text-gray-600 mt-2">Manage customer orders and transactions</p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/orders/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Order
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Order List</CardTitle>
+              <CardDescription>View and manage all orders</CardDescription>
+            </div>
+            <form
+              className="relative"
+              onSubmit={(e) => {
+                e.preventDefault()
+                navigate({ q: searchTerm.trim() || undefined })
+              }}
+            >
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Order number, customer or phone..."
+                className="pl-10 w-64"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </form>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 pt-4">
+            <Select value={filters.status || ALL} onValueChange={(value) => navigate({ status: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="processing">Processing</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.payment_status || ALL} onValueChange={(value) => navigate({ payment_status: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Payment" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All payments</SelectItem>
+                <SelectItem value="unpaid">Unpaid</SelectItem>
+                <SelectItem value="partial">Partial</SelectItem>
+                <SelectItem value="paid">Paid</SelectItem>
+                <SelectItem value="refunded">Refunded</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.payment_method || ALL} onValueChange={(value) => navigate({ payment_method: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Method" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All methods</SelectItem>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="card">Card</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
+                <SelectItem value="split">Split</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filters.customer_type || ALL} onValueChange={(value) => navigate({ customer_type: value })}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Customer" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All customers</SelectItem>
+                <SelectItem value="registered">Registered</SelectItem>
+                <SelectItem value="walk_in">Walk-in</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              className="w-40"
+              value={filters.date_from || ''}
+              onChange={(e) => navigate({ date_from: e.target.value || undefined })}
+              aria-label="From date"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="date"
+              className="w-40"
+              value={filters.date_to || ''}
+              onChange={(e) => navigate({ date_to: e.target.value || undefined })}
+              aria-label="To date"
+            />
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSearchTerm('')
+                  navigate({ q: undefined, status: undefined, payment_status: undefined, payment_method: undefined, date_from: undefined, date_to: undefined, customer_type: undefined })
+                }}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Clear
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && (
+            <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+          )}
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <SortableHeader column="order_number" label="Order ID" />
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Customer</th>
+                  <SortableHeader column="created_at" label="Date" />
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Items</th>
+                  <SortableHeader column="total_amount" label="Total" />
+                  <SortableHeader column="status" label="Status" />
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Payment</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <ShoppingCart className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">{hasFilters ? 'No orders found' : 'No orders yet'}</p>
+                        <p className="text-sm mt-1">
+                          {hasFilters ? 'Try different search terms or filters' : 'Get started by creating your first order'}
+                        </p>
+                        {!hasFilters && (
+                          <Button className="mt-4" asChild>
+                            <Link href="/admin/orders/new">
+                              <Plus className="mr-2 h-4 w-4" />
+                              New Order
+                            </Link>
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  orders.map((order) => (
+                    <tr key={order.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        <Link href={`/admin/orders/${order.id}`} className="text-blue-600 hover:underline">
+                          {order.order_number}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {order.customers?.name || (
+                          <span className="text-gray-500">Walk-in{order.walk_in_phone ? ` · ${order.walk_in_phone}` : ''}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{new Date(order.created_at).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {order.order_items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </td>
+                      <td className={`px-4 py-3 text-sm ${order.voided_at ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                        {formatRupiah(order.total_amount)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(order.status)}`}>
+                          {order.status}
+                        </span>
+                        {order.voided_at && (
+                          <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-gray-800 text-white">voided</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPaymentBadge(order.payment_status)}`}>
+                          {order.payment_status}
+                        </span>
+                        {order.payment_method && (
+                          <span className="ml-2 text-xs text-gray-500">{order.payment_method}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/admin/orders/${order.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          {(filters.cursor || nextCursor) && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              {filters.cursor && (
+                <Button variant="outline" size="sm" onClick={() => navigate({ cursor: undefined })}>
+                  First page
+                </Button>
+              )}
+              {nextCursor && (
+                <Button variant="outline" size="sm" onClick={() => navigate({ cursor: nextCursor }, true)}>
+                  Next
+                  <ChevronRight className="ml-1 h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">{summary.totalOrders}</div>
+            <p className="text-xs text-muted-foreground mt-1">{hasFilters ? 'Matching orders' : 'All time orders'}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Pending Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-yellow-600">{summary.pending}</div>
+            <p className="text-xs text-muted-foreground mt-1">Awaiting processing</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Completed Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold text-green-600">{summary.completed}</div>
+            <p className="text-xs text-muted-foreground mt-1">Successfully delivered</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Revenue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-3xl font-bold">{formatRupiah(summary.revenue)}</div>
+            <p className="text-xs text-muted-foreground mt-1">Net of refunds, excluding cancelled</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Revenue by Customer Type</CardTitle>
+          <CardDescription>Walk-in counter sales against registered customers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {[
+              { label: 'Registered customers', orders: summary.registeredOrders, revenue: summary.registeredRevenue },
+              { label: 'Walk-in', orders: summary.walkInOrders, revenue: summary.walkInRevenue },
+            ].map((row) => (
+              <div key={row.label} className="flex items-center justify-between">
+                <span className="text-sm text-gray-600">
+                  {row.label} <span className="text-xs text-muted-foreground">({row.orders} orders)</span>
+                </span>
+                <span className="text-sm font-medium">
+                  {formatRupiah(row.revenue)}
+                  {summary.revenue > 0 && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {Math.round((row.revenue / summary.revenue) * 100)}%
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Status Distribution</CardTitle>
+          <CardDescription>Overview of order statuses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Pending</span>
+              <span className="text-sm font-medium">{summary.pending}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Processing</span>
+              <span className="text-sm font-medium">{summary.processing}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Completed</span>
+              <span className="text-sm font-medium">{summary.completed}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Cancelled</span>
+              <span className="text-sm font-medium">{summary.cancelled}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">Voided (excluded from revenue)</span>
+              <span className="text-sm font-medium">{summary.voided}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
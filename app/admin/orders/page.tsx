@@ -1,165 +1,54 @@
-import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Search, ShoppingCart, Filter } from 'lucide-react'
-import { Input } from '@/components/ui/input'
-import Link from 'next/link'
+import { OrdersClient } from './orders-client'
+import { getOrders, getOrderSummary, type CustomerType, type Order, type OrderFilters, type OrderSortColumn } from '@/app/actions/orders'
 
-export default function OrdersPage() {
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Orders</h1>
-          <p className="text-gray-600 mt-2">Manage customer orders and transactions</p>
-        </div>
-        <Button asChild>
-          <Link href="/admin/orders/new">
-            <Plus className="mr-2 h-4 w-4" />
-            New Order
-          </Link>
-        </Button>
-      </div>
-
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Order List</CardTitle>
-              <CardDescription>View and manage all orders</CardDescription>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-                <Input
-                  placeholder="Search orders..."
-                  className="pl-10 w-64"
-                />
-              </div>
-              <Button variant="outline" size="sm">
-                <Filter className="mr-2 h-4 w-4" />
-                Filter
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="rounded-md border">
-            <table className="w-full">
-              <thead>
-                <tr className="border-b bg-gray-50">
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Order ID</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Customer</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Date</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Items</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Total</th>
-                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
-                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                <tr>
-                  <td colSpan={7} className="px-4 py-12 text-center">
-                    <div className="flex flex-col items-center justify-center text-gray-500">
-                      <ShoppingCart className="h-12 w-12 mb-4 text-gray-400" />
-                      <p className="text-lg font-medium">No orders yet</p>
-                      <p className="text-sm mt-1">Get started by creating your first order</p>
-                      <Button className="mt-4" asChild>
-                        <Link href="/admin/orders/new">
-                          <Plus className="mr-2 h-4 w-4" />
-                          New Order
-                        </Link>
-                      </Button>
-                    </div>
-                  </td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-        </CardContent>
-      </Card>
-
-      <div className="grid gap-6 md:grid-cols-4">
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Total Orders</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">0</div>
-            <p className="text-xs text-muted-foreground mt-1">All time orders</p>
-          </CardContent>
-        </Card>
+type OrdersPageProps = {
+  searchParams: { [key: string]: string | string[] | undefined }
+}
 
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Pending Orders</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold text-yellow-600">0</div>
-            <p className="text-xs text-muted-foreground mt-1">Awaiting processing</p>
-          </CardContent>
-        </Card>
+const SORT_COLUMNS: OrderSortColumn[] = ['created_at', 'order_number', 'total_amount', 'status']
+const STATUSES: Order['status'][] = ['pending', 'processing', 'completed', 'cancelled']
+const PAYMENT_STATUSES: Order['payment_status'][] = ['unpaid', 'partial', 'paid', 'refunded']
+const CUSTOMER_TYPES: CustomerType[] = ['walk_in', 'registered']
 
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Completed Orders</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold text-green-600">0</div>
-            <p className="text-xs text-muted-foreground mt-1">Successfully delivered</p>
-          </CardContent>
-        </Card>
+function param(searchParams: OrdersPageProps['searchParams'], key: string) {
+  const value = searchParams[key]
+  return (Array.isArray(value) ? value[0] : value) || undefined
+}
 
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-sm font-medium text-gray-600">Total Revenue</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="text-3xl font-bold">$0</div>
-            <p className="text-xs text-muted-foreground mt-1">From all orders</p>
-          </CardContent>
-        </Card>
-      </div>
+function parseFilters(searchParams: OrdersPageProps['searchParams']): OrderFilters {
+  const status = param(searchParams, 'status') as Order['status'] | undefined
+  const paymentStatus = param(searchParams, 'payment_status') as Order['payment_status'] | undefined
+  const sort = param(searchParams, 'sort') as OrderSortColumn | undefined
+  const customerType = param(searchParams, 'customer_type') as CustomerType | undefined
+
+  return {
+    q: param(searchParams, 'q'),
+    status: status && STATUSES.includes(status) ? status : undefined,
+    payment_status: paymentStatus && PAYMENT_STATUSES.includes(paymentStatus) ? paymentStatus : undefined,
+    payment_method: param(searchParams, 'payment_method'),
+    date_from: param(searchParams, 'date_from'),
+    date_to: param(searchParams, 'date_to'),
+    customer_type: customerType && CUSTOMER_TYPES.includes(customerType) ? customerType : undefined,
+    sort: sort && SORT_COLUMNS.includes(sort) ? sort : 'created_at',
+    dir: param(searchParams, 'dir') === 'asc' ? 'asc' : 'desc',
+    cursor: param(searchParams, 'cursor'),
+  }
+}
 
-      <div className="grid gap-6 md:grid-cols-2">
-        <Card>
-          <CardHeader>
-            <CardTitle>Recent Orders</CardTitle>
-            <CardDescription>Latest order activity</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground text-center py-8">
-              No recent orders to display
-            </p>
-          </CardContent>
-        </Card>
+export default async function OrdersPage({ searchParams }: OrdersPageProps) {
+  const filters = parseFilters(searchParams)
+  const [{ orders, nextCursor, error }, { summary }] = await Promise.all([
+    getOrders(filters),
+    getOrderSummary(filters),
+  ])
 
-        <Card>
-          <CardHeader>
-            <CardTitle>Order Status Distribution</CardTitle>
-            <CardDescription>Overview of order statuses</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Pending</span>
-                <span className="text-sm font-medium">0</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Processing</span>
-                <span className="text-sm font-medium">0</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Completed</span>
-                <span className="text-sm font-medium">0</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-gray-600">Cancelled</span>
-                <span className="text-sm font-medium">0</span>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    </div>
+  return (
+    <OrdersClient
+      orders={orders}
+      nextCursor={nextCursor}
+      filters={filters}
+      summary={summary}
+      error={error}
+    />
   )
 }
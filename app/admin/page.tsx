@@ -1,5 +1,3 @@
-'use client'
-
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { 
@@ -10,33 +8,21 @@ import {
   Activity, 
   Plus, 
   FileText, 
-  AlertCircle,
   ArrowUpRight,
   CalendarDays,
   Truck,
   Tag,
   UserPlus,
-  AlertTriangle
 } from 'lucide-react'
 import Link from 'next/link'
 import { Badge } from '@/components/ui/badge'
-
-// Mock data - replace with actual data from your API
-const stats = {
-  totalProducts: 156,
-  totalCustomers: 84,
-  totalOrders: 243,
-  totalRevenue: 187500000, // Example: 12540.50 USD to IDR (using 1 USD = 15,000 IDR)
-  pendingOrders: 12,
-  lowStockItems: 8,
-  monthlySales: [65, 59, 80, 81, 56, 55, 40],
-  recentActivities: [
-    { id: 1, type: 'order', description: 'New order #ORD-2023-1001', time: '2 minutes ago', status: 'new' },
-    { id: 2, type: 'product', description: 'Product "Dog Food 5kg" is low in stock', time: '1 hour ago', status: 'warning' },
-    { id: 3, type: 'customer', description: 'New customer registered', time: '3 hours ago', status: 'info' },
-    { id: 4, type: 'order', description: 'Order #ORD-2023-1000 has been shipped', time: '1 day ago', status: 'success' },
-  ]
-}
+import { ExpiryAlertsCard } from '@/components/dashboard/expiry-alerts-card'
+import { LowStockAlertsCard } from '@/components/dashboard/low-stock-alerts-card'
+import { getExpiringBatches, getLowStockProducts } from '@/app/actions/stock'
+import { getStoreSettings } from '@/app/actions/settings'
+import { getOrders, getOrderSummary } from '@/app/actions/orders'
+import { getDashboardCounts } from '@/app/actions/dashboard'
+import { formatRupiah } from '@/lib/utils'
 
 const quickActions = [
   { 
@@ -69,7 +55,18 @@ const quickActions = [
   },
 ]
 
-export default function AdminDashboard() {
+export default async function AdminDashboard() {
+  const { settings } = await getStoreSettings()
+  const expiryWindows = settings?.expiry_alert_days ?? [30, 60, 90]
+  const [{ batches: expiringBatches }, { products: lowStockProducts }, { summary }, { orders: recentOrders }, counts] =
+    await Promise.all([
+      getExpiringBatches(Math.max(...expiryWindows)),
+      getLowStockProducts(),
+      getOrderSummary(),
+      getOrders({ limit: 4 }),
+      getDashboardCounts(),
+    ])
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row md:items-center md:justify-between">
@@ -93,12 +90,8 @@ export default function AdminDashboard() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">
-              Rp{stats.totalRevenue.toLocaleString('id-ID', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
-            </div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-green-500">+12.5%</span> dari bulan lalu
-            </p>
+            <div className="text-2xl font-bold">{formatRupiah(summary.revenue)}</div>
+            <p className="text-xs text-muted-foreground">Net of refunds, voided and cancelled orders</p>
           </CardContent>
         </Card>
         
@@ -108,10 +101,10 @@ export default function AdminDashboard() {
             <ShoppingCart className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalOrders}</div>
+            <div className="text-2xl font-bold">{summary.totalOrders}</div>
             <div className="flex items-center justify-between">
               <p className="text-xs text-muted-foreground">
-                <span className="text-amber-500">{stats.pendingOrders} pending</span>
+                <span className="text-amber-500">{summary.pending} pending</span>
               </p>
               <Link href="/admin/orders" className="text-xs text-blue-600 hover:underline flex items-center">
                 View all <ArrowUpRight className="ml-1 h-3 w-3" />
@@ -126,11 +119,11 @@ export default function AdminDashboard() {
             <Package className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalProducts}</div>
+            <div className="text-2xl font-bold">{counts.products}</div>
             <div className="flex items-center justify-between">
               <p className="text-xs text-muted-foreground">
-                {stats.lowStockItems > 0 ? (
-                  <span className="text-amber-500">{stats.lowStockItems} low in stock</span>
+                {lowStockProducts.length > 0 ? (
+                  <span className="text-amber-500">{lowStockProducts.length} low in stock</span>
                 ) : 'All items in stock'}
               </p>
               <Link href="/admin/products" className="text-xs text-blue-600 hover:underline flex items-center">
@@ -146,10 +139,13 @@ export default function AdminDashboard() {
             <Users className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stats.totalCustomers}</div>
-            <p className="text-xs text-muted-foreground">
-              <span className="text-green-500">+5.2%</span> from last month
-            </p>
+            <div className="text-2xl font-bold">{counts.customers}</div>
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-muted-foreground">Registered customers</p>
+              <Link href="/admin/customers" className="text-xs text-blue-600 hover:underline flex items-center">
+                View all <ArrowUpRight className="ml-1 h-3 w-3" />
+              </Link>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -174,93 +170,60 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
-        {/* Recent Activities */}
+        {/* Recent Orders */}
         <Card className="lg:col-span-4">
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>Aktivitas Terbaru</CardTitle>
-                <CardDescription>Aktivitas dan notifikasi sistem terbaru</CardDescription>
+                <CardTitle>Pesanan Terbaru</CardTitle>
+                <CardDescription>Pesanan terakhir yang masuk ke toko</CardDescription>
               </div>
               <Badge variant="outline" className="flex items-center gap-1">
                 <Activity className="h-3.5 w-3.5" />
-                <span>Live</span>
+                <span>{summary.processing} processing</span>
               </Badge>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
-            {stats.recentActivities.map((activity) => (
-              <div key={activity.id} className="flex items-start gap-3 p-3 rounded-lg hover:bg-gray-50 transition-colors">
+            {recentOrders.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-6">No orders yet.</p>
+            )}
+            {recentOrders.map((order) => (
+              <div key={order.id} className="flex items-start gap-3 p-3 rounded-lg hover:bg-gray-50 transition-colors">
                 <div className={`p-2 rounded-full ${
-                  activity.status === 'warning' ? 'bg-amber-100 text-amber-600' :
-                  activity.status === 'success' ? 'bg-green-100 text-green-600' :
+                  order.status === 'pending' ? 'bg-amber-100 text-amber-600' :
+                  order.status === 'completed' ? 'bg-green-100 text-green-600' :
                   'bg-blue-100 text-blue-600'
                 }`}>
-                  {activity.type === 'order' ? (
-                    <ShoppingCart className="h-4 w-4" />
-                  ) : activity.type === 'product' ? (
-                    <Package className="h-4 w-4" />
-                  ) : (
-                    <Users className="h-4 w-4" />
-                  )}
+                  <ShoppingCart className="h-4 w-4" />
                 </div>
                 <div className="flex-1">
-                  <p className="text-sm font-medium">{activity.description}</p>
-                  <p className="text-xs text-muted-foreground">{activity.time}</p>
+                  <p className="text-sm font-medium">
+                    {order.order_number} · {order.customers?.name || 'Walk-in'} · {formatRupiah(order.total_amount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(order.created_at).toLocaleString()} · {order.status}
+                  </p>
                 </div>
-                <Button variant="ghost" size="icon" className="h-8 w-8">
-                  <ArrowUpRight className="h-4 w-4" />
-                  <span className="sr-only">View</span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                  <Link href={`/admin/orders/${order.id}`}>
+                    <ArrowUpRight className="h-4 w-4" />
+                    <span className="sr-only">View</span>
+                  </Link>
                 </Button>
               </div>
             ))}
             <div className="text-center">
-              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800">
-                View all activities
+              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800" asChild>
+                <Link href="/admin/orders">View all orders</Link>
               </Button>
             </div>
           </CardContent>
         </Card>
       </div>
 
-      {/* Inventory Alerts */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Peringatan Stok</CardTitle>
-              <CardDescription>Item yang membutuhkan perhatian</CardDescription>
-            </div>
-            <Badge variant="destructive" className="gap-1">
-              <AlertTriangle className="h-3.5 w-3.5" />
-              <span>{stats.lowStockItems} Alerts</span>
-            </Badge>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-4">
-            {stats.lowStockItems > 0 ? (
-              <div className="flex items-center p-3 bg-amber-50 rounded-lg">
-                <AlertCircle className="h-5 w-5 text-amber-600 mr-3" />
-                <div>
-                  <p className="text-sm font-medium">Low Stock Items</p>
-                  <p className="text-xs text-muted-foreground">
-                    {stats.lowStockItems} items are running low in stock. Reorder soon to avoid stockouts.
-                  </p>
-                </div>
-                <Button variant="outline" size="sm" className="ml-auto">
-                  View Items
-                </Button>
-              </div>
-            ) : (
-              <div className="text-center py-6">
-                <CheckCircle2 className="h-8 w-8 text-green-500 mx-auto mb-2" />
-                <p className="text-sm text-muted-foreground">Semua stok dalam kondisi baik.</p>
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      <LowStockAlertsCard products={lowStockProducts} />
+      <ExpiryAlertsCard batches={expiringBatches} windows={expiryWindows} />
     </div>
   )
 }
@@ -0,0 +1,19 @@
+import { notFound } from 'next/navigation'
+import { getProduct } from '@/app/actions/products'
+import { getStockMovements } from '@/app/actions/stock'
+import { getSuppliersForSelect } from '@/app/actions/suppliers'
+import { ProductHistoryClient } from './product-history-client'
+
+export default async function ProductHistoryPage({ params }: { params: { id: string } }) {
+  const [{ product }, { movements }, { suppliers }] = await Promise.all([
+    getProduct(params.id),
+    getStockMovements(params.id),
+    getSuppliersForSelect(),
+  ])
+
+  if (!product) {
+    notFound()
+  }
+
+  return <ProductHistoryClient product={product} movements={movements} suppliers={suppliers} />
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { StockMovementDialog } from '@/components/products/stock-movement-dialog'
+import { BatchSalesDialog } from '@/components/products/batch-sales-dialog'
+import type { Product, ProductBatch } from '@/app/actions/products'
+import type { StockMovementInput, StockMovementWithUser } from '@/app/actions/stock'
+import type { SupplierOption } from '@/app/actions/suppliers'
+import { STOCK_MOVEMENT_LABELS, getStockMovementBadge } from '@/lib/stock-movements'
+import { formatStock } from '@/lib/units'
+import { isExpired, stockOutsideLots } from '@/lib/batches'
+import { ArrowLeft, History, Plus, Trash2, Users } from 'lucide-react'
+
+interface ProductHistoryClientProps {
+  product: Product
+  movements: StockMovementWithUser[]
+  suppliers: SupplierOption[]
+}
+
+export function ProductHistoryClient({ product, movements, suppliers }: ProductHistoryClientProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [dialogType, setDialogType] = useState<StockMovementInput['movement_type']>('purchase_receipt')
+  const [dialogBatchId, setDialogBatchId] = useState<string | null>(null)
+  const [salesBatch, setSalesBatch] = useState<ProductBatch | null>(null)
+
+  const openMovementDialog = (type: StockMovementInput['movement_type'] = 'purchase_receipt', batchId: string | null = null) => {
+    setDialogType(type)
+    setDialogBatchId(batchId)
+    setDialogOpen(true)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/products" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to products
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">
+            {product.name}
+            {product.variant_name && <span className="text-gray-500 font-normal"> · {product.variant_name}</span>}
+          </h1>
+          <p className="text-gray-600 mt-2">SKU {product.sku} · Stock history</p>
+        </div>
+        <Button onClick={() => openMovementDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Record Movement
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>On Hand</CardDescription>
+            <CardTitle className={product.stock <= product.min_stock ? 'text-red-600' : ''}>
+              {formatStock(product, product.stock)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Quarantined</CardDescription>
+            <CardTitle>{formatStock(product, product.quarantine_stock)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Minimum Stock</CardDescription>
+            <CardTitle>{formatStock(product, product.min_stock)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      {product.batches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Lots</CardTitle>
+            <CardDescription>
+              Sold earliest expiry first; expired lots are held back from sale.{' '}
+              {stockOutsideLots(product) > 0 && `${stockOutsideLots(product)} ${product.unit} on hand are outside any lot.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Expiry</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">On Hand</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {product.batches.map((batch) => (
+                    <tr key={batch.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{batch.lot_number}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={isExpired(batch) ? 'text-red-600 font-medium' : 'text-gray-600'}>
+                          {new Date(batch.expiry_date).toLocaleDateString()}
+                        </span>
+                        {isExpired(batch) && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            expired
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatStock(product, batch.quantity)}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => setSalesBatch(batch)} title="Customers who received this lot">
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          {batch.quantity > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openMovementDialog('write_off', batch.id)}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              title="Write off"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Movements</CardTitle>
+          <CardDescription>Every change to this product&apos;s stock, newest first, in {product.unit}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Type</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Change</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Balance</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Reason</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Reference</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center">
+                        <History className="h-12 w-12 text-gray-400 mb-4" />
+                        <h3 className="text-lg font-medium text-gray-900 mb-2">No stock movements</h3>
+                        <p className="text-gray-600">Sales, returns and receipts of this product will appear here</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  movements.map((movement) => (
+                    <tr key={movement.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                        {new Date(movement.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStockMovementBadge(movement.movement_type)}`}>
+                          {STOCK_MOVEMENT_LABELS[movement.movement_type]}
+                        </span>
+                        {movement.bucket === 'quarantine' && (
+                          <span className="ml-2 text-xs text-gray-500">quarantine</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{movement.batch?.lot_number || '-'}</td>
+                      <td
+                        className={`px-4 py-3 text-sm text-right font-medium ${
+                          movement.quantity > 0 ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{movement.balance_after}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{movement.reason || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {movement.reference_type === 'order' && movement.reference_id ? (
+                          <Link href={`/admin/orders/${movement.reference_id}`} className="text-blue-600 hover:underline">
+                            {movement.reference_number}
+                          </Link>
+                        ) : movement.reference_type === 'purchase_order' && movement.reference_id ? (
+                          <Link href={`/admin/purchases/${movement.reference_id}`} className="text-blue-600 hover:underline">
+                            {movement.reference_number}
+                          </Link>
+                        ) : movement.reference_type === 'stock_take' && movement.reference_id ? (
+                          <Link href={`/admin/stock-takes/${movement.reference_id}`} className="text-blue-600 hover:underline">
+                            {movement.reference_number}
+                          </Link>
+                        ) : (
+                          movement.reference_number || '-'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {movement.creator?.full_name || movement.creator?.email || 'System'}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <StockMovementDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        product={product}
+        defaultType={dialogType}
+        defaultBatchId={dialogBatchId}
+        suppliers={suppliers}
+        onSuccess={() => router.refresh()}
+      />
+
+      <BatchSalesDialog
+        open={salesBatch !== null}
+        onOpenChange={(open) => !open && setSalesBatch(null)}
+        batch={salesBatch}
+        unit={product.unit}
+      />
+    </div>
+  )
+}
@@ -1,13 +1,15 @@
 'use client'
 
 import { useState } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Search, Package, Edit, Trash2 } from 'lucide-react'
+import { Plus, Search, Package, Edit, History, Trash2 } from 'lucide-react'
 import { Input } from '@/components/ui/input'
 import { ProductDialog } from '@/components/products/product-dialog'
 import { deleteProduct, type Product } from '@/app/actions/products'
 import { formatRupiah } from '@/lib/utils'
+import { formatStock } from '@/lib/units'
 
 interface ProductsClientProps {
   initialProducts: Product[]
@@ -26,9 +28,15 @@ export function ProductsClient({ initialProducts, stats }: ProductsClientProps)
 
   const filteredProducts = initialProducts.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    product.sku.toLowerCase().includes(searchTerm.toLowerCase())
+    product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    product.barcodes?.includes(searchTerm.trim())
   )
 
+  // Variants are listed right under their parent product
+  const listedProducts = filteredProducts
+    .filter((product) => !product.parent_id || !filteredProducts.some((parent) => parent.id === product.parent_id))
+    .flatMap((product) => [product, ...filteredProducts.filter((variant) => variant.parent_id === product.id)])
+
   const handleAddProduct = () => {
     setSelectedProduct(null)
     setDialogMode('create')
@@ -123,16 +131,26 @@ export function ProductsClient({ initialProducts, stats }: ProductsClientProps)
                     </td>
                   </tr>
                 ) : (
-                  filteredProducts.map((product) => (
+                  listedProducts.map((product) => (
                     <tr key={product.id} className="border-b hover:bg-gray-50">
-                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{product.name}</td>
+                      <td className={`px-4 py-3 text-sm font-medium text-gray-900 ${product.parent_id ? 'pl-10' : ''}`}>
+                        {product.name}
+                        {product.variant_name && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            {product.variant_name}
+                          </span>
+                        )}
+                      </td>
                       <td className="px-4 py-3 text-sm text-gray-600">{product.category_name || 'Uncategorized'}</td>
                       <td className="px-4 py-3 text-sm text-gray-600">{product.sku}</td>
                       <td className="px-4 py-3 text-sm text-gray-900">{formatRupiah(product.price)}</td>
                       <td className="px-4 py-3 text-sm">
                         <span className={product.stock <= product.min_stock ? 'text-red-600 font-medium' : 'text-gray-900'}>
-                          {product.stock}
+                          {formatStock(product, product.stock)}
                         </span>
+                        {product.quarantine_stock > 0 && (
+                          <span className="ml-2 text-xs text-gray-500">+{product.quarantine_stock} quarantined</span>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-sm">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusBadge(product.status)}`}>
@@ -141,6 +159,11 @@ export function ProductsClient({ initialProducts, stats }: ProductsClientProps)
                       </td>
                       <td className="px-4 py-3 text-sm text-right">
                         <div className="flex items-center justify-end space-x-2">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link href={`/admin/products/${product.id}`} title="Stock history">
+                              <History className="h-4 w-4" />
+                            </Link>
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -209,6 +232,7 @@ export function ProductsClient({ initialProducts, stats }: ProductsClientProps)
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         product={selectedProduct}
+        products={initialProducts}
         mode={dialogMode}
       />
     </div>
@@ -0,0 +1,21 @@
+import { PromotionsClient } from './promotions-client'
+import { getPromoCodes, getPriceRules } from '@/app/actions/promotions'
+import { getProducts, getCategoriesForSelect } from '@/app/actions/products'
+
+export default async function PromotionsPage() {
+  const [{ promoCodes }, { priceRules }, { products }, { categories }] = await Promise.all([
+    getPromoCodes(),
+    getPriceRules(),
+    getProducts(),
+    getCategoriesForSelect(),
+  ])
+
+  return (
+    <PromotionsClient
+      promoCodes={promoCodes}
+      priceRules={priceRules}
+      products={products.map((p) => ({ id: p.id, name: p.name }))}
+      categories={categories}
+    />
+  )
+}
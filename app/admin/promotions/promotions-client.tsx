@@ -0,0 +1,267 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Plus, Edit, Trash2, Ticket, Percent } from 'lucide-react'
+import { PromoCodeDialog } from '@/components/promotions/promo-code-dialog'
+import { PriceRuleDialog } from '@/components/promotions/price-rule-dialog'
+import {
+  deletePriceRule,
+  deletePromoCode,
+  type PriceRuleWithTarget,
+  type PromoCode,
+} from '@/app/actions/promotions'
+import { isWithinDates } from '@/lib/pricing'
+import { formatRupiah } from '@/lib/utils'
+
+interface PromotionsClientProps {
+  promoCodes: PromoCode[]
+  priceRules: PriceRuleWithTarget[]
+  products: { id: string; name: string }[]
+  categories: { id: string; name: string }[]
+}
+
+function formatValidity(startsOn: string | null, endsOn: string | null) {
+  if (!startsOn && !endsOn) return 'Always'
+  const format = (date: string) => new Date(date).toLocaleDateString()
+  if (!endsOn) return `From ${format(startsOn!)}`
+  if (!startsOn) return `Until ${format(endsOn)}`
+  return `${format(startsOn)} – ${format(endsOn)}`
+}
+
+function isLive(item: { is_active: boolean; starts_on: string | null; ends_on: string | null }) {
+  return item.is_active && isWithinDates(item.starts_on, item.ends_on)
+}
+
+export function PromotionsClient({ promoCodes, priceRules, products, categories }: PromotionsClientProps) {
+  const [promoDialogOpen, setPromoDialogOpen] = useState(false)
+  const [selectedPromo, setSelectedPromo] = useState<PromoCode | null>(null)
+  const [ruleDialogOpen, setRuleDialogOpen] = useState(false)
+  const [selectedRule, setSelectedRule] = useState<PriceRuleWithTarget | null>(null)
+
+  const handleDeletePromo = async (id: string) => {
+    if (confirm('Are you sure you want to delete this promo code?')) {
+      await deletePromoCode(id)
+    }
+  }
+
+  const handleDeleteRule = async (id: string) => {
+    if (confirm('Are you sure you want to delete this price rule?')) {
+      await deletePriceRule(id)
+    }
+  }
+
+  const getLiveBadge = (live: boolean) =>
+    live ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+        <p className="text-gray-600 mt-2">Promo codes and automatic price rules applied at checkout</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Price Rules</CardTitle>
+              <CardDescription>Discounts applied automatically to matching order lines</CardDescription>
+            </div>
+            <Button
+              onClick={() => {
+                setSelectedRule(null)
+                setRuleDialogOpen(true)
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Price Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Name</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Rule</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Applies to</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Validity</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {priceRules.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Percent className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No price rules yet</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  priceRules.map((rule) => (
+                    <tr key={rule.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{rule.name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {rule.rule_type === 'buy_x_get_y'
+                          ? `Buy ${rule.buy_quantity} get ${rule.free_quantity} free`
+                          : `${rule.percentage}% off`}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {rule.products
+                          ? rule.products.name
+                          : rule.categories
+                            ? `All ${rule.categories.name}`
+                            : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{formatValidity(rule.starts_on, rule.ends_on)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getLiveBadge(isLive(rule))}`}>
+                          {isLive(rule) ? 'live' : 'inactive'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedRule(rule)
+                              setRuleDialogOpen(true)
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule.id)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Promo Codes</CardTitle>
+              <CardDescription>Order-level discounts redeemed with a code</CardDescription>
+            </div>
+            <Button
+              onClick={() => {
+                setSelectedPromo(null)
+                setPromoDialogOpen(true)
+              }}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Promo Code
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Code</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Discount</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Min. order</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Used</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Validity</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {promoCodes.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Ticket className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No promo codes yet</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  promoCodes.map((promo) => {
+                    const live = isLive(promo) && (promo.usage_limit === null || promo.times_used < promo.usage_limit)
+                    return (
+                      <tr key={promo.id} className="border-b hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {promo.code}
+                          {promo.description && (
+                            <div className="text-xs font-normal text-muted-foreground">{promo.description}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {promo.discount_type === 'percentage' ? `${promo.value}%` : formatRupiah(promo.value)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">
+                          {promo.min_order_amount > 0 ? formatRupiah(promo.min_order_amount) : '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">
+                          {promo.times_used}
+                          {promo.usage_limit !== null && ` / ${promo.usage_limit}`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{formatValidity(promo.starts_on, promo.ends_on)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getLiveBadge(live)}`}>
+                            {live ? 'live' : 'inactive'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <div className="flex items-center justify-end space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setSelectedPromo(promo)
+                                setPromoDialogOpen(true)
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDeletePromo(promo.id)}>
+                              <Trash2 className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <PriceRuleDialog
+        open={ruleDialogOpen}
+        onOpenChange={setRuleDialogOpen}
+        priceRule={selectedRule}
+        mode={selectedRule ? 'edit' : 'create'}
+        products={products}
+        categories={categories}
+      />
+
+      <PromoCodeDialog
+        open={promoDialogOpen}
+        onOpenChange={setPromoDialogOpen}
+        promoCode={selectedPromo}
+        mode={selectedPromo ? 'edit' : 'create'}
+      />
+    </div>
+  )
+}
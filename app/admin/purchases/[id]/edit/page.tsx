@@ -0,0 +1,23 @@
+import { notFound, redirect } from 'next/navigation'
+import { getProducts, type Product } from '@/app/actions/products'
+import { getSuppliersForSelect } from '@/app/actions/suppliers'
+import { getPurchaseOrder } from '@/app/actions/purchase-orders'
+import { PurchaseOrderForm } from '@/components/purchases/purchase-order-form'
+
+export default async function EditPurchaseOrderPage({ params }: { params: { id: string } }) {
+  const { purchaseOrder } = await getPurchaseOrder(params.id)
+
+  if (!purchaseOrder) {
+    notFound()
+  }
+  // Once goods arrive the order is kept as it was sent
+  if (purchaseOrder.status !== 'draft' && purchaseOrder.status !== 'sent') {
+    redirect(`/admin/purchases/${purchaseOrder.id}`)
+  }
+
+  const [{ products }, { suppliers }] = await Promise.all([getProducts(), getSuppliersForSelect()])
+
+  const activeProducts = (products || []).filter((p) => p.status === 'active')
+
+  return <PurchaseOrderForm products={activeProducts as Product[]} suppliers={suppliers} purchaseOrder={purchaseOrder} />
+}
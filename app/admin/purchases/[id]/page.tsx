@@ -0,0 +1,16 @@
+import { notFound } from 'next/navigation'
+import { PurchaseOrderDetailClient } from './purchase-order-detail-client'
+import { getPurchaseOrder, getPurchaseReceipts } from '@/app/actions/purchase-orders'
+
+export default async function PurchaseOrderDetailPage({ params }: { params: { id: string } }) {
+  const [{ purchaseOrder }, { receipts }] = await Promise.all([
+    getPurchaseOrder(params.id),
+    getPurchaseReceipts(params.id),
+  ])
+
+  if (!purchaseOrder) {
+    notFound()
+  }
+
+  return <PurchaseOrderDetailClient purchaseOrder={purchaseOrder} receipts={receipts} />
+}
@@ -0,0 +1,24 @@
+import { getPurchaseOrder } from '@/app/actions/purchase-orders'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildPurchaseOrderDocument } from '@/lib/order-document'
+import { renderOrderPdf } from '@/lib/order-pdf'
+
+// GET /admin/purchases/:id/pdf
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const [{ purchaseOrder }, { settings }] = await Promise.all([getPurchaseOrder(params.id), getStoreSettings()])
+
+  if (!purchaseOrder) {
+    return new Response('Purchase order not found', { status: 404 })
+  }
+
+  const doc = buildPurchaseOrderDocument(purchaseOrder, settings)
+  const pdf = await renderOrderPdf(doc)
+
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${doc.number}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
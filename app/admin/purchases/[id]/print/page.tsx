@@ -0,0 +1,25 @@
+import { notFound } from 'next/navigation'
+import { getPurchaseOrder } from '@/app/actions/purchase-orders'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildPurchaseOrderDocument } from '@/lib/order-document'
+import { PrintToolbar } from '@/components/orders/print-toolbar'
+import { InvoiceView } from '@/components/orders/invoice-view'
+
+export default async function PurchaseOrderPrintPage({ params }: { params: { id: string } }) {
+  const [{ purchaseOrder }, { settings }] = await Promise.all([getPurchaseOrder(params.id), getStoreSettings()])
+
+  if (!purchaseOrder) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <PrintToolbar
+        backHref={`/admin/purchases/${purchaseOrder.id}`}
+        backLabel="Back to purchase order"
+        pdfHref={`/admin/purchases/${purchaseOrder.id}/pdf`}
+      />
+      <InvoiceView document={buildPurchaseOrderDocument(purchaseOrder, settings)} />
+    </div>
+  )
+}
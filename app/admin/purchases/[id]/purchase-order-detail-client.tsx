@@ -0,0 +1,309 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PurchaseOrderStatusBadge } from '@/components/purchases/purchase-order-status-badge'
+import { ReceivePurchaseOrderDialog } from '@/components/purchases/receive-purchase-order-dialog'
+import {
+  cancelPurchaseOrder,
+  deletePurchaseOrder,
+  markPurchaseOrderSent,
+  type PurchaseOrderDetail,
+  type PurchaseReceipt,
+} from '@/app/actions/purchase-orders'
+import { ArrowLeft, Ban, Loader2, PackageCheck, Pencil, Printer, Send, Trash2, Truck } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface PurchaseOrderDetailClientProps {
+  purchaseOrder: PurchaseOrderDetail
+  receipts: PurchaseReceipt[]
+}
+
+export function PurchaseOrderDetailClient({ purchaseOrder, receipts }: PurchaseOrderDetailClientProps) {
+  const router = useRouter()
+  const [pending, startTransition] = useTransition()
+  const [runningAction, setRunningAction] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [receiveOpen, setReceiveOpen] = useState(false)
+
+  const editable = purchaseOrder.status === 'draft' || purchaseOrder.status === 'sent'
+  const receivable = purchaseOrder.status === 'sent' || purchaseOrder.status === 'partially_received'
+
+  const run = (key: string, action: () => Promise<{ success: boolean; error?: string | null }>, onSuccess?: () => void) => {
+    setError('')
+    setRunningAction(key)
+    startTransition(async () => {
+      const result = await action()
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to update purchase order')
+        return
+      }
+      if (onSuccess) onSuccess()
+      else router.refresh()
+    })
+  }
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel purchase order ${purchaseOrder.po_number}?`)) return
+    run('cancel', () => cancelPurchaseOrder(purchaseOrder.id))
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete purchase order ${purchaseOrder.po_number}?`)) return
+    run('delete', () => deletePurchaseOrder(purchaseOrder.id), () => router.push('/admin/purchases'))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/purchases" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to purchase orders
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{purchaseOrder.po_number}</h1>
+          <p className="text-gray-600 mt-2">
+            Created {new Date(purchaseOrder.created_at).toLocaleString()}
+            {purchaseOrder.expected_date && (
+              <> · Expected {new Date(purchaseOrder.expected_date).toLocaleDateString()}</>
+            )}
+            {purchaseOrder.received_at && <> · Received {new Date(purchaseOrder.received_at).toLocaleString()}</>}
+            {purchaseOrder.cancelled_at && <> · Cancelled {new Date(purchaseOrder.cancelled_at).toLocaleString()}</>}
+          </p>
+        </div>
+        <PurchaseOrderStatusBadge status={purchaseOrder.status} className="px-3 py-1 text-sm" />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <div className="space-y-6 md:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+              <CardDescription>Quantities and costs are per unit bought in</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-gray-50">
+                      <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Ordered</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Received</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Cost</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {purchaseOrder.purchase_order_items.map((item) => (
+                      <tr key={item.id} className="border-b">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {item.product_id ? (
+                            <Link href={`/admin/products/${item.product_id}`} className="hover:underline">
+                              {item.product_name}
+                            </Link>
+                          ) : (
+                            item.product_name
+                          )}
+                          {item.unit_factor > 1 && (
+                            <div className="text-xs font-normal text-gray-500">
+                              {item.unit_name} of {item.unit_factor} {item.products?.unit}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">
+                          {item.quantity} {item.unit_name || item.products?.unit}
+                        </td>
+                        <td
+                          className={`px-4 py-3 text-sm text-right ${
+                            item.received_quantity >= item.quantity ? 'text-green-600' : 'text-gray-600'
+                          }`}
+                        >
+                          {item.received_quantity}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">{formatRupiah(item.unit_cost)}</td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(item.subtotal)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                <div className="flex items-center justify-between font-semibold text-base">
+                  <span>Total</span>
+                  <span>{formatRupiah(purchaseOrder.total_amount)}</span>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Receipts</CardTitle>
+              <CardDescription>Stock booked in against this order, in each product&apos;s base unit</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b bg-gray-50">
+                      <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Date</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Quantity</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receipts.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-12 text-center">
+                          <div className="flex flex-col items-center justify-center text-gray-500">
+                            <PackageCheck className="h-12 w-12 mb-4 text-gray-400" />
+                            <p className="text-lg font-medium">Nothing received yet</p>
+                          </div>
+                        </td>
+                      </tr>
+                    ) : (
+                      receipts.map((receipt) => (
+                        <tr key={receipt.id} className="border-b hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                            {new Date(receipt.created_at).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-900">
+                            {receipt.products?.name || '-'}
+                            {receipt.reason && <div className="text-xs text-gray-500">{receipt.reason}</div>}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {receipt.batch ? (
+                              <>
+                                {receipt.batch.lot_number}
+                                <div className="text-xs">exp {new Date(receipt.batch.expiry_date).toLocaleDateString()}</div>
+                              </>
+                            ) : (
+                              '-'
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right font-medium text-green-600">
+                            +{receipt.quantity} {receipt.products?.unit}
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-600">
+                            {receipt.creator?.full_name || receipt.creator?.email || 'System'}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-4 w-4" />
+                Supplier
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div className="font-medium text-gray-900">{purchaseOrder.suppliers?.name || '-'}</div>
+              {purchaseOrder.suppliers?.contact_person && (
+                <div className="text-gray-600">{purchaseOrder.suppliers.contact_person}</div>
+              )}
+              {purchaseOrder.suppliers?.email && <div className="text-gray-600">{purchaseOrder.suppliers.email}</div>}
+              {purchaseOrder.suppliers?.phone && <div className="text-gray-600">{purchaseOrder.suppliers.phone}</div>}
+              {purchaseOrder.suppliers?.address && <div className="text-gray-600">{purchaseOrder.suppliers.address}</div>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Actions</CardTitle>
+              <CardDescription>
+                {purchaseOrder.status === 'received'
+                  ? 'Every line has been received in full'
+                  : purchaseOrder.status === 'cancelled'
+                    ? 'This purchase order was cancelled'
+                    : purchaseOrder.status === 'draft'
+                      ? 'Mark the order as sent once it has gone to the supplier; goods can then be received'
+                      : 'Receive goods as they arrive; partial deliveries can be received again later'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {receivable && (
+                <Button className="w-full" onClick={() => setReceiveOpen(true)} disabled={pending}>
+                  <PackageCheck className="mr-2 h-4 w-4" />
+                  Receive Goods
+                </Button>
+              )}
+              {purchaseOrder.status === 'draft' && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => run('sent', () => markPurchaseOrderSent(purchaseOrder.id))}
+                  disabled={pending}
+                >
+                  {runningAction === 'sent' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Mark as Sent
+                </Button>
+              )}
+              {editable && (
+                <Button variant="outline" className="w-full" asChild>
+                  <Link href={`/admin/purchases/${purchaseOrder.id}/edit`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" className="w-full" asChild>
+                <Link href={`/admin/purchases/${purchaseOrder.id}/print`}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print
+                </Link>
+              </Button>
+              {editable && (
+                <Button variant="outline" className="w-full" onClick={handleCancel} disabled={pending}>
+                  {runningAction === 'cancel' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Ban className="mr-2 h-4 w-4" />}
+                  Cancel Order
+                </Button>
+              )}
+              {purchaseOrder.status === 'draft' && (
+                <Button variant="destructive" className="w-full" onClick={handleDelete} disabled={pending}>
+                  {runningAction === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                  Delete
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {purchaseOrder.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-gray-600 whitespace-pre-wrap">{purchaseOrder.notes}</CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <ReceivePurchaseOrderDialog
+        open={receiveOpen}
+        onOpenChange={setReceiveOpen}
+        purchaseOrder={purchaseOrder}
+        onSuccess={() => router.refresh()}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+import { getProducts, type Product } from '@/app/actions/products'
+import { getSuppliersForSelect } from '@/app/actions/suppliers'
+import { PurchaseOrderForm } from '@/components/purchases/purchase-order-form'
+
+export default async function NewPurchaseOrderPage() {
+  const [{ products }, { suppliers }] = await Promise.all([getProducts(), getSuppliersForSelect()])
+
+  const activeProducts = (products || []).filter((p) => p.status === 'active')
+
+  return <PurchaseOrderForm products={activeProducts as Product[]} suppliers={suppliers} />
+}
@@ -0,0 +1,8 @@
+import { PurchasesClient } from './purchases-client'
+import { getPurchaseOrders } from '@/app/actions/purchase-orders'
+
+export default async function PurchasesPage() {
+  const { purchaseOrders, error } = await getPurchaseOrders()
+
+  return <PurchasesClient purchaseOrders={purchaseOrders} error={error} />
+}
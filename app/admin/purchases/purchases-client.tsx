@@ -0,0 +1,109 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PurchaseOrderStatusBadge } from '@/components/purchases/purchase-order-status-badge'
+import type { PurchaseOrderWithSupplier } from '@/app/actions/purchase-orders'
+import { Eye, Plus, Truck } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface PurchasesClientProps {
+  purchaseOrders: PurchaseOrderWithSupplier[]
+  error: string | null
+}
+
+export function PurchasesClient({ purchaseOrders, error }: PurchasesClientProps) {
+  const today = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600 mt-2">Stock ordered from suppliers and received into lots as it arrives</p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/purchases/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Purchase Order
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Purchase Orders</CardTitle>
+          <CardDescription>Orders still awaiting goods past their expected date are marked overdue</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Number</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Supplier</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Date</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Expected</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Total</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {purchaseOrders.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Truck className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No purchase orders yet</p>
+                        <p className="text-sm">Create one to order stock from a supplier</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  purchaseOrders.map((purchaseOrder) => {
+                    const overdue =
+                      !!purchaseOrder.expected_date &&
+                      purchaseOrder.expected_date < today &&
+                      (purchaseOrder.status === 'sent' || purchaseOrder.status === 'partially_received')
+                    return (
+                      <tr key={purchaseOrder.id} className="border-b hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{purchaseOrder.po_number}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{purchaseOrder.suppliers?.name || '-'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{new Date(purchaseOrder.created_at).toLocaleDateString()}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {purchaseOrder.expected_date ? new Date(purchaseOrder.expected_date).toLocaleDateString() : '-'}
+                          {overdue && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                              overdue
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(purchaseOrder.total_amount)}</td>
+                        <td className="px-4 py-3 text-sm">
+                          <PurchaseOrderStatusBadge status={purchaseOrder.status} />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link href={`/admin/purchases/${purchaseOrder.id}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { notFound, redirect } from 'next/navigation'
+import { getProducts, type Product } from '@/app/actions/products'
+import { getCustomersForSelect } from '@/app/actions/orders'
+import { getTaxContext } from '@/app/actions/settings'
+import { getActivePriceRules } from '@/app/actions/promotions'
+import { getQuotation } from '@/app/actions/quotations'
+import { QuotationForm } from '@/components/quotations/quotation-form'
+
+export default async function EditQuotationPage({ params }: { params: { id: string } }) {
+  const { quotation } = await getQuotation(params.id)
+
+  if (!quotation) {
+    notFound()
+  }
+  // Accepted and expired quotations are kept as they were issued
+  if (quotation.status !== 'draft' && quotation.status !== 'sent') {
+    redirect(`/admin/quotations/${quotation.id}`)
+  }
+
+  const { products } = await getProducts()
+  const { customers } = await getCustomersForSelect()
+  const tax = await getTaxContext()
+  const { priceRules } = await getActivePriceRules()
+
+  const activeProducts = (products || []).filter((p) => p.status === 'active')
+
+  return (
+    <QuotationForm
+      products={activeProducts as Product[]}
+      customers={customers || []}
+      tax={tax}
+      priceRules={priceRules}
+      quotation={quotation}
+    />
+  )
+}
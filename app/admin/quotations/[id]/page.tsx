@@ -0,0 +1,13 @@
+import { notFound } from 'next/navigation'
+import { QuotationDetailClient } from './quotation-detail-client'
+import { getQuotation } from '@/app/actions/quotations'
+
+export default async function QuotationDetailPage({ params }: { params: { id: string } }) {
+  const { quotation } = await getQuotation(params.id)
+
+  if (!quotation) {
+    notFound()
+  }
+
+  return <QuotationDetailClient quotation={quotation} />
+}
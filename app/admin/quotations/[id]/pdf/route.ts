@@ -0,0 +1,24 @@
+import { getQuotation } from '@/app/actions/quotations'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildQuotationDocument } from '@/lib/order-document'
+import { renderOrderPdf } from '@/lib/order-pdf'
+
+// GET /admin/quotations/:id/pdf
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  const [{ quotation }, { settings }] = await Promise.all([getQuotation(params.id), getStoreSettings()])
+
+  if (!quotation) {
+    return new Response('Quotation not found', { status: 404 })
+  }
+
+  const doc = buildQuotationDocument(quotation, settings)
+  const pdf = await renderOrderPdf(doc)
+
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${doc.number}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
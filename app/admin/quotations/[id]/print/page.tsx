@@ -0,0 +1,25 @@
+import { notFound } from 'next/navigation'
+import { getQuotation } from '@/app/actions/quotations'
+import { getStoreSettings } from '@/app/actions/settings'
+import { buildQuotationDocument } from '@/lib/order-document'
+import { PrintToolbar } from '@/components/orders/print-toolbar'
+import { InvoiceView } from '@/components/orders/invoice-view'
+
+export default async function QuotationPrintPage({ params }: { params: { id: string } }) {
+  const [{ quotation }, { settings }] = await Promise.all([getQuotation(params.id), getStoreSettings()])
+
+  if (!quotation) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <PrintToolbar
+        backHref={`/admin/quotations/${quotation.id}`}
+        backLabel="Back to quotation"
+        pdfHref={`/admin/quotations/${quotation.id}/pdf`}
+      />
+      <InvoiceView document={buildQuotationDocument(quotation, settings)} />
+    </div>
+  )
+}
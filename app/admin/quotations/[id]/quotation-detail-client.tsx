@@ -0,0 +1,265 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ApprovalDialog } from '@/components/orders/approval-dialog'
+import { QuotationStatusBadge } from '@/components/quotations/quotation-status-badge'
+import {
+  convertQuotation,
+  deleteQuotation,
+  markQuotationSent,
+  type QuotationDetail,
+} from '@/app/actions/quotations'
+import { ArrowLeft, Loader2, User, Pencil, Printer, Send, ShoppingCart, Trash2 } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface QuotationDetailClientProps {
+  quotation: QuotationDetail
+}
+
+export function QuotationDetailClient({ quotation }: QuotationDetailClientProps) {
+  const router = useRouter()
+  const [pending, startTransition] = useTransition()
+  const [runningAction, setRunningAction] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [approvalReason, setApprovalReason] = useState<string | null>(null)
+
+  const open = quotation.status === 'draft' || quotation.status === 'sent'
+
+  const run = (key: string, action: () => Promise<{ success: boolean; error?: string | null }>, onSuccess?: () => void) => {
+    setError('')
+    setRunningAction(key)
+    startTransition(async () => {
+      const result = await action()
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to update quotation')
+        return
+      }
+      if (onSuccess) onSuccess()
+      else router.refresh()
+    })
+  }
+
+  const handleConvert = () => {
+    if (!confirm('Create an order from this quotation? Stock is taken from inventory now.')) return
+    setError('')
+    setRunningAction('convert')
+    startTransition(async () => {
+      const result = await convertQuotation(quotation.id)
+      setRunningAction(null)
+      if (result.success && result.order_id) {
+        router.push(`/admin/orders/${result.order_id}`)
+        return
+      }
+      if (result.approval_required) {
+        setApprovalReason(result.error || 'Supervisor approval required')
+        return
+      }
+      setError(result.error || 'Failed to convert quotation')
+    })
+  }
+
+  const handleApprove = async (approval: { email: string; pin: string }) => {
+    const result = await convertQuotation(quotation.id, approval)
+    if (!result.success || !result.order_id) {
+      return result.error || 'Failed to convert quotation'
+    }
+    router.push(`/admin/orders/${result.order_id}`)
+    return null
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete quotation ${quotation.quotation_number}?`)) return
+    run('delete', () => deleteQuotation(quotation.id), () => router.push('/admin/quotations'))
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/quotations" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to quotations
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{quotation.quotation_number}</h1>
+          <p className="text-gray-600 mt-2">
+            Created {new Date(quotation.created_at).toLocaleString()} · Valid until{' '}
+            {new Date(quotation.valid_until).toLocaleDateString()}
+            {quotation.accepted_at && <> · Accepted {new Date(quotation.accepted_at).toLocaleString()}</>}
+          </p>
+        </div>
+        <QuotationStatusBadge status={quotation.status} className="px-3 py-1 text-sm" />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>{quotation.quotation_items.length} line(s)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Qty</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Price</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Discount</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Tax</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quotation.quotation_items.map((item) => (
+                    <tr key={item.id} className="border-b">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.product_name}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{item.quantity}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.unit_price)}
+                        {item.unit_price !== item.list_price && (
+                          <div className="text-xs text-amber-600">List {formatRupiah(item.list_price)}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.unit_price * item.quantity - item.subtotal)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {formatRupiah(item.tax_amount)}
+                        {item.tax_rate > 0 && <span className="text-xs text-gray-400 ml-1">({item.tax_rate}%)</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(item.subtotal)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Gross amount</span>
+                <span>{formatRupiah(quotation.subtotal)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Line discounts</span>
+                <span>-{formatRupiah(quotation.discount)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">{quotation.prices_include_tax ? 'Tax (included)' : 'Tax'}</span>
+                <span>{formatRupiah(quotation.tax)}</span>
+              </div>
+              <div className="flex items-center justify-between font-semibold text-base">
+                <span>Estimated total</span>
+                <span>{formatRupiah(quotation.total_amount)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User className="h-4 w-4" />
+                Customer
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <div className="font-medium text-gray-900">{quotation.customers?.name || '-'}</div>
+              {quotation.customers?.email && <div className="text-gray-600">{quotation.customers.email}</div>}
+              {quotation.customers?.phone && <div className="text-gray-600">{quotation.customers.phone}</div>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Actions</CardTitle>
+              <CardDescription>
+                {quotation.orders
+                  ? 'This quotation has been converted into an order'
+                  : open
+                    ? 'Converting checks stock and current prices like a normal checkout'
+                    : 'This quotation has expired; create a new one to quote again'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {quotation.orders && (
+                <Button variant="outline" className="w-full" asChild>
+                  <Link href={`/admin/orders/${quotation.orders.id}`}>
+                    <ShoppingCart className="mr-2 h-4 w-4" />
+                    View order {quotation.orders.order_number}
+                  </Link>
+                </Button>
+              )}
+              {open && (
+                <Button className="w-full" onClick={handleConvert} disabled={pending}>
+                  {runningAction === 'convert' ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <ShoppingCart className="mr-2 h-4 w-4" />
+                  )}
+                  Convert to Order
+                </Button>
+              )}
+              {quotation.status === 'draft' && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => run('sent', () => markQuotationSent(quotation.id))}
+                  disabled={pending}
+                >
+                  {runningAction === 'sent' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                  Mark as Sent
+                </Button>
+              )}
+              {open && (
+                <Button variant="outline" className="w-full" asChild>
+                  <Link href={`/admin/quotations/${quotation.id}/edit`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" className="w-full" asChild>
+                <Link href={`/admin/quotations/${quotation.id}/print`}>
+                  <Printer className="mr-2 h-4 w-4" />
+                  Print
+                </Link>
+              </Button>
+              {quotation.status !== 'accepted' && (
+                <Button variant="destructive" className="w-full" onClick={handleDelete} disabled={pending}>
+                  {runningAction === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                  Delete
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {quotation.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-gray-600 whitespace-pre-wrap">{quotation.notes}</CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <ApprovalDialog
+        open={approvalReason !== null}
+        onOpenChange={(value) => !value && setApprovalReason(null)}
+        reason={approvalReason || ''}
+        onApprove={handleApprove}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { getProducts, type Product } from '@/app/actions/products'
+import { getCustomersForSelect } from '@/app/actions/orders'
+import { getTaxContext } from '@/app/actions/settings'
+import { getActivePriceRules } from '@/app/actions/promotions'
+import { QuotationForm } from '@/components/quotations/quotation-form'
+
+export default async function NewQuotationPage() {
+  const { products } = await getProducts()
+  const { customers } = await getCustomersForSelect()
+  const tax = await getTaxContext()
+  const { priceRules } = await getActivePriceRules()
+
+  const activeProducts = (products || []).filter((p) => p.status === 'active')
+
+  return (
+    <QuotationForm products={activeProducts as Product[]} customers={customers || []} tax={tax} priceRules={priceRules} />
+  )
+}
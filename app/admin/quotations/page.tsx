@@ -0,0 +1,8 @@
+import { QuotationsClient } from './quotations-client'
+import { getQuotations } from '@/app/actions/quotations'
+
+export default async function QuotationsPage() {
+  const { quotations, error } = await getQuotations()
+
+  return <QuotationsClient quotations={quotations} error={error} />
+}
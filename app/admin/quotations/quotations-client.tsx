@@ -0,0 +1,102 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { QuotationStatusBadge } from '@/components/quotations/quotation-status-badge'
+import type { QuotationWithCustomer } from '@/app/actions/quotations'
+import { Eye, FileText, Plus } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface QuotationsClientProps {
+  quotations: QuotationWithCustomer[]
+  error: string | null
+}
+
+export function QuotationsClient({ quotations, error }: QuotationsClientProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Quotations</h1>
+          <p className="text-gray-600 mt-2">Cost estimates for owners that become orders once accepted</p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/quotations/new">
+            <Plus className="mr-2 h-4 w-4" />
+            New Quotation
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Quotations</CardTitle>
+          <CardDescription>Open quotations expire automatically after their valid until date</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Number</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Customer</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Valid Until</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Total</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Order</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quotations.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <FileText className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No quotations yet</p>
+                        <p className="text-sm">Create an estimate before a procedure to share the expected cost</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  quotations.map((quotation) => (
+                    <tr key={quotation.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{quotation.quotation_number}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{quotation.customers?.name || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{new Date(quotation.valid_until).toLocaleDateString()}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(quotation.total_amount)}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <QuotationStatusBadge status={quotation.status} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {quotation.orders ? (
+                          <Link href={`/admin/orders/${quotation.orders.id}`} className="text-blue-600 hover:underline">
+                            {quotation.orders.order_number}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/admin/quotations/${quotation.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+import { SettingsClient } from './settings-client'
+import { getTaxRates, getStoreSettings, getNumberingFormats } from '@/app/actions/settings'
+import { getCategories } from '@/app/actions/categories'
+import { getCurrentProfile, getProfiles } from '@/app/actions/profiles'
+
+export default async function SettingsPage() {
+  const [{ taxRates }, { settings }, { categories }, { profiles }, currentProfile, { formats }] = await Promise.all([
+    getTaxRates(),
+    getStoreSettings(),
+    getCategories(),
+    getProfiles(),
+    getCurrentProfile(),
+    getNumberingFormats(),
+  ])
+
+  return (
+    <SettingsClient
+      taxRates={taxRates}
+      settings={settings}
+      categories={categories}
+      profiles={profiles}
+      currentProfile={currentProfile}
+      numberingFormats={formats}
+    />
+  )
+}
@@ -0,0 +1,571 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Edit, Trash2, Loader2, Receipt, Users } from 'lucide-react'
+import { TaxRateDialog } from '@/components/settings/tax-rate-dialog'
+import { NumberingFormatDialog } from '@/components/settings/numbering-format-dialog'
+import {
+  deleteTaxRate,
+  setCategoryTaxRate,
+  updateStoreProfile,
+  updateStoreSettings,
+  type NumberingFormat,
+  type StoreSettings,
+  type TaxRate,
+} from '@/app/actions/settings'
+import type { Category } from '@/app/actions/categories'
+import { DOCUMENT_TYPE_LABELS, formatDocumentNumber } from '@/lib/numbering'
+import { setApprovalPin, updateProfileRole, type Profile, type StaffRole } from '@/app/actions/profiles'
+
+interface SettingsClientProps {
+  taxRates: TaxRate[]
+  settings: StoreSettings | null
+  categories: Category[]
+  profiles: Profile[]
+  currentProfile: Profile | null
+  numberingFormats: NumberingFormat[]
+}
+
+export function SettingsClient({ taxRates, settings, categories, profiles, currentProfile, numberingFormats }: SettingsClientProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [selectedTaxRate, setSelectedTaxRate] = useState<TaxRate | null>(null)
+  const [dialogMode, setDialogMode] = useState<'create' | 'edit'>('create')
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(settings?.prices_include_tax ?? true)
+  const [defaultTaxRateId, setDefaultTaxRateId] = useState(settings?.default_tax_rate_id || 'none')
+  const [maxDiscountPercent, setMaxDiscountPercent] = useState(String(settings?.max_discount_percent ?? 10))
+  const [branchCode, setBranchCode] = useState(settings?.branch_code || '')
+  const [expiryAlertDays, setExpiryAlertDays] = useState((settings?.expiry_alert_days ?? [30, 60, 90]).join(', '))
+  const [selectedFormat, setSelectedFormat] = useState<NumberingFormat | null>(null)
+  const [profileSaved, setProfileSaved] = useState(false)
+  const [pin, setPin] = useState('')
+  const [pinSaved, setPinSaved] = useState(false)
+  const [saving, startTransition] = useTransition()
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState(false)
+
+  const handleAddTaxRate = () => {
+    setSelectedTaxRate(null)
+    setDialogMode('create')
+    setDialogOpen(true)
+  }
+
+  const handleEditTaxRate = (taxRate: TaxRate) => {
+    setSelectedTaxRate(taxRate)
+    setDialogMode('edit')
+    setDialogOpen(true)
+  }
+
+  const handleDeleteTaxRate = async (id: string) => {
+    if (confirm('Are you sure you want to delete this tax rate? Products using it will fall back to their category or the store default.')) {
+      const result = await deleteTaxRate(id)
+      if (!result.success) setError(result.error || 'Failed to delete tax rate')
+    }
+  }
+
+  const handleSaveSettings = () => {
+    setError('')
+    setSaved(false)
+
+    const formData = new FormData()
+    formData.set('prices_include_tax', String(pricesIncludeTax))
+    formData.set('default_tax_rate_id', defaultTaxRateId)
+    formData.set('max_discount_percent', maxDiscountPercent)
+    formData.set('branch_code', branchCode)
+    formData.set('expiry_alert_days', expiryAlertDays)
+
+    startTransition(async () => {
+      const result = await updateStoreSettings(formData)
+      if (result.success) {
+        setSaved(true)
+      } else {
+        setError(result.error || 'Failed to save settings')
+      }
+    })
+  }
+
+  const handleSaveProfile = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setProfileSaved(false)
+
+    const formData = new FormData(e.currentTarget)
+
+    startTransition(async () => {
+      const result = await updateStoreProfile(formData)
+      if (result.success) {
+        setProfileSaved(true)
+      } else {
+        setError(result.error || 'Failed to save clinic details')
+      }
+    })
+  }
+
+  const handleCategoryTaxRate = (categoryId: string, value: string) => {
+    setError('')
+    startTransition(async () => {
+      const result = await setCategoryTaxRate(categoryId, value === 'default' ? null : value)
+      if (!result.success) setError(result.error || 'Failed to update category')
+    })
+  }
+
+  const handleRoleChange = (profileId: string, role: string) => {
+    setError('')
+    startTransition(async () => {
+      const result = await updateProfileRole(profileId, role as StaffRole)
+      if (!result.success) setError(result.error || 'Failed to update role')
+    })
+  }
+
+  const handleSavePin = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError('')
+    setPinSaved(false)
+    startTransition(async () => {
+      const result = await setApprovalPin(pin)
+      if (result.success) {
+        setPin('')
+        setPinSaved(true)
+      } else {
+        setError(result.error || 'Failed to set PIN')
+      }
+    })
+  }
+
+  const isAdmin = currentProfile?.role === 'admin'
+  const canApprove = currentProfile?.role === 'admin' || currentProfile?.role === 'supervisor'
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600 mt-2">Configure clinic details, tax, pricing, numbering and staff approvals</p>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Clinic Details</CardTitle>
+          <CardDescription>Printed on receipts and invoices</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveProfile} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="store_name">Clinic name *</Label>
+                <Input id="store_name" name="store_name" defaultValue={settings?.store_name} required disabled={saving} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tax_id">NPWP</Label>
+                <Input id="tax_id" name="tax_id" defaultValue={settings?.tax_id || ''} disabled={saving} />
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="address">Address</Label>
+                <Input id="address" name="address" defaultValue={settings?.address || ''} disabled={saving} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone</Label>
+                <Input id="phone" name="phone" defaultValue={settings?.phone || ''} disabled={saving} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" name="email" type="email" defaultValue={settings?.email || ''} disabled={saving} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="receipt_footer">Receipt footer</Label>
+                <Input id="receipt_footer" name="receipt_footer" defaultValue={settings?.receipt_footer || ''} disabled={saving} />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Receipt printer</Label>
+                <Select name="receipt_width" defaultValue={String(settings?.receipt_width ?? 80)} disabled={saving}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="80">80 mm roll</SelectItem>
+                    <SelectItem value="58">58 mm roll</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+              {profileSaved && <span className="text-sm text-green-600">Clinic details saved</span>}
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Store</CardTitle>
+          <CardDescription>Checkout pricing rules and the branch this store numbers documents under</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Product prices</Label>
+              <Select
+                value={pricesIncludeTax ? 'true' : 'false'}
+                onValueChange={(value) => setPricesIncludeTax(value === 'true')}
+                disabled={saving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">Include tax</SelectItem>
+                  <SelectItem value="false">Exclude tax (added at checkout)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Default tax rate</Label>
+              <Select value={defaultTaxRateId} onValueChange={setDefaultTaxRateId} disabled={saving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No tax</SelectItem>
+                  {taxRates.map((taxRate) => (
+                    <SelectItem key={taxRate.id} value={taxRate.id}>
+                      {taxRate.name} ({taxRate.rate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="max_discount_percent">Discount limit without approval (%)</Label>
+              <Input
+                id="max_discount_percent"
+                inputMode="decimal"
+                value={maxDiscountPercent}
+                onChange={(e) => setMaxDiscountPercent(e.target.value.replace(/[^\d.]/g, ''))}
+                disabled={saving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Cashiers need a supervisor PIN for larger manual discounts and for price overrides
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="branch_code">Branch code</Label>
+              <Input
+                id="branch_code"
+                value={branchCode}
+                onChange={(e) => setBranchCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 10))}
+                placeholder="e.g. JKT1"
+                disabled={saving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Used in document numbers that are sequenced per branch
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expiry_alert_days">Expiry alert windows (days)</Label>
+              <Input
+                id="expiry_alert_days"
+                value={expiryAlertDays}
+                onChange={(e) => setExpiryAlertDays(e.target.value.replace(/[^\d, ]/g, ''))}
+                placeholder="30, 60, 90"
+                disabled={saving}
+              />
+              <p className="text-xs text-muted-foreground">
+                Lots expiring within these windows are listed on the dashboard and expiry report
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-3">
+            {saved && <span className="text-sm text-green-600">Settings saved</span>}
+            <Button onClick={handleSaveSettings} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Tax Rates</CardTitle>
+              <CardDescription>Rates that can be assigned to products and categories</CardDescription>
+            </div>
+            <Button onClick={handleAddTaxRate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tax Rate
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Name</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Rate</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Description</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taxRates.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Receipt className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No tax rates yet</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  taxRates.map((taxRate) => (
+                    <tr key={taxRate.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {taxRate.name}
+                        {taxRate.id === settings?.default_tax_rate_id && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            default
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">{taxRate.rate}%</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{taxRate.description || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleEditTaxRate(taxRate)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteTaxRate(taxRate.id)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Category Tax Rates</CardTitle>
+          <CardDescription>Used by products in the category that have no rate of their own</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Category</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-72">Tax rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.length === 0 ? (
+                  <tr>
+                    <td colSpan={2} className="px-4 py-6 text-center text-sm text-gray-500">
+                      No categories found
+                    </td>
+                  </tr>
+                ) : (
+                  categories.map((category) => (
+                    <tr key={category.id} className="border-b">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{category.name}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <Select
+                          defaultValue={category.tax_rate_id || 'default'}
+                          onValueChange={(value) => handleCategoryTaxRate(category.id, value)}
+                          disabled={saving}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">Store default</SelectItem>
+                            {taxRates.map((taxRate) => (
+                              <SelectItem key={taxRate.id} value={taxRate.id}>
+                                {taxRate.name} ({taxRate.rate}%)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Document Numbering</CardTitle>
+          <CardDescription>Gap-free numbers assigned by the database, restarting each year</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Document</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Pattern</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Example</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {numberingFormats.map((format) => (
+                  <tr key={format.document_type} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                      {DOCUMENT_TYPE_LABELS[format.document_type]}
+                      {format.per_branch && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          per branch
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm font-mono text-gray-600">{format.pattern}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {formatDocumentNumber(format, {
+                        year: new Date().getFullYear(),
+                        branch: settings?.branch_code || 'BRANCH',
+                        sequence: 1,
+                      })}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedFormat(format)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff &amp; Approvals</CardTitle>
+          <CardDescription>Supervisors and admins can approve price overrides with their PIN</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Name</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Email</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700 w-48">Role</th>
+                </tr>
+              </thead>
+              <tbody>
+                {profiles.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Users className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No staff found</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  profiles.map((profile) => (
+                    <tr key={profile.id} className="border-b">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{profile.full_name || '-'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{profile.email || '-'}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <Select
+                          defaultValue={profile.role}
+                          onValueChange={(value) => handleRoleChange(profile.id, value)}
+                          disabled={saving || !isAdmin || profile.id === currentProfile?.id}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="cashier">Cashier</SelectItem>
+                            <SelectItem value="supervisor">Supervisor</SelectItem>
+                            <SelectItem value="admin">Admin</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {canApprove && (
+            <form onSubmit={handleSavePin} className="flex items-end gap-3">
+              <div className="space-y-2 w-48">
+                <Label htmlFor="approval_pin">My approval PIN</Label>
+                <Input
+                  id="approval_pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                  placeholder="4-8 digits"
+                  disabled={saving}
+                />
+              </div>
+              <Button type="submit" disabled={saving || pin.length < 4}>
+                Set PIN
+              </Button>
+              {pinSaved && <span className="text-sm text-green-600">PIN updated</span>}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+
+      <NumberingFormatDialog
+        open={selectedFormat !== null}
+        onOpenChange={(open) => !open && setSelectedFormat(null)}
+        format={selectedFormat}
+        branchCode={settings?.branch_code ?? null}
+      />
+
+      <TaxRateDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        taxRate={selectedTaxRate}
+        mode={dialogMode}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+import { notFound } from 'next/navigation'
+import { getShiftReport } from '@/app/actions/shifts'
+import { getStoreSettings } from '@/app/actions/settings'
+import { ShiftReportToolbar } from '@/components/shifts/shift-report-toolbar'
+import { ShiftReportView } from '@/components/shifts/shift-report-view'
+
+export default async function ShiftReportPage({ params }: { params: { id: string } }) {
+  const [{ report }, { settings }] = await Promise.all([getShiftReport(params.id), getStoreSettings()])
+
+  if (!report) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <ShiftReportToolbar />
+      <ShiftReportView report={report} storeName={settings?.store_name || 'VetMed Clinic'} />
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { ShiftsClient } from './shifts-client'
+import { getCurrentShift, getShiftReport, getShifts } from '@/app/actions/shifts'
+
+export default async function ShiftsPage() {
+  const [currentShift, { shifts, error }] = await Promise.all([getCurrentShift(), getShifts()])
+  const { report } = currentShift ? await getShiftReport(currentShift.id) : { report: null }
+
+  return <ShiftsClient current={report} shifts={shifts} error={error} />
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { OpenShiftDialog } from '@/components/shifts/open-shift-dialog'
+import { CashMovementDialog } from '@/components/shifts/cash-movement-dialog'
+import { CloseShiftDialog } from '@/components/shifts/close-shift-dialog'
+import type { CashShiftWithStaff, ShiftReport } from '@/app/actions/shifts'
+import { ArrowLeftRight, Eye, FileText, Lock, Wallet } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface ShiftsClientProps {
+  // Running report for the signed-in user's open shift
+  current: ShiftReport | null
+  shifts: CashShiftWithStaff[]
+  error: string | null
+}
+
+function cashVariance(shift: CashShiftWithStaff) {
+  if (!shift.counted || !shift.expected) return null
+  return (shift.counted.cash ?? 0) - (shift.expected.cash ?? 0)
+}
+
+export function ShiftsClient({ current, shifts, error }: ShiftsClientProps) {
+  const router = useRouter()
+  const [openOpen, setOpenOpen] = useState(false)
+  const [movementOpen, setMovementOpen] = useState(false)
+  const [closeOpen, setCloseOpen] = useState(false)
+
+  const shift = current?.shift
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Shifts</h1>
+          <p className="text-gray-600 mt-2">Open and close the cash drawer and reconcile each shift</p>
+        </div>
+        {!shift && (
+          <Button onClick={() => setOpenOpen(true)}>
+            <Wallet className="mr-2 h-4 w-4" />
+            Open Shift
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>My Shift</CardTitle>
+              <CardDescription>
+                {shift
+                  ? `Opened ${new Date(shift.opened_at).toLocaleString()} with a float of ${formatRupiah(shift.opening_float)}`
+                  : 'You have no open shift. Open one before taking payments at the till.'}
+              </CardDescription>
+            </div>
+            {shift && (
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={() => setMovementOpen(true)}>
+                  <ArrowLeftRight className="mr-2 h-4 w-4" />
+                  Cash In / Out
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href={`/admin/shifts/${shift.id}`}>
+                    <FileText className="mr-2 h-4 w-4" />
+                    X-Report
+                  </Link>
+                </Button>
+                <Button onClick={() => setCloseOpen(true)}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Close Shift
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardHeader>
+        {current && (
+          <CardContent>
+            <div className="grid gap-4 md:grid-cols-4">
+              {current.totals.map((total) => (
+                <div key={total.method} className="rounded-md border p-3">
+                  <div className="text-sm text-gray-600 capitalize">{total.method}</div>
+                  <div className="text-xl font-bold">{formatRupiah(total.payments - total.refunds)}</div>
+                  {total.refunds > 0 && (
+                    <div className="text-xs text-muted-foreground">after {formatRupiah(total.refunds)} refunded</div>
+                  )}
+                </div>
+              ))}
+              <div className="rounded-md border p-3">
+                <div className="text-sm text-gray-600">Orders paid</div>
+                <div className="text-xl font-bold">{current.orderCount}</div>
+              </div>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shift History</CardTitle>
+          <CardDescription>The last 50 shifts across all cashiers</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Cashier</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Opened</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Closed</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Float</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Cash variance</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shifts.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <Wallet className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No shifts yet</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  shifts.map((row) => {
+                    const variance = cashVariance(row)
+                    return (
+                      <tr key={row.id} className="border-b hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {row.opener?.full_name || row.opener?.email || '-'}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{new Date(row.opened_at).toLocaleString()}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">
+                          {row.closed_at ? (
+                            new Date(row.closed_at).toLocaleString()
+                          ) : (
+                            <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">open</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-600">{formatRupiah(row.opening_float)}</td>
+                        <td
+                          className={`px-4 py-3 text-sm text-right ${
+                            variance === null || variance === 0 ? 'text-gray-600' : variance > 0 ? 'text-green-700' : 'text-red-600'
+                          }`}
+                        >
+                          {variance === null ? '-' : `${variance > 0 ? '+' : variance < 0 ? '-' : ''}${formatRupiah(Math.abs(variance))}`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link href={`/admin/shifts/${row.id}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <OpenShiftDialog open={openOpen} onOpenChange={setOpenOpen} onSuccess={() => router.refresh()} />
+
+      {current && (
+        <>
+          <CashMovementDialog
+            open={movementOpen}
+            onOpenChange={setMovementOpen}
+            shiftId={current.shift.id}
+            onSuccess={() => router.refresh()}
+          />
+          <CloseShiftDialog
+            open={closeOpen}
+            onOpenChange={setCloseOpen}
+            shiftId={current.shift.id}
+            methods={current.totals.map((total) => total.method)}
+            onSuccess={() => router.push(`/admin/shifts/${current.shift.id}`)}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+import { notFound } from 'next/navigation'
+import { StockTakeDetailClient } from './stock-take-detail-client'
+import { getStockTake } from '@/app/actions/stock-takes'
+
+export default async function StockTakeDetailPage({ params }: { params: { id: string } }) {
+  const { stockTake } = await getStockTake(params.id)
+
+  if (!stockTake) {
+    notFound()
+  }
+
+  return <StockTakeDetailClient stockTake={stockTake} />
+}
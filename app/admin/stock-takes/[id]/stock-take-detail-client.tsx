@@ -0,0 +1,476 @@
+'use client'
+
+import { useMemo, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ApprovalDialog } from '@/components/orders/approval-dialog'
+import { StockTakeStatusBadge } from '@/components/stock-takes/stock-take-status-badge'
+import {
+  cancelStockTake,
+  postStockTake,
+  saveStockTakeCounts,
+  type StockTakeDetail,
+  type StockTakeItemDetail,
+} from '@/app/actions/stock-takes'
+import { formatStock } from '@/lib/units'
+import { formatRupiah } from '@/lib/utils'
+import { ArrowLeft, CheckCircle, ClipboardList, Loader2, Save, ScanBarcode, XCircle } from 'lucide-react'
+
+interface StockTakeDetailClientProps {
+  stockTake: StockTakeDetail
+}
+
+type LineFilter = 'all' | 'uncounted' | 'variances'
+
+function lineUnits(item: StockTakeItemDetail) {
+  return { unit: item.products?.unit || '', units: item.products?.product_units || [] }
+}
+
+// Barcodes match exactly; SKUs ignore case
+function matchesCode(item: StockTakeItemDetail, code: string) {
+  return !!item.products && (item.products.barcodes?.includes(code) || item.products.sku.toLowerCase() === code.toLowerCase())
+}
+
+export function StockTakeDetailClient({ stockTake }: StockTakeDetailClientProps) {
+  const router = useRouter()
+  const [pending, startTransition] = useTransition()
+  const [runningAction, setRunningAction] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [approvalReason, setApprovalReason] = useState<string | null>(null)
+  const [counts, setCounts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      stockTake.stock_take_items.map((item) => [item.id, item.counted_quantity === null ? '' : String(item.counted_quantity)])
+    )
+  )
+  const [approved, setApproved] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(stockTake.stock_take_items.map((item) => [item.id, item.approved]))
+  )
+  const [dirty, setDirty] = useState(false)
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<LineFilter>('all')
+  const [scanCode, setScanCode] = useState('')
+  const [scanMessage, setScanMessage] = useState('')
+
+  const counting = stockTake.status === 'counting'
+
+  const lines = useMemo(
+    () =>
+      stockTake.stock_take_items.map((item) => {
+        const counted = counts[item.id] === '' ? null : parseInt(counts[item.id])
+        const variance =
+          counted === null || isNaN(counted) ? null : counted - item.expected_quantity - item.moved_quantity
+        return {
+          item,
+          counted: variance === null ? null : counted,
+          variance,
+          value: variance !== null && item.unit_cost !== null ? variance * item.unit_cost : null,
+          approved: approved[item.id],
+        }
+      }),
+    [stockTake.stock_take_items, counts, approved]
+  )
+
+  const listedLines = lines.filter((line) => {
+    if (filter === 'uncounted' && line.counted !== null) return false
+    if (filter === 'variances' && !line.variance) return false
+    const term = search.trim().toLowerCase()
+    if (!term) return true
+    const product = line.item.products
+    return (
+      !!product &&
+      (product.name.toLowerCase().includes(term) ||
+        product.sku.toLowerCase().includes(term) ||
+        !!line.item.product_batches?.lot_number.toLowerCase().includes(term))
+    )
+  })
+
+  const posting = lines.filter((line) => line.variance && line.approved)
+  const countedLines = lines.filter((line) => line.counted !== null).length
+  const shortage = posting.reduce((sum, line) => sum + Math.min(line.value ?? 0, 0), 0)
+  const surplus = posting.reduce((sum, line) => sum + Math.max(line.value ?? 0, 0), 0)
+
+  const setCount = (id: string, value: string) => {
+    setCounts((prev) => ({ ...prev, [id]: value }))
+    setDirty(true)
+  }
+
+  // Adds to a product counted in one line; products held in several lots are
+  // narrowed down so the count goes on the right lot
+  const handleScan = () => {
+    const input = scanCode.trim()
+    if (!input) return
+    const match = input.match(/^(\d+)\*(.+)$/)
+    const quantity = match ? Math.max(1, Number(match[1])) : 1
+    const code = match ? match[2].trim() : input
+    setScanCode('')
+
+    const items = stockTake.stock_take_items.filter((item) => matchesCode(item, code))
+    if (items.length === 0) {
+      setScanMessage(`No product in this stock take matches "${code}"`)
+      return
+    }
+    const product = items[0].products
+    if (items.length > 1) {
+      setSearch(product?.sku || code)
+      setFilter('all')
+      setScanMessage(`${product?.name} is held in ${items.length} lots; enter the count on the right lot`)
+      return
+    }
+    const current = parseInt(counts[items[0].id]) || 0
+    setCount(items[0].id, String(current + quantity))
+    setScanMessage(`${product?.name}: ${current + quantity} counted`)
+  }
+
+  const toCounts = () =>
+    lines.map((line) => ({ id: line.item.id, counted_quantity: line.counted, approved: line.approved }))
+
+  const handleSave = () => {
+    setError('')
+    setRunningAction('save')
+    startTransition(async () => {
+      const result = await saveStockTakeCounts(stockTake.id, toCounts())
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to save counts')
+        return
+      }
+      setDirty(false)
+      router.refresh()
+    })
+  }
+
+  const handlePost = () => {
+    const uncounted = lines.length - countedLines
+    const message = [
+      `Post ${posting.length} adjustment(s) from ${stockTake.stock_take_number}?`,
+      uncounted > 0 ? `${uncounted} uncounted line(s) keep the stock on record.` : '',
+    ]
+      .filter(Boolean)
+      .join(' ')
+    if (!confirm(message)) return
+
+    setError('')
+    setRunningAction('post')
+    startTransition(async () => {
+      const saved = await saveStockTakeCounts(stockTake.id, toCounts())
+      if (!saved.success) {
+        setRunningAction(null)
+        setError(saved.error || 'Failed to save counts')
+        return
+      }
+      setDirty(false)
+      const result = await postStockTake(stockTake.id)
+      setRunningAction(null)
+      if (result.success) {
+        router.refresh()
+        return
+      }
+      if (result.approval_required) {
+        setApprovalReason(result.error || 'Supervisor approval required')
+        return
+      }
+      setError(result.error || 'Failed to post stock take')
+    })
+  }
+
+  const handleApprove = async (approval: { email: string; pin: string }) => {
+    const result = await postStockTake(stockTake.id, approval)
+    if (!result.success) {
+      return result.error || 'Failed to post stock take'
+    }
+    router.refresh()
+    return null
+  }
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel ${stockTake.stock_take_number}? Counts are kept but nothing is posted.`)) return
+    setError('')
+    setRunningAction('cancel')
+    startTransition(async () => {
+      const result = await cancelStockTake(stockTake.id)
+      setRunningAction(null)
+      if (!result.success) {
+        setError(result.error || 'Failed to cancel stock take')
+        return
+      }
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/stock-takes" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to stock takes
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 mt-2">{stockTake.stock_take_number}</h1>
+          <p className="text-gray-600 mt-2">
+            {stockTake.categories?.name || 'All products'} · Started {new Date(stockTake.created_at).toLocaleString()}
+            {stockTake.posted_at && (
+              <>
+                {' '}
+                · Posted {new Date(stockTake.posted_at).toLocaleString()}
+                {stockTake.approver && <> · Approved by {stockTake.approver.full_name || stockTake.approver.email}</>}
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <StockTakeStatusBadge status={stockTake.status} className="px-3 py-1 text-sm" />
+          {counting && (
+            <>
+              <Button variant="outline" onClick={handleCancel} disabled={pending}>
+                {runningAction === 'cancel' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <XCircle className="mr-2 h-4 w-4" />}
+                Cancel
+              </Button>
+              <Button variant="outline" onClick={handleSave} disabled={pending || !dirty}>
+                {runningAction === 'save' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save Counts
+              </Button>
+              <Button onClick={handlePost} disabled={pending || countedLines === 0}>
+                {runningAction === 'post' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                )}
+                Post Adjustments
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Counted</CardDescription>
+            <CardTitle>
+              {countedLines} of {lines.length} lines
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>{stockTake.status === 'posted' ? 'Adjustments posted' : 'Adjustments to post'}</CardDescription>
+            <CardTitle>{posting.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Shortage at cost</CardDescription>
+            <CardTitle className={shortage < 0 ? 'text-red-600' : ''}>{formatRupiah(shortage)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Surplus at cost</CardDescription>
+            <CardTitle className={surplus > 0 ? 'text-green-600' : ''}>{formatRupiah(surplus)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lines</CardTitle>
+          <CardDescription>
+            Expected quantities are the stock on record when the count started, in each product&apos;s base unit. Moved is what sold or came in between the start and a line&apos;s count, recorded when the count is saved and left out of the variance. Save as you go.
+            {counting && ' Clear "Post" on a line to leave its variance out.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 grid gap-4 md:grid-cols-3">
+            {counting && (
+              <div className="space-y-2">
+                <div className="relative">
+                  <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <Input
+                    autoFocus
+                    className="pl-10"
+                    placeholder="Scan a barcode or SKU (3*code counts three)"
+                    value={scanCode}
+                    onChange={(e) => {
+                      setScanCode(e.target.value)
+                      setScanMessage('')
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        handleScan()
+                      }
+                    }}
+                  />
+                </div>
+                {scanMessage && <p className="text-xs text-muted-foreground">{scanMessage}</p>}
+              </div>
+            )}
+            <Input
+              placeholder="Search product, SKU or lot..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Select value={filter} onValueChange={(value) => setFilter(value as LineFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All lines</SelectItem>
+                <SelectItem value="uncounted">Not counted yet</SelectItem>
+                <SelectItem value="variances">With a variance</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Expected</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Moved</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Counted</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Variance</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Cost Impact</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Post</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listedLines.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <ClipboardList className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No lines to show</p>
+                        <p className="text-sm">Change the search or filter to see more lines</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  listedLines.map(({ item, counted, variance, value, approved: lineApproved }) => (
+                    <tr key={item.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {item.products ? (
+                          <Link href={`/admin/products/${item.products.id}`} className="hover:underline">
+                            {item.products.name}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                        {item.products?.variant_name && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">{item.products.variant_name}</span>
+                        )}
+                        <div className="text-xs font-normal text-gray-500">{item.products?.sku}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {item.product_batches ? (
+                          <>
+                            {item.product_batches.lot_number}
+                            <div className="text-xs">exp {new Date(item.product_batches.expiry_date).toLocaleDateString()}</div>
+                          </>
+                        ) : (
+                          <span className="text-gray-500">Outside lots</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {item.expected_quantity}
+                        {item.products?.product_units.some((unit) => unit.is_stock_unit) && (
+                          <div className="text-xs text-gray-500">{formatStock(lineUnits(item), item.expected_quantity)}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {item.moved_quantity === 0 ? '-' : item.moved_quantity > 0 ? `+${item.moved_quantity}` : item.moved_quantity}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {counting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            className="ml-auto w-24 text-right"
+                            value={counts[item.id]}
+                            onChange={(e) => setCount(item.id, e.target.value)}
+                            disabled={pending}
+                          />
+                        ) : (
+                          <span className="text-gray-900">{counted ?? '-'}</span>
+                        )}
+                      </td>
+                      <td
+                        className={`px-4 py-3 text-sm text-right font-medium ${
+                          !variance ? 'text-gray-600' : variance > 0 ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {variance === null ? '-' : variance > 0 ? `+${variance}` : variance}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {variance ? (value !== null ? formatRupiah(value) : 'No cost') : '-'}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        {!variance ? (
+                          '-'
+                        ) : counting ? (
+                          <Select
+                            value={lineApproved ? 'post' : 'skip'}
+                            onValueChange={(value) => {
+                              setApproved((prev) => ({ ...prev, [item.id]: value === 'post' }))
+                              setDirty(true)
+                            }}
+                            disabled={pending}
+                          >
+                            <SelectTrigger className="w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="post">Post</SelectItem>
+                              <SelectItem value="skip">Skip</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : stockTake.status === 'posted' ? (
+                          <span className="text-gray-600">{lineApproved ? 'Posted' : 'Skipped'}</span>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {stockTake.notes && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Notes</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-gray-600 whitespace-pre-wrap">{stockTake.notes}</CardContent>
+        </Card>
+      )}
+
+      <ApprovalDialog
+        open={approvalReason !== null}
+        onOpenChange={(value) => !value && setApprovalReason(null)}
+        reason={approvalReason || ''}
+        onApprove={handleApprove}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { StockTakesClient } from './stock-takes-client'
+import { getStockTakes } from '@/app/actions/stock-takes'
+import { getCategories } from '@/app/actions/categories'
+
+export default async function StockTakesPage() {
+  const [{ stockTakes, error }, { categories }] = await Promise.all([getStockTakes(), getCategories()])
+
+  return <StockTakesClient stockTakes={stockTakes} categories={categories} error={error} />
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { StartStockTakeDialog } from '@/components/stock-takes/start-stock-take-dialog'
+import { StockTakeStatusBadge } from '@/components/stock-takes/stock-take-status-badge'
+import type { StockTakeWithStaff } from '@/app/actions/stock-takes'
+import type { Category } from '@/app/actions/categories'
+import { ClipboardList, Eye, Plus } from 'lucide-react'
+
+interface StockTakesClientProps {
+  stockTakes: StockTakeWithStaff[]
+  categories: Category[]
+  error: string | null
+}
+
+export function StockTakesClient({ stockTakes, categories, error }: StockTakesClientProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stock Takes</h1>
+          <p className="text-gray-600 mt-2">Count the shelf against the stock on record and post the differences</p>
+        </div>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Start Stock Take
+        </Button>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Stock Takes</CardTitle>
+          <CardDescription>Posted stock takes appear as adjustments in each product&apos;s stock history</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Number</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Products</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Started</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Posted</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockTakes.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-12 text-center">
+                      <div className="flex flex-col items-center justify-center text-gray-500">
+                        <ClipboardList className="h-12 w-12 mb-4 text-gray-400" />
+                        <p className="text-lg font-medium">No stock takes yet</p>
+                        <p className="text-sm">Start one to count all products or a single category</p>
+                      </div>
+                    </td>
+                  </tr>
+                ) : (
+                  stockTakes.map((stockTake) => (
+                    <tr key={stockTake.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{stockTake.stock_take_number}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{stockTake.categories?.name || 'All products'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {new Date(stockTake.created_at).toLocaleString()}
+                        <div className="text-xs">{stockTake.creator?.full_name || stockTake.creator?.email || ''}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {stockTake.posted_at ? (
+                          <>
+                            {new Date(stockTake.posted_at).toLocaleString()}
+                            <div className="text-xs">{stockTake.poster?.full_name || stockTake.poster?.email || ''}</div>
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <StockTakeStatusBadge status={stockTake.status} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/admin/stock-takes/${stockTake.id}`}>
+                            <Eye className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <StartStockTakeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        categories={categories}
+        onSuccess={(id) => router.push(`/admin/stock-takes/${id}`)}
+      />
+    </div>
+  )
+}
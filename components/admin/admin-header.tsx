@@ -33,7 +33,7 @@ export function AdminHeader({ user }: AdminHeaderProps) {
   }
 
   return (
-    <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+    <header className="bg-white border-b border-gray-200 sticky top-0 z-50 print:hidden">
       <div className="flex items-center justify-between px-8 py-4">
         <div className="flex items-center space-x-4">
           <h1 className="text-2xl font-bold text-blue-600">VetMed ERP</h1>
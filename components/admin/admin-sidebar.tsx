@@ -12,6 +12,11 @@ import {
   FileText,
   Settings,
   Truck,
+  Percent,
+  Wallet,
+  CalendarClock,
+  ClipboardList,
+  PackagePlus,
 } from 'lucide-react'
 
 const menuItems = [
@@ -25,6 +30,16 @@ const menuItems = [
     href: '/admin/products',
     icon: Package,
   },
+  {
+    title: 'Expiring Lots',
+    href: '/admin/expiry',
+    icon: CalendarClock,
+  },
+  {
+    title: 'Stock Takes',
+    href: '/admin/stock-takes',
+    icon: ClipboardList,
+  },
   {
     title: 'Categories',
     href: '/admin/categories',
@@ -35,6 +50,11 @@ const menuItems = [
     href: '/admin/suppliers',
     icon: Truck,
   },
+  {
+    title: 'Purchases',
+    href: '/admin/purchases',
+    icon: PackagePlus,
+  },
   {
     title: 'Customers',
     href: '/admin/customers',
@@ -45,6 +65,21 @@ const menuItems = [
     href: '/admin/orders',
     icon: ShoppingCart,
   },
+  {
+    title: 'Quotations',
+    href: '/admin/quotations',
+    icon: FileText,
+  },
+  {
+    title: 'Shifts',
+    href: '/admin/shifts',
+    icon: Wallet,
+  },
+  {
+    title: 'Promotions',
+    href: '/admin/promotions',
+    icon: Percent,
+  },
   {
     title: 'Settings',
     href: '/admin/settings',
@@ -56,7 +91,7 @@ export function AdminSidebar() {
   const pathname = usePathname()
 
   return (
-    <aside className="w-64 bg-white border-r border-gray-200 min-h-[calc(100vh-73px)]">
+    <aside className="w-64 bg-white border-r border-gray-200 min-h-[calc(100vh-73px)] print:hidden">
       <nav className="p-4 space-y-2">
         {menuItems.map((item) => {
           const Icon = item.icon
@@ -0,0 +1,101 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { ExpiringBatch } from '@/app/actions/stock'
+import { daysUntilExpiry, expiryWindow, expiryWindowLabel, getExpiryBadge } from '@/lib/batches'
+import { formatRupiah } from '@/lib/utils'
+import { AlertTriangle, CalendarClock, CheckCircle2 } from 'lucide-react'
+
+interface ExpiryAlertsCardProps {
+  batches: ExpiringBatch[]
+  // Alert windows in days, e.g. [30, 60, 90]
+  windows: number[]
+}
+
+// Lots shown on the dashboard; the rest are on the expiry report
+const LISTED_LOTS = 5
+
+export function ExpiryAlertsCard({ batches, windows }: ExpiryAlertsCardProps) {
+  const sortedWindows = [...windows].sort((a, b) => a - b)
+  const lots = batches
+    .map((batch) => ({ batch, window: expiryWindow(batch, sortedWindows) }))
+    .filter((lot): lot is { batch: ExpiringBatch; window: number } => lot.window !== null)
+
+  const counts = [0, ...sortedWindows]
+    .map((window) => ({ window, count: lots.filter((lot) => lot.window === window).length }))
+    .filter((entry) => entry.count > 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Expiry Alerts</CardTitle>
+            <CardDescription>Lots expiring within {sortedWindows[sortedWindows.length - 1]} days</CardDescription>
+          </div>
+          {lots.length > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              <span>{lots.length} Alerts</span>
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {lots.length === 0 ? (
+          <div className="text-center py-6">
+            <CheckCircle2 className="h-8 w-8 text-green-500 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No lots expire within the alert windows.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {counts.map((entry) => (
+                <span
+                  key={entry.window}
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${getExpiryBadge(entry.window, sortedWindows)}`}
+                >
+                  {expiryWindowLabel(entry.window)}: {entry.count}
+                </span>
+              ))}
+            </div>
+
+            {lots.slice(0, LISTED_LOTS).map(({ batch, window }) => {
+              const days = daysUntilExpiry(batch)
+              return (
+                <div key={batch.id} className={`flex items-center p-3 rounded-lg ${window === 0 ? 'bg-red-50' : 'bg-amber-50'}`}>
+                  <CalendarClock className={`h-5 w-5 mr-3 ${window === 0 ? 'text-red-600' : 'text-amber-600'}`} />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {batch.products?.name} · lot {batch.lot_number}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {batch.quantity} {batch.products?.unit}
+                      {batch.products && batch.products.cost !== null && <> · {formatRupiah(batch.products.cost * batch.quantity)} at cost</>}
+                      {' · '}
+                      {days <= 0
+                        ? `expired ${new Date(batch.expiry_date).toLocaleDateString()}`
+                        : `expires in ${days} ${days === 1 ? 'day' : 'days'}`}
+                    </p>
+                  </div>
+                  {batch.products && (
+                    <Button variant="outline" size="sm" className="ml-auto" asChild>
+                      <Link href={`/admin/products/${batch.products.id}`}>View Lot</Link>
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+
+            <div className="text-center">
+              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800" asChild>
+                <Link href="/admin/expiry">View expiry report</Link>
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { LowStockProduct } from '@/app/actions/stock'
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react'
+
+interface LowStockAlertsCardProps {
+  products: LowStockProduct[]
+}
+
+// Products shown on the dashboard; the rest are on the products list
+const LISTED_PRODUCTS = 5
+
+export function LowStockAlertsCard({ products }: LowStockAlertsCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Low Stock Alerts</CardTitle>
+            <CardDescription>Active products at or below their minimum stock</CardDescription>
+          </div>
+          {products.length > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              <span>{products.length} Alerts</span>
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {products.length === 0 ? (
+          <div className="text-center py-6">
+            <CheckCircle2 className="h-8 w-8 text-green-500 mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">Every active product is above its minimum stock.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {products.slice(0, LISTED_PRODUCTS).map((product) => (
+              <div key={product.id} className={`flex items-center p-3 rounded-lg ${product.stock === 0 ? 'bg-red-50' : 'bg-amber-50'}`}>
+                <AlertCircle className={`h-5 w-5 mr-3 ${product.stock === 0 ? 'text-red-600' : 'text-amber-600'}`} />
+                <div>
+                  <p className="text-sm font-medium">
+                    {product.name}
+                    {product.variant_name && <> · {product.variant_name}</>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {product.stock === 0 ? 'Out of stock' : `${product.stock} ${product.unit} left`} · minimum {product.min_stock}{' '}
+                    {product.unit}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" className="ml-auto" asChild>
+                  <Link href={`/admin/products/${product.id}`}>View Product</Link>
+                </Button>
+              </div>
+            ))}
+
+            <div className="text-center">
+              <Button variant="ghost" size="sm" className="text-blue-600 hover:text-blue-800" asChild>
+                <Link href="/admin/purchases/new">Create purchase order</Link>
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,94 @@
+import type { OrderDocument } from '@/lib/order-document'
+import { formatRupiah } from '@/lib/utils'
+
+interface InvoiceViewProps {
+  document: OrderDocument
+}
+
+export function InvoiceView({ document: doc }: InvoiceViewProps) {
+  return (
+    <div className="mx-auto w-full max-w-[210mm] bg-white p-10 text-sm text-gray-900 shadow print:max-w-none print:p-0 print:shadow-none">
+      <style>{'@page { size: A4; margin: 15mm; }'}</style>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="text-xl font-bold">{doc.store.name}</div>
+          <div className="mt-1 space-y-0.5 text-gray-600">
+            {doc.store.address && <div>{doc.store.address}</div>}
+            {(doc.store.phone || doc.store.email) && (
+              <div>{[doc.store.phone, doc.store.email].filter(Boolean).join(' | ')}</div>
+            )}
+            {doc.store.taxId && <div>NPWP {doc.store.taxId}</div>}
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-xl font-bold">{doc.title}</div>
+          <div className="mt-1 space-y-0.5">
+            <div>No. {doc.number}</div>
+            <div>Date {new Date(doc.date).toLocaleDateString('id-ID', { dateStyle: 'medium' })}</div>
+            {doc.number !== doc.orderNumber && <div>Order {doc.orderNumber}</div>}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-8">
+        <div className="font-semibold">{doc.partyLabel}</div>
+        {doc.customer ? (
+          <>
+            <div>{doc.customer.name}</div>
+            {doc.customer.email && <div className="text-gray-600">{doc.customer.email}</div>}
+            {doc.customer.phone && <div className="text-gray-600">{doc.customer.phone}</div>}
+          </>
+        ) : (
+          <div>Walk-in customer</div>
+        )}
+      </div>
+
+      <table className="mt-6 w-full">
+        <thead>
+          <tr className="border-b bg-gray-50">
+            <th className="px-2 py-2 text-left font-medium">Item</th>
+            <th className="px-2 py-2 text-right font-medium">Qty</th>
+            <th className="px-2 py-2 text-right font-medium">Unit price</th>
+            <th className="px-2 py-2 text-right font-medium">Discount</th>
+            <th className="px-2 py-2 text-right font-medium">Tax</th>
+            <th className="px-2 py-2 text-right font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {doc.lines.map((line, index) => (
+            <tr key={index} className="border-b break-inside-avoid">
+              <td className="px-2 py-2">{line.name}</td>
+              <td className="px-2 py-2 text-right">{line.quantity}</td>
+              <td className="px-2 py-2 text-right">{formatRupiah(line.unitPrice)}</td>
+              <td className="px-2 py-2 text-right">{line.discount > 0 ? `-${formatRupiah(line.discount)}` : '-'}</td>
+              <td className="px-2 py-2 text-right">{line.taxRate > 0 ? `${line.taxRate}%` : '-'}</td>
+              <td className="px-2 py-2 text-right">{formatRupiah(line.total)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 ml-auto max-w-xs space-y-1 break-inside-avoid">
+        {doc.totals.map((total) => (
+          <div key={total.label} className={`flex justify-between ${total.emphasis ? 'font-semibold' : ''}`}>
+            <span>{total.label}</span>
+            <span>
+              {total.negative ? '-' : ''}
+              {formatRupiah(total.amount)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {doc.notes && (
+        <div className="mt-6">
+          <div className="font-semibold">Notes</div>
+          <div className="text-gray-600">{doc.notes}</div>
+        </div>
+      )}
+
+      {doc.footer && <div className="mt-10 text-center text-xs text-gray-500">{doc.footer}</div>}
+    </div>
+  )
+}
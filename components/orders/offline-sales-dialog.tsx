@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { QueuedSale } from '@/lib/offline-pos'
+import { CloudUpload, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface OfflineSalesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  sales: QueuedSale[]
+  online: boolean
+  syncing: boolean
+  onSync: () => Promise<void>
+  onRetry: (sale: QueuedSale) => Promise<void>
+  onDiscard: (sale: QueuedSale) => void
+}
+
+export function OfflineSalesDialog({
+  open,
+  onOpenChange,
+  sales,
+  online,
+  syncing,
+  onSync,
+  onRetry,
+  onDiscard,
+}: OfflineSalesDialogProps) {
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const handleRetry = async (sale: QueuedSale) => {
+    setBusyId(sale.id)
+    try {
+      await onRetry(sale)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleDiscard = (sale: QueuedSale) => {
+    if (!confirm(`Discard the offline sale "${sale.label}"? It will not be recorded.`)) return
+    onDiscard(sale)
+  }
+
+  const pending = sales.filter((sale) => sale.status === 'pending').length
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Offline Sales</DialogTitle>
+          <DialogDescription>
+            Sales rung up on this device without a connection. They are sent in order when the connection returns,
+            at the prices charged; a price changed meanwhile needs a supervisor to approve. A sale the server
+            rejects, for example because the stock ran out meanwhile, stays here until it is retried or discarded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!online && (
+          <div className="text-sm text-amber-800 bg-amber-50 p-3 rounded-md border border-amber-200">
+            This device is offline. Queued sales will sync automatically once it reconnects.
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Sale</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Total</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Status</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sales.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-gray-500">
+                      <CloudUpload className="h-12 w-12 mb-4 text-gray-400" />
+                      <p className="text-lg font-medium">Every sale has been synced</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                sales.map((sale) => (
+                  <tr key={sale.id} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{sale.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {sale.payload.items.reduce((sum, item) => sum + item.quantity, 0)} items · sold{' '}
+                        {new Date(sale.created_at).toLocaleString()}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(sale.total)}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {sale.status === 'pending' ? (
+                        <span className="text-gray-600">Waiting to sync</span>
+                      ) : (
+                        <span className="text-red-600">{sale.error}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      {sale.status === 'conflict' && (
+                        <div className="flex items-center justify-end space-x-2">
+                          <Button size="sm" onClick={() => handleRetry(sale)} disabled={!online || busyId !== null || syncing}>
+                            {busyId === sale.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {sale.approval_required ? 'Approve' : 'Retry'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDiscard(sale)}
+                            disabled={busyId !== null || syncing}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onSync} disabled={!online || syncing || pending === 0}>
+            {syncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Sync now
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
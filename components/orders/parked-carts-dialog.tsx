@@ -0,0 +1,152 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  deleteParkedCart,
+  getParkedCarts,
+  resumeParkedCart,
+  type ParkedCart,
+} from '@/app/actions/parked-carts'
+import { Loader2, ShoppingCart, Trash2 } from 'lucide-react'
+import { formatRupiah } from '@/lib/utils'
+
+interface ParkedCartsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The current cart is discarded when another one is resumed
+  replacesCart: boolean
+  onResume: (parkedCart: ParkedCart) => void
+}
+
+export function ParkedCartsDialog({ open, onOpenChange, replacesCart, onResume }: ParkedCartsDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [parkedCarts, setParkedCarts] = useState<ParkedCart[]>([])
+
+  const load = async () => {
+    setLoading(true)
+    const result = await getParkedCarts()
+    setParkedCarts(result.parkedCarts)
+    setError(result.error || '')
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    if (open) load()
+  }, [open])
+
+  const handleResume = async (id: string) => {
+    if (replacesCart && !confirm('Resuming discards the cart currently in the POS. Continue?')) return
+    setBusyId(id)
+    setError('')
+    const result = await resumeParkedCart(id)
+    setBusyId(null)
+    if (!result.parkedCart) {
+      setError(result.error || 'Failed to resume cart')
+      load()
+      return
+    }
+    onResume(result.parkedCart)
+    onOpenChange(false)
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Discard this parked cart?')) return
+    setBusyId(id)
+    const result = await deleteParkedCart(id)
+    setBusyId(null)
+    if (!result.success) setError(result.error || 'Failed to discard cart')
+    load()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Parked Carts</DialogTitle>
+          <DialogDescription>
+            Carts set aside on any terminal. Prices and stock are checked again when a cart is resumed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Label</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Items</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Total</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Expires</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin text-gray-400" />
+                  </td>
+                </tr>
+              ) : parkedCarts.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-gray-500">
+                      <ShoppingCart className="h-12 w-12 mb-4 text-gray-400" />
+                      <p className="text-lg font-medium">No parked carts</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                parkedCarts.map((parkedCart) => (
+                  <tr key={parkedCart.id} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{parkedCart.label}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {parkedCart.customers?.name || 'No customer'} · parked{' '}
+                        {new Date(parkedCart.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-600">{parkedCart.item_count}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatRupiah(parkedCart.total_amount)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-600">{new Date(parkedCart.expires_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button size="sm" onClick={() => handleResume(parkedCart.id)} disabled={busyId !== null}>
+                          {busyId === parkedCart.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Resume
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(parkedCart.id)}
+                          disabled={busyId !== null}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
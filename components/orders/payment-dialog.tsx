@@ -0,0 +1,145 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { recordPayment } from '@/app/actions/payments'
+import { Loader2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+
+interface PaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  orderId: string
+  balance: number
+  onSuccess?: () => void
+}
+
+export function PaymentDialog({ open, onOpenChange, orderId, balance, onSuccess }: PaymentDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [method, setMethod] = useState('cash')
+  const [amount, setAmount] = useState('')
+  const [reference, setReference] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setMethod('cash')
+      setAmount(String(balance))
+      setReference('')
+      setError('')
+    }
+  }, [open, balance])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await recordPayment(orderId, {
+        method,
+        amount: parseRupiah(amount),
+        reference,
+      })
+
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>Outstanding balance: {formatRupiah(balance)}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select value={method} onValueChange={setMethod} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cash">Cash</SelectItem>
+                <SelectItem value="card">Card</SelectItem>
+                <SelectItem value="transfer">Transfer</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_amount">Amount *</Label>
+            <Input
+              id="payment_amount"
+              type="text"
+              value={formatRupiah(parseRupiah(amount))}
+              onChange={(e) => setAmount(e.target.value.replace(/\D/g, ''))}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="payment_reference">Reference</Label>
+            <Input
+              id="payment_reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              disabled={loading}
+              placeholder="Card approval code, transfer ID..."
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || parseRupiah(amount) <= 0}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Download, Printer } from 'lucide-react'
+
+interface PrintToolbarProps {
+  backHref: string
+  backLabel: string
+  pdfHref: string
+  autoPrint?: boolean
+}
+
+export function PrintToolbar({ backHref, backLabel, pdfHref, autoPrint }: PrintToolbarProps) {
+  // Opened straight from checkout: send the receipt to the printer right away
+  useEffect(() => {
+    if (autoPrint) window.print()
+  }, [autoPrint])
+
+  return (
+    <div className="flex items-center justify-between print:hidden">
+      <Link href={backHref} className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        {backLabel}
+      </Link>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" asChild>
+          <a href={pdfHref}>
+            <Download className="mr-2 h-4 w-4" />
+            Download PDF
+          </a>
+        </Button>
+        <Button onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </Button>
+      </div>
+    </div>
+  )
+}
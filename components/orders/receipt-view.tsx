@@ -0,0 +1,82 @@
+import type { OrderDocument } from '@/lib/order-document'
+import { formatRupiah } from '@/lib/utils'
+
+interface ReceiptViewProps {
+  document: OrderDocument
+  width: 58 | 80
+}
+
+export function ReceiptView({ document: doc, width }: ReceiptViewProps) {
+  return (
+    <div
+      className="mx-auto bg-white p-3 font-mono text-gray-900 shadow print:shadow-none print:p-0"
+      style={{ width: `${width}mm`, fontSize: width === 58 ? '9px' : '11px' }}
+    >
+      <style>{`@page { size: ${width}mm auto; margin: 3mm; }`}</style>
+
+      <div className="text-center">
+        <div className="font-bold">{doc.store.name}</div>
+        {doc.store.address && <div>{doc.store.address}</div>}
+        {doc.store.phone && <div>{doc.store.phone}</div>}
+        {doc.store.taxId && <div>NPWP {doc.store.taxId}</div>}
+      </div>
+
+      <div className="my-2 border-t border-dashed border-gray-400" />
+      <div className="flex justify-between font-bold">
+        <span>{doc.title}</span>
+        <span>{doc.number}</span>
+      </div>
+      <div>{new Date(doc.date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</div>
+      {doc.customer && <div>{doc.customer.name}</div>}
+      <div className="my-2 border-t border-dashed border-gray-400" />
+
+      {doc.lines.map((line, index) => (
+        <div key={index} className="mb-1">
+          <div>{line.name}</div>
+          <div className="flex justify-between pl-2">
+            <span>
+              {line.quantity} x {formatRupiah(line.unitPrice)}
+            </span>
+            <span>{formatRupiah(line.unitPrice * line.quantity)}</span>
+          </div>
+          {line.discount > 0 && (
+            <div className="flex justify-between pl-2">
+              <span>Discount</span>
+              <span>-{formatRupiah(line.discount)}</span>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="my-2 border-t border-dashed border-gray-400" />
+      {doc.totals.map((total) => (
+        <div key={total.label} className={`flex justify-between ${total.emphasis ? 'font-bold' : ''}`}>
+          <span>{total.label}</span>
+          <span>
+            {total.negative ? '-' : ''}
+            {formatRupiah(total.amount)}
+          </span>
+        </div>
+      ))}
+
+      {doc.payments.length > 0 && (
+        <>
+          <div className="my-2 border-t border-dashed border-gray-400" />
+          {doc.payments.map((payment, index) => (
+            <div key={index} className="flex justify-between">
+              <span className="uppercase">{payment.method}</span>
+              <span>{formatRupiah(payment.amount)}</span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {doc.footer && (
+        <>
+          <div className="my-2 border-t border-dashed border-gray-400" />
+          <div className="text-center">{doc.footer}</div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createOrderReturn } from '@/app/actions/returns'
+import type { OrderDetail } from '@/app/actions/orders'
+import { Loader2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+
+interface ReturnDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  order: OrderDetail
+  onSuccess?: (returnNumber: string) => void
+}
+
+export function ReturnDialog({ open, onOpenChange, order, onSuccess }: ReturnDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState('')
+  const [restockTo, setRestockTo] = useState<'sellable' | 'quarantine'>('sellable')
+  const [refundMethod, setRefundMethod] = useState(order.payment_method || 'cash')
+  const [refundAmount, setRefundAmount] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setQuantities({})
+      setReason('')
+      setRestockTo('sellable')
+      setRefundAmount('')
+      setError('')
+    }
+  }, [open])
+
+  const returned = useMemo(() => {
+    const map = new Map<string, number>()
+    for (const ret of order.order_returns) {
+      for (const item of ret.order_return_items) {
+        map.set(item.order_item_id, (map.get(item.order_item_id) || 0) + item.quantity)
+      }
+    }
+    return map
+  }, [order.order_returns])
+
+  const lines = order.order_items.map((item) => {
+    const returnable = item.quantity - (returned.get(item.id) || 0)
+    const quantity = Math.min(quantities[item.id] || 0, returnable)
+    // What the customer paid for the line: net of its share of the order
+    // discount, plus tax when it was charged on top
+    const lineTotal =
+      Math.max(0, item.subtotal - item.order_discount) + (order.prices_include_tax ? 0 : item.tax_amount)
+    return {
+      item,
+      returnable,
+      quantity,
+      value: Math.round((lineTotal * quantity) / item.quantity),
+    }
+  })
+
+  const returnValue = lines.reduce((sum, line) => sum + line.value, 0)
+  // Returned goods first come off what the customer still owes; only the rest is refunded
+  const credit = Math.min(returnValue, Math.max(0, order.total_amount - order.credited_amount - order.paid_amount))
+  const refundRemaining = order.paid_amount - order.refunded_amount
+  const maxRefund = Math.max(0, Math.min(returnValue - credit, refundRemaining))
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await createOrderReturn({
+        order_id: order.id,
+        reason,
+        restock_to: restockTo,
+        refund_method: refundMethod,
+        refund_amount: refundAmount ? Math.min(parseRupiah(refundAmount), maxRefund) : maxRefund,
+        items: lines
+          .filter((line) => line.quantity > 0)
+          .map((line) => ({ order_item_id: line.item.id, quantity: line.quantity })),
+      })
+
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.(result.return_number!)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Choose the items coming back from {order.order_number} and how much to refund
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-3 py-2 text-left text-sm font-medium text-gray-700">Product</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-gray-700">Returnable</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-gray-700 w-28">Return qty</th>
+                  <th className="px-3 py-2 text-right text-sm font-medium text-gray-700">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.item.id} className="border-b">
+                    <td className="px-3 py-2 text-sm">
+                      {line.item.product_name}
+                      {line.item.unit_name && <span className="ml-1 text-xs text-gray-500">({line.item.unit_name})</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right text-gray-600">{line.returnable}</td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.returnable}
+                        value={line.quantity}
+                        disabled={loading || line.returnable <= 0}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [line.item.id]: Math.max(0, Math.min(Number(e.target.value) || 0, line.returnable)),
+                          }))
+                        }
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{formatRupiah(line.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return_reason">Reason *</Label>
+            <Textarea
+              id="return_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              required
+              disabled={loading}
+              placeholder="e.g. damaged packaging, wrong product"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Restock to</Label>
+              <Select value={restockTo} onValueChange={(value) => setRestockTo(value as 'sellable' | 'quarantine')} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sellable">Sellable stock</SelectItem>
+                  <SelectItem value="quarantine">Damaged / quarantine</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Refund method</Label>
+              <Select value={refundMethod} onValueChange={setRefundMethod} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {credit > 0 && (
+            <div className="text-sm text-blue-700 bg-blue-50 p-3 rounded-md border border-blue-200">
+              {formatRupiah(credit)} of the returned items comes off the unpaid balance.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="refund_amount">Refund amount</Label>
+            <Input
+              id="refund_amount"
+              type="text"
+              value={refundAmount ? formatRupiah(parseRupiah(refundAmount)) : ''}
+              onChange={(e) => setRefundAmount(e.target.value.replace(/\D/g, ''))}
+              disabled={loading}
+              placeholder={`${formatRupiah(maxRefund)} (full refund)`}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty for a full refund of the returned items. Enter a lower amount for a partial refund.
+            </p>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || returnValue === 0}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Process Return
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
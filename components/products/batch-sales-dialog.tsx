@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { getBatchSales, type BatchSale } from '@/app/actions/stock'
+import type { ProductBatch } from '@/app/actions/products'
+import { Loader2, Users } from 'lucide-react'
+
+interface BatchSalesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  batch: ProductBatch | null
+  unit: string
+}
+
+export function BatchSalesDialog({ open, onOpenChange, batch, unit }: BatchSalesDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [sales, setSales] = useState<BatchSale[]>([])
+
+  useEffect(() => {
+    if (!open || !batch) return
+    const load = async () => {
+      setLoading(true)
+      const result = await getBatchSales(batch.id)
+      setSales(result.sales)
+      setError(result.error || '')
+      setLoading(false)
+    }
+    load()
+  }, [open, batch])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Lot {batch?.lot_number}</DialogTitle>
+          <DialogDescription>
+            Orders still holding stock from this lot, for contacting customers in a recall.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-gray-50">
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Order</th>
+                <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Customer</th>
+                <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Quantity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={3} className="px-4 py-8 text-center">
+                    <Loader2 className="mx-auto h-5 w-5 animate-spin text-gray-400" />
+                  </td>
+                </tr>
+              ) : sales.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-4 py-12 text-center">
+                    <div className="flex flex-col items-center justify-center text-gray-500">
+                      <Users className="h-12 w-12 mb-4 text-gray-400" />
+                      <p className="text-lg font-medium">Nothing sold from this lot</p>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                sales.map((sale) => {
+                  const order = sale.order_items?.orders
+                  return (
+                    <tr key={sale.id} className="border-b hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        {order ? (
+                          <Link href={`/admin/orders/${order.id}`} className="font-medium text-blue-600 hover:underline">
+                            {order.order_number}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                        {order && (
+                          <div className="text-xs text-muted-foreground">{new Date(order.created_at).toLocaleString()}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {order?.customers ? (
+                          <>
+                            <div className="text-gray-900">{order.customers.name}</div>
+                            {order.customers.phone && <div className="text-xs">{order.customers.phone}</div>}
+                          </>
+                        ) : (
+                          <>
+                            Walk-in
+                            {order?.walk_in_phone && <div className="text-xs">{order.walk_in_phone}</div>}
+                          </>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-900">
+                        {sale.quantity} {unit}
+                      </td>
+                    </tr>
+                  )
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createPriceRule } from '@/app/actions/promotions'
+import type { ProductBatch } from '@/app/actions/products'
+import { Loader2 } from 'lucide-react'
+
+interface ClearanceDiscountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: { id: string; name: string } | null
+  batch: Pick<ProductBatch, 'lot_number' | 'expiry_date'> | null
+  onSuccess?: () => void
+}
+
+// The day before the lot expires, when it stops being sold anyway
+function lastSellingDay(expiryDate: string) {
+  const day = new Date(`${expiryDate}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - 1)
+  return day.toISOString().slice(0, 10)
+}
+
+export function ClearanceDiscountDialog({ open, onOpenChange, product, batch, onSuccess }: ClearanceDiscountDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [percentage, setPercentage] = useState('20')
+  const [endsOn, setEndsOn] = useState('')
+
+  const today = new Date().toISOString().slice(0, 10)
+
+  useEffect(() => {
+    if (open && batch) {
+      setPercentage('20')
+      setEndsOn(lastSellingDay(batch.expiry_date))
+      setError('')
+    }
+  }, [open, batch])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!product || !batch) return
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData()
+    formData.set('name', `Clearance ${product.name} lot ${batch.lot_number}`)
+    formData.set('rule_type', 'percentage')
+    formData.set('target', 'product')
+    formData.set('target_id', product.id)
+    formData.set('percentage', percentage)
+    formData.set('starts_on', today)
+    formData.set('ends_on', endsOn)
+    formData.set('is_active', 'true')
+
+    try {
+      const result = await createPriceRule(formData)
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Clearance Discount</DialogTitle>
+          <DialogDescription>
+            Adds a price rule for {product?.name}. Sales take the earliest-expiring lot first, so lot{' '}
+            {batch?.lot_number} sells before newer stock.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="clearance_percentage">Discount (%) *</Label>
+              <Input
+                id="clearance_percentage"
+                type="number"
+                min="1"
+                max="100"
+                step="0.01"
+                value={percentage}
+                onChange={(e) => setPercentage(e.target.value)}
+                required
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="clearance_ends_on">Until *</Label>
+              <Input
+                id="clearance_ends_on"
+                type="date"
+                min={today}
+                max={batch ? lastSellingDay(batch.expiry_date) : undefined}
+                value={endsOn}
+                onChange={(e) => setEndsOn(e.target.value)}
+                required
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !(parseFloat(percentage) > 0) || !endsOn}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Discount
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,24 +20,60 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { createProduct, updateProduct, type Product, getCategoriesForSelect } from '@/app/actions/products'
-import { Loader2 } from 'lucide-react'
+import { createProduct, updateProduct, type Product, type ProductUnitInput, getCategoriesForSelect } from '@/app/actions/products'
+import { getTaxRates, type TaxRate } from '@/app/actions/settings'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
 import { formatRupiah, parseRupiah } from '@/lib/utils'
 
 interface ProductDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   product?: Product | null
+  // Candidates for "Variant of"
+  products: Product[]
   mode: 'create' | 'edit'
 }
 
-export function ProductDialog({ open, onOpenChange, product, mode }: ProductDialogProps) {
+type UnitRow = {
+  key: string
+  id?: string
+  name: string
+  factor: string
+  // Empty sells at factor x the product price
+  price: string
+  sellable: boolean
+}
+
+// Select value for the base unit in the purchase and stock pickers
+const BASE_UNIT = 'base'
+
+function toUnitRows(product?: Product | null): UnitRow[] {
+  return (product?.units || []).map((unit) => ({
+    key: unit.id,
+    id: unit.id,
+    name: unit.name,
+    factor: String(unit.factor),
+    price: unit.price === null ? '' : String(unit.price),
+    sellable: unit.sellable,
+  }))
+}
+
+export function ProductDialog({ open, onOpenChange, product, products, mode }: ProductDialogProps) {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [categories, setCategories] = useState<{id: string, name: string}[]>([])
   const [isLoadingCategories, setIsLoadingCategories] = useState(true)
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([])
   const [price, setPrice] = useState('')
   const [cost, setCost] = useState('')
+  const [baseUnit, setBaseUnit] = useState('unit')
+  const [units, setUnits] = useState<UnitRow[]>([])
+  const [purchaseUnit, setPurchaseUnit] = useState(BASE_UNIT)
+  const [stockUnit, setStockUnit] = useState(BASE_UNIT)
+
+  // Only standalone products can have variants, and not the product itself
+  const parentOptions = products.filter((p) => !p.parent_id && p.id !== product?.id)
+  const hasVariants = !!product && products.some((p) => p.parent_id === product.id)
 
   // Load categories and set initial values on component mount
   useEffect(() => {
@@ -48,6 +84,13 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
       }
       setIsLoadingCategories(false)
     }
+
+    const loadTaxRates = async () => {
+      const { taxRates, error } = await getTaxRates()
+      if (!error) {
+        setTaxRates(taxRates)
+      }
+    }
     
     // Set initial price and cost values
     if (product) {
@@ -57,10 +100,29 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
       setPrice('0')
       setCost('0')
     }
+    setBaseUnit(product?.unit || 'unit')
+    setUnits(toUnitRows(product))
+    setPurchaseUnit(product?.units.find((unit) => unit.is_purchase_unit)?.id ?? BASE_UNIT)
+    setStockUnit(product?.units.find((unit) => unit.is_stock_unit)?.id ?? BASE_UNIT)
     
     loadCategories()
+    loadTaxRates()
   }, [product])
 
+  const addUnit = () => {
+    setUnits((prev) => [...prev, { key: `new-${Date.now()}`, name: '', factor: '', price: '', sellable: true }])
+  }
+
+  const updateUnit = (key: string, changes: Partial<UnitRow>) => {
+    setUnits((prev) => prev.map((unit) => (unit.key === key ? { ...unit, ...changes } : unit)))
+  }
+
+  const removeUnit = (key: string) => {
+    setUnits((prev) => prev.filter((unit) => unit.key !== key))
+    if (purchaseUnit === key) setPurchaseUnit(BASE_UNIT)
+    if (stockUnit === key) setStockUnit(BASE_UNIT)
+  }
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setLoading(true)
@@ -74,6 +136,15 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
     
     formData.set('price', priceValue.toString())
     if (cost) formData.set('cost', costValue.toString())
+    formData.set('units', JSON.stringify(units.map((unit): ProductUnitInput => ({
+      id: unit.id,
+      name: unit.name,
+      factor: Number(unit.factor),
+      price: unit.price === '' ? null : parseRupiah(unit.price),
+      sellable: unit.sellable,
+      is_purchase_unit: purchaseUnit === unit.key,
+      is_stock_unit: stockUnit === unit.key,
+    }))))
 
     try {
       const result = mode === 'create' 
@@ -119,6 +190,38 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
                 required
               />
             </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="parent_id" className="text-right">
+                Variant of
+              </Label>
+              <div className="col-span-3 grid grid-cols-2 gap-2">
+                <Select
+                  name="parent_id"
+                  defaultValue={product?.parent_id || 'none'}
+                  disabled={loading || hasVariants}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (standalone product)</SelectItem>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  id="variant_name"
+                  name="variant_name"
+                  defaultValue={product?.variant_name || ''}
+                  placeholder="Variant, e.g. 5kg"
+                  disabled={loading}
+                />
+              </div>
+            </div>
             
             <div className="grid grid-cols-4 items-start gap-4">
               <Label htmlFor="description" className="text-right mt-2">
@@ -175,6 +278,22 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
                 required
               />
             </div>
+
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label htmlFor="barcodes" className="text-right mt-2">
+                Barcodes
+              </Label>
+              <div className="col-span-3 space-y-1">
+                <Textarea
+                  id="barcodes"
+                  name="barcodes"
+                  defaultValue={product?.barcodes?.join('\n') || ''}
+                  rows={2}
+                  disabled={loading}
+                />
+                <p className="text-xs text-muted-foreground">One per line; scan straight into this field</p>
+              </div>
+            </div>
             
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="unit" className="text-right">
@@ -184,10 +303,141 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
                 <Input
                   id="unit"
                   name="unit"
-                  defaultValue={product?.unit || 'unit'}
+                  value={baseUnit}
+                  onChange={(e) => setBaseUnit(e.target.value)}
                   disabled={loading}
                   placeholder="e.g., unit, kg, liter"
                 />
+                <p className="text-xs text-muted-foreground mt-1">The smallest unit sold; stock is counted in it</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right mt-2">Larger units</Label>
+              <div className="col-span-3 space-y-2">
+                {units.map((unit) => (
+                  <div key={unit.key} className="grid grid-cols-12 items-center gap-2">
+                    <Input
+                      className="col-span-3"
+                      value={unit.name}
+                      onChange={(e) => updateUnit(unit.key, { name: e.target.value })}
+                      placeholder="e.g. strip"
+                      disabled={loading}
+                    />
+                    <Input
+                      className="col-span-2"
+                      inputMode="numeric"
+                      value={unit.factor}
+                      onChange={(e) => updateUnit(unit.key, { factor: e.target.value.replace(/\D/g, '') })}
+                      placeholder={`× ${baseUnit || 'unit'}`}
+                      disabled={loading}
+                    />
+                    <Input
+                      className="col-span-3"
+                      inputMode="numeric"
+                      value={unit.price ? formatRupiah(Number(unit.price)) : ''}
+                      onChange={(e) => updateUnit(unit.key, { price: e.target.value.replace(/\D/g, '') })}
+                      placeholder={
+                        Number(unit.factor) > 1 ? formatRupiah((parseFloat(price) || 0) * Number(unit.factor)) : 'Price'
+                      }
+                      disabled={loading}
+                    />
+                    <div className="col-span-3">
+                      <Select
+                        value={unit.sellable ? 'true' : 'false'}
+                        onValueChange={(value) => updateUnit(unit.key, { sellable: value === 'true' })}
+                        disabled={loading}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="true">Sold</SelectItem>
+                          <SelectItem value="false">Not sold</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="col-span-1"
+                      onClick={() => removeUnit(unit.key)}
+                      disabled={loading}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={addUnit} disabled={loading}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add unit
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Name, how many {baseUnit || 'unit'} it holds, and price. An empty price charges the base price for
+                  each {baseUnit || 'unit'} inside.
+                </p>
+                {units.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2 pt-1">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Bought by</Label>
+                      <Select value={purchaseUnit} onValueChange={setPurchaseUnit} disabled={loading}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BASE_UNIT}>{baseUnit || 'unit'}</SelectItem>
+                          {units.filter((unit) => unit.name.trim()).map((unit) => (
+                            <SelectItem key={unit.key} value={unit.key}>
+                              {unit.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Stock counted in</Label>
+                      <Select value={stockUnit} onValueChange={setStockUnit} disabled={loading}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={BASE_UNIT}>{baseUnit || 'unit'}</SelectItem>
+                          {units.filter((unit) => unit.name.trim()).map((unit) => (
+                            <SelectItem key={unit.key} value={unit.key}>
+                              {unit.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="tax_rate_id" className="text-right">
+                Tax rate
+              </Label>
+              <div className="col-span-3">
+                <Select
+                  name="tax_rate_id"
+                  defaultValue={product?.tax_rate_id || 'default'}
+                  disabled={loading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Category / store default</SelectItem>
+                    {taxRates.map((taxRate) => (
+                      <SelectItem key={taxRate.id} value={taxRate.id}>
+                        {taxRate.name} ({taxRate.rate}%)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
             </div>
           </div>
@@ -237,16 +487,21 @@ export function ProductDialog({ open, onOpenChange, product, mode }: ProductDial
 
           <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="stock">Stock *</Label>
+              <Label htmlFor="stock">
+                {mode === 'create' ? 'Opening stock' : 'Stock'} ({baseUnit || 'unit'}){mode === 'create' && ' *'}
+              </Label>
               <Input
                 id="stock"
                 name="stock"
                 type="number"
                 min="0"
                 defaultValue={product?.stock || 0}
-                required
-                disabled={loading}
+                required={mode === 'create'}
+                disabled={loading || mode === 'edit'}
               />
+              {mode === 'edit' && (
+                <p className="text-xs text-muted-foreground">Record a stock movement to change it</p>
+              )}
             </div>
 
             <div className="space-y-2">
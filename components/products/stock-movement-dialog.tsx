@@ -0,0 +1,333 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { recordStockMovement, type StockBucket, type StockMovementInput } from '@/app/actions/stock'
+import type { Product } from '@/app/actions/products'
+import type { SupplierOption } from '@/app/actions/suppliers'
+import { formatStock } from '@/lib/units'
+import { isExpired } from '@/lib/batches'
+import { Loader2 } from 'lucide-react'
+
+type ManualMovementType = StockMovementInput['movement_type']
+
+interface StockMovementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: Product
+  // Opens on a given movement of a given lot, e.g. writing off an expired lot
+  defaultType?: ManualMovementType
+  defaultBatchId?: string | null
+  // Supplier returns are offered when there are suppliers to return to
+  suppliers?: SupplierOption[]
+  onSuccess?: () => void
+}
+
+export function StockMovementDialog({
+  open,
+  onOpenChange,
+  product,
+  defaultType = 'purchase_receipt',
+  defaultBatchId = null,
+  suppliers = [],
+  onSuccess,
+}: StockMovementDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [type, setType] = useState<ManualMovementType>('purchase_receipt')
+  const [direction, setDirection] = useState<'in' | 'out'>('in')
+  const [bucket, setBucket] = useState<StockBucket>('sellable')
+  const [unitId, setUnitId] = useState('base')
+  const [quantity, setQuantity] = useState('')
+  const [reason, setReason] = useState('')
+  const [reference, setReference] = useState('')
+  const [batchId, setBatchId] = useState('none')
+  const [lotNumber, setLotNumber] = useState('')
+  const [expiryDate, setExpiryDate] = useState('')
+  const [supplierId, setSupplierId] = useState('')
+
+  const units = product.units || []
+  const batches = product.batches || []
+  const purchaseUnit = units.find((unit) => unit.is_purchase_unit)
+  // Receiving an existing lot number adds to that lot, keeping its expiry date
+  const existingLot = batches.find((batch) => batch.lot_number.toLowerCase() === lotNumber.trim().toLowerCase())
+
+  useEffect(() => {
+    if (open) {
+      setType(defaultType)
+      setDirection('in')
+      setBucket('sellable')
+      setUnitId(defaultType === 'purchase_receipt' ? purchaseUnit?.id || 'base' : 'base')
+      setQuantity('')
+      setReason('')
+      setReference('')
+      setBatchId(defaultBatchId || 'none')
+      setLotNumber('')
+      setExpiryDate('')
+      setSupplierId('')
+      setError('')
+    }
+  }, [open, defaultType, defaultBatchId, purchaseUnit?.id])
+
+  const factor = units.find((unit) => unit.id === unitId)?.factor || 1
+  const baseQuantity = (parseInt(quantity) || 0) * factor
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await recordStockMovement({
+        product_id: product.id,
+        movement_type: type,
+        quantity: type === 'adjustment' && direction === 'out' ? -baseQuantity : baseQuantity,
+        bucket: type === 'write_off' ? bucket : undefined,
+        batch_id: type !== 'purchase_receipt' && batchId !== 'none' ? batchId : null,
+        lot_number: type === 'purchase_receipt' ? lotNumber.trim() || null : null,
+        expiry_date: type === 'purchase_receipt' && lotNumber.trim() && !existingLot ? expiryDate || null : null,
+        supplier_id: type === 'supplier_return' ? supplierId || null : null,
+        reason,
+        reference_number: reference.trim() || null,
+      })
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Stock Movement</DialogTitle>
+          <DialogDescription>
+            {product.name}: {formatStock(product, product.stock)} on hand
+            {product.quarantine_stock > 0 && `, ${product.quarantine_stock} ${product.unit} quarantined`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ManualMovementType)} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="purchase_receipt">Purchase receipt</SelectItem>
+                <SelectItem value="adjustment">Adjustment (count correction)</SelectItem>
+                <SelectItem value="transfer">Release from quarantine</SelectItem>
+                <SelectItem value="write_off">Write-off (damaged, expired, lost)</SelectItem>
+                {suppliers.length > 0 && <SelectItem value="supplier_return">Return to supplier</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === 'supplier_return' && (
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === 'adjustment' && (
+            <div className="space-y-2">
+              <Label>Direction</Label>
+              <Select value={direction} onValueChange={(value) => setDirection(value as 'in' | 'out')} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in">Add to stock</SelectItem>
+                  <SelectItem value="out">Remove from stock</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === 'write_off' && (
+            <div className="space-y-2">
+              <Label>Take from</Label>
+              <Select value={bucket} onValueChange={(value) => setBucket(value as StockBucket)} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sellable">Sellable stock</SelectItem>
+                  <SelectItem value="quarantine">Quarantined returns</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === 'purchase_receipt' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="stock_lot_number">Lot number</Label>
+                <Input
+                  id="stock_lot_number"
+                  value={lotNumber}
+                  onChange={(e) => setLotNumber(e.target.value)}
+                  disabled={loading}
+                  placeholder="Leave empty if not tracked"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="stock_expiry_date">Expiry date{lotNumber.trim() && !existingLot ? ' *' : ''}</Label>
+                <Input
+                  id="stock_expiry_date"
+                  type="date"
+                  value={existingLot ? existingLot.expiry_date : expiryDate}
+                  onChange={(e) => setExpiryDate(e.target.value)}
+                  required={!!lotNumber.trim() && !existingLot}
+                  disabled={loading || !lotNumber.trim() || !!existingLot}
+                />
+              </div>
+            </div>
+          ) : (
+            batches.length > 0 && (
+              <div className="space-y-2">
+                <Label>Lot</Label>
+                <Select value={batchId} onValueChange={setBatchId} disabled={loading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Stock outside any lot</SelectItem>
+                    {batches.map((batch) => (
+                      <SelectItem key={batch.id} value={batch.id}>
+                        {batch.lot_number} · exp {new Date(batch.expiry_date).toLocaleDateString()} · {batch.quantity}{' '}
+                        {product.unit}
+                        {isExpired(batch) ? ' (expired)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock_quantity">Quantity *</Label>
+              <Input
+                id="stock_quantity"
+                type="number"
+                min="1"
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unitId} onValueChange={setUnitId} disabled={loading || units.length === 0}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="base">{product.unit}</SelectItem>
+                  {units.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id}>
+                      {unit.name} ({unit.factor} {product.unit})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {factor > 1 && baseQuantity > 0 && (
+            <p className="text-xs text-gray-500">
+              {baseQuantity} {product.unit}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="stock_reason">Reason *</Label>
+            <Input
+              id="stock_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              disabled={loading}
+              placeholder="e.g. Delivery from supplier, broken vials"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock_reference">Reference document</Label>
+            <Input
+              id="stock_reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              disabled={loading}
+              placeholder="e.g. Supplier invoice number"
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={loading || baseQuantity <= 0 || !reason.trim() || (type === 'supplier_return' && !supplierId)}
+            >
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createPriceRule, updatePriceRule, type PriceRule, type PriceRuleType } from '@/app/actions/promotions'
+import { Loader2 } from 'lucide-react'
+
+interface PriceRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  priceRule?: PriceRule | null
+  mode: 'create' | 'edit'
+  products: { id: string; name: string }[]
+  categories: { id: string; name: string }[]
+}
+
+export function PriceRuleDialog({ open, onOpenChange, priceRule, mode, products, categories }: PriceRuleDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [ruleType, setRuleType] = useState<PriceRuleType>('percentage')
+  const [target, setTarget] = useState<'product' | 'category'>('category')
+  const [targetId, setTargetId] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setRuleType(priceRule?.rule_type || 'percentage')
+      setTarget(priceRule?.product_id ? 'product' : 'category')
+      setTargetId(priceRule?.product_id || priceRule?.category_id || '')
+      setError('')
+    }
+  }, [open, priceRule])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    formData.set('rule_type', ruleType)
+    formData.set('target', target)
+    formData.set('target_id', targetId)
+
+    try {
+      const result = mode === 'create'
+        ? await createPriceRule(formData)
+        : await updatePriceRule(priceRule!.id, formData)
+
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const targets = target === 'product' ? products : categories
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mode === 'create' ? 'Add Price Rule' : 'Edit Price Rule'}</DialogTitle>
+          <DialogDescription>
+            Applied automatically at checkout; when several rules match a line, the largest discount wins
+          </DialogDescription>
+        </DialogHeader>
+
+        <form key={priceRule?.id ?? 'new'} onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule_name">Name *</Label>
+              <Input
+                id="rule_name"
+                name="name"
+                defaultValue={priceRule?.name}
+                required
+                disabled={loading}
+                placeholder="e.g. Dental Chews 3+1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select name="is_active" defaultValue={priceRule?.is_active === false ? 'false' : 'true'} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">Active</SelectItem>
+                  <SelectItem value="false">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Rule</Label>
+            <Select value={ruleType} onValueChange={(value) => setRuleType(value as PriceRuleType)} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentage off</SelectItem>
+                <SelectItem value="buy_x_get_y">Buy X get Y free</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {ruleType === 'buy_x_get_y' ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_buy">Buy *</Label>
+                <Input
+                  id="rule_buy"
+                  name="buy_quantity"
+                  type="number"
+                  min="1"
+                  defaultValue={priceRule?.buy_quantity ?? ''}
+                  required
+                  disabled={loading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_free">Get free *</Label>
+                <Input
+                  id="rule_free"
+                  name="free_quantity"
+                  type="number"
+                  min="1"
+                  defaultValue={priceRule?.free_quantity ?? 1}
+                  required
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="rule_percentage">Percentage *</Label>
+              <Input
+                id="rule_percentage"
+                name="percentage"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                defaultValue={priceRule?.percentage ?? ''}
+                required
+                disabled={loading}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select
+                value={target}
+                onValueChange={(value) => {
+                  setTarget(value as 'product' | 'category')
+                  setTargetId('')
+                }}
+                disabled={loading}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="product">Product</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label>{target === 'product' ? 'Product' : 'Category'} *</Label>
+              <Select value={targetId} onValueChange={setTargetId} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${target}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule_starts_on">Valid from</Label>
+              <Input
+                id="rule_starts_on"
+                name="starts_on"
+                type="date"
+                defaultValue={priceRule?.starts_on || ''}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule_ends_on">Valid until</Label>
+              <Input
+                id="rule_ends_on"
+                name="ends_on"
+                type="date"
+                defaultValue={priceRule?.ends_on || ''}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !targetId}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'create' ? 'Add Price Rule' : 'Update Price Rule'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
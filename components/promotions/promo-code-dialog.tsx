@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { createPromoCode, updatePromoCode, type PromoCode } from '@/app/actions/promotions'
+import { Loader2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+
+interface PromoCodeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  promoCode?: PromoCode | null
+  mode: 'create' | 'edit'
+}
+
+export function PromoCodeDialog({ open, onOpenChange, promoCode, mode }: PromoCodeDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [minOrder, setMinOrder] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setMinOrder(promoCode?.min_order_amount ? String(promoCode.min_order_amount) : '')
+      setError('')
+    }
+  }, [open, promoCode])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    formData.set('min_order_amount', String(parseRupiah(minOrder)))
+
+    try {
+      const result = mode === 'create'
+        ? await createPromoCode(formData)
+        : await updatePromoCode(promoCode!.id, formData)
+
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mode === 'create' ? 'Add Promo Code' : 'Edit Promo Code'}</DialogTitle>
+          <DialogDescription>
+            Customers quote the code at checkout for an order-level discount
+          </DialogDescription>
+        </DialogHeader>
+
+        <form key={promoCode?.id ?? 'new'} onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo_code">Code *</Label>
+              <Input
+                id="promo_code"
+                name="code"
+                defaultValue={promoCode?.code}
+                required
+                disabled={loading}
+                className="uppercase"
+                placeholder="e.g. VAKSIN10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select name="is_active" defaultValue={promoCode?.is_active === false ? 'false' : 'true'} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="true">Active</SelectItem>
+                  <SelectItem value="false">Inactive</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="promo_description">Description</Label>
+            <Input
+              id="promo_description"
+              name="description"
+              defaultValue={promoCode?.description || ''}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Discount type *</Label>
+              <Select name="discount_type" defaultValue={promoCode?.discount_type || 'percentage'} disabled={loading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo_value">Value *</Label>
+              <Input
+                id="promo_value"
+                name="value"
+                type="number"
+                min="0"
+                step="0.01"
+                defaultValue={promoCode?.value ?? ''}
+                required
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo_min_order">Minimum order</Label>
+              <Input
+                id="promo_min_order"
+                type="text"
+                value={minOrder ? formatRupiah(parseRupiah(minOrder)) : ''}
+                onChange={(e) => setMinOrder(e.target.value.replace(/\D/g, ''))}
+                disabled={loading}
+                placeholder="No minimum"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo_usage_limit">Usage limit</Label>
+              <Input
+                id="promo_usage_limit"
+                name="usage_limit"
+                type="number"
+                min="1"
+                defaultValue={promoCode?.usage_limit ?? ''}
+                disabled={loading}
+                placeholder="Unlimited"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo_starts_on">Valid from</Label>
+              <Input
+                id="promo_starts_on"
+                name="starts_on"
+                type="date"
+                defaultValue={promoCode?.starts_on || ''}
+                disabled={loading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo_ends_on">Valid until</Label>
+              <Input
+                id="promo_ends_on"
+                name="ends_on"
+                type="date"
+                defaultValue={promoCode?.ends_on || ''}
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'create' ? 'Add Promo Code' : 'Update Promo Code'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,321 @@
+'use client'
+
+import { useMemo, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { savePurchaseOrder, type PurchaseOrderDetail } from '@/app/actions/purchase-orders'
+import type { Product } from '@/app/actions/products'
+import type { SupplierOption } from '@/app/actions/suppliers'
+import { ArrowLeft, Loader2, Search, Trash2, Truck } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+import { formatStock } from '@/lib/units'
+
+interface PurchaseOrderFormProps {
+  products: Product[]
+  suppliers: SupplierOption[]
+  // Omitted when creating a new purchase order
+  purchaseOrder?: PurchaseOrderDetail
+}
+
+type PurchaseLine = {
+  product: Product
+  // Null buys in the base unit
+  unit_id: string | null
+  quantity: number
+  unit_cost: number
+}
+
+// Select value for the base unit
+const BASE_UNIT = 'base'
+
+function unitFactor(line: Pick<PurchaseLine, 'product' | 'unit_id'>) {
+  return line.product.units.find((unit) => unit.id === line.unit_id)?.factor ?? 1
+}
+
+// The product's cost price, scaled to the unit bought in
+function defaultCost(product: Product, unitId: string | null) {
+  return (product.cost ?? 0) * unitFactor({ product, unit_id: unitId })
+}
+
+export function PurchaseOrderForm({ products, suppliers, purchaseOrder }: PurchaseOrderFormProps) {
+  const router = useRouter()
+  const [saving, startSaving] = useTransition()
+  const [error, setError] = useState('')
+  const [search, setSearch] = useState('')
+  const [supplierId, setSupplierId] = useState(purchaseOrder?.supplier_id ?? '')
+  const [expectedDate, setExpectedDate] = useState(purchaseOrder?.expected_date ?? '')
+  const [notes, setNotes] = useState(purchaseOrder?.notes ?? '')
+  const [lines, setLines] = useState<PurchaseLine[]>(() =>
+    (purchaseOrder?.purchase_order_items ?? []).flatMap((item) => {
+      const product = products.find((p) => p.id === item.product_id)
+      if (!product) return []
+      const unit = item.unit_name ? product.units.find((u) => u.name === item.unit_name) : null
+      return [{ product, unit_id: unit?.id ?? null, quantity: item.quantity, unit_cost: item.unit_cost }]
+    })
+  )
+
+  const filteredProducts = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return products
+      .filter((p) => p.name.toLowerCase().includes(term) || p.sku.toLowerCase().includes(term))
+      .slice(0, 8)
+  }, [products, search])
+
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0)
+
+  const addProduct = (product: Product) => {
+    setLines((prev) => {
+      if (prev.some((line) => line.product.id === product.id)) {
+        return prev.map((line) => (line.product.id === product.id ? { ...line, quantity: line.quantity + 1 } : line))
+      }
+      const unitId = product.units.find((unit) => unit.is_purchase_unit)?.id ?? null
+      return [...prev, { product, unit_id: unitId, quantity: 1, unit_cost: defaultCost(product, unitId) }]
+    })
+    setSearch('')
+  }
+
+  const updateLine = (productId: string, changes: Partial<PurchaseLine>) => {
+    setLines((prev) => prev.map((line) => (line.product.id === productId ? { ...line, ...changes } : line)))
+  }
+
+  const handleSave = () => {
+    setError('')
+    startSaving(async () => {
+      const result = await savePurchaseOrder(purchaseOrder?.id ?? null, {
+        supplier_id: supplierId,
+        expected_date: expectedDate || null,
+        notes: notes.trim() || null,
+        items: lines.map((line) => ({
+          product_id: line.product.id,
+          unit_id: line.unit_id,
+          quantity: line.quantity,
+          unit_cost: line.unit_cost,
+        })),
+      })
+      if (!result.success || !result.purchase_order_id) {
+        setError(result.error || 'Failed to save purchase order')
+        return
+      }
+      router.push(`/admin/purchases/${result.purchase_order_id}`)
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href={purchaseOrder ? `/admin/purchases/${purchaseOrder.id}` : '/admin/purchases'}
+          className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {purchaseOrder ? 'Back to purchase order' : 'Back to purchase orders'}
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2">
+          {purchaseOrder ? `Edit ${purchaseOrder.po_number}` : 'New Purchase Order'}
+        </h1>
+        <p className="text-gray-600 mt-2">Order in the unit the supplier sells; stock is only booked in when goods are received</p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>Costs default to each product&apos;s cost price; enter the price agreed with the supplier</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                placeholder="Search by name or SKU..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+              {filteredProducts.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg">
+                  {filteredProducts.map((product) => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => addProduct(product)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                    >
+                      <span>
+                        {product.name}
+                        {product.variant_name && <span className="ml-1 text-gray-500">{product.variant_name}</span>}
+                        <span className="ml-2 text-xs text-gray-400">{product.sku}</span>
+                      </span>
+                      <span className={product.stock <= product.min_stock ? 'text-red-600' : 'text-gray-600'}>
+                        {formatStock(product, product.stock)}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Unit</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Qty</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Cost</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-12 text-center">
+                        <div className="flex flex-col items-center justify-center text-gray-500">
+                          <Truck className="h-12 w-12 mb-4 text-gray-400" />
+                          <p className="text-lg font-medium">No items yet</p>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    lines.map((line) => (
+                      <tr key={line.product.id} className="border-b">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {line.product.name}
+                          {line.product.variant_name && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">{line.product.variant_name}</span>
+                          )}
+                          <div className={`text-xs font-normal ${line.product.stock <= line.product.min_stock ? 'text-red-600' : 'text-gray-500'}`}>
+                            {formatStock(line.product, line.product.stock)} on hand, minimum {formatStock(line.product, line.product.min_stock)}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <Select
+                            value={line.unit_id ?? BASE_UNIT}
+                            onValueChange={(value) => {
+                              const unitId = value === BASE_UNIT ? null : value
+                              updateLine(line.product.id, { unit_id: unitId, unit_cost: defaultCost(line.product, unitId) })
+                            }}
+                            disabled={line.product.units.length === 0}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={BASE_UNIT}>{line.product.unit}</SelectItem>
+                              {line.product.units.map((unit) => (
+                                <SelectItem key={unit.id} value={unit.id}>
+                                  {unit.name} ({unit.factor} {line.product.unit})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="number"
+                            min={1}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.product.id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="ml-auto w-20 text-right"
+                          />
+                          {unitFactor(line) > 1 && (
+                            <div className="text-xs text-gray-500">
+                              {line.quantity * unitFactor(line)} {line.product.unit}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="text"
+                            value={formatRupiah(line.unit_cost)}
+                            onChange={(e) => updateLine(line.product.id, { unit_cost: parseRupiah(e.target.value) })}
+                            className="ml-auto w-32 text-right"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {formatRupiah(line.quantity * line.unit_cost)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLines((prev) => prev.filter((l) => l.product.id !== line.product.id))}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Supplier</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expected_date">Expected delivery</Label>
+              <Input id="expected_date" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="purchase_order_notes">Notes</Label>
+              <Textarea
+                id="purchase_order_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Delivery instructions, payment terms..."
+              />
+            </div>
+
+            <div className="border-t pt-4 text-sm">
+              <div className="flex items-center justify-between font-semibold text-base">
+                <span>Total</span>
+                <span>{formatRupiah(total)}</span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+            )}
+
+            <Button className="w-full" onClick={handleSave} disabled={saving || lines.length === 0 || !supplierId}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Purchase Order
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
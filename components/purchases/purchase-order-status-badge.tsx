@@ -0,0 +1,13 @@
+import type { PurchaseOrderStatus } from '@/app/actions/purchase-orders'
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+}
+
+export function PurchaseOrderStatusBadge({ status, className = 'px-2 py-1 text-xs' }: { status: PurchaseOrderStatus; className?: string }) {
+  return <span className={`rounded-full font-medium ${STATUS_STYLES[status]} ${className}`}>{status.replace('_', ' ')}</span>
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { receivePurchaseOrder, type PurchaseOrderDetail } from '@/app/actions/purchase-orders'
+import { Loader2 } from 'lucide-react'
+
+interface ReceivePurchaseOrderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  purchaseOrder: PurchaseOrderDetail
+  onSuccess?: () => void
+}
+
+type ReceiptLine = {
+  quantity: string
+  lot_number: string
+  expiry_date: string
+}
+
+export function ReceivePurchaseOrderDialog({ open, onOpenChange, purchaseOrder, onSuccess }: ReceivePurchaseOrderDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [reference, setReference] = useState('')
+  const [lines, setLines] = useState<Record<string, ReceiptLine>>({})
+
+  const outstanding = purchaseOrder.purchase_order_items.filter(
+    (item) => item.product_id && item.received_quantity < item.quantity
+  )
+
+  // Everything still on order is assumed to have arrived; lower what did not
+  useEffect(() => {
+    if (open) {
+      setReference('')
+      setLines(
+        Object.fromEntries(
+          purchaseOrder.purchase_order_items.map((item) => [
+            item.id,
+            { quantity: String(item.quantity - item.received_quantity), lot_number: '', expiry_date: '' },
+          ])
+        )
+      )
+      setError('')
+    }
+  }, [open, purchaseOrder.purchase_order_items])
+
+  const updateLine = (id: string, changes: Partial<ReceiptLine>) => {
+    setLines((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await receivePurchaseOrder(purchaseOrder.id, {
+        reference_number: reference.trim() || null,
+        items: outstanding.map((item) => ({
+          id: item.id,
+          quantity: parseInt(lines[item.id]?.quantity) || 0,
+          lot_number: lines[item.id]?.lot_number.trim() || null,
+          expiry_date: lines[item.id]?.expiry_date || null,
+        })),
+      })
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            Books what arrived into stock against {purchaseOrder.po_number}. Enter the lot and expiry date printed on
+            the packaging; a lot number already on record adds to that lot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="rounded-md border">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-gray-50">
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                  <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Received</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Lot number</th>
+                  <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Expiry date</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outstanding.map((item) => {
+                  const line = lines[item.id]
+                  return (
+                    <tr key={item.id} className="border-b">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                        {item.product_name}
+                        <div className="text-xs font-normal text-gray-500">
+                          {item.quantity - item.received_quantity} of {item.quantity} {item.unit_name || item.products?.unit} to come
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.quantity - item.received_quantity}
+                          step="1"
+                          className="ml-auto w-20 text-right"
+                          value={line?.quantity ?? ''}
+                          onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                          disabled={loading}
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <Input
+                          value={line?.lot_number ?? ''}
+                          onChange={(e) => updateLine(item.id, { lot_number: e.target.value })}
+                          disabled={loading}
+                          placeholder="Not tracked"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <Input
+                          type="date"
+                          value={line?.expiry_date ?? ''}
+                          onChange={(e) => updateLine(item.id, { expiry_date: e.target.value })}
+                          disabled={loading || !line?.lot_number.trim()}
+                        />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt_reference">Delivery note</Label>
+            <Input
+              id="receipt_reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              disabled={loading}
+              placeholder="e.g. Supplier delivery note or invoice number"
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || outstanding.length === 0}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Receive
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
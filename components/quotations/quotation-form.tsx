@@ -0,0 +1,354 @@
+'use client'
+
+import { useMemo, useState, useTransition } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { saveQuotation, type QuotationDetail } from '@/app/actions/quotations'
+import type { Product } from '@/app/actions/products'
+import type { PriceRule } from '@/app/actions/promotions'
+import { ArrowLeft, FileText, Loader2, Search, Trash2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+import { resolveTaxRate, type TaxContext } from '@/lib/tax'
+import { priceCart } from '@/lib/pricing'
+
+interface QuotationFormProps {
+  products: Product[]
+  customers: { id: string; name: string; email: string | null }[]
+  tax: TaxContext
+  priceRules: PriceRule[]
+  // Omitted when creating a new quotation
+  quotation?: QuotationDetail
+}
+
+type QuoteLine = {
+  product_id: string
+  product_name: string
+  category_id: string | null
+  list_price: number
+  unit_price: number
+  quantity: number
+  discount: number
+  tax_rate: number
+  stock: number
+}
+
+const DEFAULT_VALIDITY_DAYS = 14
+
+function defaultValidUntil() {
+  const date = new Date()
+  date.setDate(date.getDate() + DEFAULT_VALIDITY_DAYS)
+  return date.toISOString().slice(0, 10)
+}
+
+export function QuotationForm({ products, customers, tax, priceRules, quotation }: QuotationFormProps) {
+  const router = useRouter()
+  const [saving, startSaving] = useTransition()
+  const [error, setError] = useState('')
+  const [search, setSearch] = useState('')
+  const [customerId, setCustomerId] = useState(quotation?.customer_id ?? '')
+  const [validUntil, setValidUntil] = useState(quotation?.valid_until ?? defaultValidUntil())
+  const [notes, setNotes] = useState(quotation?.notes ?? '')
+  const [lines, setLines] = useState<QuoteLine[]>(() =>
+    (quotation?.quotation_items ?? []).flatMap((item) => {
+      const product = products.find((p) => p.id === item.product_id)
+      if (!product) return []
+      return [{
+        product_id: product.id,
+        product_name: product.name,
+        category_id: product.category_id,
+        // Keep a quoted override; otherwise follow the current list price
+        list_price: product.price,
+        unit_price: item.unit_price === item.list_price ? product.price : item.unit_price,
+        quantity: item.quantity,
+        discount: item.discount,
+        tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.category_tax_rate_id),
+        stock: product.stock,
+      }]
+    })
+  )
+
+  const filteredProducts = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return products
+      .filter((p) => p.name.toLowerCase().includes(term) || p.sku.toLowerCase().includes(term))
+      .slice(0, 8)
+  }, [products, search])
+
+  const pricing = useMemo(
+    () =>
+      priceCart(
+        lines.map((line) => ({
+          product_id: line.product_id,
+          category_id: line.category_id,
+          list_price: line.list_price,
+          unit_price: line.unit_price,
+          quantity: line.quantity,
+          manual_discount: line.discount,
+          tax_rate: line.tax_rate,
+        })),
+        { rules: priceRules, orderDiscount: null, promoCode: null, pricesIncludeTax: tax.pricesIncludeTax }
+      ),
+    [lines, priceRules, tax.pricesIncludeTax]
+  )
+
+  const addProduct = (product: Product) => {
+    setLines((prev) => {
+      if (prev.some((line) => line.product_id === product.id)) {
+        return prev.map((line) => (line.product_id === product.id ? { ...line, quantity: line.quantity + 1 } : line))
+      }
+      return [
+        ...prev,
+        {
+          product_id: product.id,
+          product_name: product.name,
+          category_id: product.category_id,
+          list_price: product.price,
+          unit_price: product.price,
+          quantity: 1,
+          discount: 0,
+          tax_rate: resolveTaxRate(tax, product.tax_rate_id, product.category_tax_rate_id),
+          stock: product.stock,
+        },
+      ]
+    })
+    setSearch('')
+  }
+
+  const updateLine = (productId: string, changes: Partial<QuoteLine>) => {
+    setLines((prev) => prev.map((line) => (line.product_id === productId ? { ...line, ...changes } : line)))
+  }
+
+  const handleSave = () => {
+    setError('')
+    startSaving(async () => {
+      const result = await saveQuotation(quotation?.id ?? null, {
+        customer_id: customerId,
+        valid_until: validUntil,
+        notes: notes.trim() || null,
+        items: lines.map((line) => ({
+          product_id: line.product_id,
+          quantity: line.quantity,
+          unit_price: line.unit_price,
+          discount: line.discount,
+        })),
+      })
+      if (!result.success || !result.quotation_id) {
+        setError(result.error || 'Failed to save quotation')
+        return
+      }
+      router.push(`/admin/quotations/${result.quotation_id}`)
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link
+          href={quotation ? `/admin/quotations/${quotation.id}` : '/admin/quotations'}
+          className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          {quotation ? 'Back to quotation' : 'Back to quotations'}
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mt-2">
+          {quotation ? `Edit ${quotation.quotation_number}` : 'New Quotation'}
+        </h1>
+        <p className="text-gray-600 mt-2">Prices are worked out as at checkout; stock is only checked when the quotation is accepted</p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+            <CardDescription>Search for products and services to add to the estimate</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                placeholder="Search by name or SKU..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+              {filteredProducts.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-white shadow-lg">
+                  {filteredProducts.map((product) => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      onClick={() => addProduct(product)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+                    >
+                      <span>
+                        {product.name}
+                        <span className="ml-2 text-xs text-gray-400">{product.sku}</span>
+                      </span>
+                      <span className="text-gray-600">{formatRupiah(product.price)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-md border">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b bg-gray-50">
+                    <th className="px-4 py-3 text-left text-sm font-medium text-gray-700">Product</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Qty</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Unit Price</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Discount</th>
+                    <th className="px-4 py-3 text-right text-sm font-medium text-gray-700">Subtotal</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-12 text-center">
+                        <div className="flex flex-col items-center justify-center text-gray-500">
+                          <FileText className="h-12 w-12 mb-4 text-gray-400" />
+                          <p className="text-lg font-medium">No items yet</p>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    lines.map((line, index) => (
+                      <tr key={line.product_id} className="border-b">
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                          {line.product_name}
+                          {line.quantity > line.stock && (
+                            <div className="text-xs text-amber-600">Only {line.stock} in stock today</div>
+                          )}
+                          {pricing.lines[index]?.rule && (
+                            <div className="text-xs text-green-600">{pricing.lines[index].rule?.name}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="number"
+                            min={1}
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.product_id, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                            className="ml-auto w-20 text-right"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="text"
+                            value={formatRupiah(line.unit_price)}
+                            onChange={(e) => updateLine(line.product_id, { unit_price: parseRupiah(e.target.value) })}
+                            className="ml-auto w-32 text-right"
+                          />
+                          {line.unit_price !== line.list_price && (
+                            <div className="text-xs text-amber-600">List {formatRupiah(line.list_price)}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Input
+                            type="text"
+                            value={formatRupiah(line.discount)}
+                            onChange={(e) => updateLine(line.product_id, { discount: parseRupiah(e.target.value) })}
+                            className="ml-auto w-32 text-right"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right text-gray-900">
+                          {formatRupiah(pricing.lines[index]?.subtotal ?? 0)}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLines((prev) => prev.filter((l) => l.product_id !== line.product_id))}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="valid_until">Valid until</Label>
+              <Input id="valid_until" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quotation_notes">Notes</Label>
+              <Textarea
+                id="quotation_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Procedure, assumptions, what is not included..."
+              />
+            </div>
+
+            <div className="space-y-1 border-t pt-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Gross amount</span>
+                <span>{formatRupiah(pricing.gross)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">Line discounts</span>
+                <span>-{formatRupiah(pricing.lineDiscounts)}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-gray-600">{tax.pricesIncludeTax ? 'Tax (included)' : 'Tax'}</span>
+                <span>{formatRupiah(pricing.tax)}</span>
+              </div>
+              <div className="flex items-center justify-between font-semibold text-base">
+                <span>Estimated total</span>
+                <span>{formatRupiah(pricing.total)}</span>
+              </div>
+            </div>
+
+            {error && (
+              <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">{error}</div>
+            )}
+
+            <Button className="w-full" onClick={handleSave} disabled={saving || lines.length === 0 || !customerId}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Quotation
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+import type { QuotationStatus } from '@/app/actions/quotations'
+
+const STATUS_STYLES: Record<QuotationStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  expired: 'bg-red-100 text-red-800',
+}
+
+export function QuotationStatusBadge({ status, className = 'px-2 py-1 text-xs' }: { status: QuotationStatus; className?: string }) {
+  return <span className={`rounded-full font-medium ${STATUS_STYLES[status]} ${className}`}>{status}</span>
+}
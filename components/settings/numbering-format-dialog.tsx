@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { updateNumberingFormat, type NumberingFormat } from '@/app/actions/settings'
+import { DOCUMENT_TYPE_LABELS, formatDocumentNumber, validateNumberingPattern } from '@/lib/numbering'
+import { Loader2 } from 'lucide-react'
+
+interface NumberingFormatDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  format: NumberingFormat | null
+  branchCode: string | null
+}
+
+export function NumberingFormatDialog({ open, onOpenChange, format, branchCode }: NumberingFormatDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [prefix, setPrefix] = useState('')
+  const [pattern, setPattern] = useState('')
+  const [padding, setPadding] = useState('5')
+  const [perBranch, setPerBranch] = useState(false)
+
+  useEffect(() => {
+    if (open && format) {
+      setPrefix(format.prefix)
+      setPattern(format.pattern)
+      setPadding(String(format.padding))
+      setPerBranch(format.per_branch)
+      setError('')
+    }
+  }, [open, format])
+
+  const patternError = validateNumberingPattern(pattern, perBranch)
+  const preview = patternError
+    ? null
+    : formatDocumentNumber(
+        { prefix, pattern, padding: Number(padding) || 1 },
+        { year: new Date().getFullYear(), branch: branchCode || 'BRANCH', sequence: 1 }
+      )
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!format) return
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    formData.set('per_branch', String(perBranch))
+
+    try {
+      const result = await updateNumberingFormat(format.document_type, formData)
+
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {format ? `${DOCUMENT_TYPE_LABELS[format.document_type]} Numbering` : 'Numbering'}
+          </DialogTitle>
+          <DialogDescription>
+            Numbers run from 1 each year. Changes apply to documents created from now on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="numbering_prefix">Prefix</Label>
+              <Input
+                id="numbering_prefix"
+                name="prefix"
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+                disabled={loading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="numbering_padding">Digits *</Label>
+              <Input
+                id="numbering_padding"
+                name="padding"
+                type="number"
+                min="1"
+                max="10"
+                value={padding}
+                onChange={(e) => setPadding(e.target.value)}
+                required
+                disabled={loading}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="numbering_pattern">Pattern *</Label>
+            <Input
+              id="numbering_pattern"
+              name="pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              required
+              disabled={loading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Tokens: {'{PREFIX}'}, {'{YYYY}'}, {'{YY}'}, {'{BRANCH}'}, {'{SEQ}'}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sequence</Label>
+            <Select
+              value={perBranch ? 'true' : 'false'}
+              onValueChange={(value) => setPerBranch(value === 'true')}
+              disabled={loading}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="false">One sequence for the store</SelectItem>
+                <SelectItem value="true">Separate sequence per branch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border bg-gray-50 px-3 py-2 text-sm">
+            {preview ? (
+              <>
+                <span className="text-gray-600">First number this year: </span>
+                <span className="font-medium">{preview}</span>
+              </>
+            ) : (
+              <span className="text-red-600">{patternError}</span>
+            )}
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !!patternError}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { createTaxRate, updateTaxRate, type TaxRate } from '@/app/actions/settings'
+import { Loader2 } from 'lucide-react'
+
+interface TaxRateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  taxRate?: TaxRate | null
+  mode: 'create' | 'edit'
+}
+
+export function TaxRateDialog({ open, onOpenChange, taxRate, mode }: TaxRateDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+
+    try {
+      const result = mode === 'create'
+        ? await createTaxRate(formData)
+        : await updateTaxRate(taxRate!.id, formData)
+
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === 'create' ? 'Add Tax Rate' : 'Edit Tax Rate'}</DialogTitle>
+          <DialogDescription>
+            Rates apply to new orders only; past orders keep the rate they were sold at
+          </DialogDescription>
+        </DialogHeader>
+
+        <form key={taxRate?.id ?? 'new'} onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="tax_name">Name *</Label>
+            <Input
+              id="tax_name"
+              name="name"
+              defaultValue={taxRate?.name}
+              required
+              disabled={loading}
+              placeholder="e.g. PPN 11%"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tax_rate">Rate (%) *</Label>
+            <Input
+              id="tax_rate"
+              name="rate"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              defaultValue={taxRate?.rate ?? 0}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tax_description">Description</Label>
+            <Input
+              id="tax_description"
+              name="description"
+              defaultValue={taxRate?.description || ''}
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === 'create' ? 'Add Tax Rate' : 'Update Tax Rate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { recordCashMovement } from '@/app/actions/shifts'
+import { Loader2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+
+interface CashMovementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  shiftId: string
+  onSuccess?: () => void
+}
+
+export function CashMovementDialog({ open, onOpenChange, shiftId, onSuccess }: CashMovementDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [type, setType] = useState<'in' | 'out'>('out')
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setType('out')
+      setAmount('')
+      setReason('')
+      setError('')
+    }
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData()
+    formData.set('type', type)
+    formData.set('amount', String(parseRupiah(amount)))
+    formData.set('reason', reason)
+
+    try {
+      const result = await recordCashMovement(shiftId, formData)
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cash In / Out</DialogTitle>
+          <DialogDescription>Record cash added to or taken from the drawer outside a sale.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as 'in' | 'out')} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="out">Cash out (petty cash, bank drop)</SelectItem>
+                <SelectItem value="in">Cash in (change top-up)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="movement_amount">Amount *</Label>
+            <Input
+              id="movement_amount"
+              type="text"
+              value={formatRupiah(parseRupiah(amount))}
+              onChange={(e) => setAmount(e.target.value.replace(/\D/g, ''))}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="movement_reason">Reason *</Label>
+            <Input
+              id="movement_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              disabled={loading}
+              placeholder="e.g. Bought cleaning supplies"
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || parseRupiah(amount) <= 0 || !reason.trim()}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
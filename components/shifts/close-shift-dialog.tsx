@@ -0,0 +1,130 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { closeShift } from '@/app/actions/shifts'
+import { Loader2 } from 'lucide-react'
+import { formatRupiah, parseRupiah } from '@/lib/utils'
+
+interface CloseShiftDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  shiftId: string
+  // Tenders taken during the shift; cash is always counted
+  methods: string[]
+  onSuccess?: () => void
+}
+
+// A blind count: expected amounts are only revealed on the Z-report after closing
+export function CloseShiftDialog({ open, onOpenChange, shiftId, methods, onSuccess }: CloseShiftDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [counted, setCounted] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setCounted({})
+      setNotes('')
+      setError('')
+    }
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    if (!confirm('Close this shift? No further sales can be recorded against it.')) return
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await closeShift(
+        shiftId,
+        Object.fromEntries(methods.map((method) => [method, parseRupiah(counted[method] || '0')])),
+        notes || null
+      )
+      if (result.success) {
+        onOpenChange(false)
+        onSuccess?.()
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close Shift</DialogTitle>
+          <DialogDescription>
+            Count the drawer and the card and transfer slips. Differences are shown on the Z-report.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {methods.map((method) => (
+            <div key={method} className="space-y-2">
+              <Label htmlFor={`counted_${method}`} className="capitalize">
+                Counted {method}
+              </Label>
+              <Input
+                id={`counted_${method}`}
+                type="text"
+                value={formatRupiah(parseRupiah(counted[method] || ''))}
+                onChange={(e) => setCounted((prev) => ({ ...prev, [method]: e.target.value.replace(/\D/g, '') }))}
+                disabled={loading}
+              />
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <Label htmlFor="close_notes">Notes</Label>
+            <Textarea
+              id="close_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              disabled={loading}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Close Shift
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,20 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Printer } from 'lucide-react'
+
+export function ShiftReportToolbar() {
+  return (
+    <div className="flex items-center justify-between print:hidden">
+      <Link href="/admin/shifts" className="text-sm text-gray-500 hover:text-gray-700 inline-flex items-center">
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to shifts
+      </Link>
+      <Button onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        Print
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+import type { ShiftReport } from '@/app/actions/shifts'
+import { formatRupiah } from '@/lib/utils'
+
+interface ShiftReportViewProps {
+  report: ShiftReport
+  storeName: string
+}
+
+function staffName(staff: { full_name: string | null; email: string | null } | null) {
+  return staff?.full_name || staff?.email || '-'
+}
+
+function signed(amount: number) {
+  return `${amount > 0 ? '+' : amount < 0 ? '-' : ''}${formatRupiah(Math.abs(amount))}`
+}
+
+// Z-report once the shift is closed; while it is open the same page is a
+// running X-report without counted amounts
+export function ShiftReportView({ report, storeName }: ShiftReportViewProps) {
+  const { shift, movements, totals } = report
+  const closed = !!shift.closed_at
+
+  // A closed shift reports the expected amounts snapshotted when it was counted
+  const methods = Array.from(new Set([...totals.map((t) => t.method), ...Object.keys(shift.counted || {})]))
+  const rows = methods.map((method) => {
+    const total = totals.find((t) => t.method === method)
+    const expected = shift.expected?.[method] ?? total?.expected ?? 0
+    const counted = shift.counted?.[method] ?? null
+    return {
+      method,
+      payments: total?.payments ?? 0,
+      refunds: total?.refunds ?? 0,
+      expected,
+      counted,
+      variance: counted === null ? null : counted - expected,
+    }
+  })
+  const cashIn = movements.filter((m) => m.type === 'in').reduce((sum, m) => sum + m.amount, 0)
+  const cashOut = movements.filter((m) => m.type === 'out').reduce((sum, m) => sum + m.amount, 0)
+  const totalVariance = rows.reduce((sum, row) => sum + (row.variance ?? 0), 0)
+
+  return (
+    <div className="mx-auto w-full max-w-[210mm] bg-white p-10 text-sm text-gray-900 shadow print:max-w-none print:p-0 print:shadow-none">
+      <style>{'@page { size: A4; margin: 15mm; }'}</style>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="text-xl font-bold">{storeName}</div>
+          <div className="mt-1 text-gray-600">{closed ? 'Z-Report (shift closed)' : 'X-Report (shift still open)'}</div>
+        </div>
+        <div className="text-right space-y-0.5">
+          <div>Cashier {staffName(shift.opener)}</div>
+          <div>Opened {new Date(shift.opened_at).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })}</div>
+          {shift.closed_at && (
+            <div>
+              Closed {new Date(shift.closed_at).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })} by{' '}
+              {staffName(shift.closer)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-6 grid grid-cols-4 gap-4">
+        <div>
+          <div className="text-gray-600">Opening float</div>
+          <div className="font-semibold">{formatRupiah(shift.opening_float)}</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Orders paid</div>
+          <div className="font-semibold">{report.orderCount}</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Refunds issued</div>
+          <div className="font-semibold">{report.refundCount}</div>
+        </div>
+        <div>
+          <div className="text-gray-600">Cash in / out</div>
+          <div className="font-semibold">
+            +{formatRupiah(cashIn)} / -{formatRupiah(cashOut)}
+          </div>
+        </div>
+      </div>
+
+      <table className="mt-6 w-full">
+        <thead>
+          <tr className="border-b bg-gray-50">
+            <th className="px-2 py-2 text-left font-medium">Tender</th>
+            <th className="px-2 py-2 text-right font-medium">Taken</th>
+            <th className="px-2 py-2 text-right font-medium">Refunded</th>
+            <th className="px-2 py-2 text-right font-medium">Expected</th>
+            <th className="px-2 py-2 text-right font-medium">Counted</th>
+            <th className="px-2 py-2 text-right font-medium">Variance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.method} className="border-b">
+              <td className="px-2 py-2 capitalize">{row.method}</td>
+              <td className="px-2 py-2 text-right">{formatRupiah(row.payments)}</td>
+              <td className="px-2 py-2 text-right">{row.refunds > 0 ? `-${formatRupiah(row.refunds)}` : '-'}</td>
+              <td className="px-2 py-2 text-right">{formatRupiah(row.expected)}</td>
+              <td className="px-2 py-2 text-right">{row.counted === null ? '-' : formatRupiah(row.counted)}</td>
+              <td
+                className={`px-2 py-2 text-right ${
+                  row.variance === null || row.variance === 0 ? '' : row.variance > 0 ? 'text-green-700' : 'text-red-600'
+                }`}
+              >
+                {row.variance === null ? '-' : signed(row.variance)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        {closed && (
+          <tfoot>
+            <tr className="font-semibold">
+              <td className="px-2 py-2" colSpan={5}>
+                Total variance
+              </td>
+              <td className={`px-2 py-2 text-right ${totalVariance < 0 ? 'text-red-600' : totalVariance > 0 ? 'text-green-700' : ''}`}>
+                {signed(totalVariance)}
+              </td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+      <p className="mt-2 text-xs text-gray-500">Expected cash includes the opening float and cash in/out entries.</p>
+
+      {movements.length > 0 && (
+        <div className="mt-6 break-inside-avoid">
+          <div className="font-semibold">Cash in / out</div>
+          <table className="mt-2 w-full">
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b">
+                  <td className="px-2 py-1 text-gray-600">
+                    {new Date(movement.created_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}
+                  </td>
+                  <td className="px-2 py-1">{movement.reason}</td>
+                  <td className="px-2 py-1 text-right">
+                    {movement.type === 'in' ? '+' : '-'}
+                    {formatRupiah(movement.amount)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {shift.notes && (
+        <div className="mt-6">
+          <div className="font-semibold">Notes</div>
+          <div className="text-gray-600">{shift.notes}</div>
+        </div>
+      )}
+
+      {closed && (
+        <div className="mt-16 grid grid-cols-2 gap-16 text-center text-xs text-gray-500 break-inside-avoid">
+          <div className="border-t pt-2">Cashier</div>
+          <div className="border-t pt-2">Supervisor</div>
+        </div>
+      )}
+    </div>
+  )
+}
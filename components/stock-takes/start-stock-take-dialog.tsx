@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { startStockTake } from '@/app/actions/stock-takes'
+import type { Category } from '@/app/actions/categories'
+import { Loader2 } from 'lucide-react'
+
+interface StartStockTakeDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  categories: Category[]
+  onSuccess?: (stockTakeId: string) => void
+}
+
+export function StartStockTakeDialog({ open, onOpenChange, categories, onSuccess }: StartStockTakeDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [categoryId, setCategoryId] = useState('all')
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (open) {
+      setCategoryId('all')
+      setNotes('')
+      setError('')
+    }
+  }, [open])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const result = await startStockTake({
+        category_id: categoryId === 'all' ? null : categoryId,
+        notes: notes.trim() || null,
+      })
+      if (result.success && result.stock_take_id) {
+        onOpenChange(false)
+        onSuccess?.(result.stock_take_id)
+      } else {
+        setError(result.error || 'An error occurred')
+      }
+    } catch (err) {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Start Stock Take</DialogTitle>
+          <DialogDescription>
+            The stock on record now is frozen as the expected quantity of every lot. Sales can go on while you count.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <Select value={categoryId} onValueChange={setCategoryId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All active products</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stock_take_notes">Notes</Label>
+            <Textarea
+              id="stock_take_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={loading}
+              placeholder="e.g. Month-end count, pharmacy shelf"
+              rows={3}
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Counting
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
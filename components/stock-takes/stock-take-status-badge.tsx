@@ -0,0 +1,11 @@
+import type { StockTakeStatus } from '@/app/actions/stock-takes'
+
+const STATUS_STYLES: Record<StockTakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+}
+
+export function StockTakeStatusBadge({ status, className = 'px-2 py-1 text-xs' }: { status: StockTakeStatus; className?: string }) {
+  return <span className={`rounded-full font-medium ${STATUS_STYLES[status]} ${className}`}>{status}</span>
+}
@@ -0,0 +1,25 @@
+import type { createClient } from '@/lib/supabase/server'
+
+export type ApprovalCredentials = { email: string; pin: string }
+
+// Trades a supervisor's email and PIN for the single-use token the RPCs that
+// need approval accept (see request_approval). The PIN is checked in a call of
+// its own so a wrong one is counted even though the action then fails.
+export async function requestApproval(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  approval: ApprovalCredentials | null | undefined
+): Promise<{ approval: { token: string } | null; error: string | null }> {
+  if (!approval) {
+    return { approval: null, error: null }
+  }
+
+  const { data, error } = await supabase.rpc('request_approval', { p_email: approval.email, p_pin: approval.pin })
+
+  if (error) {
+    return { approval: null, error: error.message }
+  }
+  if (!data) {
+    return { approval: null, error: 'Supervisor email or PIN is incorrect' }
+  }
+  return { approval: { token: data as string }, error: null }
+}
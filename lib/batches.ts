@@ -0,0 +1,44 @@
+// Lots carry their own expiry date. A lot expiring today is no longer sold,
+// matching take_order_item_stock() in the database.
+import type { Product, ProductBatch } from '@/app/actions/products'
+
+// Compared as UTC calendar days, like CURRENT_DATE in the database
+export function isExpired(batch: Pick<ProductBatch, 'expiry_date'>, today = new Date()): boolean {
+  return batch.expiry_date <= today.toISOString().slice(0, 10)
+}
+
+// Stock in expired lots stays on hand until written off, but cannot be sold
+export function sellableStock(product: Pick<Product, 'stock' | 'batches'>, today = new Date()): number {
+  const expired = (product.batches || [])
+    .filter((batch) => isExpired(batch, today))
+    .reduce((sum, batch) => sum + batch.quantity, 0)
+  return product.stock - expired
+}
+
+// Stock booked in without a lot, or before lots were recorded
+export function stockOutsideLots(product: Pick<Product, 'stock' | 'batches'>): number {
+  return product.stock - (product.batches || []).reduce((sum, batch) => sum + batch.quantity, 0)
+}
+
+// Whole days until the lot expires; zero or less once it has
+export function daysUntilExpiry(batch: Pick<ProductBatch, 'expiry_date'>, today = new Date()): number {
+  const day = Date.parse(today.toISOString().slice(0, 10))
+  return Math.round((Date.parse(batch.expiry_date) - day) / (24 * 60 * 60 * 1000))
+}
+
+// The smallest alert window the lot falls in: 0 when expired, null when outside them all
+export function expiryWindow(batch: Pick<ProductBatch, 'expiry_date'>, windows: number[], today = new Date()): number | null {
+  const days = daysUntilExpiry(batch, today)
+  if (days <= 0) return 0
+  return [...windows].sort((a, b) => a - b).find((window) => days <= window) ?? null
+}
+
+export function expiryWindowLabel(window: number): string {
+  return window === 0 ? 'Expired' : `Within ${window} days`
+}
+
+export function getExpiryBadge(window: number, windows: number[]): string {
+  if (window === 0) return 'bg-red-100 text-red-800'
+  if (window === Math.min(...windows)) return 'bg-orange-100 text-orange-800'
+  return 'bg-yellow-100 text-yellow-800'
+}
@@ -0,0 +1,40 @@
+// Mirrors public.next_document_number() in the database, which assigns the
+// real numbers; this copy only previews a pattern in settings.
+
+export type DocumentType = 'order' | 'invoice' | 'refund' | 'purchase_order' | 'quotation' | 'stock_take'
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  order: 'Orders',
+  invoice: 'Invoices',
+  refund: 'Refunds',
+  purchase_order: 'Purchase orders',
+  quotation: 'Quotations',
+  stock_take: 'Stock takes',
+}
+
+export type NumberingPattern = {
+  prefix: string
+  pattern: string
+  padding: number
+}
+
+export function formatDocumentNumber(
+  format: NumberingPattern,
+  values: { year: number; branch: string; sequence: number }
+): string {
+  const year = String(values.year)
+  return format.pattern
+    .replaceAll('{PREFIX}', format.prefix)
+    .replaceAll('{YYYY}', year)
+    .replaceAll('{YY}', year.slice(-2))
+    .replaceAll('{BRANCH}', values.branch)
+    .replaceAll('{SEQ}', String(values.sequence).padStart(format.padding, '0'))
+}
+
+// Same rules as the CHECK constraints on document_number_formats
+export function validateNumberingPattern(pattern: string, perBranch: boolean): string | null {
+  if (!pattern.includes('{SEQ}')) return 'Pattern must include {SEQ}'
+  if (!pattern.includes('{YYYY}') && !pattern.includes('{YY}')) return 'Pattern must include {YYYY} or {YY}'
+  if (perBranch && !pattern.includes('{BRANCH}')) return 'Pattern must include {BRANCH} when numbering per branch'
+  return null
+}
@@ -0,0 +1,125 @@
+// Browser-side storage for the POS while the connection is down: the last
+// catalogue it loaded and the sales rung up offline, waiting to be replayed
+// through create_order_with_items. Everything lives in localStorage so a
+// reload or a closed tab does not lose a queued sale.
+import type { Product } from '@/app/actions/products'
+import type { PriceRule } from '@/app/actions/promotions'
+import type { CreateOrderPayload } from '@/app/actions/orders'
+import type { TaxContext } from '@/lib/tax'
+
+const CATALOG_KEY = 'pos:catalog:v2'
+const QUEUE_KEY = 'pos:queue:v1'
+
+export type PosCatalog = {
+  products: Product[]
+  customers: { id: string; name: string; email: string | null }[]
+  tax: TaxContext
+  priceRules: PriceRule[]
+  saved_at: string
+}
+
+// `id` doubles as the order's client_reference, so replaying a sale whose
+// first attempt reached the server returns that order instead of a new one
+export type QueuedSale = {
+  id: string
+  payload: CreateOrderPayload
+  label: string
+  total: number
+  created_at: string
+  status: 'pending' | 'conflict'
+  error: string | null
+  approval_required: boolean
+}
+
+function read<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as T) : null
+  } catch {
+    return null
+  }
+}
+
+function write(key: string, value: unknown) {
+  window.localStorage.setItem(key, JSON.stringify(value))
+}
+
+export function loadCatalog(): PosCatalog | null {
+  return read<PosCatalog>(CATALOG_KEY)
+}
+
+export function saveCatalog(catalog: Omit<PosCatalog, 'saved_at'>) {
+  try {
+    write(CATALOG_KEY, { ...catalog, saved_at: new Date().toISOString() })
+  } catch (error) {
+    // A full quota only costs us the offline fallback
+    console.error('Error caching POS catalog:', error)
+  }
+}
+
+export function loadQueue(): QueuedSale[] {
+  return read<QueuedSale[]>(QUEUE_KEY) ?? []
+}
+
+// Unlike the catalogue, a queued sale must not be dropped silently, so
+// storage errors propagate to the caller
+export function saveQueue(queue: QueuedSale[]) {
+  write(QUEUE_KEY, queue)
+}
+
+export function enqueueSale(sale: Omit<QueuedSale, 'status' | 'error' | 'approval_required'>): QueuedSale[] {
+  const queue = [...loadQueue(), { ...sale, status: 'pending' as const, error: null, approval_required: false }]
+  saveQueue(queue)
+  return queue
+}
+
+export function updateQueuedSale(id: string, patch: Partial<QueuedSale>): QueuedSale[] {
+  const queue = loadQueue().map((sale) => (sale.id === id ? { ...sale, ...patch } : sale))
+  saveQueue(queue)
+  return queue
+}
+
+export function removeQueuedSale(id: string): QueuedSale[] {
+  const queue = loadQueue().filter((sale) => sale.id !== id)
+  saveQueue(queue)
+  return queue
+}
+
+// The payload a queued sale is replayed with. The customer already paid the
+// prices on the till, so each line is sent as an override of its price: one
+// changed since then asks for a supervisor instead of refusing the sale.
+export function syncPayload(sale: QueuedSale): CreateOrderPayload {
+  return { ...sale.payload, items: sale.payload.items.map((item) => ({ ...item, price_override: true })) }
+}
+
+// Stock already promised to queued sales, by product, in base units
+export function queuedQuantities(queue: QueuedSale[], products: Product[]): Map<string, number> {
+  const factors = new Map(products.flatMap((p) => (p.units || []).map((unit) => [unit.id, unit.factor] as const)))
+  const quantities = new Map<string, number>()
+  for (const sale of queue) {
+    for (const item of sale.payload.items) {
+      const factor = (item.unit_id && factors.get(item.unit_id)) || 1
+      quantities.set(item.product_id, (quantities.get(item.product_id) ?? 0) + item.quantity * factor)
+    }
+  }
+  return quantities
+}
+
+// Caches the POS page and the chunks it has already loaded (see public/pos-sw.js)
+export async function registerPosServiceWorker() {
+  if (!('serviceWorker' in navigator)) return
+  try {
+    const registration = await navigator.serviceWorker.register('/pos-sw.js', { scope: '/admin/orders/new' })
+    const worker = registration.active ?? registration.waiting ?? registration.installing
+    const urls = [
+      window.location.pathname,
+      ...performance
+        .getEntriesByType('resource')
+        .map((entry) => entry.name)
+        .filter((name) => new URL(name).pathname.startsWith('/_next/static/')),
+    ]
+    worker?.postMessage({ type: 'precache', urls })
+  } catch (error) {
+    console.error('Error registering POS service worker:', error)
+  }
+}
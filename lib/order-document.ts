@@ -0,0 +1,199 @@
+// Shapes an order into what is printed on a receipt or invoice. The HTML print
+// views and the PDF renderer both read this, so the two never disagree.
+import type { OrderDetail } from '@/app/actions/orders'
+import type { QuotationDetail } from '@/app/actions/quotations'
+import type { PurchaseOrderDetail } from '@/app/actions/purchase-orders'
+import type { StoreSettings } from '@/app/actions/settings'
+
+export type DocumentLayout = 'receipt' | 'invoice'
+
+export type DocumentLine = {
+  name: string
+  quantity: number
+  unitPrice: number
+  discount: number
+  taxRate: number
+  tax: number
+  total: number
+}
+
+export type DocumentTotal = {
+  label: string
+  amount: number
+  negative?: boolean
+  emphasis?: boolean
+}
+
+export type OrderDocument = {
+  layout: DocumentLayout
+  title: string
+  number: string
+  orderNumber: string
+  date: string
+  store: {
+    name: string
+    address: string | null
+    phone: string | null
+    email: string | null
+    taxId: string | null
+  }
+  // Heading over the customer, or the supplier on a purchase order
+  partyLabel: string
+  customer: { name: string; email: string | null; phone: string | null } | null
+  lines: DocumentLine[]
+  totals: DocumentTotal[]
+  payments: { method: string; amount: number }[]
+  notes: string | null
+  footer: string | null
+}
+
+function storeDetails(settings: StoreSettings | null): OrderDocument['store'] {
+  return {
+    name: settings?.store_name || 'VetMed Clinic',
+    address: settings?.address ?? null,
+    phone: settings?.phone ?? null,
+    email: settings?.email ?? null,
+    taxId: settings?.tax_id ?? null,
+  }
+}
+
+export function buildOrderDocument(
+  order: OrderDetail,
+  settings: StoreSettings | null,
+  layout: DocumentLayout
+): OrderDocument {
+  const gross = order.order_items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0)
+  const subtotal = order.order_items.reduce((sum, item) => sum + item.subtotal, 0)
+  const balance = Math.max(0, order.total_amount - order.credited_amount - order.paid_amount)
+
+  // Without an issued number an invoice is only a proforma, not a tax invoice
+  const baseTitle = layout === 'receipt' ? 'Receipt' : order.invoice_number ? 'Tax Invoice' : 'Proforma Invoice'
+  const title = order.voided_at ? `${baseTitle} (VOID)` : baseTitle
+  const number = layout === 'invoice' && order.invoice_number ? order.invoice_number : order.order_number
+
+  const totals: DocumentTotal[] = [{ label: 'Subtotal', amount: gross }]
+  if (gross > subtotal) {
+    totals.push({ label: 'Line discounts', amount: gross - subtotal, negative: true })
+  }
+  if (order.discount > 0) {
+    const label = order.promo_codes ? `Order discount (${order.promo_codes.code})` : 'Order discount'
+    totals.push({ label, amount: order.discount, negative: true })
+  }
+  if (order.tax > 0) {
+    totals.push({ label: order.prices_include_tax ? 'Tax (included)' : 'Tax', amount: order.tax })
+  }
+  totals.push({ label: 'Total', amount: order.total_amount, emphasis: true })
+  if (order.credited_amount > 0) {
+    totals.push({ label: 'Returned unpaid', amount: order.credited_amount, negative: true })
+  }
+  totals.push({ label: 'Paid', amount: order.paid_amount })
+  if (balance > 0) {
+    totals.push({ label: 'Balance due', amount: balance, emphasis: true })
+  }
+  if (order.refunded_amount > 0) {
+    totals.push({ label: 'Refunded', amount: order.refunded_amount, negative: true })
+  }
+
+  return {
+    layout,
+    title,
+    number,
+    orderNumber: order.order_number,
+    date: layout === 'invoice' && order.invoice_issued_at ? order.invoice_issued_at : order.created_at,
+    store: storeDetails(settings),
+    partyLabel: 'Bill to',
+    customer: order.customers
+      ? { name: order.customers.name, email: order.customers.email, phone: order.customers.phone }
+      : order.walk_in_phone
+        ? { name: 'Walk-in customer', email: null, phone: order.walk_in_phone }
+        : null,
+    lines: order.order_items.map((item) => ({
+      name: item.unit_name ? `${item.product_name} (${item.unit_name})` : item.product_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      discount: item.unit_price * item.quantity - item.subtotal,
+      taxRate: item.tax_rate,
+      tax: item.tax_amount,
+      total: item.subtotal,
+    })),
+    totals,
+    payments: order.payments.map((payment) => ({ method: payment.method, amount: payment.amount })),
+    notes: order.notes,
+    footer: settings?.receipt_footer ?? null,
+  }
+}
+
+// A quotation prints on the invoice layout; it has no payments and states how
+// long the prices hold
+export function buildQuotationDocument(quotation: QuotationDetail, settings: StoreSettings | null): OrderDocument {
+  const totals: DocumentTotal[] = [{ label: 'Subtotal', amount: quotation.subtotal }]
+  if (quotation.discount > 0) {
+    totals.push({ label: 'Line discounts', amount: quotation.discount, negative: true })
+  }
+  if (quotation.tax > 0) {
+    totals.push({ label: quotation.prices_include_tax ? 'Tax (included)' : 'Tax', amount: quotation.tax })
+  }
+  totals.push({ label: 'Estimated total', amount: quotation.total_amount, emphasis: true })
+
+  const validUntil = new Date(quotation.valid_until).toLocaleDateString('id-ID', { dateStyle: 'medium' })
+
+  return {
+    layout: 'invoice',
+    title: 'Quotation',
+    number: quotation.quotation_number,
+    orderNumber: quotation.orders?.order_number ?? quotation.quotation_number,
+    date: quotation.created_at,
+    store: storeDetails(settings),
+    partyLabel: 'Bill to',
+    customer: quotation.customers
+      ? { name: quotation.customers.name, email: quotation.customers.email, phone: quotation.customers.phone }
+      : null,
+    lines: quotation.quotation_items.map((item) => ({
+      name: item.product_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_price,
+      discount: item.unit_price * item.quantity - item.subtotal,
+      taxRate: item.tax_rate,
+      tax: item.tax_amount,
+      total: item.subtotal,
+    })),
+    totals,
+    payments: [],
+    notes: [`Prices valid until ${validUntil}. Stock is not reserved.`, quotation.notes].filter(Boolean).join(' '),
+    footer: settings?.receipt_footer ?? null,
+  }
+}
+
+// A purchase order prints on the invoice layout addressed to the supplier, at
+// the agreed costs and in the units bought in
+export function buildPurchaseOrderDocument(purchaseOrder: PurchaseOrderDetail, settings: StoreSettings | null): OrderDocument {
+  const expected = purchaseOrder.expected_date
+    ? `Please deliver by ${new Date(purchaseOrder.expected_date).toLocaleDateString('id-ID', { dateStyle: 'medium' })}.`
+    : null
+
+  return {
+    layout: 'invoice',
+    title: purchaseOrder.status === 'cancelled' ? 'Purchase Order (CANCELLED)' : 'Purchase Order',
+    number: purchaseOrder.po_number,
+    orderNumber: purchaseOrder.po_number,
+    date: purchaseOrder.sent_at ?? purchaseOrder.created_at,
+    store: storeDetails(settings),
+    partyLabel: 'Supplier',
+    customer: purchaseOrder.suppliers
+      ? { name: purchaseOrder.suppliers.name, email: purchaseOrder.suppliers.email, phone: purchaseOrder.suppliers.phone }
+      : null,
+    lines: purchaseOrder.purchase_order_items.map((item) => ({
+      name: item.unit_name ? `${item.product_name} (${item.unit_name})` : item.product_name,
+      quantity: item.quantity,
+      unitPrice: item.unit_cost,
+      discount: 0,
+      taxRate: 0,
+      tax: 0,
+      total: item.subtotal,
+    })),
+    totals: [{ label: 'Total', amount: purchaseOrder.total_amount, emphasis: true }],
+    payments: [],
+    notes: [expected, purchaseOrder.notes].filter(Boolean).join(' ') || null,
+    footer: null,
+  }
+}
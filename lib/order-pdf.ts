@@ -0,0 +1,247 @@
+// Server-side PDF rendering of an OrderDocument: a roll-width thermal receipt
+// or an A4 invoice. Standard PDF fonts only, so nothing needs to be bundled.
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import type { OrderDocument } from '@/lib/order-document'
+import { formatRupiah } from '@/lib/utils'
+
+const MM = 72 / 25.4
+const A4 = { width: 595.28, height: 841.89 }
+const GRAY = rgb(0.4, 0.4, 0.4)
+
+// Standard fonts are WinAnsi-encoded; anything outside Latin-1 would throw
+function pdfText(text: string): string {
+  return text
+    .replace(/[\u2000-\u200A\u202F]/g, ' ')
+    .replace(/[\u2010-\u2015]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+}
+
+function formatAmount(amount: number, negative?: boolean): string {
+  return pdfText(`${negative ? '-' : ''}${formatRupiah(amount)}`)
+}
+
+// Rendered on the server, whose clock is UTC; print the store's local time
+function formatDate(date: string): string {
+  return new Date(date).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Jakarta' })
+}
+
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = []
+  let current = ''
+  for (const word of pdfText(text).split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (current && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(current)
+      current = word
+    } else {
+      current = candidate
+    }
+  }
+  return current ? [...lines, current] : lines
+}
+
+type ReceiptRow =
+  | { kind: 'text'; text: string; align?: 'left' | 'center'; bold?: boolean }
+  | { kind: 'pair'; left: string; right: string; bold?: boolean }
+  | { kind: 'rule' }
+
+async function renderReceipt(doc: OrderDocument, widthMm: 58 | 80): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const regular = await pdf.embedFont(StandardFonts.Courier)
+  const bold = await pdf.embedFont(StandardFonts.CourierBold)
+  const size = widthMm === 58 ? 6.5 : 8
+  const lineHeight = size * 1.35
+  const margin = 4 * MM
+  const width = widthMm * MM
+  const inner = width - margin * 2
+
+  const rows: ReceiptRow[] = []
+  const center = (text: string | null, isBold?: boolean) => {
+    if (!text) return
+    for (const line of wrap(text, regular, size, inner)) rows.push({ kind: 'text', text: line, align: 'center', bold: isBold })
+  }
+
+  center(doc.store.name, true)
+  center(doc.store.address)
+  center(doc.store.phone)
+  if (doc.store.taxId) center(`NPWP ${doc.store.taxId}`)
+  rows.push({ kind: 'rule' })
+  rows.push({ kind: 'pair', left: doc.title, right: doc.number, bold: true })
+  rows.push({ kind: 'text', text: formatDate(doc.date) })
+  if (doc.customer) rows.push({ kind: 'text', text: doc.customer.name })
+  rows.push({ kind: 'rule' })
+
+  for (const line of doc.lines) {
+    for (const text of wrap(line.name, regular, size, inner)) rows.push({ kind: 'text', text })
+    rows.push({
+      kind: 'pair',
+      left: `  ${line.quantity} x ${formatAmount(line.unitPrice)}`,
+      right: formatAmount(line.unitPrice * line.quantity),
+    })
+    if (line.discount > 0) rows.push({ kind: 'pair', left: '  Discount', right: formatAmount(line.discount, true) })
+  }
+  rows.push({ kind: 'rule' })
+
+  for (const total of doc.totals) {
+    rows.push({ kind: 'pair', left: total.label, right: formatAmount(total.amount, total.negative), bold: total.emphasis })
+  }
+  if (doc.payments.length > 0) {
+    rows.push({ kind: 'rule' })
+    for (const payment of doc.payments) {
+      rows.push({ kind: 'pair', left: payment.method.toUpperCase(), right: formatAmount(payment.amount) })
+    }
+  }
+  if (doc.footer) {
+    rows.push({ kind: 'rule' })
+    center(doc.footer)
+  }
+
+  // Roll paper has no fixed length: size the page to the content
+  const page = pdf.addPage([width, rows.length * lineHeight + margin * 2])
+  let y = page.getHeight() - margin - size
+
+  for (const row of rows) {
+    const font = 'bold' in row && row.bold ? bold : regular
+    if (row.kind === 'rule') {
+      page.drawLine({
+        start: { x: margin, y: y + size / 3 },
+        end: { x: width - margin, y: y + size / 3 },
+        thickness: 0.5,
+        dashArray: [2, 2],
+      })
+    } else if (row.kind === 'pair') {
+      const right = pdfText(row.right)
+      page.drawText(pdfText(row.left), { x: margin, y, size, font })
+      page.drawText(right, { x: width - margin - font.widthOfTextAtSize(right, size), y, size, font })
+    } else {
+      const x = row.align === 'center' ? (width - font.widthOfTextAtSize(row.text, size)) / 2 : margin
+      page.drawText(pdfText(row.text), { x, y, size, font })
+    }
+    y -= lineHeight
+  }
+
+  return pdf.save()
+}
+
+const INVOICE_COLUMNS = [
+  { label: 'Item', right: 270 },
+  { label: 'Qty', right: 310 },
+  { label: 'Unit price', right: 385 },
+  { label: 'Discount', right: 445 },
+  { label: 'Tax', right: 500 },
+  { label: 'Total', right: 555 },
+] as const
+
+async function renderInvoice(doc: OrderDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const margin = 40
+  const right = A4.width - margin
+
+  const drawRight = (page: PDFPage, text: string, x: number, y: number, size: number, font = regular) => {
+    const value = pdfText(text)
+    page.drawText(value, { x: x - font.widthOfTextAtSize(value, size), y, size, font })
+  }
+
+  const drawTableHeader = (page: PDFPage, y: number) => {
+    page.drawRectangle({ x: margin, y: y - 6, width: right - margin, height: 20, color: rgb(0.95, 0.95, 0.95) })
+    page.drawText('Item', { x: margin + 4, y, size: 9, font: bold })
+    for (const column of INVOICE_COLUMNS.slice(1)) drawRight(page, column.label, column.right, y, 9, bold)
+    return y - 22
+  }
+
+  let page = pdf.addPage([A4.width, A4.height])
+  let y = A4.height - margin - 16
+
+  page.drawText(pdfText(doc.store.name), { x: margin, y, size: 16, font: bold })
+  drawRight(page, doc.title, right, y, 16, bold)
+  y -= 18
+
+  const storeLines = [
+    doc.store.address,
+    [doc.store.phone, doc.store.email].filter(Boolean).join(' | ') || null,
+    doc.store.taxId ? `NPWP ${doc.store.taxId}` : null,
+  ].filter((line): line is string => !!line)
+  const metaLines = [
+    `No. ${doc.number}`,
+    `Date ${formatDate(doc.date)}`,
+    ...(doc.number !== doc.orderNumber ? [`Order ${doc.orderNumber}`] : []),
+  ]
+  for (let i = 0; i < Math.max(storeLines.length, metaLines.length); i++) {
+    if (storeLines[i]) page.drawText(pdfText(storeLines[i]), { x: margin, y, size: 9, font: regular, color: GRAY })
+    if (metaLines[i]) drawRight(page, metaLines[i], right, y, 9)
+    y -= 13
+  }
+
+  y -= 12
+  page.drawText(doc.partyLabel, { x: margin, y, size: 9, font: bold })
+  y -= 13
+  const customerLines = doc.customer
+    ? [doc.customer.name, doc.customer.email, doc.customer.phone].filter((line): line is string => !!line)
+    : ['Walk-in customer']
+  for (const line of customerLines) {
+    page.drawText(pdfText(line), { x: margin, y, size: 9, font: regular })
+    y -= 13
+  }
+
+  y = drawTableHeader(page, y - 14)
+
+  for (const line of doc.lines) {
+    const nameLines = wrap(line.name, regular, 9, INVOICE_COLUMNS[0].right - margin - 8)
+    if (y - nameLines.length * 12 < margin + 40) {
+      page = pdf.addPage([A4.width, A4.height])
+      y = drawTableHeader(page, A4.height - margin - 10)
+    }
+    nameLines.forEach((text, index) => page.drawText(text, { x: margin + 4, y: y - index * 12, size: 9, font: regular }))
+    drawRight(page, String(line.quantity), INVOICE_COLUMNS[1].right, y, 9)
+    drawRight(page, formatRupiah(line.unitPrice), INVOICE_COLUMNS[2].right, y, 9)
+    drawRight(page, line.discount > 0 ? formatAmount(line.discount, true) : '-', INVOICE_COLUMNS[3].right, y, 9)
+    drawRight(page, line.taxRate > 0 ? `${line.taxRate}%` : '-', INVOICE_COLUMNS[4].right, y, 9)
+    drawRight(page, formatRupiah(line.total), INVOICE_COLUMNS[5].right, y, 9)
+    y -= nameLines.length * 12 + 6
+    page.drawLine({ start: { x: margin, y: y + 8 }, end: { x: right, y: y + 8 }, thickness: 0.5, color: rgb(0.85, 0.85, 0.85) })
+  }
+
+  const summaryHeight = (doc.totals.length + (doc.notes ? 3 : 0)) * 14 + 20
+  if (y - summaryHeight < margin) {
+    page = pdf.addPage([A4.width, A4.height])
+    y = A4.height - margin - 10
+  }
+
+  y -= 10
+  for (const total of doc.totals) {
+    const font = total.emphasis ? bold : regular
+    drawRight(page, total.label, 445, y, 10, font)
+    drawRight(page, formatAmount(total.amount, total.negative), right, y, 10, font)
+    y -= 14
+  }
+
+  if (doc.notes) {
+    y -= 10
+    page.drawText('Notes', { x: margin, y, size: 9, font: bold })
+    for (const text of wrap(doc.notes, regular, 9, right - margin)) {
+      y -= 12
+      page.drawText(text, { x: margin, y, size: 9, font: regular })
+    }
+  }
+
+  if (doc.footer) {
+    for (const current of pdf.getPages()) {
+      const footer = pdfText(doc.footer)
+      current.drawText(footer, {
+        x: (A4.width - regular.widthOfTextAtSize(footer, 8)) / 2,
+        y: margin / 2,
+        size: 8,
+        font: regular,
+        color: GRAY,
+      })
+    }
+  }
+
+  return pdf.save()
+}
+
+export function renderOrderPdf(doc: OrderDocument, receiptWidth: 58 | 80 = 80): Promise<Uint8Array> {
+  return doc.layout === 'receipt' ? renderReceipt(doc, receiptWidth) : renderInvoice(doc)
+}
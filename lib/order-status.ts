@@ -0,0 +1,26 @@
+export type OrderStatus = 'pending' | 'processing' | 'completed' | 'cancelled'
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'refunded'
+
+// Mirrors public.order_status_transition_allowed() in the database, which is
+// the authority; this copy only decides which actions the UI offers.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['processing', 'completed', 'cancelled'],
+  processing: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+}
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  unpaid: ['partial', 'paid'],
+  partial: ['paid', 'refunded'],
+  paid: ['refunded'],
+  refunded: [],
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function canTransitionPaymentStatus(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from].includes(to)
+}
@@ -0,0 +1,137 @@
+// Mirrors the discount steps of public.create_order_with_items(). Checkout
+// reprices everything server-side; this copy previews the totals in the cart.
+import { calculateLineTax } from '@/lib/tax'
+import type { PriceRule, PromoCode } from '@/app/actions/promotions'
+
+export type DiscountType = 'percentage' | 'fixed'
+
+export type OrderDiscountInput = {
+  type: DiscountType
+  value: number
+}
+
+export type CartLineInput = {
+  product_id: string
+  category_id: string | null
+  // Set when the cashier changed the price; rules only apply at list price
+  list_price?: number
+  unit_price: number
+  quantity: number
+  manual_discount: number
+  tax_rate: number
+}
+
+export type PricedLine = {
+  gross: number
+  rule: PriceRule | null
+  ruleDiscount: number
+  discount: number
+  subtotal: number
+  orderDiscount: number
+  tax: number
+}
+
+// Dates are compared as UTC calendar days, like CURRENT_DATE in the database
+export function isWithinDates(startsOn: string | null, endsOn: string | null, today = new Date()): boolean {
+  const day = today.toISOString().slice(0, 10)
+  return (!startsOn || startsOn <= day) && (!endsOn || endsOn >= day)
+}
+
+export function discountAmount(type: DiscountType, value: number, base: number): number {
+  if (base <= 0 || !(value > 0)) return 0
+  if (type === 'percentage') return Math.min(base, Math.round((base * Math.min(value, 100)) / 100))
+  return Math.min(base, Math.round(value))
+}
+
+export function priceRuleDiscount(rule: PriceRule, unitPrice: number, quantity: number): number {
+  if (rule.rule_type === 'buy_x_get_y') {
+    const bundle = (rule.buy_quantity || 0) + (rule.free_quantity || 0)
+    if (bundle <= 0) return 0
+    return Math.floor(quantity / bundle) * (rule.free_quantity || 0) * unitPrice
+  }
+  return Math.round((unitPrice * quantity * (rule.percentage || 0)) / 100)
+}
+
+// Rules do not stack: the most generous one that applies wins
+export function bestPriceRule(
+  rules: PriceRule[],
+  line: Pick<CartLineInput, 'product_id' | 'category_id' | 'unit_price' | 'quantity'>
+): { rule: PriceRule; discount: number } | null {
+  let best: { rule: PriceRule; discount: number } | null = null
+  for (const rule of rules) {
+    if (!rule.is_active || !isWithinDates(rule.starts_on, rule.ends_on)) continue
+    const applies = rule.product_id === line.product_id || (!!line.category_id && rule.category_id === line.category_id)
+    if (!applies) continue
+    const discount = priceRuleDiscount(rule, line.unit_price, line.quantity)
+    if (discount > 0 && (!best || discount > best.discount)) best = { rule, discount }
+  }
+  return best
+}
+
+// Splits a discount across amounts by weight; rounding leftovers go to the largest amount
+export function allocateDiscount(amounts: number[], discount: number): number[] {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0)
+  if (discount <= 0 || total <= 0) return amounts.map(() => 0)
+
+  const shares = amounts.map((amount) => Math.floor((discount * amount) / total))
+  const largest = amounts.indexOf(Math.max(...amounts))
+  shares[largest] += discount - shares.reduce((sum, share) => sum + share, 0)
+  return shares
+}
+
+export function priceCart(
+  lines: CartLineInput[],
+  options: {
+    rules: PriceRule[]
+    orderDiscount: OrderDiscountInput | null
+    promoCode: PromoCode | null
+    pricesIncludeTax: boolean
+  }
+) {
+  const priced = lines.map((line) => {
+    const gross = line.unit_price * line.quantity
+    const overridden = line.list_price !== undefined && line.list_price !== line.unit_price
+    const best = overridden ? null : bestPriceRule(options.rules, line)
+    const ruleDiscount = best?.discount ?? 0
+    const discount = Math.min(gross, ruleDiscount + Math.max(0, line.manual_discount))
+    return { gross, rule: best?.rule ?? null, ruleDiscount, discount, subtotal: gross - discount }
+  })
+
+  const subtotal = priced.reduce((sum, line) => sum + line.subtotal, 0)
+  const manualOrderDiscount = options.orderDiscount
+    ? discountAmount(options.orderDiscount.type, options.orderDiscount.value, subtotal)
+    : 0
+
+  let promoDiscount = 0
+  let promoError: string | null = null
+  if (options.promoCode) {
+    if (subtotal < options.promoCode.min_order_amount) {
+      promoError = `${options.promoCode.code} requires a larger order`
+    } else {
+      promoDiscount = discountAmount(options.promoCode.discount_type, options.promoCode.value, subtotal)
+    }
+  }
+
+  const orderDiscount = Math.min(subtotal, manualOrderDiscount + promoDiscount)
+  const shares = allocateDiscount(priced.map((line) => line.subtotal), orderDiscount)
+
+  const pricedLines: PricedLine[] = priced.map((line, index) => ({
+    ...line,
+    orderDiscount: shares[index],
+    tax: calculateLineTax(line.subtotal - shares[index], lines[index].tax_rate, options.pricesIncludeTax),
+  }))
+
+  const tax = pricedLines.reduce((sum, line) => sum + line.tax, 0)
+
+  return {
+    lines: pricedLines,
+    gross: priced.reduce((sum, line) => sum + line.gross, 0),
+    lineDiscounts: priced.reduce((sum, line) => sum + line.discount, 0),
+    subtotal,
+    orderDiscount,
+    promoDiscount,
+    promoError,
+    tax,
+    total: subtotal - orderDiscount + (options.pricesIncludeTax ? 0 : tax),
+  }
+}
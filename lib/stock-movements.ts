@@ -0,0 +1,30 @@
+import type { StockMovementType } from '@/app/actions/stock'
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  return: 'Return',
+  purchase_receipt: 'Purchase receipt',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  write_off: 'Write-off',
+  supplier_return: 'Supplier return',
+}
+
+export function getStockMovementBadge(type: StockMovementType): string {
+  switch (type) {
+    case 'sale':
+      return 'bg-blue-100 text-blue-800'
+    case 'return':
+      return 'bg-purple-100 text-purple-800'
+    case 'purchase_receipt':
+      return 'bg-green-100 text-green-800'
+    case 'adjustment':
+      return 'bg-yellow-100 text-yellow-800'
+    case 'transfer':
+      return 'bg-gray-100 text-gray-800'
+    case 'write_off':
+      return 'bg-red-100 text-red-800'
+    case 'supplier_return':
+      return 'bg-orange-100 text-orange-800'
+  }
+}
@@ -0,0 +1,26 @@
+// Mirrors public.product_tax_rate() and public.line_tax() in the database.
+// Checkout always recomputes tax server-side; this copy previews it in the cart.
+
+export type TaxContext = {
+  // Rate percentage by tax_rates.id
+  rates: Record<string, number>
+  defaultTaxRateId: string | null
+  pricesIncludeTax: boolean
+}
+
+export function resolveTaxRate(
+  context: TaxContext,
+  productTaxRateId: string | null | undefined,
+  categoryTaxRateId: string | null | undefined
+): number {
+  for (const id of [productTaxRateId, categoryTaxRateId, context.defaultTaxRateId]) {
+    if (id && context.rates[id] !== undefined) return context.rates[id]
+  }
+  return 0
+}
+
+export function calculateLineTax(amount: number, rate: number, inclusive: boolean): number {
+  if (rate <= 0 || amount <= 0) return 0
+  if (inclusive) return amount - Math.round((amount * 100) / (100 + rate))
+  return Math.round((amount * rate) / 100)
+}
@@ -0,0 +1,27 @@
+// Stock is always counted in a product's base unit (products.unit). Larger
+// units hold `factor` base units; checkout takes quantity x factor from stock.
+import type { Product, ProductUnit } from '@/app/actions/products'
+
+// The price of one of the unit, as create_order_with_items() lists it
+export function unitPrice(product: Pick<Product, 'price'>, unit: ProductUnit | null): number {
+  if (!unit) return product.price
+  return unit.price ?? product.price * unit.factor
+}
+
+export function saleUnits(product: Pick<Product, 'units'>): ProductUnit[] {
+  return (product.units || []).filter((unit) => unit.sellable)
+}
+
+// How many of the unit the base stock covers
+export function unitsInStock(stock: number, unit: ProductUnit | null): number {
+  return unit ? Math.floor(stock / unit.factor) : stock
+}
+
+// "12 strip + 3 tablet" for products counted in a larger unit, "123 tablet" otherwise
+export function formatStock(product: Pick<Product, 'unit' | 'units'>, stock: number): string {
+  const unit = product.units?.find((u) => u.is_stock_unit)
+  if (!unit) return `${stock} ${product.unit}`
+  const whole = Math.floor(stock / unit.factor)
+  const rest = stock % unit.factor
+  return rest > 0 ? `${whole} ${unit.name} + ${rest} ${product.unit}` : `${whole} ${unit.name}`
+}
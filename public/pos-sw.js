@@ -0,0 +1,68 @@
+// Service worker for the POS page (registered with scope /admin/orders/new).
+// It keeps the page shell and its static chunks available so the POS still
+// opens when the connection drops; data comes from lib/offline-pos.ts.
+const CACHE = 'pos-shell-v1'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith('pos-shell-') && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+// The page registers the worker after its own shell has loaded, so it sends
+// over the URLs it already fetched to be cached straight away
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'precache') return
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      Promise.all(event.data.urls.map((url) => cache.add(url).catch(() => undefined)))
+    )
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  // The page itself: always try the network so stock and prices stay fresh
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok && !response.redirected) {
+            const copy = response.clone()
+            caches.open(CACHE).then((cache) => cache.put(url.pathname, copy))
+          }
+          return response
+        })
+        .catch(() => caches.match(url.pathname).then((cached) => cached || Response.error()))
+    )
+    return
+  }
+
+  // Build output is content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone()
+              caches.open(CACHE).then((cache) => cache.put(request, copy))
+            }
+            return response
+          })
+      )
+    )
+  }
+})
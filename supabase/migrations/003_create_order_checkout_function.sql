@@ -0,0 +1,106 @@
+-- ===========================================
+-- 🛒 ATOMIC CHECKOUT
+-- ===========================================
+-- Creates an order, its items and the matching stock decrements in a single
+-- transaction. Product rows are locked (in id order, to avoid deadlocks between
+-- concurrent checkouts) before stock is validated, so two cashiers selling the
+-- last unit cannot both succeed. Any exception rolls the whole order back.
+--
+-- p_payload mirrors CreateOrderPayload in app/actions/orders.ts:
+-- {
+--   "customer_id": uuid,
+--   "payment_method": text,
+--   "notes": text | null,
+--   "items": [{ "product_id": uuid, "product_name": text, "quantity": int,
+--               "unit_price": bigint, "discount": bigint }]
+-- }
+
+-- Orders sold here take their number from the column; seeded ones bring their own
+ALTER TABLE public.orders
+ALTER COLUMN order_number SET DEFAULT 'ORD-' || EXTRACT(YEAR FROM NOW())::TEXT || '-' ||
+  RIGHT(FLOOR(EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT::TEXT, 6);
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_total BIGINT;
+  v_product RECORD;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(GREATEST(0, (i->>'unit_price')::BIGINT * (i->>'quantity')::INTEGER - COALESCE((i->>'discount')::BIGINT, 0))), 0)
+  INTO v_total
+  FROM jsonb_array_elements(v_items) AS i;
+
+  INSERT INTO public.orders (customer_id, total_amount, discount, tax, status, payment_status, payment_method, notes)
+  VALUES (v_customer_id, v_total, 0, 0, 'completed', 'paid', p_payload->>'payment_method', NULLIF(p_payload->>'notes', ''))
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, subtotal)
+  SELECT
+    v_order_id,
+    (i->>'product_id')::UUID,
+    i->>'product_name',
+    (i->>'quantity')::INTEGER,
+    (i->>'unit_price')::BIGINT,
+    GREATEST(0, (i->>'unit_price')::BIGINT * (i->>'quantity')::INTEGER - COALESCE((i->>'discount')::BIGINT, 0))
+  FROM jsonb_array_elements(v_items) AS i;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_with_items(JSONB) TO authenticated;
@@ -0,0 +1,58 @@
+-- Indexes backing the order list filters, sorting and keyset pagination
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_id ON public.orders(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_total_amount_id ON public.orders(total_amount, id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON public.orders(payment_status);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_method ON public.orders(payment_method);
+
+-- ===========================================
+-- 📊 ORDER SUMMARY
+-- ===========================================
+-- Totals for the order list's summary cards, computed here rather than by
+-- fetching every filtered row, which the API caps at its max-rows limit.
+-- p_payload mirrors the filters getOrderSummary in app/actions/orders.ts passes:
+-- {
+--   "q": text | null,                     -- order number or customer name
+--   "status": text | null,
+--   "payment_status": text | null,
+--   "payment_method": text | null,
+--   "created_from": timestamptz | null,
+--   "created_to": timestamptz | null
+-- }
+-- Keep these filters in step with applyOrderFilters, which filters the list.
+
+CREATE OR REPLACE FUNCTION public.get_order_summary(p_payload JSONB)
+RETURNS TABLE (
+  total_orders BIGINT,
+  pending BIGINT,
+  processing BIGINT,
+  completed BIGINT,
+  cancelled BIGINT,
+  revenue BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.status = 'pending'),
+    COUNT(*) FILTER (WHERE o.status = 'processing'),
+    COUNT(*) FILTER (WHERE o.status = 'completed'),
+    COUNT(*) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(SUM(o.total_amount) FILTER (WHERE o.status <> 'cancelled'), 0)::BIGINT
+  FROM public.orders o
+  WHERE (
+      NULLIF(p_payload->>'q', '') IS NULL
+      OR o.order_number ILIKE '%' || (p_payload->>'q') || '%'
+      OR EXISTS (
+        SELECT 1 FROM public.customers c
+        WHERE c.id = o.customer_id AND c.name ILIKE '%' || (p_payload->>'q') || '%'
+      )
+    )
+    AND (NULLIF(p_payload->>'status', '') IS NULL OR o.status = p_payload->>'status')
+    AND (NULLIF(p_payload->>'payment_status', '') IS NULL OR o.payment_status = p_payload->>'payment_status')
+    AND (NULLIF(p_payload->>'payment_method', '') IS NULL OR o.payment_method = p_payload->>'payment_method')
+    AND (NULLIF(p_payload->>'created_from', '') IS NULL OR o.created_at >= (p_payload->>'created_from')::TIMESTAMPTZ)
+    AND (NULLIF(p_payload->>'created_to', '') IS NULL OR o.created_at <= (p_payload->>'created_to')::TIMESTAMPTZ);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_order_summary(JSONB) TO authenticated;
@@ -0,0 +1,51 @@
+-- ===========================================
+-- 🕒 ORDER STATUS HISTORY
+-- ===========================================
+-- Every change to orders.status or orders.payment_status is recorded by a
+-- trigger, so the timeline stays complete no matter which code path wrote it.
+
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('status', 'payment_status')),
+  from_value TEXT,
+  to_value TEXT NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_value, to_value, changed_by)
+    VALUES (NEW.id, 'status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, auth.uid());
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_value, to_value, changed_by)
+    VALUES (NEW.id, 'payment_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.payment_status END, NEW.payment_status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER record_orders_status_change
+  AFTER INSERT OR UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_status_change();
+
+-- Seed the timeline of existing orders with their current state
+INSERT INTO public.order_status_history (order_id, field, from_value, to_value, created_at)
+SELECT id, 'status', NULL, status, created_at FROM public.orders
+UNION ALL
+SELECT id, 'payment_status', NULL, payment_status, created_at FROM public.orders;
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.order_status_history
+  FOR ALL USING (auth.role() = 'authenticated');
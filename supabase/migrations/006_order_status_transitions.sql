@@ -0,0 +1,130 @@
+-- ===========================================
+-- 🔁 ORDER STATUS STATE MACHINE
+-- ===========================================
+-- Allowed transitions (kept in sync with lib/order-status.ts):
+--   status:         pending -> processing | completed | cancelled
+--                   processing -> completed | cancelled
+--   payment_status: unpaid -> partial | paid
+--                   partial -> paid | refunded
+--                   paid -> refunded
+-- completed, cancelled and refunded are terminal.
+
+CREATE OR REPLACE FUNCTION public.order_status_transition_allowed(p_field TEXT, p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_field
+    WHEN 'status' THEN (p_from, p_to) IN (
+      ('pending', 'processing'), ('pending', 'completed'), ('pending', 'cancelled'),
+      ('processing', 'completed'), ('processing', 'cancelled')
+    )
+    WHEN 'payment_status' THEN (p_from, p_to) IN (
+      ('unpaid', 'partial'), ('unpaid', 'paid'),
+      ('partial', 'paid'), ('partial', 'refunded'),
+      ('paid', 'refunded')
+    )
+    ELSE FALSE
+  END;
+$$;
+
+-- Reject any direct write that skips the state machine
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.order_status_transition_allowed('status', OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+     AND NOT public.order_status_transition_allowed('payment_status', OLD.payment_status, NEW.payment_status) THEN
+    RAISE EXCEPTION 'Cannot change payment status from % to %', OLD.payment_status, NEW.payment_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_orders_status_transition
+  BEFORE UPDATE OF status, payment_status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Cancelling an order puts its items back on the shelf
+CREATE OR REPLACE FUNCTION public.apply_order_status_side_effects()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.products p
+    SET stock = p.stock + oi.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id AND product_id IS NOT NULL
+      GROUP BY product_id
+    ) AS oi
+    WHERE p.id = oi.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_orders_status_side_effects
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_order_status_side_effects();
+
+-- History rows pick up the note passed to transition_order_status()
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_note TEXT := NULLIF(current_setting('app.status_note', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_value, to_value, note, changed_by)
+    VALUES (NEW.id, 'status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END, NEW.status, v_note, auth.uid());
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_value, to_value, note, changed_by)
+    VALUES (NEW.id, 'payment_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.payment_status END, NEW.payment_status, v_note, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Single entry point used by the per-transition server actions
+CREATE OR REPLACE FUNCTION public.transition_order_status(p_order_id UUID, p_field TEXT, p_to TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_from TEXT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_from := CASE p_field WHEN 'status' THEN v_order.status WHEN 'payment_status' THEN v_order.payment_status END;
+  IF v_from IS NULL OR NOT public.order_status_transition_allowed(p_field, v_from, p_to) THEN
+    RAISE EXCEPTION 'Cannot change % from % to %', replace(p_field, '_', ' '), v_from, p_to;
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(p_note, ''), true);
+
+  IF p_field = 'status' THEN
+    UPDATE public.orders SET status = p_to WHERE id = p_order_id;
+  ELSE
+    UPDATE public.orders SET payment_status = p_to WHERE id = p_order_id;
+  END IF;
+
+  PERFORM set_config('app.status_note', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transition_order_status(UUID, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,224 @@
+-- ===========================================
+-- ↩️ RETURNS & REFUNDS
+-- ===========================================
+
+-- Returned goods that cannot be resold go to a separate quarantine bucket
+ALTER TABLE public.products
+ADD COLUMN quarantine_stock INTEGER DEFAULT 0 CHECK (quarantine_stock >= 0);
+
+-- Running total of refunds, so revenue can be reported net of returns
+ALTER TABLE public.orders
+ADD COLUMN refunded_amount BIGINT DEFAULT 0 CHECK (refunded_amount >= 0);
+
+CREATE TABLE public.order_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_number TEXT UNIQUE NOT NULL DEFAULT 'RFD-' || EXTRACT(YEAR FROM NOW())::TEXT || '-' ||
+    RIGHT(FLOOR(EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT::TEXT, 6),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  restock_to TEXT NOT NULL DEFAULT 'sellable' CHECK (restock_to IN ('sellable', 'quarantine')),
+  refund_amount BIGINT NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+  refund_method TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE public.order_return_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id UUID NOT NULL REFERENCES public.order_returns(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  refund_amount BIGINT NOT NULL DEFAULT 0 CHECK (refund_amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_returns_order_id ON public.order_returns(order_id);
+CREATE INDEX idx_order_return_items_return_id ON public.order_return_items(return_id);
+CREATE INDEX idx_order_return_items_order_item_id ON public.order_return_items(order_item_id);
+
+-- ===========================================
+-- ⚙️ CREATE RETURN
+-- ===========================================
+-- p_payload mirrors CreateOrderReturnPayload in app/actions/returns.ts:
+-- {
+--   "order_id": uuid,
+--   "reason": text,
+--   "restock_to": "sellable" | "quarantine",
+--   "refund_method": text | null,
+--   "refund_amount": bigint | null,   -- defaults to the value of the returned lines
+--   "items": [{ "order_item_id": uuid, "quantity": int }]
+-- }
+-- Each returned line is valued at its share of the line subtotal (so line
+-- discounts are honoured). A smaller refund_amount issues a partial refund.
+
+CREATE OR REPLACE FUNCTION public.create_order_return(p_payload JSONB)
+RETURNS TABLE (return_id UUID, return_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_restock_to TEXT := COALESCE(NULLIF(p_payload->>'restock_to', ''), 'sellable');
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_line RECORD;
+  v_line_value BIGINT;
+  v_lines_value BIGINT := 0;
+  v_refund BIGINT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = (p_payload->>'order_id')::UUID FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be returned';
+  END IF;
+  IF COALESCE(TRIM(p_payload->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  INSERT INTO public.order_returns (order_id, reason, restock_to, refund_method, created_by)
+  VALUES (v_order.id, TRIM(p_payload->>'reason'), v_restock_to, NULLIF(p_payload->>'refund_method', ''), auth.uid())
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.order_items oi
+      WHERE oi.id = (i->>'order_item_id')::UUID AND oi.order_id = v_order.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Item does not belong to this order';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.product_name,
+      oi.quantity AS sold,
+      oi.subtotal,
+      req.quantity,
+      COALESCE((
+        SELECT SUM(ri.quantity) FROM public.order_return_items ri WHERE ri.order_item_id = oi.id
+      ), 0) AS already_returned
+    FROM (
+      SELECT (i->>'order_item_id')::UUID AS order_item_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = v_order.id
+    ORDER BY oi.id
+    FOR UPDATE OF oi
+  LOOP
+    IF v_line.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+    IF v_line.quantity > v_line.sold - v_line.already_returned THEN
+      RAISE EXCEPTION 'Cannot return more % than were sold', v_line.product_name;
+    END IF;
+
+    v_line_value := ROUND(v_line.subtotal::NUMERIC * v_line.quantity / v_line.sold);
+    v_lines_value := v_lines_value + v_line_value;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, product_id, quantity, refund_amount)
+    VALUES (v_return_id, v_line.id, v_line.product_id, v_line.quantity, v_line_value);
+
+    IF v_line.product_id IS NOT NULL THEN
+      IF v_restock_to = 'quarantine' THEN
+        UPDATE public.products SET quarantine_stock = quarantine_stock + v_line.quantity WHERE id = v_line.product_id;
+      ELSE
+        UPDATE public.products SET stock = stock + v_line.quantity WHERE id = v_line.product_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_return_items WHERE return_id = v_return_id) THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  v_refund := COALESCE((p_payload->>'refund_amount')::BIGINT, v_lines_value);
+  IF v_refund < 0 OR v_refund > v_lines_value THEN
+    RAISE EXCEPTION 'Refund must be between 0 and the value of the returned items';
+  END IF;
+  IF v_refund > 0 AND v_order.payment_status NOT IN ('paid', 'partial') THEN
+    RAISE EXCEPTION 'Cannot refund an order that has not been paid';
+  END IF;
+  IF v_order.refunded_amount + v_refund > v_order.total_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the order total';
+  END IF;
+
+  UPDATE public.order_returns SET refund_amount = v_refund WHERE id = v_return_id;
+
+  PERFORM set_config('app.status_note', 'Refund ' || v_return_number, true);
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund,
+    payment_status = CASE
+      WHEN v_refund > 0 AND refunded_amount + v_refund >= total_amount THEN 'refunded'
+      ELSE payment_status
+    END
+  WHERE id = v_order.id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN QUERY SELECT v_return_id, v_return_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_order_return(JSONB) TO authenticated;
+
+-- ===========================================
+-- 📊 REVENUE NET OF REFUNDS
+-- ===========================================
+-- The order list's revenue card, as in 004, less what returns refunded.
+
+CREATE OR REPLACE FUNCTION public.get_order_summary(p_payload JSONB)
+RETURNS TABLE (
+  total_orders BIGINT,
+  pending BIGINT,
+  processing BIGINT,
+  completed BIGINT,
+  cancelled BIGINT,
+  revenue BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.status = 'pending'),
+    COUNT(*) FILTER (WHERE o.status = 'processing'),
+    COUNT(*) FILTER (WHERE o.status = 'completed'),
+    COUNT(*) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(SUM(o.total_amount - o.refunded_amount) FILTER (WHERE o.status <> 'cancelled'), 0)::BIGINT
+  FROM public.orders o
+  WHERE (
+      NULLIF(p_payload->>'q', '') IS NULL
+      OR o.order_number ILIKE '%' || (p_payload->>'q') || '%'
+      OR EXISTS (
+        SELECT 1 FROM public.customers c
+        WHERE c.id = o.customer_id AND c.name ILIKE '%' || (p_payload->>'q') || '%'
+      )
+    )
+    AND (NULLIF(p_payload->>'status', '') IS NULL OR o.status = p_payload->>'status')
+    AND (NULLIF(p_payload->>'payment_status', '') IS NULL OR o.payment_status = p_payload->>'payment_status')
+    AND (NULLIF(p_payload->>'payment_method', '') IS NULL OR o.payment_method = p_payload->>'payment_method')
+    AND (NULLIF(p_payload->>'created_from', '') IS NULL OR o.created_at >= (p_payload->>'created_from')::TIMESTAMPTZ)
+    AND (NULLIF(p_payload->>'created_to', '') IS NULL OR o.created_at <= (p_payload->>'created_to')::TIMESTAMPTZ);
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.order_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_return_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.order_returns
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all access for authenticated users" ON public.order_return_items
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,441 @@
+-- ===========================================
+-- 💳 PAYMENTS LEDGER
+-- ===========================================
+-- Each tender (cash, card, transfer, ...) taken against an order is a row in
+-- payments. orders.paid_amount and orders.payment_status are derived from it
+-- by trigger, so an order can be settled in several parts over time.
+
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL,
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  reference TEXT,
+  received_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_payments_order_id ON public.payments(order_id);
+
+ALTER TABLE public.orders
+ADD COLUMN paid_amount BIGINT DEFAULT 0 CHECK (paid_amount >= 0),
+-- Returned goods taken off what the customer still owed instead of refunded
+ADD COLUMN credited_amount BIGINT DEFAULT 0 CHECK (credited_amount >= 0);
+
+-- Existing paid orders get a single payment for their full amount
+INSERT INTO public.payments (order_id, method, amount, received_by, created_at)
+SELECT id, COALESCE(payment_method, 'cash'), total_amount, NULL, created_at
+FROM public.orders
+WHERE payment_status IN ('paid', 'refunded') AND total_amount > 0;
+
+UPDATE public.orders
+SET paid_amount = total_amount
+WHERE payment_status IN ('paid', 'refunded');
+
+-- Nothing records how much of a partial order was paid, so it starts again as
+-- unpaid; partial -> unpaid is not a transition the state machine allows
+ALTER TABLE public.orders DISABLE TRIGGER enforce_orders_status_transition;
+SELECT set_config('app.status_note', 'No payments on record', false);
+UPDATE public.orders SET payment_status = 'unpaid' WHERE payment_status = 'partial';
+SELECT set_config('app.status_note', '', false);
+ALTER TABLE public.orders ENABLE TRIGGER enforce_orders_status_transition;
+
+-- Refunds can only give back money that was actually taken
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_refund_within_paid CHECK (refunded_amount <= paid_amount) NOT VALID;
+
+-- ===========================================
+-- ⚙️ FUNCTIONS & TRIGGERS
+-- ===========================================
+
+-- p_total is what the customer owes in all: the order total less any credit
+CREATE OR REPLACE FUNCTION public.derive_payment_status(p_total BIGINT, p_paid BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_paid <= 0 THEN 'unpaid'
+    WHEN p_paid < p_total THEN 'partial'
+    ELSE 'paid'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_payment_to_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot take payment for a cancelled order';
+  END IF;
+  IF v_order.payment_status = 'refunded' THEN
+    RAISE EXCEPTION 'Cannot take payment for a refunded order';
+  END IF;
+  IF v_order.paid_amount + NEW.amount > v_order.total_amount - v_order.credited_amount THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding balance of %',
+      v_order.total_amount - v_order.credited_amount - v_order.paid_amount;
+  END IF;
+
+  PERFORM set_config('app.status_note', 'Payment received (' || NEW.method || ')', true);
+  UPDATE public.orders
+  SET
+    paid_amount = paid_amount + NEW.amount,
+    payment_status = public.derive_payment_status(total_amount - credited_amount, paid_amount + NEW.amount)
+  WHERE id = NEW.order_id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_payments_to_order
+  AFTER INSERT ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_payment_to_order();
+
+-- The ledger is append-only: corrections are made with refunds, not edits
+CREATE OR REPLACE FUNCTION public.prevent_payment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Payments cannot be changed once recorded';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_payments_update
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_payment_changes();
+
+-- Payment status now follows the ledger, so only order status can be moved by hand
+CREATE OR REPLACE FUNCTION public.transition_order_status(p_order_id UUID, p_field TEXT, p_to TEXT, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  IF p_field <> 'status' THEN
+    RAISE EXCEPTION 'Payment status is derived from recorded payments';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF NOT public.order_status_transition_allowed('status', v_order.status, p_to) THEN
+    RAISE EXCEPTION 'Cannot change status from % to %', v_order.status, p_to;
+  END IF;
+
+  PERFORM set_config('app.status_note', COALESCE(p_note, ''), true);
+  UPDATE public.orders SET status = p_to WHERE id = p_order_id;
+  PERFORM set_config('app.status_note', '', true);
+END;
+$$;
+
+-- ===========================================
+-- 🛒 CHECKOUT WITH SPLIT TENDERS
+-- ===========================================
+-- p_payload.payments replaces the single payment_method:
+--   "payments": [{ "method": text, "amount": bigint, "reference": text | null }]
+-- Paying less than the total leaves a balance (payment_status 'partial' or
+-- 'unpaid') that can be settled later from the order detail page.
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_total BIGINT;
+  v_payment_method TEXT;
+  v_product RECORD;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(GREATEST(0, (i->>'unit_price')::BIGINT * (i->>'quantity')::INTEGER - COALESCE((i->>'discount')::BIGINT, 0))), 0)
+  INTO v_total
+  FROM jsonb_array_elements(v_items) AS i;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (customer_id, total_amount, discount, tax, status, payment_status, payment_method, notes)
+  VALUES (v_customer_id, v_total, 0, 0, 'completed', 'unpaid', v_payment_method, NULLIF(p_payload->>'notes', ''))
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, subtotal)
+  SELECT
+    v_order_id,
+    (i->>'product_id')::UUID,
+    i->>'product_name',
+    (i->>'quantity')::INTEGER,
+    (i->>'unit_price')::BIGINT,
+    GREATEST(0, (i->>'unit_price')::BIGINT * (i->>'quantity')::INTEGER - COALESCE((i->>'discount')::BIGINT, 0))
+  FROM jsonb_array_elements(v_items) AS i;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+-- ===========================================
+-- ↩️ RETURNS AGAINST AN UNPAID BALANCE
+-- ===========================================
+-- Returning goods the customer has not paid for yet credits the order rather
+-- than refunding money that was never taken. When refund_amount is left out,
+-- whatever the credit does not cover is refunded.
+
+ALTER TABLE public.order_returns
+ADD COLUMN credit_amount BIGINT NOT NULL DEFAULT 0 CHECK (credit_amount >= 0);
+
+CREATE OR REPLACE FUNCTION public.create_order_return(p_payload JSONB)
+RETURNS TABLE (return_id UUID, return_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_restock_to TEXT := COALESCE(NULLIF(p_payload->>'restock_to', ''), 'sellable');
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_line RECORD;
+  v_line_value BIGINT;
+  v_lines_value BIGINT := 0;
+  v_refund BIGINT;
+  v_credit BIGINT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = (p_payload->>'order_id')::UUID FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be returned';
+  END IF;
+  IF COALESCE(TRIM(p_payload->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  INSERT INTO public.order_returns (order_id, reason, restock_to, refund_method, created_by)
+  VALUES (v_order.id, TRIM(p_payload->>'reason'), v_restock_to, NULLIF(p_payload->>'refund_method', ''), auth.uid())
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.order_items oi
+      WHERE oi.id = (i->>'order_item_id')::UUID AND oi.order_id = v_order.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Item does not belong to this order';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.product_name,
+      oi.quantity AS sold,
+      oi.subtotal,
+      req.quantity,
+      COALESCE((
+        SELECT SUM(ri.quantity) FROM public.order_return_items ri WHERE ri.order_item_id = oi.id
+      ), 0) AS already_returned
+    FROM (
+      SELECT (i->>'order_item_id')::UUID AS order_item_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = v_order.id
+    ORDER BY oi.id
+    FOR UPDATE OF oi
+  LOOP
+    IF v_line.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+    IF v_line.quantity > v_line.sold - v_line.already_returned THEN
+      RAISE EXCEPTION 'Cannot return more % than were sold', v_line.product_name;
+    END IF;
+
+    v_line_value := ROUND(v_line.subtotal::NUMERIC * v_line.quantity / v_line.sold);
+    v_lines_value := v_lines_value + v_line_value;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, product_id, quantity, refund_amount)
+    VALUES (v_return_id, v_line.id, v_line.product_id, v_line.quantity, v_line_value);
+
+    IF v_line.product_id IS NOT NULL THEN
+      IF v_restock_to = 'quarantine' THEN
+        UPDATE public.products SET quarantine_stock = quarantine_stock + v_line.quantity WHERE id = v_line.product_id;
+      ELSE
+        UPDATE public.products SET stock = stock + v_line.quantity WHERE id = v_line.product_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_return_items WHERE return_id = v_return_id) THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  -- Goods returned against an unpaid balance come off what is still owed; only
+  -- the rest can be refunded, and by default all of it is
+  v_credit := LEAST(v_lines_value, GREATEST(0, v_order.total_amount - v_order.credited_amount - v_order.paid_amount));
+  v_refund := COALESCE((p_payload->>'refund_amount')::BIGINT, v_lines_value - v_credit);
+  IF v_refund < 0 OR v_refund > v_lines_value - v_credit THEN
+    RAISE EXCEPTION 'Refund must be between 0 and %, the value of the returned items less the unpaid balance', v_lines_value - v_credit;
+  END IF;
+  IF v_order.refunded_amount + v_refund > v_order.paid_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the amount paid';
+  END IF;
+
+  UPDATE public.order_returns SET refund_amount = v_refund, credit_amount = v_credit WHERE id = v_return_id;
+
+  PERFORM set_config('app.status_note', 'Refund ' || v_return_number, true);
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund,
+    credited_amount = credited_amount + v_credit,
+    payment_status = CASE
+      WHEN v_refund > 0 AND refunded_amount + credited_amount + v_refund + v_credit >= total_amount THEN 'refunded'
+      WHEN v_credit > 0 THEN public.derive_payment_status(total_amount - credited_amount - v_credit, paid_amount)
+      ELSE payment_status
+    END
+  WHERE id = v_order.id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN QUERY SELECT v_return_id, v_return_number;
+END;
+$$;
+
+
+-- ===========================================
+-- 📒 CUSTOMER BALANCES
+-- ===========================================
+CREATE OR REPLACE VIEW public.customer_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS customer_id,
+  c.name,
+  COUNT(o.id) FILTER (WHERE o.paid_amount < o.total_amount - o.credited_amount) AS open_orders,
+  COALESCE(SUM(o.total_amount - o.credited_amount), 0) AS total_billed,
+  COALESCE(SUM(o.paid_amount), 0) AS total_paid,
+  COALESCE(SUM(GREATEST(0, o.total_amount - o.credited_amount - o.paid_amount)), 0) AS outstanding
+FROM public.customers c
+JOIN public.orders o ON o.customer_id = c.id AND o.status <> 'cancelled'
+GROUP BY c.id, c.name;
+
+-- ===========================================
+-- 📊 REVENUE NET OF CREDITS
+-- ===========================================
+-- As in 007; goods credited back off an unpaid balance were never revenue either.
+
+CREATE OR REPLACE FUNCTION public.get_order_summary(p_payload JSONB)
+RETURNS TABLE (
+  total_orders BIGINT,
+  pending BIGINT,
+  processing BIGINT,
+  completed BIGINT,
+  cancelled BIGINT,
+  revenue BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE o.status = 'pending'),
+    COUNT(*) FILTER (WHERE o.status = 'processing'),
+    COUNT(*) FILTER (WHERE o.status = 'completed'),
+    COUNT(*) FILTER (WHERE o.status = 'cancelled'),
+    COALESCE(SUM(o.total_amount - o.refunded_amount - o.credited_amount) FILTER (WHERE o.status <> 'cancelled'), 0)::BIGINT
+  FROM public.orders o
+  WHERE (
+      NULLIF(p_payload->>'q', '') IS NULL
+      OR o.order_number ILIKE '%' || (p_payload->>'q') || '%'
+      OR EXISTS (
+        SELECT 1 FROM public.customers c
+        WHERE c.id = o.customer_id AND c.name ILIKE '%' || (p_payload->>'q') || '%'
+      )
+    )
+    AND (NULLIF(p_payload->>'status', '') IS NULL OR o.status = p_payload->>'status')
+    AND (NULLIF(p_payload->>'payment_status', '') IS NULL OR o.payment_status = p_payload->>'payment_status')
+    AND (NULLIF(p_payload->>'payment_method', '') IS NULL OR o.payment_method = p_payload->>'payment_method')
+    AND (NULLIF(p_payload->>'created_from', '') IS NULL OR o.created_at >= (p_payload->>'created_from')::TIMESTAMPTZ)
+    AND (NULLIF(p_payload->>'created_to', '') IS NULL OR o.created_at <= (p_payload->>'created_to')::TIMESTAMPTZ);
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users" ON public.payments
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable insert for authenticated users" ON public.payments
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
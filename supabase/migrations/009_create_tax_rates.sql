@@ -0,0 +1,354 @@
+-- ===========================================
+-- 🧾 TAX RATES
+-- ===========================================
+-- Rates are assigned per product, falling back to the product's category and
+-- then to the store default. Whether shelf prices already include tax is a
+-- store-wide setting, copied onto each order at checkout so later changes do
+-- not rewrite history.
+
+CREATE TABLE public.tax_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  rate NUMERIC(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.tax_rates (name, rate, description) VALUES
+('PPN 11%', 11, 'Pajak Pertambahan Nilai'),
+('Tax exempt', 0, 'Exempt goods, e.g. prescription medication');
+
+-- Single-row store configuration
+CREATE TABLE public.store_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  prices_include_tax BOOLEAN NOT NULL DEFAULT TRUE,
+  default_tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO public.store_settings (id, prices_include_tax, default_tax_rate_id)
+SELECT TRUE, TRUE, id FROM public.tax_rates WHERE name = 'PPN 11%';
+
+ALTER TABLE public.products
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.categories
+ADD COLUMN tax_rate_id UUID REFERENCES public.tax_rates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.order_items
+ADD COLUMN tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+ADD COLUMN tax_amount BIGINT NOT NULL DEFAULT 0 CHECK (tax_amount >= 0);
+
+-- Existing orders were priced without tax, which reads the same as inclusive pricing at 0%
+ALTER TABLE public.orders
+ADD COLUMN prices_include_tax BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE INDEX idx_products_tax_rate_id ON public.products(tax_rate_id);
+
+CREATE TRIGGER update_tax_rates_updated_at
+  BEFORE UPDATE ON public.tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_store_settings_updated_at
+  BEFORE UPDATE ON public.store_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- ⚙️ FUNCTIONS
+-- ===========================================
+-- Kept in step with lib/tax.ts, which previews the same numbers in the POS cart.
+
+CREATE OR REPLACE FUNCTION public.product_tax_rate(p_product_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT t.rate FROM public.products p JOIN public.tax_rates t ON t.id = p.tax_rate_id WHERE p.id = p_product_id),
+    (SELECT t.rate FROM public.products p
+       JOIN public.categories c ON c.id = p.category_id
+       JOIN public.tax_rates t ON t.id = c.tax_rate_id
+     WHERE p.id = p_product_id),
+    (SELECT t.rate FROM public.store_settings s JOIN public.tax_rates t ON t.id = s.default_tax_rate_id),
+    0
+  );
+$$;
+
+-- Tax on a line amount. Inclusive amounts already contain the tax, so it is
+-- extracted rather than added on top.
+CREATE OR REPLACE FUNCTION public.line_tax(p_amount BIGINT, p_rate NUMERIC, p_inclusive BOOLEAN)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_rate <= 0 OR p_amount <= 0 THEN 0
+    WHEN p_inclusive THEN p_amount - ROUND(p_amount * 100 / (100 + p_rate))::BIGINT
+    ELSE ROUND(p_amount * p_rate / 100)::BIGINT
+  END;
+$$;
+
+-- ===========================================
+-- 🛒 CHECKOUT WITH TAX
+-- ===========================================
+-- Tax is always computed here from the configured rates; the payload carries
+-- no tax figures. With exclusive pricing the order total is the line
+-- subtotals plus tax, otherwise the tax is part of the subtotals.
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_inclusive BOOLEAN;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_payment_method TEXT;
+  v_product RECORD;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM public.store_settings), TRUE) INTO v_inclusive;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (customer_id, total_amount, discount, tax, status, payment_status, payment_method, prices_include_tax, notes)
+  VALUES (v_customer_id, 0, 0, 0, 'completed', 'unpaid', v_payment_method, v_inclusive, NULLIF(p_payload->>'notes', ''))
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, subtotal, tax_rate, tax_amount)
+  SELECT
+    v_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.unit_price,
+    line.subtotal,
+    line.tax_rate,
+    public.line_tax(line.subtotal, line.tax_rate, v_inclusive)
+  FROM (
+    SELECT
+      (i->>'product_id')::UUID AS product_id,
+      i->>'product_name' AS product_name,
+      (i->>'quantity')::INTEGER AS quantity,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      GREATEST(0, (i->>'unit_price')::BIGINT * (i->>'quantity')::INTEGER - COALESCE((i->>'discount')::BIGINT, 0)) AS subtotal,
+      public.product_tax_rate((i->>'product_id')::UUID) AS tax_rate
+    FROM jsonb_array_elements(v_items) AS i
+  ) AS line;
+
+  UPDATE public.orders o
+  SET
+    tax = totals.tax,
+    total_amount = totals.subtotal + CASE WHEN v_inclusive THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT COALESCE(SUM(subtotal), 0) AS subtotal, COALESCE(SUM(tax_amount), 0) AS tax
+    FROM public.order_items
+    WHERE order_id = v_order_id
+  ) AS totals
+  WHERE o.id = v_order_id;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+-- ===========================================
+-- ↩️ RETURNS INCLUDE TAX
+-- ===========================================
+-- On tax-exclusive orders the customer paid the line tax on top of the
+-- subtotal, so a returned line is worth its share of both.
+
+CREATE OR REPLACE FUNCTION public.create_order_return(p_payload JSONB)
+RETURNS TABLE (return_id UUID, return_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_restock_to TEXT := COALESCE(NULLIF(p_payload->>'restock_to', ''), 'sellable');
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_line RECORD;
+  v_line_value BIGINT;
+  v_lines_value BIGINT := 0;
+  v_refund BIGINT;
+  v_credit BIGINT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = (p_payload->>'order_id')::UUID FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be returned';
+  END IF;
+  IF COALESCE(TRIM(p_payload->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  INSERT INTO public.order_returns (order_id, reason, restock_to, refund_method, created_by)
+  VALUES (v_order.id, TRIM(p_payload->>'reason'), v_restock_to, NULLIF(p_payload->>'refund_method', ''), auth.uid())
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.order_items oi
+      WHERE oi.id = (i->>'order_item_id')::UUID AND oi.order_id = v_order.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Item does not belong to this order';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.product_name,
+      oi.quantity AS sold,
+      oi.subtotal + CASE WHEN v_order.prices_include_tax THEN 0 ELSE oi.tax_amount END AS line_total,
+      req.quantity,
+      COALESCE((
+        SELECT SUM(ri.quantity) FROM public.order_return_items ri WHERE ri.order_item_id = oi.id
+      ), 0) AS already_returned
+    FROM (
+      SELECT (i->>'order_item_id')::UUID AS order_item_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = v_order.id
+    ORDER BY oi.id
+    FOR UPDATE OF oi
+  LOOP
+    IF v_line.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+    IF v_line.quantity > v_line.sold - v_line.already_returned THEN
+      RAISE EXCEPTION 'Cannot return more % than were sold', v_line.product_name;
+    END IF;
+
+    v_line_value := ROUND(v_line.line_total::NUMERIC * v_line.quantity / v_line.sold);
+    v_lines_value := v_lines_value + v_line_value;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, product_id, quantity, refund_amount)
+    VALUES (v_return_id, v_line.id, v_line.product_id, v_line.quantity, v_line_value);
+
+    IF v_line.product_id IS NOT NULL THEN
+      IF v_restock_to = 'quarantine' THEN
+        UPDATE public.products SET quarantine_stock = quarantine_stock + v_line.quantity WHERE id = v_line.product_id;
+      ELSE
+        UPDATE public.products SET stock = stock + v_line.quantity WHERE id = v_line.product_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_return_items WHERE return_id = v_return_id) THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  -- Goods returned against an unpaid balance come off what is still owed; only
+  -- the rest can be refunded, and by default all of it is
+  v_credit := LEAST(v_lines_value, GREATEST(0, v_order.total_amount - v_order.credited_amount - v_order.paid_amount));
+  v_refund := COALESCE((p_payload->>'refund_amount')::BIGINT, v_lines_value - v_credit);
+  IF v_refund < 0 OR v_refund > v_lines_value - v_credit THEN
+    RAISE EXCEPTION 'Refund must be between 0 and %, the value of the returned items less the unpaid balance', v_lines_value - v_credit;
+  END IF;
+  IF v_order.refunded_amount + v_refund > v_order.paid_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the amount paid';
+  END IF;
+
+  UPDATE public.order_returns SET refund_amount = v_refund, credit_amount = v_credit WHERE id = v_return_id;
+
+  PERFORM set_config('app.status_note', 'Refund ' || v_return_number, true);
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund,
+    credited_amount = credited_amount + v_credit,
+    payment_status = CASE
+      WHEN v_refund > 0 AND refunded_amount + credited_amount + v_refund + v_credit >= total_amount THEN 'refunded'
+      WHEN v_credit > 0 THEN public.derive_payment_status(total_amount - credited_amount - v_credit, paid_amount)
+      ELSE payment_status
+    END
+  WHERE id = v_order.id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN QUERY SELECT v_return_id, v_return_number;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.tax_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.tax_rates
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all access for authenticated users" ON public.store_settings
+  FOR ALL USING (auth.role() = 'authenticated');
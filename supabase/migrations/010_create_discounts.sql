@@ -0,0 +1,470 @@
+-- ===========================================
+-- 🏷️ PROMO CODES & PRICE RULES
+-- ===========================================
+
+CREATE TABLE public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value NUMERIC(12, 2) NOT NULL CHECK (value >= 0),
+  min_order_amount BIGINT NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  starts_on DATE,
+  ends_on DATE,
+  usage_limit INTEGER CHECK (usage_limit > 0),
+  times_used INTEGER NOT NULL DEFAULT 0 CHECK (times_used >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (discount_type <> 'percentage' OR value <= 100),
+  CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+-- Automatic discounts, applied per order line without any code:
+--   buy_x_get_y          every buy_quantity + free_quantity units, free_quantity are free
+--   percentage           percentage off the line
+-- A rule targets either one product or every product in a category.
+CREATE TABLE public.price_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('buy_x_get_y', 'percentage')),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  buy_quantity INTEGER CHECK (buy_quantity > 0),
+  free_quantity INTEGER CHECK (free_quantity > 0),
+  percentage NUMERIC(5, 2) CHECK (percentage > 0 AND percentage <= 100),
+  starts_on DATE,
+  ends_on DATE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((product_id IS NULL) <> (category_id IS NULL)),
+  CHECK (rule_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND free_quantity IS NOT NULL)),
+  CHECK (rule_type <> 'percentage' OR percentage IS NOT NULL),
+  CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX idx_price_rules_product_id ON public.price_rules(product_id);
+CREATE INDEX idx_price_rules_category_id ON public.price_rules(category_id);
+
+ALTER TABLE public.orders
+ADD COLUMN promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL;
+
+-- discount: rule and manual discounts on the line itself (subtotal is net of it)
+-- order_discount: the line's share of orders.discount, used for tax and refunds
+ALTER TABLE public.order_items
+ADD COLUMN discount BIGINT NOT NULL DEFAULT 0 CHECK (discount >= 0),
+ADD COLUMN order_discount BIGINT NOT NULL DEFAULT 0 CHECK (order_discount >= 0),
+ADD COLUMN price_rule_id UUID REFERENCES public.price_rules(id) ON DELETE SET NULL;
+
+UPDATE public.order_items
+SET discount = GREATEST(0, unit_price * quantity - subtotal);
+
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_rules_updated_at
+  BEFORE UPDATE ON public.price_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- ⚙️ FUNCTIONS
+-- ===========================================
+-- Kept in step with lib/pricing.ts, which previews the same numbers in the POS cart.
+
+CREATE OR REPLACE FUNCTION public.discount_amount(p_type TEXT, p_value NUMERIC, p_base BIGINT)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_base <= 0 OR p_value IS NULL OR p_value <= 0 THEN 0
+    WHEN p_type = 'percentage' THEN LEAST(p_base, ROUND(p_base * LEAST(p_value, 100) / 100)::BIGINT)
+    ELSE LEAST(p_base, p_value::BIGINT)
+  END;
+$$;
+
+-- The most generous active rule for a line; rules do not stack
+CREATE OR REPLACE FUNCTION public.best_price_rule(p_product_id UUID, p_unit_price BIGINT, p_quantity INTEGER)
+RETURNS TABLE (rule_id UUID, discount BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT rule_id, discount
+  FROM (
+    SELECT
+      r.id AS rule_id,
+      CASE r.rule_type
+        WHEN 'buy_x_get_y' THEN (p_quantity / (r.buy_quantity + r.free_quantity)) * r.free_quantity * p_unit_price
+        ELSE ROUND(p_unit_price * p_quantity * r.percentage / 100)::BIGINT
+      END AS discount
+    FROM public.price_rules r
+    JOIN public.products p ON p.id = p_product_id
+    WHERE r.is_active
+      AND (r.starts_on IS NULL OR r.starts_on <= CURRENT_DATE)
+      AND (r.ends_on IS NULL OR r.ends_on >= CURRENT_DATE)
+      AND (r.product_id = p.id OR r.category_id = p.category_id)
+  ) AS candidates
+  WHERE discount > 0
+  ORDER BY discount DESC, rule_id
+  LIMIT 1;
+$$;
+
+-- Checks a promo code against today's date, its usage limit and the order
+-- subtotal, and counts the use. Raises when the code cannot be applied.
+CREATE OR REPLACE FUNCTION public.redeem_promo_code(p_code TEXT, p_subtotal BIGINT)
+RETURNS public.promo_codes
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_promo FROM public.promo_codes WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code % not found', p_code;
+  END IF;
+  IF NOT v_promo.is_active
+    OR (v_promo.starts_on IS NOT NULL AND v_promo.starts_on > CURRENT_DATE)
+    OR (v_promo.ends_on IS NOT NULL AND v_promo.ends_on < CURRENT_DATE) THEN
+    RAISE EXCEPTION 'Promo code % is not valid today', p_code;
+  END IF;
+  IF v_promo.usage_limit IS NOT NULL AND v_promo.times_used >= v_promo.usage_limit THEN
+    RAISE EXCEPTION 'Promo code % has reached its usage limit', p_code;
+  END IF;
+  IF p_subtotal < v_promo.min_order_amount THEN
+    RAISE EXCEPTION 'Promo code % requires a minimum order of %', p_code, v_promo.min_order_amount;
+  END IF;
+
+  UPDATE public.promo_codes SET times_used = times_used + 1 WHERE id = v_promo.id;
+  RETURN v_promo;
+END;
+$$;
+
+-- Spreads an order discount over the order's lines by subtotal, rounding
+-- leftovers onto the largest line, then taxes each line on what remains
+CREATE OR REPLACE FUNCTION public.spread_order_discount(p_order_id UUID, p_discount BIGINT, p_inclusive BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_subtotal BIGINT;
+BEGIN
+  IF p_discount > 0 THEN
+    SELECT SUM(subtotal) INTO v_subtotal FROM public.order_items WHERE order_id = p_order_id;
+
+    UPDATE public.order_items
+    SET order_discount = FLOOR(p_discount::NUMERIC * subtotal / v_subtotal)::BIGINT
+    WHERE order_id = p_order_id;
+
+    UPDATE public.order_items
+    SET order_discount = order_discount + (
+      p_discount - (SELECT SUM(order_discount) FROM public.order_items WHERE order_id = p_order_id)
+    )
+    WHERE id = (
+      SELECT id FROM public.order_items WHERE order_id = p_order_id ORDER BY subtotal DESC, id LIMIT 1
+    );
+  END IF;
+
+  UPDATE public.order_items
+  SET tax_amount = public.line_tax(subtotal - order_discount, tax_rate, p_inclusive)
+  WHERE order_id = p_order_id;
+END;
+$$;
+
+-- ===========================================
+-- 🛒 CHECKOUT WITH DISCOUNTS
+-- ===========================================
+-- Unit prices come from products, not the payload. Order-level discounts are
+-- read from the payload as inputs only and recomputed here:
+--   "order_discount": { "type": "percentage" | "fixed", "value": number } | null
+--   "promo_code": text | null
+-- The combined order discount is spread across lines in proportion to their
+-- subtotals, and tax is charged on what remains.
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_promo_code TEXT := UPPER(TRIM(COALESCE(p_payload->>'promo_code', '')));
+  v_promo public.promo_codes%ROWTYPE;
+  v_inclusive BOOLEAN;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_payment_method TEXT;
+  v_subtotal BIGINT;
+  v_order_discount BIGINT := 0;
+  v_product RECORD;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE((SELECT prices_include_tax FROM public.store_settings), TRUE) INTO v_inclusive;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (customer_id, total_amount, discount, tax, status, payment_status, payment_method, prices_include_tax, notes)
+  VALUES (v_customer_id, 0, 0, 0, 'completed', 'unpaid', v_payment_method, v_inclusive, NULLIF(p_payload->>'notes', ''))
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, unit_price, discount, price_rule_id, subtotal, tax_rate)
+  SELECT
+    v_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.unit_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id)
+  FROM (
+    SELECT
+      p.id AS product_id,
+      i->>'product_name' AS product_name,
+      (i->>'quantity')::INTEGER AS quantity,
+      p.price AS unit_price,
+      rule.rule_id AS price_rule_id,
+      LEAST(
+        p.price * (i->>'quantity')::INTEGER,
+        COALESCE(rule.discount, 0) + GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0))
+      ) AS discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    LEFT JOIN LATERAL public.best_price_rule(p.id, p.price, (i->>'quantity')::INTEGER) AS rule ON TRUE
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = v_order_id;
+
+  IF p_payload ? 'order_discount' AND jsonb_typeof(p_payload->'order_discount') = 'object' THEN
+    v_order_discount := public.discount_amount(
+      p_payload->'order_discount'->>'type',
+      (p_payload->'order_discount'->>'value')::NUMERIC,
+      v_subtotal
+    );
+  END IF;
+
+  IF v_promo_code <> '' THEN
+    v_promo := public.redeem_promo_code(v_promo_code, v_subtotal);
+    v_order_discount := v_order_discount + public.discount_amount(v_promo.discount_type, v_promo.value, v_subtotal);
+  END IF;
+
+  v_order_discount := LEAST(v_order_discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(v_order_id, v_order_discount, v_inclusive);
+
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    promo_code_id = v_promo.id,
+    tax = totals.tax,
+    total_amount = v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = v_order_id
+  ) AS totals
+  WHERE o.id = v_order_id;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+-- ===========================================
+-- ↩️ RETURNS NET OF ORDER DISCOUNTS
+-- ===========================================
+-- A returned line is worth what the customer actually paid for it: its
+-- subtotal less its share of the order discount, plus tax when charged on top.
+
+CREATE OR REPLACE FUNCTION public.create_order_return(p_payload JSONB)
+RETURNS TABLE (return_id UUID, return_number TEXT)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_restock_to TEXT := COALESCE(NULLIF(p_payload->>'restock_to', ''), 'sellable');
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_line RECORD;
+  v_line_value BIGINT;
+  v_lines_value BIGINT := 0;
+  v_refund BIGINT;
+  v_credit BIGINT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = (p_payload->>'order_id')::UUID FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be returned';
+  END IF;
+  IF COALESCE(TRIM(p_payload->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  INSERT INTO public.order_returns (order_id, reason, restock_to, refund_method, created_by)
+  VALUES (v_order.id, TRIM(p_payload->>'reason'), v_restock_to, NULLIF(p_payload->>'refund_method', ''), auth.uid())
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.order_items oi
+      WHERE oi.id = (i->>'order_item_id')::UUID AND oi.order_id = v_order.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Item does not belong to this order';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.product_name,
+      oi.quantity AS sold,
+      GREATEST(0, oi.subtotal - oi.order_discount)
+        + CASE WHEN v_order.prices_include_tax THEN 0 ELSE oi.tax_amount END AS line_total,
+      req.quantity,
+      COALESCE((
+        SELECT SUM(ri.quantity) FROM public.order_return_items ri WHERE ri.order_item_id = oi.id
+      ), 0) AS already_returned
+    FROM (
+      SELECT (i->>'order_item_id')::UUID AS order_item_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = v_order.id
+    ORDER BY oi.id
+    FOR UPDATE OF oi
+  LOOP
+    IF v_line.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+    IF v_line.quantity > v_line.sold - v_line.already_returned THEN
+      RAISE EXCEPTION 'Cannot return more % than were sold', v_line.product_name;
+    END IF;
+
+    v_line_value := ROUND(v_line.line_total::NUMERIC * v_line.quantity / v_line.sold);
+    v_lines_value := v_lines_value + v_line_value;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, product_id, quantity, refund_amount)
+    VALUES (v_return_id, v_line.id, v_line.product_id, v_line.quantity, v_line_value);
+
+    IF v_line.product_id IS NOT NULL THEN
+      IF v_restock_to = 'quarantine' THEN
+        UPDATE public.products SET quarantine_stock = quarantine_stock + v_line.quantity WHERE id = v_line.product_id;
+      ELSE
+        UPDATE public.products SET stock = stock + v_line.quantity WHERE id = v_line.product_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_return_items WHERE return_id = v_return_id) THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  -- Goods returned against an unpaid balance come off what is still owed; only
+  -- the rest can be refunded, and by default all of it is
+  v_credit := LEAST(v_lines_value, GREATEST(0, v_order.total_amount - v_order.credited_amount - v_order.paid_amount));
+  v_refund := COALESCE((p_payload->>'refund_amount')::BIGINT, v_lines_value - v_credit);
+  IF v_refund < 0 OR v_refund > v_lines_value - v_credit THEN
+    RAISE EXCEPTION 'Refund must be between 0 and %, the value of the returned items less the unpaid balance', v_lines_value - v_credit;
+  END IF;
+  IF v_order.refunded_amount + v_refund > v_order.paid_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the amount paid';
+  END IF;
+
+  UPDATE public.order_returns SET refund_amount = v_refund, credit_amount = v_credit WHERE id = v_return_id;
+
+  PERFORM set_config('app.status_note', 'Refund ' || v_return_number, true);
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund,
+    credited_amount = credited_amount + v_credit,
+    payment_status = CASE
+      WHEN v_refund > 0 AND refunded_amount + credited_amount + v_refund + v_credit >= total_amount THEN 'refunded'
+      WHEN v_credit > 0 THEN public.derive_payment_status(total_amount - credited_amount - v_credit, paid_amount)
+      ELSE payment_status
+    END
+  WHERE id = v_order.id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN QUERY SELECT v_return_id, v_return_number;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.promo_codes
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all access for authenticated users" ON public.price_rules
+  FOR ALL USING (auth.role() = 'authenticated');
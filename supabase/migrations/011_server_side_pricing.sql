@@ -0,0 +1,501 @@
+-- ===========================================
+-- 👤 STAFF PROFILES & ROLES
+-- ===========================================
+-- One profile per auth user. Supervisors and admins can approve price
+-- overrides and large discounts at the till.
+
+CREATE TABLE public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  full_name TEXT,
+  role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('cashier', 'supervisor', 'admin')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_profiles_email ON public.profiles(LOWER(email));
+
+-- Approval PINs live apart from profiles so they are never readable through the API
+CREATE TABLE public.approval_pins (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Wrong PINs entered for a supervisor, per member of staff entering them
+CREATE TABLE public.approval_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  approver_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  attempted_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_approval_attempts_lookup ON public.approval_attempts(approver_id, attempted_by, created_at);
+
+-- Single-use approvals handed out for a correct PIN, redeemed by the RPC that
+-- needed the supervisor
+CREATE TABLE public.approval_grants (
+  token UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  approver_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  granted_to UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '5 minutes'
+);
+
+-- Everyone who could already sign in keeps full access
+INSERT INTO public.profiles (id, email, full_name, role)
+SELECT id, email, COALESCE(raw_user_meta_data->>'full_name', email), 'admin'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email))
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user();
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_approval_pin(p_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(public.current_user_role(), '') NOT IN ('supervisor', 'admin') THEN
+    RAISE EXCEPTION 'Only supervisors and admins can set an approval PIN';
+  END IF;
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  INSERT INTO public.approval_pins (user_id, pin_hash, updated_at)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')), NOW())
+  ON CONFLICT (user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = NOW();
+END;
+$$;
+
+-- Checks a supervisor's PIN on its own, so a wrong one is recorded even though
+-- the sale or adjustment that asked for it fails. Returns an approval token for
+-- verify_approval, or NULL when the credentials do not match a supervisor.
+-- Five wrong PINs in 15 minutes lock that supervisor out for the caller.
+CREATE OR REPLACE FUNCTION public.request_approval(p_email TEXT, p_pin TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_approver_id UUID;
+  v_token UUID;
+BEGIN
+  SELECT p.id INTO v_approver_id
+  FROM public.profiles p
+  JOIN public.approval_pins a ON a.user_id = p.id
+  WHERE LOWER(p.email) = LOWER(TRIM(p_email))
+    AND p.role IN ('supervisor', 'admin')
+  LIMIT 1
+  -- Attempts on one supervisor queue here, so none slips past the count
+  FOR UPDATE OF a;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.approval_attempts
+    WHERE approver_id = v_approver_id
+      AND attempted_by = auth.uid()
+      AND created_at > NOW() - INTERVAL '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect PINs for this supervisor; try again in 15 minutes' USING HINT = 'approval_required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.approval_pins
+    WHERE user_id = v_approver_id AND pin_hash = crypt(COALESCE(p_pin, ''), pin_hash)
+  ) THEN
+    INSERT INTO public.approval_attempts (approver_id, attempted_by) VALUES (v_approver_id, auth.uid());
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.approval_attempts WHERE approver_id = v_approver_id AND attempted_by = auth.uid();
+  DELETE FROM public.approval_grants WHERE expires_at <= NOW();
+
+  INSERT INTO public.approval_grants (approver_id, granted_to)
+  VALUES (v_approver_id, auth.uid())
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+-- Redeems { "token": uuid } from request_approval once. Returns the approving
+-- supervisor, or NULL when the token is unknown, expired or someone else's.
+CREATE OR REPLACE FUNCTION public.verify_approval(p_approval JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_approver_id UUID;
+BEGIN
+  IF COALESCE(p_approval->>'token', '') !~ '^[0-9a-fA-F-]{36}$' THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.approval_grants
+  WHERE token = (p_approval->>'token')::UUID
+    AND granted_to = auth.uid()
+    AND expires_at > NOW()
+  RETURNING approver_id INTO v_approver_id;
+
+  RETURN v_approver_id;
+END;
+$$;
+
+-- Who signs off on p_reasons: the caller when they are a supervisor or admin,
+-- otherwise the supervisor behind the p_approval token. NULL when there is
+-- nothing to approve; raises with HINT 'approval_required' when no one did.
+CREATE OR REPLACE FUNCTION public.require_approval(p_reasons TEXT[], p_approval JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_approved_by UUID;
+BEGIN
+  IF cardinality(p_reasons) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.current_user_role() IN ('supervisor', 'admin') THEN
+    RETURN auth.uid();
+  END IF;
+
+  IF jsonb_typeof(p_approval) <> 'object' THEN
+    RAISE EXCEPTION 'Supervisor approval required: %', array_to_string(p_reasons, '; ') USING HINT = 'approval_required';
+  END IF;
+
+  v_approved_by := public.verify_approval(p_approval);
+  IF v_approved_by IS NULL THEN
+    RAISE EXCEPTION 'Supervisor email or PIN is incorrect' USING HINT = 'approval_required';
+  END IF;
+
+  RETURN v_approved_by;
+END;
+$$;
+
+-- ===========================================
+-- 💲 PRICE OVERRIDES & APPROVALS
+-- ===========================================
+
+-- Manual discounts above this share of a line or order need a supervisor
+ALTER TABLE public.store_settings
+ADD COLUMN max_discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 10
+  CHECK (max_discount_percent >= 0 AND max_discount_percent <= 100);
+
+-- list_price: products.price when sold; unit_price differs only on an approved override
+ALTER TABLE public.order_items
+ADD COLUMN list_price BIGINT CHECK (list_price >= 0),
+ADD COLUMN price_overridden BOOLEAN NOT NULL DEFAULT FALSE;
+
+UPDATE public.order_items SET list_price = unit_price;
+
+ALTER TABLE public.orders
+ADD COLUMN approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN approval_reason TEXT;
+
+-- ===========================================
+-- 🛒 CHECKOUT WITH SERVER-SIDE PRICING
+-- ===========================================
+-- The payload's unit_price is only the price the cashier saw. Without
+-- price_override it must match products.price, otherwise the cart is stale
+-- and checkout is refused. With price_override it becomes the charged price,
+-- which, like a manual discount over the store limit, needs approval:
+--   "approval": { "token": uuid } | null      -- from request_approval
+-- Supervisors and admins approve their own sales. Names always come from
+-- products.
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_promo_code TEXT := UPPER(TRIM(COALESCE(p_payload->>'promo_code', '')));
+  v_promo public.promo_codes%ROWTYPE;
+  v_inclusive BOOLEAN;
+  v_max_discount NUMERIC;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+  v_approved_by UUID;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_payment_method TEXT;
+  v_subtotal BIGINT;
+  v_manual_order_discount BIGINT := 0;
+  v_order_discount BIGINT := 0;
+  v_product RECORD;
+  v_line RECORD;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE((SELECT prices_include_tax FROM public.store_settings), TRUE),
+    COALESCE((SELECT max_discount_percent FROM public.store_settings), 0)
+  INTO v_inclusive, v_max_discount;
+
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.price,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      COALESCE((i->>'price_override')::BOOLEAN, FALSE) AS price_override,
+      (i->>'quantity')::INTEGER AS quantity,
+      GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  LOOP
+    IF v_line.price_override THEN
+      IF v_line.unit_price IS NULL OR v_line.unit_price < 0 THEN
+        RAISE EXCEPTION 'Override price for % is invalid', v_line.name;
+      END IF;
+      IF v_line.unit_price <> v_line.price THEN
+        v_reasons := v_reasons || format('%s priced at %s instead of %s', v_line.name, v_line.unit_price, v_line.price);
+      END IF;
+    ELSIF v_line.unit_price IS NOT NULL AND v_line.unit_price <> v_line.price THEN
+      RAISE EXCEPTION 'The price of % has changed to %; refresh the cart and try again', v_line.name, v_line.price;
+    END IF;
+
+    IF v_line.manual_discount > ROUND(
+      CASE WHEN v_line.price_override THEN v_line.unit_price ELSE v_line.price END * v_line.quantity * v_max_discount / 100
+    ) THEN
+      v_reasons := v_reasons || format('%s discounted by %s', v_line.name, v_line.manual_discount);
+    END IF;
+  END LOOP;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (customer_id, total_amount, discount, tax, status, payment_status, payment_method, prices_include_tax, notes)
+  VALUES (v_customer_id, 0, 0, 0, 'completed', 'unpaid', v_payment_method, v_inclusive, NULLIF(p_payload->>'notes', ''))
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  -- Overridden prices replace rule pricing for that line
+  INSERT INTO public.order_items (
+    order_id, product_id, product_name, quantity, list_price, unit_price, price_overridden,
+    discount, price_rule_id, subtotal, tax_rate
+  )
+  SELECT
+    v_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.list_price,
+    line.unit_price,
+    line.unit_price <> line.list_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id)
+  FROM (
+    SELECT
+      priced.*,
+      rule.rule_id AS price_rule_id,
+      LEAST(priced.unit_price * priced.quantity, COALESCE(rule.discount, 0) + priced.manual_discount) AS discount
+    FROM (
+      SELECT
+        p.id AS product_id,
+        p.name AS product_name,
+        (i->>'quantity')::INTEGER AS quantity,
+        p.price AS list_price,
+        CASE WHEN COALESCE((i->>'price_override')::BOOLEAN, FALSE) THEN (i->>'unit_price')::BIGINT ELSE p.price END AS unit_price,
+        GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+      FROM jsonb_array_elements(v_items) AS i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    ) AS priced
+    LEFT JOIN LATERAL public.best_price_rule(priced.product_id, priced.unit_price, priced.quantity) AS rule
+      ON priced.unit_price = priced.list_price
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = v_order_id;
+
+  IF p_payload ? 'order_discount' AND jsonb_typeof(p_payload->'order_discount') = 'object' THEN
+    v_manual_order_discount := public.discount_amount(
+      p_payload->'order_discount'->>'type',
+      (p_payload->'order_discount'->>'value')::NUMERIC,
+      v_subtotal
+    );
+    IF v_manual_order_discount > ROUND(v_subtotal * v_max_discount / 100) THEN
+      v_reasons := v_reasons || format('Order discounted by %s', v_manual_order_discount);
+    END IF;
+  END IF;
+  v_order_discount := v_manual_order_discount;
+
+  v_approved_by := public.require_approval(v_reasons, p_payload->'approval');
+
+  IF v_promo_code <> '' THEN
+    v_promo := public.redeem_promo_code(v_promo_code, v_subtotal);
+    v_order_discount := v_order_discount + public.discount_amount(v_promo.discount_type, v_promo.value, v_subtotal);
+  END IF;
+
+  v_order_discount := LEAST(v_order_discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(v_order_id, v_order_discount, v_inclusive);
+
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    promo_code_id = v_promo.id,
+    approved_by = v_approved_by,
+    approval_reason = NULLIF(array_to_string(v_reasons, '; '), ''),
+    tax = totals.tax,
+    total_amount = v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = v_order_id
+  ) AS totals
+  WHERE o.id = v_order_id;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_approval_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_approval(TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.request_approval(TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_approval(JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.require_approval(TEXT[], JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_order_with_items(JSONB) FROM PUBLIC, anon;
+
+-- Orders are written only by these functions from here on (see RLS below), so
+-- the ones that already existed run as their owner too
+ALTER FUNCTION public.transition_order_status(UUID, TEXT, TEXT, TEXT) SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.create_order_return(JSONB) SECURITY DEFINER SET search_path = public;
+ALTER FUNCTION public.apply_payment_to_order() SECURITY DEFINER SET search_path = public;
+REVOKE EXECUTE ON FUNCTION public.transition_order_status(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_order_return(JSONB) FROM PUBLIC, anon;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_grants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users" ON public.profiles
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable update for admins" ON public.profiles
+  FOR UPDATE USING (public.current_user_role() = 'admin');
+
+-- approval_pins, approval_attempts and approval_grants have no policies: they
+-- are only reachable through the functions above
+
+-- Totals, lines and the status timeline only change through the checkout,
+-- status, return and payment functions, so staff can no longer write them
+-- directly. Deleting an order stays open to staff, as before.
+DROP POLICY "Enable all access for authenticated users" ON public.orders;
+DROP POLICY "Enable all access for authenticated users" ON public.order_items;
+DROP POLICY "Enable all access for authenticated users" ON public.order_status_history;
+
+CREATE POLICY "Enable read access for authenticated users" ON public.orders
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable delete for authenticated users" ON public.orders
+  FOR DELETE USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable read access for authenticated users" ON public.order_items
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable read access for authenticated users" ON public.order_status_history
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Checkout charges products.price, so only supervisors and admins edit products
+DROP POLICY "Enable all access for authenticated users" ON public.products;
+
+CREATE POLICY "Enable read access for authenticated users" ON public.products
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable changes for supervisors and admins" ON public.products
+  FOR ALL USING (public.current_user_role() IN ('supervisor', 'admin'));
@@ -0,0 +1,166 @@
+-- ===========================================
+-- 🔢 DOCUMENT NUMBERING
+-- ===========================================
+-- Orders, invoices, refunds and purchase orders are numbered from a counter
+-- per document type, year and (optionally) branch. The counter row is
+-- incremented inside the transaction that creates the document, so concurrent
+-- checkouts queue on it and a rolled-back checkout gives its number back:
+-- numbers never collide and never skip.
+--
+-- Patterns are built from these tokens:
+--   {PREFIX}  the configured prefix, e.g. ORD
+--   {YYYY}    four-digit year; {YY} two-digit year
+--   {BRANCH}  store_settings.branch_code
+--   {SEQ}     the counter, zero-padded to `padding` digits
+-- A pattern must include the year, and the branch when numbering per branch,
+-- otherwise two counters could produce the same number.
+
+CREATE TABLE public.document_number_formats (
+  document_type TEXT PRIMARY KEY CHECK (document_type IN ('order', 'invoice', 'refund', 'purchase_order')),
+  prefix TEXT NOT NULL DEFAULT '' CHECK (prefix ~ '^[A-Za-z0-9/-]*$'),
+  pattern TEXT NOT NULL DEFAULT '{PREFIX}-{YYYY}-{SEQ}'
+    CHECK (pattern LIKE '%{SEQ}%' AND (pattern LIKE '%{YYYY}%' OR pattern LIKE '%{YY}%')),
+  padding INTEGER NOT NULL DEFAULT 5 CHECK (padding BETWEEN 1 AND 10),
+  per_branch BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (NOT per_branch OR pattern LIKE '%{BRANCH}%')
+);
+
+-- Five digits keep new numbers apart from the six-digit legacy suffixes
+INSERT INTO public.document_number_formats (document_type, prefix) VALUES
+('order', 'ORD'),
+('invoice', 'INV'),
+('refund', 'RFD'),
+('purchase_order', 'PO');
+
+CREATE TABLE public.document_sequences (
+  document_type TEXT NOT NULL REFERENCES public.document_number_formats(document_type) ON DELETE CASCADE,
+  branch_code TEXT NOT NULL DEFAULT '',
+  year INTEGER NOT NULL,
+  last_value INTEGER NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  PRIMARY KEY (document_type, branch_code, year)
+);
+
+ALTER TABLE public.store_settings
+ADD COLUMN branch_code TEXT CHECK (branch_code ~ '^[A-Za-z0-9]{1,10}$');
+
+CREATE TRIGGER update_document_number_formats_updated_at
+  BEFORE UPDATE ON public.document_number_formats
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Definer rights: callers only ever reach the counters through this function
+CREATE OR REPLACE FUNCTION public.next_document_number(p_document_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_format public.document_number_formats%ROWTYPE;
+  v_branch TEXT := '';
+  v_year INTEGER := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+  v_seq INTEGER;
+  v_seq_text TEXT;
+BEGIN
+  SELECT * INTO v_format
+  FROM public.document_number_formats
+  WHERE document_type = p_document_type;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No numbering format for %', p_document_type;
+  END IF;
+
+  IF v_format.per_branch THEN
+    SELECT branch_code INTO v_branch FROM public.store_settings;
+    IF v_branch IS NULL THEN
+      RAISE EXCEPTION 'Set a branch code before numbering % documents per branch', p_document_type;
+    END IF;
+  END IF;
+
+  INSERT INTO public.document_sequences (document_type, branch_code, year, last_value)
+  VALUES (p_document_type, v_branch, v_year, 1)
+  ON CONFLICT (document_type, branch_code, year)
+  DO UPDATE SET last_value = public.document_sequences.last_value + 1
+  RETURNING last_value INTO v_seq;
+
+  -- lpad() would truncate once the counter outgrows the padding
+  v_seq_text := v_seq::TEXT;
+  IF LENGTH(v_seq_text) < v_format.padding THEN
+    v_seq_text := LPAD(v_seq_text, v_format.padding, '0');
+  END IF;
+
+  RETURN REPLACE(REPLACE(REPLACE(REPLACE(REPLACE(v_format.pattern,
+    '{PREFIX}', v_format.prefix),
+    '{YYYY}', v_year::TEXT),
+    '{YY}', RIGHT(v_year::TEXT, 2)),
+    '{BRANCH}', v_branch),
+    '{SEQ}', v_seq_text);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_document_number(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.next_document_number(TEXT) TO authenticated;
+
+-- Checkout and returns leave the number to these defaults, which draw it in
+-- the same statement as the insert, so a failed insert does not leave a gap
+ALTER TABLE public.orders
+ALTER COLUMN order_number SET DEFAULT public.next_document_number('order');
+
+ALTER TABLE public.order_returns
+ALTER COLUMN return_number SET DEFAULT public.next_document_number('refund');
+
+-- ===========================================
+-- 🧾 INVOICES
+-- ===========================================
+-- An invoice number is issued once per order, on request, so invoices are
+-- numbered in the order they were issued rather than the order of sales.
+
+ALTER TABLE public.orders
+ADD COLUMN invoice_number TEXT UNIQUE,
+ADD COLUMN invoice_issued_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.issue_invoice(p_order_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.invoice_number IS NOT NULL THEN
+    RETURN v_order.invoice_number;
+  END IF;
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot invoice a cancelled order';
+  END IF;
+
+  v_order.invoice_number := public.next_document_number('invoice');
+
+  UPDATE public.orders
+  SET invoice_number = v_order.invoice_number, invoice_issued_at = NOW()
+  WHERE id = p_order_id;
+
+  RETURN v_order.invoice_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_invoice(UUID) TO authenticated;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.document_number_formats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.document_number_formats
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable read access for authenticated users" ON public.document_sequences
+  FOR SELECT USING (auth.role() = 'authenticated');
@@ -0,0 +1,14 @@
+-- ===========================================
+-- 🏥 CLINIC DETAILS FOR RECEIPTS & INVOICES
+-- ===========================================
+-- Printed on every receipt and invoice. tax_id is the clinic's NPWP, which
+-- an A4 tax invoice must show.
+
+ALTER TABLE public.store_settings
+ADD COLUMN store_name TEXT NOT NULL DEFAULT 'VetMed Clinic',
+ADD COLUMN address TEXT,
+ADD COLUMN phone TEXT,
+ADD COLUMN email TEXT,
+ADD COLUMN tax_id TEXT,
+ADD COLUMN receipt_footer TEXT DEFAULT 'Thank you for your visit',
+ADD COLUMN receipt_width INTEGER NOT NULL DEFAULT 80 CHECK (receipt_width IN (58, 80));
@@ -0,0 +1,39 @@
+-- ===========================================
+-- 🏷️ PRODUCT BARCODES
+-- ===========================================
+-- A product can carry several barcodes (manufacturer EAN, re-labelled stock,
+-- multipacks). The POS scan field matches a barcode exactly, then the SKU.
+
+ALTER TABLE public.products
+ADD COLUMN barcodes TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_products_barcodes ON public.products USING GIN (barcodes);
+
+-- A scan must resolve to exactly one product
+CREATE OR REPLACE FUNCTION public.check_product_barcodes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_barcode TEXT;
+  v_owner TEXT;
+BEGIN
+  NEW.barcodes := ARRAY(SELECT DISTINCT TRIM(b) FROM unnest(NEW.barcodes) AS b WHERE TRIM(b) <> '');
+
+  SELECT b, p.name INTO v_barcode, v_owner
+  FROM public.products p, unnest(p.barcodes) AS b
+  WHERE p.id <> NEW.id AND b = ANY(NEW.barcodes)
+  LIMIT 1;
+
+  IF v_barcode IS NOT NULL THEN
+    RAISE EXCEPTION 'Barcode % is already assigned to %', v_barcode, v_owner;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_product_barcodes
+  BEFORE INSERT OR UPDATE OF barcodes ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_product_barcodes();
@@ -0,0 +1,34 @@
+-- ===========================================
+-- 🅿️ PARKED CARTS
+-- ===========================================
+-- A cashier can set a cart aside and pick it up later from any terminal.
+-- Parking reserves no stock; prices and availability are re-checked when the
+-- cart is resumed and again at checkout. Resuming deletes the row, so two
+-- terminals cannot resume the same cart.
+
+CREATE TABLE public.parked_carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label TEXT NOT NULL CHECK (TRIM(label) <> ''),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  -- [{ product_id, quantity, unit_price, price_override, discount }]
+  items JSONB NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  notes TEXT,
+  order_discount JSONB,
+  promo_code TEXT,
+  -- Snapshot for the list only; the cart is repriced on resume
+  item_count INTEGER NOT NULL DEFAULT 0,
+  total_amount BIGINT NOT NULL DEFAULT 0,
+  parked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours'
+);
+
+CREATE INDEX idx_parked_carts_expires_at ON public.parked_carts(expires_at);
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.parked_carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.parked_carts
+  FOR ALL USING (auth.role() = 'authenticated');
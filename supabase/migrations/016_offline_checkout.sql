@@ -0,0 +1,233 @@
+-- ===========================================
+-- 📴 OFFLINE CHECKOUT SYNC
+-- ===========================================
+-- The POS queues sales made while offline and replays them on reconnect.
+-- Each sale carries a client-generated UUID; replaying it after a lost
+-- response returns the existing order instead of selling the goods twice.
+
+ALTER TABLE public.orders
+ADD COLUMN client_reference UUID UNIQUE,
+ADD COLUMN offline_sold_at TIMESTAMPTZ;
+
+-- Checkout payload additions (see 012 for the rest):
+--   "client_reference": uuid | null   idempotency key
+--   "offline_sold_at": timestamptz | null   when the queued sale was rung up
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_promo_code TEXT := UPPER(TRIM(COALESCE(p_payload->>'promo_code', '')));
+  v_promo public.promo_codes%ROWTYPE;
+  v_inclusive BOOLEAN;
+  v_max_discount NUMERIC;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+  v_approved_by UUID;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_payment_method TEXT;
+  v_subtotal BIGINT;
+  v_manual_order_discount BIGINT := 0;
+  v_order_discount BIGINT := 0;
+  v_product RECORD;
+  v_line RECORD;
+  v_client_reference UUID := NULLIF(p_payload->>'client_reference', '')::UUID;
+BEGIN
+  -- A retried sale hands back the order its first attempt created
+  IF v_client_reference IS NOT NULL THEN
+    RETURN QUERY
+    SELECT o.id, o.order_number FROM public.orders o WHERE o.client_reference = v_client_reference;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Customer is required';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE((SELECT prices_include_tax FROM public.store_settings), TRUE),
+    COALESCE((SELECT max_discount_percent FROM public.store_settings), 0)
+  INTO v_inclusive, v_max_discount;
+
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.price,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      COALESCE((i->>'price_override')::BOOLEAN, FALSE) AS price_override,
+      (i->>'quantity')::INTEGER AS quantity,
+      GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+  LOOP
+    IF v_line.price_override THEN
+      IF v_line.unit_price IS NULL OR v_line.unit_price < 0 THEN
+        RAISE EXCEPTION 'Override price for % is invalid', v_line.name;
+      END IF;
+      IF v_line.unit_price <> v_line.price THEN
+        v_reasons := v_reasons || format('%s priced at %s instead of %s', v_line.name, v_line.unit_price, v_line.price);
+      END IF;
+    ELSIF v_line.unit_price IS NOT NULL AND v_line.unit_price <> v_line.price THEN
+      RAISE EXCEPTION 'The price of % has changed to %; refresh the cart and try again', v_line.name, v_line.price;
+    END IF;
+
+    IF v_line.manual_discount > ROUND(
+      CASE WHEN v_line.price_override THEN v_line.unit_price ELSE v_line.price END * v_line.quantity * v_max_discount / 100
+    ) THEN
+      v_reasons := v_reasons || format('%s discounted by %s', v_line.name, v_line.manual_discount);
+    END IF;
+  END LOOP;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (
+    customer_id, total_amount, discount, tax, status, payment_status, payment_method,
+    prices_include_tax, notes, client_reference, offline_sold_at
+  )
+  VALUES (
+    v_customer_id, 0, 0, 0, 'completed', 'unpaid', v_payment_method,
+    v_inclusive, NULLIF(p_payload->>'notes', ''), v_client_reference, NULLIF(p_payload->>'offline_sold_at', '')::TIMESTAMPTZ
+  )
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  -- Overridden prices replace rule pricing for that line
+  INSERT INTO public.order_items (
+    order_id, product_id, product_name, quantity, list_price, unit_price, price_overridden,
+    discount, price_rule_id, subtotal, tax_rate
+  )
+  SELECT
+    v_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.list_price,
+    line.unit_price,
+    line.unit_price <> line.list_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id)
+  FROM (
+    SELECT
+      priced.*,
+      rule.rule_id AS price_rule_id,
+      LEAST(priced.unit_price * priced.quantity, COALESCE(rule.discount, 0) + priced.manual_discount) AS discount
+    FROM (
+      SELECT
+        p.id AS product_id,
+        p.name AS product_name,
+        (i->>'quantity')::INTEGER AS quantity,
+        p.price AS list_price,
+        CASE WHEN COALESCE((i->>'price_override')::BOOLEAN, FALSE) THEN (i->>'unit_price')::BIGINT ELSE p.price END AS unit_price,
+        GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+      FROM jsonb_array_elements(v_items) AS i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    ) AS priced
+    LEFT JOIN LATERAL public.best_price_rule(priced.product_id, priced.unit_price, priced.quantity) AS rule
+      ON priced.unit_price = priced.list_price
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = v_order_id;
+
+  IF p_payload ? 'order_discount' AND jsonb_typeof(p_payload->'order_discount') = 'object' THEN
+    v_manual_order_discount := public.discount_amount(
+      p_payload->'order_discount'->>'type',
+      (p_payload->'order_discount'->>'value')::NUMERIC,
+      v_subtotal
+    );
+    IF v_manual_order_discount > ROUND(v_subtotal * v_max_discount / 100) THEN
+      v_reasons := v_reasons || format('Order discounted by %s', v_manual_order_discount);
+    END IF;
+  END IF;
+  v_order_discount := v_manual_order_discount;
+
+  v_approved_by := public.require_approval(v_reasons, p_payload->'approval');
+
+  IF v_promo_code <> '' THEN
+    v_promo := public.redeem_promo_code(v_promo_code, v_subtotal);
+    v_order_discount := v_order_discount + public.discount_amount(v_promo.discount_type, v_promo.value, v_subtotal);
+  END IF;
+
+  v_order_discount := LEAST(v_order_discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(v_order_id, v_order_discount, v_inclusive);
+
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    promo_code_id = v_promo.id,
+    approved_by = v_approved_by,
+    approval_reason = NULLIF(array_to_string(v_reasons, '; '), ''),
+    tax = totals.tax,
+    total_amount = v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = v_order_id
+  ) AS totals
+  WHERE o.id = v_order_id;
+
+  UPDATE public.products p
+  SET stock = p.stock - req.quantity
+  FROM (
+    SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(v_items) AS i
+    GROUP BY 1
+  ) AS req
+  WHERE p.id = req.product_id;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
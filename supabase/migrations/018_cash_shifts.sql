@@ -0,0 +1,201 @@
+-- ===========================================
+-- 💵 CASH DRAWER SHIFTS
+-- ===========================================
+-- A cashier opens a shift with a float, takes payments and refunds against
+-- it, records cash put into or taken out of the drawer, and closes it by
+-- counting each tender. Expected amounts are snapshotted at close so the
+-- Z-report does not change if the ledger is touched afterwards.
+
+CREATE TABLE public.cash_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  opened_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE RESTRICT DEFAULT auth.uid(),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  opening_float BIGINT NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  closed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ,
+  -- { "<method>": amount } as counted by the cashier and as computed at close
+  counted JSONB,
+  expected JSONB,
+  notes TEXT,
+  CHECK ((closed_at IS NULL) = (counted IS NULL))
+);
+
+-- A cashier works one drawer at a time
+CREATE UNIQUE INDEX idx_cash_shifts_one_open ON public.cash_shifts(opened_by) WHERE closed_at IS NULL;
+CREATE INDEX idx_cash_shifts_opened_at ON public.cash_shifts(opened_at DESC);
+
+CREATE TABLE public.cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID NOT NULL REFERENCES public.cash_shifts(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('in', 'out')),
+  amount BIGINT NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (TRIM(reason) <> ''),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_cash_movements_shift_id ON public.cash_movements(shift_id);
+
+ALTER TABLE public.payments
+ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.order_returns
+ADD COLUMN shift_id UUID REFERENCES public.cash_shifts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payments_shift_id ON public.payments(shift_id);
+CREATE INDEX idx_order_returns_shift_id ON public.order_returns(shift_id);
+
+-- ===========================================
+-- ⚙️ FUNCTIONS & TRIGGERS
+-- ===========================================
+
+-- Money taken or paid back lands in the drawer of whoever handled it, who
+-- must have one open. The row lock waits for a close in progress, so nothing
+-- slips into a shift after its totals were snapshotted. A return gets its
+-- shift once its refund is set, and only when it pays money out.
+CREATE OR REPLACE FUNCTION public.assign_cash_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.cash_shifts
+    WHERE opened_by = auth.uid() AND closed_at IS NULL
+    FOR SHARE;
+
+    IF NEW.shift_id IS NULL THEN
+      RAISE EXCEPTION 'Open a cash shift before taking or refunding money';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_payment_cash_shift
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_cash_shift();
+
+CREATE TRIGGER assign_return_cash_shift
+  BEFORE INSERT OR UPDATE OF refund_amount ON public.order_returns
+  FOR EACH ROW
+  WHEN (NEW.refund_amount > 0)
+  EXECUTE FUNCTION public.assign_cash_shift();
+
+CREATE OR REPLACE FUNCTION public.check_cash_movement_shift()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.cash_shifts WHERE id = NEW.shift_id AND closed_at IS NULL FOR SHARE) THEN
+    RAISE EXCEPTION 'Cash can only be moved in an open shift';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_cash_movement_shift
+  BEFORE INSERT ON public.cash_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_cash_movement_shift();
+
+-- Expected drawer contents per tender. Only cash carries the float and the
+-- manual in/out entries; a refund without a method is assumed paid in cash.
+CREATE OR REPLACE FUNCTION public.cash_shift_totals(p_shift_id UUID)
+RETURNS TABLE (
+  method TEXT,
+  payments BIGINT,
+  refunds BIGINT,
+  cash_in BIGINT,
+  cash_out BIGINT,
+  expected BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH taken AS (
+    SELECT p.method, SUM(p.amount) AS amount
+    FROM public.payments p
+    WHERE p.shift_id = p_shift_id
+    GROUP BY 1
+  ),
+  refunded AS (
+    SELECT COALESCE(r.refund_method, 'cash') AS method, SUM(r.refund_amount) AS amount
+    FROM public.order_returns r
+    WHERE r.shift_id = p_shift_id AND r.refund_amount > 0
+    GROUP BY 1
+  ),
+  moved AS (
+    SELECT
+      COALESCE(SUM(m.amount) FILTER (WHERE m.type = 'in'), 0) AS cash_in,
+      COALESCE(SUM(m.amount) FILTER (WHERE m.type = 'out'), 0) AS cash_out
+    FROM public.cash_movements m
+    WHERE m.shift_id = p_shift_id
+  ),
+  methods AS (
+    SELECT 'cash' AS method
+    UNION SELECT taken.method FROM taken
+    UNION SELECT refunded.method FROM refunded
+  )
+  SELECT
+    m.method,
+    COALESCE(t.amount, 0)::BIGINT,
+    COALESCE(r.amount, 0)::BIGINT,
+    CASE WHEN m.method = 'cash' THEN mv.cash_in ELSE 0 END::BIGINT,
+    CASE WHEN m.method = 'cash' THEN mv.cash_out ELSE 0 END::BIGINT,
+    (
+      COALESCE(t.amount, 0) - COALESCE(r.amount, 0)
+      + CASE WHEN m.method = 'cash' THEN s.opening_float + mv.cash_in - mv.cash_out ELSE 0 END
+    )::BIGINT
+  FROM methods m
+  CROSS JOIN moved mv
+  JOIN public.cash_shifts s ON s.id = p_shift_id
+  LEFT JOIN taken t ON t.method = m.method
+  LEFT JOIN refunded r ON r.method = m.method
+  ORDER BY m.method <> 'cash', m.method;
+$$;
+
+-- p_counted: { "<method>": amount } for every tender the cashier counted
+CREATE OR REPLACE FUNCTION public.close_cash_shift(p_shift_id UUID, p_counted JSONB, p_notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_shift public.cash_shifts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_shift FROM public.cash_shifts WHERE id = p_shift_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+  IF v_shift.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+  IF jsonb_typeof(p_counted) <> 'object' OR EXISTS (
+    SELECT 1 FROM jsonb_each(p_counted) AS c
+    WHERE CASE WHEN jsonb_typeof(c.value) = 'number' THEN (c.value)::NUMERIC < 0 ELSE TRUE END
+  ) THEN
+    RAISE EXCEPTION 'Counted amounts must be zero or more';
+  END IF;
+
+  UPDATE public.cash_shifts
+  SET
+    closed_at = NOW(),
+    closed_by = auth.uid(),
+    counted = p_counted,
+    expected = (
+      SELECT COALESCE(jsonb_object_agg(t.method, t.expected), '{}'::JSONB)
+      FROM public.cash_shift_totals(p_shift_id) AS t
+    ),
+    notes = NULLIF(TRIM(COALESCE(p_notes, '')), '')
+  WHERE id = p_shift_id;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.cash_shifts
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable all access for authenticated users" ON public.cash_movements
+  FOR ALL USING (auth.role() = 'authenticated');
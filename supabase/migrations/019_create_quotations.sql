@@ -0,0 +1,159 @@
+-- ===========================================
+-- 📝 QUOTATIONS
+-- ===========================================
+-- A quotation is a priced estimate for a customer (e.g. before surgery). It
+-- reserves no stock. Accepting it creates an order through
+-- create_order_with_items with the quotation id as client_reference, so stock
+-- and prices are checked at that moment and a retried conversion cannot
+-- create a second order.
+
+ALTER TABLE public.document_number_formats
+DROP CONSTRAINT document_number_formats_document_type_check;
+
+ALTER TABLE public.document_number_formats
+ADD CONSTRAINT document_number_formats_document_type_check
+  CHECK (document_type IN ('order', 'invoice', 'refund', 'purchase_order', 'quotation'));
+
+INSERT INTO public.document_number_formats (document_type, prefix) VALUES
+('quotation', 'QUO');
+
+CREATE TABLE public.quotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_number TEXT UNIQUE NOT NULL DEFAULT public.next_document_number('quotation'),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'accepted', 'expired')),
+  valid_until DATE NOT NULL,
+  -- Totals as quoted; the order is priced again when the quotation is accepted
+  subtotal BIGINT NOT NULL DEFAULT 0,
+  discount BIGINT NOT NULL DEFAULT 0,
+  tax BIGINT NOT NULL DEFAULT 0,
+  total_amount BIGINT NOT NULL DEFAULT 0,
+  prices_include_tax BOOLEAN NOT NULL DEFAULT TRUE,
+  notes TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (status <> 'accepted' OR accepted_at IS NOT NULL)
+);
+
+CREATE TABLE public.quotation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id UUID NOT NULL REFERENCES public.quotations(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  list_price BIGINT NOT NULL CHECK (list_price >= 0),
+  unit_price BIGINT NOT NULL CHECK (unit_price >= 0),
+  -- Manual discount entered on the line; price rules are included in subtotal
+  discount BIGINT NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  tax_amount BIGINT NOT NULL DEFAULT 0,
+  subtotal BIGINT NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX idx_quotations_customer_id ON public.quotations(customer_id);
+CREATE INDEX idx_quotations_status ON public.quotations(status, valid_until);
+CREATE INDEX idx_quotation_items_quotation_id ON public.quotation_items(quotation_id);
+
+CREATE TRIGGER update_quotations_updated_at
+  BEFORE UPDATE ON public.quotations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- ⚙️ SAVE QUOTATION
+-- ===========================================
+-- p_payload mirrors the row built by saveQuotation in app/actions/quotations.ts:
+-- {
+--   "customer_id": uuid, "valid_until": date, "notes": text | null,
+--   "subtotal", "discount", "tax", "total_amount": bigint, "prices_include_tax": bool,
+--   "items": [{ product_id, product_name, quantity, list_price, unit_price,
+--               discount, tax_rate, tax_amount, subtotal }]
+-- }
+-- Header and lines are written together; pass p_quotation_id to replace the
+-- lines of an existing draft or sent quotation.
+
+CREATE OR REPLACE FUNCTION public.save_quotation(p_quotation_id UUID, p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID := p_quotation_id;
+  v_status TEXT;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_payload->'items', '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'A quotation needs at least one item';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.quotations (customer_id, valid_until, notes)
+    VALUES (
+      (p_payload->>'customer_id')::UUID,
+      (p_payload->>'valid_until')::DATE,
+      NULLIF(p_payload->>'notes', '')
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    SELECT status INTO v_status FROM public.quotations WHERE id = v_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quotation not found';
+    END IF;
+    IF v_status NOT IN ('draft', 'sent') THEN
+      RAISE EXCEPTION 'A % quotation cannot be edited', v_status;
+    END IF;
+
+    UPDATE public.quotations
+    SET
+      customer_id = (p_payload->>'customer_id')::UUID,
+      valid_until = (p_payload->>'valid_until')::DATE,
+      notes = NULLIF(p_payload->>'notes', '')
+    WHERE id = v_id;
+
+    DELETE FROM public.quotation_items WHERE quotation_id = v_id;
+  END IF;
+
+  UPDATE public.quotations
+  SET
+    subtotal = (p_payload->>'subtotal')::BIGINT,
+    discount = (p_payload->>'discount')::BIGINT,
+    tax = (p_payload->>'tax')::BIGINT,
+    total_amount = (p_payload->>'total_amount')::BIGINT,
+    prices_include_tax = (p_payload->>'prices_include_tax')::BOOLEAN
+  WHERE id = v_id;
+
+  INSERT INTO public.quotation_items (
+    quotation_id, product_id, product_name, quantity, list_price, unit_price,
+    discount, tax_rate, tax_amount, subtotal, position
+  )
+  SELECT
+    v_id,
+    (i->>'product_id')::UUID,
+    i->>'product_name',
+    (i->>'quantity')::INTEGER,
+    (i->>'list_price')::BIGINT,
+    (i->>'unit_price')::BIGINT,
+    (i->>'discount')::BIGINT,
+    (i->>'tax_rate')::NUMERIC,
+    (i->>'tax_amount')::BIGINT,
+    (i->>'subtotal')::BIGINT,
+    ordinality
+  FROM jsonb_array_elements(p_payload->'items') WITH ORDINALITY AS i;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.quotations
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable all access for authenticated users" ON public.quotation_items
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,331 @@
+-- ===========================================
+-- ✏️ ORDER AMENDMENTS
+-- ===========================================
+-- Pending and processing orders, and completed ones not yet fully paid, can
+-- have lines added, removed or re-quantified after checkout. Stock moves by the difference only, the order
+-- is repriced like checkout, and every amendment keeps a before/after record.
+
+CREATE TABLE public.order_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  -- [{ product_name, from_quantity, to_quantity, from_unit_price, to_unit_price, from_subtotal, to_subtotal }]
+  changes JSONB NOT NULL,
+  total_before BIGINT NOT NULL,
+  total_after BIGINT NOT NULL,
+  approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  approval_reason TEXT,
+  amended_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_amendments_order_id ON public.order_amendments(order_id, created_at);
+
+-- ===========================================
+-- ⚙️ AMEND ORDER ITEMS
+-- ===========================================
+-- p_payload mirrors AmendOrderPayload in app/actions/orders.ts:
+-- {
+--   "reason": text,
+--   "approval": { "token": uuid } | null,     -- from request_approval
+--   "items": [{
+--     "order_item_id": uuid | null,   -- null for a line added by this amendment
+--     "product_id": uuid,
+--     "quantity": int,
+--     "unit_price": bigint,
+--     "price_override": bool,
+--     "discount": bigint              -- manual line discount
+--   }]
+-- }
+-- Kept lines stay at the price they were sold at; new lines are priced like
+-- checkout. The order discount keeps its amount and is spread over the new
+-- lines. Approval follows the checkout rules, but only for prices and
+-- discounts this amendment changes.
+
+CREATE OR REPLACE FUNCTION public.amend_order_items(p_order_id UUID, p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reason', '')), '');
+  v_old JSONB;
+  v_inclusive BOOLEAN;
+  v_max_discount NUMERIC;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+  v_approved_by UUID;
+  v_subtotal BIGINT;
+  v_order_discount BIGINT;
+  v_total BIGINT;
+  v_payment_status TEXT;
+  v_changes JSONB;
+  v_amendment_id UUID;
+  v_product RECORD;
+  v_line RECORD;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  -- Till sales complete at checkout; one still owing money can be corrected
+  IF NOT (v_order.status IN ('pending', 'processing')
+          OR (v_order.status = 'completed' AND v_order.payment_status IN ('unpaid', 'partial'))) THEN
+    RAISE EXCEPTION 'Only open orders, or completed ones not yet fully paid, can be edited';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.order_returns WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Orders with returns cannot be edited';
+  END IF;
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to edit an order';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item; cancel it instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Kept lines must belong to this order, once each, for the same product
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE i->>'order_item_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.order_items oi
+        WHERE oi.id = (i->>'order_item_id')::UUID
+          AND oi.order_id = p_order_id
+          AND oi.product_id = (i->>'product_id')::UUID
+      )
+  ) OR (
+    SELECT COUNT(*) <> COUNT(DISTINCT i->>'order_item_id')
+    FROM jsonb_array_elements(v_items) AS i
+    WHERE i->>'order_item_id' IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Order line does not belong to this order';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) INTO v_old
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  -- Lock every product whose quantity changes; only increases need stock
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, delta.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM (
+        SELECT (i->>'product_id')::UUID AS product_id, (i->>'quantity')::INTEGER AS quantity
+        FROM jsonb_array_elements(v_items) AS i
+        UNION ALL
+        SELECT product_id, -quantity FROM public.order_items WHERE order_id = p_order_id AND product_id IS NOT NULL
+      ) AS moves
+      GROUP BY product_id
+    ) AS delta
+    JOIN public.products p ON p.id = delta.product_id
+    WHERE delta.quantity <> 0
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE((SELECT max_discount_percent FROM public.store_settings), 0)
+  INTO v_max_discount;
+  -- Tax stays on the basis the order was sold with
+  v_inclusive := v_order.prices_include_tax;
+
+  FOR v_line IN
+    SELECT
+      p.name,
+      COALESCE(prev.unit_price, p.price) AS reference_price,
+      prev.discount AS old_discount,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      COALESCE((i->>'price_override')::BOOLEAN, FALSE) AS price_override,
+      (i->>'quantity')::INTEGER AS quantity,
+      GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    LEFT JOIN public.order_items prev ON prev.id = (i->>'order_item_id')::UUID
+  LOOP
+    IF v_line.price_override THEN
+      IF v_line.unit_price IS NULL OR v_line.unit_price < 0 THEN
+        RAISE EXCEPTION 'Override price for % is invalid', v_line.name;
+      END IF;
+      IF v_line.unit_price <> v_line.reference_price THEN
+        v_reasons := v_reasons || format('%s priced at %s instead of %s', v_line.name, v_line.unit_price, v_line.reference_price);
+      END IF;
+    ELSIF v_line.unit_price IS NOT NULL AND v_line.unit_price <> v_line.reference_price THEN
+      RAISE EXCEPTION 'The price of % has changed to %; reload the order and try again', v_line.name, v_line.reference_price;
+    END IF;
+
+    IF v_line.manual_discount > ROUND(
+      CASE WHEN v_line.price_override THEN v_line.unit_price ELSE v_line.reference_price END * v_line.quantity * v_max_discount / 100
+    ) AND (v_line.old_discount IS NULL OR v_line.manual_discount > v_line.old_discount) THEN
+      v_reasons := v_reasons || format('%s discounted by %s', v_line.name, v_line.manual_discount);
+    END IF;
+  END LOOP;
+
+  v_approved_by := public.require_approval(v_reasons, p_payload->'approval');
+
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+
+  -- Kept lines keep their id, list price and position in the order
+  INSERT INTO public.order_items (
+    id, order_id, product_id, product_name, quantity, list_price, unit_price, price_overridden,
+    discount, price_rule_id, subtotal, tax_rate, created_at
+  )
+  SELECT
+    line.id,
+    p_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.list_price,
+    line.unit_price,
+    line.unit_price <> line.list_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id),
+    line.created_at
+  FROM (
+    SELECT
+      priced.*,
+      rule.rule_id AS price_rule_id,
+      LEAST(priced.unit_price * priced.quantity, COALESCE(rule.discount, 0) + priced.manual_discount) AS discount
+    FROM (
+      SELECT
+        COALESCE(prev.id, gen_random_uuid()) AS id,
+        p.id AS product_id,
+        COALESCE(prev.product_name, p.name) AS product_name,
+        (i->>'quantity')::INTEGER AS quantity,
+        COALESCE(prev.list_price, p.price) AS list_price,
+        CASE
+          WHEN COALESCE((i->>'price_override')::BOOLEAN, FALSE) THEN (i->>'unit_price')::BIGINT
+          ELSE COALESCE(prev.unit_price, p.price)
+        END AS unit_price,
+        GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount,
+        COALESCE(prev.created_at, NOW()) AS created_at
+      FROM jsonb_array_elements(v_items) AS i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+      LEFT JOIN jsonb_to_recordset(v_old) AS prev(
+        id UUID, product_name TEXT, list_price BIGINT, unit_price BIGINT, created_at TIMESTAMPTZ
+      ) ON prev.id = (i->>'order_item_id')::UUID
+    ) AS priced
+    LEFT JOIN LATERAL public.best_price_rule(priced.product_id, priced.unit_price, priced.quantity) AS rule
+      ON priced.unit_price = priced.list_price
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = p_order_id;
+  v_order_discount := LEAST(v_order.discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(p_order_id, v_order_discount, v_inclusive);
+
+  SELECT v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE COALESCE(SUM(tax_amount), 0) END
+  INTO v_total
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  -- Money already taken is never silently reduced; that goes through a return
+  IF v_order.paid_amount > v_total THEN
+    RAISE EXCEPTION 'The new total % is less than the % already paid; return the items instead', v_total, v_order.paid_amount;
+  END IF;
+
+  v_payment_status := public.derive_payment_status(v_total, v_order.paid_amount);
+  IF v_payment_status <> v_order.payment_status
+     AND NOT public.order_status_transition_allowed('payment_status', v_order.payment_status, v_payment_status) THEN
+    RAISE EXCEPTION 'This order is fully paid; sell the extra items as a new order';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_name', COALESCE(cur.product_name, prev.product_name),
+    'from_quantity', COALESCE(prev.quantity, 0),
+    'to_quantity', COALESCE(cur.quantity, 0),
+    'from_unit_price', prev.unit_price,
+    'to_unit_price', cur.unit_price,
+    'from_subtotal', COALESCE(prev.subtotal, 0),
+    'to_subtotal', COALESCE(cur.subtotal, 0)
+  ) ORDER BY COALESCE(cur.created_at, prev.created_at)), '[]'::JSONB)
+  INTO v_changes
+  FROM (SELECT * FROM public.order_items WHERE order_id = p_order_id) AS cur
+  FULL JOIN jsonb_to_recordset(v_old) AS prev(
+    id UUID, product_name TEXT, quantity INTEGER, unit_price BIGINT, subtotal BIGINT, created_at TIMESTAMPTZ
+  ) ON prev.id = cur.id
+  WHERE prev.id IS NULL OR cur.id IS NULL
+     OR prev.quantity <> cur.quantity
+     OR prev.unit_price <> cur.unit_price
+     OR prev.subtotal <> cur.subtotal;
+
+  IF jsonb_array_length(v_changes) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  PERFORM set_config('app.status_note', 'Order amended: ' || v_reason, true);
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    tax = totals.tax,
+    total_amount = v_total,
+    payment_status = v_payment_status
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = p_order_id
+  ) AS totals
+  WHERE o.id = p_order_id;
+  PERFORM set_config('app.status_note', '', true);
+
+  -- Only the difference moves: removed or reduced lines go back on the shelf
+  UPDATE public.products p
+  SET stock = p.stock - delta.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM (
+      SELECT product_id, quantity FROM public.order_items WHERE order_id = p_order_id
+      UNION ALL
+      SELECT product_id, -quantity FROM jsonb_to_recordset(v_old) AS prev(product_id UUID, quantity INTEGER)
+      WHERE product_id IS NOT NULL
+    ) AS moves
+    GROUP BY product_id
+  ) AS delta
+  WHERE p.id = delta.product_id AND delta.quantity <> 0;
+
+  INSERT INTO public.order_amendments (
+    order_id, reason, changes, total_before, total_after, approved_by, approval_reason
+  )
+  VALUES (
+    p_order_id, v_reason, v_changes, v_order.total_amount, v_total,
+    v_approved_by, NULLIF(array_to_string(v_reasons, '; '), '')
+  )
+  RETURNING id INTO v_amendment_id;
+
+  RETURN v_amendment_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.amend_order_items(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.amend_order_items(UUID, JSONB) TO authenticated;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.order_amendments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.order_amendments
+  FOR ALL USING (auth.role() = 'authenticated');
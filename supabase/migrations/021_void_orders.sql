@@ -0,0 +1,207 @@
+-- ===========================================
+-- 🚫 VOIDED ORDERS
+-- ===========================================
+-- Orders are voided rather than deleted. A voided order keeps its lines,
+-- payments and history, stays visible in the list, puts its unreturned stock
+-- back and no longer counts towards revenue. Deleting is left for
+-- administrators clearing out draft orders: pending, unpaid and uninvoiced.
+
+ALTER TABLE public.orders
+ADD COLUMN voided_at TIMESTAMPTZ,
+ADD COLUMN voided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN void_reason TEXT,
+ADD CONSTRAINT orders_void_reason_required CHECK (voided_at IS NULL OR void_reason IS NOT NULL);
+
+CREATE INDEX idx_orders_voided_at ON public.orders(voided_at) WHERE voided_at IS NOT NULL;
+
+-- ===========================================
+-- ⚙️ FUNCTIONS & TRIGGERS
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.void_order(p_order_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Order % has already been voided', v_order.order_number;
+  END IF;
+  IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an order';
+  END IF;
+  -- The drawer has to give the money back first, through a return
+  IF v_order.paid_amount > v_order.refunded_amount THEN
+    RAISE EXCEPTION 'Refund the % still held on this order before voiding it', v_order.paid_amount - v_order.refunded_amount;
+  END IF;
+
+  -- Cancelling already restocked everything; returns restocked their own lines
+  IF v_order.status <> 'cancelled' THEN
+    UPDATE public.products p
+    SET stock = p.stock + held.quantity
+    FROM (
+      SELECT oi.product_id, SUM(oi.quantity - COALESCE(ret.quantity, 0)) AS quantity
+      FROM public.order_items oi
+      LEFT JOIN (
+        SELECT order_item_id, SUM(quantity) AS quantity
+        FROM public.order_return_items
+        GROUP BY order_item_id
+      ) AS ret ON ret.order_item_id = oi.id
+      WHERE oi.order_id = p_order_id AND oi.product_id IS NOT NULL
+      GROUP BY oi.product_id
+    ) AS held
+    WHERE p.id = held.product_id AND held.quantity > 0;
+  END IF;
+
+  UPDATE public.orders
+  SET voided_at = NOW(), voided_by = auth.uid(), void_reason = TRIM(p_reason)
+  WHERE id = p_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.void_order(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.void_order(UUID, TEXT) TO authenticated;
+
+-- A voided order is frozen: no payments, returns, amendments or status moves.
+-- Links cleared by ON DELETE SET NULL (customer, staff) are still allowed.
+CREATE OR REPLACE FUNCTION public.prevent_voided_order_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.voided_at IS NOT NULL AND (
+    NEW.status, NEW.payment_status, NEW.total_amount, NEW.paid_amount, NEW.refunded_amount,
+    NEW.credited_amount, NEW.voided_at
+  ) IS DISTINCT FROM (
+    OLD.status, OLD.payment_status, OLD.total_amount, OLD.paid_amount, OLD.refunded_amount,
+    OLD.credited_amount, OLD.voided_at
+  ) THEN
+    RAISE EXCEPTION 'Order % has been voided and cannot be changed', OLD.order_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_voided_orders_update
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_voided_order_changes();
+
+-- Deleting cascades away lines and payments, so it is only allowed where
+-- there is no history worth keeping. Any stock the draft held goes back.
+CREATE OR REPLACE FUNCTION public.restrict_order_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only administrators can delete orders; void the order instead';
+  END IF;
+  IF OLD.status <> 'pending' OR OLD.paid_amount > 0 OR OLD.invoice_number IS NOT NULL OR OLD.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only draft orders can be deleted; void order % instead', OLD.order_number;
+  END IF;
+
+  UPDATE public.products p
+  SET stock = p.stock + oi.quantity
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = OLD.id AND product_id IS NOT NULL
+    GROUP BY product_id
+  ) AS oi
+  WHERE p.id = oi.product_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER restrict_orders_delete
+  BEFORE DELETE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.restrict_order_delete();
+
+-- ===========================================
+-- 📊 BALANCES & SUMMARY WITHOUT VOIDED ORDERS
+-- ===========================================
+-- A voided order was never a sale: it is neither billed to the customer nor
+-- counted as revenue. The summary counts voided orders on a card of their own.
+
+CREATE OR REPLACE VIEW public.customer_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS customer_id,
+  c.name,
+  COUNT(o.id) FILTER (WHERE o.paid_amount < o.total_amount - o.credited_amount) AS open_orders,
+  COALESCE(SUM(o.total_amount - o.credited_amount), 0) AS total_billed,
+  COALESCE(SUM(o.paid_amount), 0) AS total_paid,
+  COALESCE(SUM(GREATEST(0, o.total_amount - o.credited_amount - o.paid_amount)), 0) AS outstanding
+FROM public.customers c
+JOIN public.orders o ON o.customer_id = c.id AND o.status <> 'cancelled' AND o.voided_at IS NULL
+GROUP BY c.id, c.name;
+
+DROP FUNCTION public.get_order_summary(JSONB);
+
+CREATE FUNCTION public.get_order_summary(p_payload JSONB)
+RETURNS TABLE (
+  total_orders BIGINT,
+  pending BIGINT,
+  processing BIGINT,
+  completed BIGINT,
+  cancelled BIGINT,
+  voided BIGINT,
+  revenue BIGINT,
+  walk_in_orders BIGINT,
+  walk_in_revenue BIGINT,
+  registered_orders BIGINT,
+  registered_revenue BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH filtered AS (
+    SELECT
+      o.customer_id,
+      o.status,
+      o.voided_at,
+      CASE
+        WHEN o.status <> 'cancelled' AND o.voided_at IS NULL THEN o.total_amount - o.refunded_amount - o.credited_amount
+        ELSE 0
+      END AS net_revenue
+    FROM public.orders o
+    WHERE (
+        NULLIF(p_payload->>'q', '') IS NULL
+        OR o.order_number ILIKE '%' || (p_payload->>'q') || '%'
+        OR o.walk_in_phone ILIKE '%' || (p_payload->>'q') || '%'
+        OR EXISTS (
+          SELECT 1 FROM public.customers c
+          WHERE c.id = o.customer_id AND c.name ILIKE '%' || (p_payload->>'q') || '%'
+        )
+      )
+      AND (p_payload->>'customer_type' IS DISTINCT FROM 'walk_in' OR o.customer_id IS NULL)
+      AND (p_payload->>'customer_type' IS DISTINCT FROM 'registered' OR o.customer_id IS NOT NULL)
+      AND (NULLIF(p_payload->>'status', '') IS NULL OR o.status = p_payload->>'status')
+      AND (NULLIF(p_payload->>'payment_status', '') IS NULL OR o.payment_status = p_payload->>'payment_status')
+      AND (NULLIF(p_payload->>'payment_method', '') IS NULL OR o.payment_method = p_payload->>'payment_method')
+      AND (NULLIF(p_payload->>'created_from', '') IS NULL OR o.created_at >= (p_payload->>'created_from')::TIMESTAMPTZ)
+      AND (NULLIF(p_payload->>'created_to', '') IS NULL OR o.created_at <= (p_payload->>'created_to')::TIMESTAMPTZ)
+  )
+  SELECT
+    COUNT(*),
+    COUNT(*) FILTER (WHERE status = 'pending'),
+    COUNT(*) FILTER (WHERE status = 'processing'),
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'cancelled'),
+    COUNT(*) FILTER (WHERE voided_at IS NOT NULL),
+    COALESCE(SUM(net_revenue), 0)::BIGINT,
+    COUNT(*) FILTER (WHERE customer_id IS NULL),
+    COALESCE(SUM(net_revenue) FILTER (WHERE customer_id IS NULL), 0)::BIGINT,
+    COUNT(*) FILTER (WHERE customer_id IS NOT NULL),
+    COALESCE(SUM(net_revenue) FILTER (WHERE customer_id IS NOT NULL), 0)::BIGINT
+  FROM filtered;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_order_summary(JSONB) TO authenticated;
@@ -0,0 +1,1086 @@
+-- ===========================================
+-- 📒 STOCK MOVEMENTS
+-- ===========================================
+-- Every change to a product's stock is a row in stock_movements, and
+-- products.stock / quarantine_stock are only ever changed by inserting one.
+-- Movements are append-only: a mistake is corrected by another movement, so
+-- the history always adds up to the stock on hand.
+
+CREATE TABLE public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN (
+    'sale', 'return', 'purchase_receipt', 'adjustment', 'transfer', 'write_off'
+  )),
+  -- Shelf stock or returns held back in quarantine
+  bucket TEXT NOT NULL DEFAULT 'sellable' CHECK (bucket IN ('sellable', 'quarantine')),
+  -- Signed, in the product's base unit
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  -- Level of the bucket once this movement was applied
+  balance_after INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  -- The document behind the movement, e.g. ('order', id, 'ORD-...')
+  reference_type TEXT,
+  reference_id UUID,
+  reference_number TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_stock_movements_product ON public.stock_movements(product_id, created_at DESC);
+CREATE INDEX idx_stock_movements_reference ON public.stock_movements(reference_type, reference_id);
+
+-- What is on hand today becomes the first entry of each product's history
+INSERT INTO public.stock_movements (product_id, movement_type, bucket, quantity, balance_after, reason, created_by)
+SELECT id, 'adjustment', 'sellable', stock, stock, 'Opening balance', NULL
+FROM public.products
+WHERE COALESCE(stock, 0) <> 0;
+
+INSERT INTO public.stock_movements (product_id, movement_type, bucket, quantity, balance_after, reason, created_by)
+SELECT id, 'adjustment', 'quarantine', quarantine_stock, quarantine_stock, 'Opening balance', NULL
+FROM public.products
+WHERE COALESCE(quarantine_stock, 0) <> 0;
+
+-- ===========================================
+-- ⚙️ LEDGER TRIGGERS
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = NEW.product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  NEW.balance_after := CASE
+    WHEN NEW.bucket = 'quarantine' THEN COALESCE(v_product.quarantine_stock, 0)
+    ELSE COALESCE(v_product.stock, 0)
+  END + NEW.quantity;
+  IF NEW.balance_after < 0 THEN
+    RAISE EXCEPTION 'Not enough % stock of % (% on hand)',
+      CASE WHEN NEW.bucket = 'quarantine' THEN 'quarantined' ELSE 'sellable' END,
+      v_product.name,
+      NEW.balance_after - NEW.quantity;
+  END IF;
+
+  -- Lets guard_product_stock() tell this update apart from a direct edit
+  PERFORM set_config('app.stock_movement', 'on', true);
+  IF NEW.bucket = 'quarantine' THEN
+    UPDATE public.products SET quarantine_stock = NEW.balance_after WHERE id = NEW.product_id;
+  ELSE
+    UPDATE public.products SET stock = NEW.balance_after WHERE id = NEW.product_id;
+  END IF;
+  PERFORM set_config('app.stock_movement', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Rows only go away with their product; clearing a deleted user is allowed
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = OLD.product_id) THEN
+      RETURN OLD;
+    END IF;
+  ELSIF NEW.created_by IS NULL AND to_jsonb(NEW) - 'created_by' = to_jsonb(OLD) - 'created_by' THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'Stock movements cannot be changed; record a correcting movement instead';
+END;
+$$;
+
+CREATE TRIGGER prevent_stock_movement_changes
+  BEFORE UPDATE OR DELETE ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_stock_movement_changes();
+
+CREATE OR REPLACE FUNCTION public.guard_product_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.stock_movement', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.stock, 0) <> 0 OR COALESCE(NEW.quarantine_stock, 0) <> 0 THEN
+      RAISE EXCEPTION 'New products start without stock; record the opening stock as a movement';
+    END IF;
+  ELSIF (NEW.stock, NEW.quarantine_stock) IS DISTINCT FROM (OLD.stock, OLD.quarantine_stock) THEN
+    RAISE EXCEPTION 'Stock of % can only change through a stock movement', OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_product_stock
+  BEFORE INSERT OR UPDATE OF stock, quarantine_stock ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_stock();
+
+-- ===========================================
+-- ✍️ MANUAL MOVEMENTS
+-- ===========================================
+-- p_payload mirrors StockMovementInput in app/actions/stock.ts:
+-- {
+--   "product_id": uuid,
+--   "movement_type": "purchase_receipt" | "adjustment" | "transfer" | "write_off",
+--   "quantity": int,                       -- base units; signed for adjustments only
+--   "bucket": "sellable" | "quarantine",   -- write-offs: where the stock is taken from
+--   "reason": text,
+--   "reference_number": text | null        -- supplier delivery note, report number, ...
+-- }
+-- Transfers move quarantined returns back onto the shelf, as a pair of rows.
+-- Sales and returns are only ever recorded by their order and return.
+
+CREATE OR REPLACE FUNCTION public.record_stock_movement(p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id UUID := (p_payload->>'product_id')::UUID;
+  v_type TEXT := p_payload->>'movement_type';
+  v_quantity INTEGER := COALESCE((p_payload->>'quantity')::INTEGER, 0);
+  v_bucket TEXT := COALESCE(NULLIF(p_payload->>'bucket', ''), 'sellable');
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reason', '')), '');
+  v_reference TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reference_number', '')), '');
+  v_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF v_type IS NULL OR v_type NOT IN ('purchase_receipt', 'adjustment', 'transfer', 'write_off') THEN
+    RAISE EXCEPTION 'Sales and returns are recorded through their orders';
+  END IF;
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+  IF v_quantity = 0 OR (v_type <> 'adjustment' AND v_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  IF v_type = 'transfer' THEN
+    INSERT INTO public.stock_movements (
+      product_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES
+      (v_product_id, 'transfer', 'quarantine', -v_quantity, v_reason, 'transfer', v_transfer_id, v_reference),
+      (v_product_id, 'transfer', 'sellable', v_quantity, v_reason, 'transfer', v_transfer_id, v_reference);
+  ELSE
+    INSERT INTO public.stock_movements (product_id, movement_type, bucket, quantity, reason, reference_number)
+    VALUES (
+      v_product_id,
+      v_type,
+      CASE WHEN v_type = 'write_off' THEN v_bucket ELSE 'sellable' END,
+      CASE WHEN v_type = 'write_off' THEN -v_quantity ELSE v_quantity END,
+      v_reason,
+      v_reference
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(JSONB) TO authenticated;
+
+-- ===========================================
+-- 🆕 NEW PRODUCTS
+-- ===========================================
+-- A product, its units and its opening stock are created together, so a
+-- failed unit or movement leaves no half-made product behind.
+-- p_payload mirrors what createProduct in app/actions/products.ts reads from
+-- the form:
+-- {
+--   "name": text, "description": text | null, "category_id": uuid | null,
+--   "sku": text, "price": int, "cost": int | null, "min_stock": int,
+--   "unit": text, "tax_rate_id": uuid | null, "barcodes": [text],
+--   "status": text, "parent_id": uuid | null, "variant_name": text | null,
+--   "units": [{ "name": text, "factor": int, "price": int | null,
+--               "sellable": bool, "is_purchase_unit": bool, "is_stock_unit": bool }],
+--   "opening_stock": int                 -- base units already on the shelf
+-- }
+
+CREATE OR REPLACE FUNCTION public.create_product(p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id UUID;
+  v_opening_stock INTEGER := COALESCE((p_payload->>'opening_stock')::INTEGER, 0);
+BEGIN
+  INSERT INTO public.products (
+    name, description, category_id, sku, price, cost, min_stock, unit,
+    tax_rate_id, barcodes, status, parent_id, variant_name
+  )
+  VALUES (
+    p_payload->>'name',
+    p_payload->>'description',
+    NULLIF(p_payload->>'category_id', '')::UUID,
+    p_payload->>'sku',
+    (p_payload->>'price')::BIGINT,
+    (p_payload->>'cost')::BIGINT,
+    COALESCE((p_payload->>'min_stock')::INTEGER, 0),
+    COALESCE(NULLIF(p_payload->>'unit', ''), 'unit'),
+    NULLIF(p_payload->>'tax_rate_id', '')::UUID,
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_payload->'barcodes', '[]'::JSONB))),
+    COALESCE(NULLIF(p_payload->>'status', ''), 'active'),
+    NULLIF(p_payload->>'parent_id', '')::UUID,
+    p_payload->>'variant_name'
+  )
+  RETURNING id INTO v_product_id;
+
+  INSERT INTO public.product_units (product_id, name, factor, price, sellable, is_purchase_unit, is_stock_unit)
+  SELECT
+    v_product_id,
+    TRIM(u->>'name'),
+    (u->>'factor')::INTEGER,
+    (u->>'price')::BIGINT,
+    COALESCE((u->>'sellable')::BOOLEAN, TRUE),
+    COALESCE((u->>'is_purchase_unit')::BOOLEAN, FALSE),
+    COALESCE((u->>'is_stock_unit')::BOOLEAN, FALSE)
+  FROM jsonb_array_elements(COALESCE(p_payload->'units', '[]'::JSONB)) AS u;
+
+  -- Products start empty; what is already on the shelf enters through the ledger
+  IF v_opening_stock > 0 THEN
+    PERFORM public.record_stock_movement(jsonb_build_object(
+      'product_id', v_product_id,
+      'movement_type', 'adjustment',
+      'quantity', v_opening_stock,
+      'reason', 'Opening stock'
+    ));
+  END IF;
+
+  RETURN v_product_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_product(JSONB) TO authenticated;
+
+-- ===========================================
+-- 📦 ORDER LINE STOCK
+-- ===========================================
+-- Orders, returns, amendments, voids and cancellations all move stock one
+-- order line at a time through these two, so what a line took is handled in
+-- one place.
+
+-- Takes base units of a line's product off the shelf
+CREATE OR REPLACE FUNCTION public.take_order_item_stock(
+  p_order_item_id UUID,
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_order_id UUID,
+  p_order_number TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_product_id IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reason, reference_type, reference_id, reference_number)
+  VALUES (p_product_id, 'sale', -p_quantity, p_reason, 'order', p_order_id, p_order_number);
+END;
+$$;
+
+-- Puts base units of a line back, as a sale reversed or a return.
+-- p_quantity is BIGINT because returns and voids pass quantities derived from SUM().
+CREATE OR REPLACE FUNCTION public.release_order_item_stock(
+  p_order_item_id UUID,
+  p_product_id UUID,
+  p_quantity BIGINT,
+  p_movement_type TEXT,
+  p_bucket TEXT,
+  p_reason TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_reference_number TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_product_id IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+  )
+  VALUES (
+    p_product_id, p_movement_type, p_bucket, p_quantity, p_reason, p_reference_type, p_reference_id, p_reference_number
+  );
+END;
+$$;
+
+-- ===========================================
+-- 🔁 ORDERS AND RETURNS MOVE STOCK THROUGH THE LEDGER
+-- ===========================================
+-- Same functions as 022; stock now moves line by line through the helpers above.
+
+CREATE OR REPLACE FUNCTION public.create_order_with_items(p_payload JSONB)
+RETURNS TABLE (order_id UUID, order_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_customer_id UUID := NULLIF(p_payload->>'customer_id', '')::UUID;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_payments JSONB := COALESCE(p_payload->'payments', '[]'::JSONB);
+  v_promo_code TEXT := UPPER(TRIM(COALESCE(p_payload->>'promo_code', '')));
+  v_promo public.promo_codes%ROWTYPE;
+  v_inclusive BOOLEAN;
+  v_max_discount NUMERIC;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+  v_approved_by UUID;
+  v_order_id UUID;
+  v_order_number TEXT;
+  v_payment_method TEXT;
+  v_subtotal BIGINT;
+  v_manual_order_discount BIGINT := 0;
+  v_order_discount BIGINT := 0;
+  v_product RECORD;
+  v_line RECORD;
+  v_client_reference UUID := NULLIF(p_payload->>'client_reference', '')::UUID;
+  v_walk_in_phone TEXT := NULLIF(TRIM(COALESCE(p_payload->>'walk_in_phone', '')), '');
+BEGIN
+  -- A retried sale hands back the order its first attempt created
+  IF v_client_reference IS NOT NULL THEN
+    RETURN QUERY
+    SELECT o.id, o.order_number FROM public.orders o WHERE o.client_reference = v_client_reference;
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  -- A phone number is only kept for walk-in sales; registered customers have their own
+  IF v_customer_id IS NOT NULL THEN
+    v_walk_in_phone := NULL;
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items in order';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NULLIF(i->>'unit_id', '') IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.product_units u
+        WHERE u.id = (i->>'unit_id')::UUID
+          AND u.product_id = (i->>'product_id')::UUID
+          AND u.sellable
+      )
+  ) THEN
+    RAISE EXCEPTION 'Unit is not sold for this product';
+  END IF;
+
+  -- Lock every product in the cart and validate stock against the summed base quantity
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, req.quantity
+    FROM (
+      SELECT (i->>'product_id')::UUID AS product_id, SUM((i->>'quantity')::INTEGER * COALESCE(u.factor, 1)) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      LEFT JOIN public.product_units u ON u.id = NULLIF(i->>'unit_id', '')::UUID
+      GROUP BY 1
+    ) AS req
+    JOIN public.products p ON p.id = req.product_id
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE((SELECT prices_include_tax FROM public.store_settings), TRUE),
+    COALESCE((SELECT max_discount_percent FROM public.store_settings), 0)
+  INTO v_inclusive, v_max_discount;
+
+  FOR v_line IN
+    SELECT
+      p.name,
+      COALESCE(u.price, p.price * COALESCE(u.factor, 1)) AS price,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      COALESCE((i->>'price_override')::BOOLEAN, FALSE) AS price_override,
+      (i->>'quantity')::INTEGER AS quantity,
+      GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    LEFT JOIN public.product_units u ON u.id = NULLIF(i->>'unit_id', '')::UUID
+  LOOP
+    IF v_line.price_override THEN
+      IF v_line.unit_price IS NULL OR v_line.unit_price < 0 THEN
+        RAISE EXCEPTION 'Override price for % is invalid', v_line.name;
+      END IF;
+      IF v_line.unit_price <> v_line.price THEN
+        v_reasons := v_reasons || format('%s priced at %s instead of %s', v_line.name, v_line.unit_price, v_line.price);
+      END IF;
+    ELSIF v_line.unit_price IS NOT NULL AND v_line.unit_price <> v_line.price THEN
+      RAISE EXCEPTION 'The price of % has changed to %; refresh the cart and try again', v_line.name, v_line.price;
+    END IF;
+
+    IF v_line.manual_discount > ROUND(
+      CASE WHEN v_line.price_override THEN v_line.unit_price ELSE v_line.price END * v_line.quantity * v_max_discount / 100
+    ) THEN
+      v_reasons := v_reasons || format('%s discounted by %s', v_line.name, v_line.manual_discount);
+    END IF;
+  END LOOP;
+
+  -- Summary method for list filters: the single tender used, or 'split'
+  SELECT CASE WHEN COUNT(DISTINCT p->>'method') > 1 THEN 'split' ELSE MIN(p->>'method') END
+  INTO v_payment_method
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  INSERT INTO public.orders (
+    customer_id, total_amount, discount, tax, status, payment_status, payment_method,
+    prices_include_tax, notes, client_reference, offline_sold_at, walk_in_phone
+  )
+  VALUES (
+    v_customer_id, 0, 0, 0, 'completed', 'unpaid', v_payment_method,
+    v_inclusive, NULLIF(p_payload->>'notes', ''), v_client_reference, NULLIF(p_payload->>'offline_sold_at', '')::TIMESTAMPTZ, v_walk_in_phone
+  )
+  RETURNING id, order_number INTO v_order_id, v_order_number;
+
+  -- Overridden prices replace rule pricing for that line
+  INSERT INTO public.order_items (
+    order_id, product_id, product_name, quantity, unit_name, unit_factor, list_price, unit_price, price_overridden,
+    discount, price_rule_id, subtotal, tax_rate
+  )
+  SELECT
+    v_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.unit_name,
+    line.unit_factor,
+    line.list_price,
+    line.unit_price,
+    line.unit_price <> line.list_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id)
+  FROM (
+    SELECT
+      priced.*,
+      rule.rule_id AS price_rule_id,
+      LEAST(priced.unit_price * priced.quantity, COALESCE(rule.discount, 0) + priced.manual_discount) AS discount
+    FROM (
+      SELECT
+        p.id AS product_id,
+        p.name AS product_name,
+        (i->>'quantity')::INTEGER AS quantity,
+        u.name AS unit_name,
+        COALESCE(u.factor, 1) AS unit_factor,
+        COALESCE(u.price, p.price * COALESCE(u.factor, 1)) AS list_price,
+        CASE
+          WHEN COALESCE((i->>'price_override')::BOOLEAN, FALSE) THEN (i->>'unit_price')::BIGINT
+          ELSE COALESCE(u.price, p.price * COALESCE(u.factor, 1))
+        END AS unit_price,
+        GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+      FROM jsonb_array_elements(v_items) AS i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+      LEFT JOIN public.product_units u ON u.id = NULLIF(i->>'unit_id', '')::UUID
+    ) AS priced
+    LEFT JOIN LATERAL public.best_price_rule(priced.product_id, priced.unit_price, priced.quantity) AS rule
+      ON priced.unit_price = priced.list_price
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = v_order_id;
+
+  IF p_payload ? 'order_discount' AND jsonb_typeof(p_payload->'order_discount') = 'object' THEN
+    v_manual_order_discount := public.discount_amount(
+      p_payload->'order_discount'->>'type',
+      (p_payload->'order_discount'->>'value')::NUMERIC,
+      v_subtotal
+    );
+    IF v_manual_order_discount > ROUND(v_subtotal * v_max_discount / 100) THEN
+      v_reasons := v_reasons || format('Order discounted by %s', v_manual_order_discount);
+    END IF;
+  END IF;
+  v_order_discount := v_manual_order_discount;
+
+  v_approved_by := public.require_approval(v_reasons, p_payload->'approval');
+
+  IF v_promo_code <> '' THEN
+    v_promo := public.redeem_promo_code(v_promo_code, v_subtotal);
+    v_order_discount := v_order_discount + public.discount_amount(v_promo.discount_type, v_promo.value, v_subtotal);
+  END IF;
+
+  v_order_discount := LEAST(v_order_discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(v_order_id, v_order_discount, v_inclusive);
+
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    promo_code_id = v_promo.id,
+    approved_by = v_approved_by,
+    approval_reason = NULLIF(array_to_string(v_reasons, '; '), ''),
+    tax = totals.tax,
+    total_amount = v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE totals.tax END
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = v_order_id
+  ) AS totals
+  WHERE o.id = v_order_id;
+
+  PERFORM public.take_order_item_stock(id, product_id, quantity * unit_factor, NULL, v_order_id, v_order_number)
+  FROM public.order_items
+  WHERE order_id = v_order_id
+  ORDER BY created_at, id;
+
+  -- There is no account to carry a balance, so walk-in sales are settled at the till
+  IF v_customer_id IS NULL AND (
+    SELECT COALESCE(SUM((p->>'amount')::BIGINT), 0) FROM jsonb_array_elements(v_payments) AS p
+  ) < (SELECT total_amount FROM public.orders WHERE id = v_order_id) THEN
+    RAISE EXCEPTION 'Walk-in sales must be paid in full';
+  END IF;
+
+  -- Each tender goes through the ledger trigger, which derives payment_status
+  INSERT INTO public.payments (order_id, method, amount, reference)
+  SELECT v_order_id, p->>'method', (p->>'amount')::BIGINT, NULLIF(p->>'reference', '')
+  FROM jsonb_array_elements(v_payments) AS p
+  WHERE COALESCE((p->>'amount')::BIGINT, 0) > 0;
+
+  RETURN QUERY SELECT v_order_id, v_order_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_order_return(p_payload JSONB)
+RETURNS TABLE (return_id UUID, return_number TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_restock_to TEXT := COALESCE(NULLIF(p_payload->>'restock_to', ''), 'sellable');
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_line RECORD;
+  v_line_value BIGINT;
+  v_lines_value BIGINT := 0;
+  v_refund BIGINT;
+  v_credit BIGINT;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = (p_payload->>'order_id')::UUID FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed orders can be returned';
+  END IF;
+  IF COALESCE(TRIM(p_payload->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A return reason is required';
+  END IF;
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  INSERT INTO public.order_returns (order_id, reason, restock_to, refund_method, created_by)
+  VALUES (v_order.id, TRIM(p_payload->>'reason'), v_restock_to, NULLIF(p_payload->>'refund_method', ''), auth.uid())
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.order_items oi
+      WHERE oi.id = (i->>'order_item_id')::UUID AND oi.order_id = v_order.id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Item does not belong to this order';
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.product_name,
+      oi.quantity AS sold,
+      oi.unit_factor,
+      GREATEST(0, oi.subtotal - oi.order_discount)
+        + CASE WHEN v_order.prices_include_tax THEN 0 ELSE oi.tax_amount END AS line_total,
+      req.quantity,
+      COALESCE((
+        SELECT SUM(ri.quantity) FROM public.order_return_items ri WHERE ri.order_item_id = oi.id
+      ), 0) AS already_returned
+    FROM (
+      SELECT (i->>'order_item_id')::UUID AS order_item_id, SUM((i->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(v_items) AS i
+      GROUP BY 1
+    ) AS req
+    JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = v_order.id
+    ORDER BY oi.id
+    FOR UPDATE OF oi
+  LOOP
+    IF v_line.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+    IF v_line.quantity > v_line.sold - v_line.already_returned THEN
+      RAISE EXCEPTION 'Cannot return more % than were sold', v_line.product_name;
+    END IF;
+
+    v_line_value := ROUND(v_line.line_total::NUMERIC * v_line.quantity / v_line.sold);
+    v_lines_value := v_lines_value + v_line_value;
+
+    INSERT INTO public.order_return_items (return_id, order_item_id, product_id, quantity, refund_amount)
+    VALUES (v_return_id, v_line.id, v_line.product_id, v_line.quantity, v_line_value);
+
+    IF v_line.product_id IS NOT NULL THEN
+      PERFORM public.release_order_item_stock(
+        v_line.id, v_line.product_id, v_line.quantity * v_line.unit_factor, 'return', v_restock_to,
+        TRIM(p_payload->>'reason'), 'return', v_return_id, v_return_number
+      );
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.order_return_items WHERE return_id = v_return_id) THEN
+    RAISE EXCEPTION 'No items selected for return';
+  END IF;
+
+  -- Goods returned against an unpaid balance come off what is still owed; only
+  -- the rest can be refunded, and by default all of it is
+  v_credit := LEAST(v_lines_value, GREATEST(0, v_order.total_amount - v_order.credited_amount - v_order.paid_amount));
+  v_refund := COALESCE((p_payload->>'refund_amount')::BIGINT, v_lines_value - v_credit);
+  IF v_refund < 0 OR v_refund > v_lines_value - v_credit THEN
+    RAISE EXCEPTION 'Refund must be between 0 and %, the value of the returned items less the unpaid balance', v_lines_value - v_credit;
+  END IF;
+  IF v_order.refunded_amount + v_refund > v_order.paid_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the amount paid';
+  END IF;
+
+  UPDATE public.order_returns SET refund_amount = v_refund, credit_amount = v_credit WHERE id = v_return_id;
+
+  PERFORM set_config('app.status_note', 'Refund ' || v_return_number, true);
+  UPDATE public.orders
+  SET
+    refunded_amount = refunded_amount + v_refund,
+    credited_amount = credited_amount + v_credit,
+    payment_status = CASE
+      WHEN v_refund > 0 AND refunded_amount + credited_amount + v_refund + v_credit >= total_amount THEN 'refunded'
+      WHEN v_credit > 0 THEN public.derive_payment_status(total_amount - credited_amount - v_credit, paid_amount)
+      ELSE payment_status
+    END
+  WHERE id = v_order.id;
+  PERFORM set_config('app.status_note', '', true);
+
+  RETURN QUERY SELECT v_return_id, v_return_number;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_order_status_side_effects()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM public.release_order_item_stock(
+      id, product_id, quantity * unit_factor, 'sale', 'sellable', 'Order cancelled', 'order', NEW.id, NEW.order_number
+    )
+    FROM public.order_items
+    WHERE order_id = NEW.id AND product_id IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.amend_order_items(p_order_id UUID, p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_order public.orders%ROWTYPE;
+  v_items JSONB := COALESCE(p_payload->'items', '[]'::JSONB);
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reason', '')), '');
+  v_old JSONB;
+  v_inclusive BOOLEAN;
+  v_max_discount NUMERIC;
+  v_reasons TEXT[] := ARRAY[]::TEXT[];
+  v_approved_by UUID;
+  v_subtotal BIGINT;
+  v_order_discount BIGINT;
+  v_total BIGINT;
+  v_payment_status TEXT;
+  v_changes JSONB;
+  v_amendment_id UUID;
+  v_product RECORD;
+  v_line RECORD;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  -- Till sales complete at checkout; one still owing money can be corrected
+  IF NOT (v_order.status IN ('pending', 'processing')
+          OR (v_order.status = 'completed' AND v_order.payment_status IN ('unpaid', 'partial'))) THEN
+    RAISE EXCEPTION 'Only open orders, or completed ones not yet fully paid, can be edited';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.order_returns WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Orders with returns cannot be edited';
+  END IF;
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to edit an order';
+  END IF;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'An order needs at least one item; cancel it instead';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE COALESCE((i->>'quantity')::INTEGER, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Item quantity must be greater than zero';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE NOT EXISTS (SELECT 1 FROM public.products p WHERE p.id = (i->>'product_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Kept lines must belong to this order, once each, for the same product
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_items) AS i
+    WHERE i->>'order_item_id' IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.order_items oi
+        WHERE oi.id = (i->>'order_item_id')::UUID
+          AND oi.order_id = p_order_id
+          AND oi.product_id = (i->>'product_id')::UUID
+      )
+  ) OR (
+    SELECT COUNT(*) <> COUNT(DISTINCT i->>'order_item_id')
+    FROM jsonb_array_elements(v_items) AS i
+    WHERE i->>'order_item_id' IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Order line does not belong to this order';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi)), '[]'::JSONB) INTO v_old
+  FROM public.order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  -- Lock every product whose quantity changes; only increases need stock
+  FOR v_product IN
+    SELECT p.id, p.name, p.stock, delta.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM (
+        SELECT (i->>'product_id')::UUID AS product_id, (i->>'quantity')::INTEGER * COALESCE(prev.unit_factor, 1) AS quantity
+        FROM jsonb_array_elements(v_items) AS i
+        LEFT JOIN public.order_items prev ON prev.id = (i->>'order_item_id')::UUID
+        UNION ALL
+        SELECT product_id, -quantity * unit_factor FROM public.order_items WHERE order_id = p_order_id AND product_id IS NOT NULL
+      ) AS moves
+      GROUP BY product_id
+    ) AS delta
+    JOIN public.products p ON p.id = delta.product_id
+    WHERE delta.quantity <> 0
+    ORDER BY p.id
+    FOR UPDATE OF p
+  LOOP
+    IF v_product.quantity > COALESCE(v_product.stock, 0) THEN
+      RAISE EXCEPTION 'Insufficient stock for product %', v_product.name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE((SELECT max_discount_percent FROM public.store_settings), 0)
+  INTO v_max_discount;
+  -- Tax stays on the basis the order was sold with
+  v_inclusive := v_order.prices_include_tax;
+
+  FOR v_line IN
+    SELECT
+      p.name,
+      COALESCE(prev.unit_price, p.price) AS reference_price,
+      prev.discount AS old_discount,
+      (i->>'unit_price')::BIGINT AS unit_price,
+      COALESCE((i->>'price_override')::BOOLEAN, FALSE) AS price_override,
+      (i->>'quantity')::INTEGER AS quantity,
+      GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount
+    FROM jsonb_array_elements(v_items) AS i
+    JOIN public.products p ON p.id = (i->>'product_id')::UUID
+    LEFT JOIN public.order_items prev ON prev.id = (i->>'order_item_id')::UUID
+  LOOP
+    IF v_line.price_override THEN
+      IF v_line.unit_price IS NULL OR v_line.unit_price < 0 THEN
+        RAISE EXCEPTION 'Override price for % is invalid', v_line.name;
+      END IF;
+      IF v_line.unit_price <> v_line.reference_price THEN
+        v_reasons := v_reasons || format('%s priced at %s instead of %s', v_line.name, v_line.unit_price, v_line.reference_price);
+      END IF;
+    ELSIF v_line.unit_price IS NOT NULL AND v_line.unit_price <> v_line.reference_price THEN
+      RAISE EXCEPTION 'The price of % has changed to %; reload the order and try again', v_line.name, v_line.reference_price;
+    END IF;
+
+    IF v_line.manual_discount > ROUND(
+      CASE WHEN v_line.price_override THEN v_line.unit_price ELSE v_line.reference_price END * v_line.quantity * v_max_discount / 100
+    ) AND (v_line.old_discount IS NULL OR v_line.manual_discount > v_line.old_discount) THEN
+      v_reasons := v_reasons || format('%s discounted by %s', v_line.name, v_line.manual_discount);
+    END IF;
+  END LOOP;
+
+  v_approved_by := public.require_approval(v_reasons, p_payload->'approval');
+
+  DELETE FROM public.order_items WHERE order_id = p_order_id;
+
+  -- Kept lines keep their id, list price and position in the order
+  INSERT INTO public.order_items (
+    id, order_id, product_id, product_name, quantity, unit_name, unit_factor, list_price, unit_price, price_overridden,
+    discount, price_rule_id, subtotal, tax_rate, created_at
+  )
+  SELECT
+    line.id,
+    p_order_id,
+    line.product_id,
+    line.product_name,
+    line.quantity,
+    line.unit_name,
+    line.unit_factor,
+    line.list_price,
+    line.unit_price,
+    line.unit_price <> line.list_price,
+    line.discount,
+    line.price_rule_id,
+    line.unit_price * line.quantity - line.discount,
+    public.product_tax_rate(line.product_id),
+    line.created_at
+  FROM (
+    SELECT
+      priced.*,
+      rule.rule_id AS price_rule_id,
+      LEAST(priced.unit_price * priced.quantity, COALESCE(rule.discount, 0) + priced.manual_discount) AS discount
+    FROM (
+      SELECT
+        COALESCE(prev.id, gen_random_uuid()) AS id,
+        p.id AS product_id,
+        COALESCE(prev.product_name, p.name) AS product_name,
+        (i->>'quantity')::INTEGER AS quantity,
+        prev.unit_name,
+        COALESCE(prev.unit_factor, 1) AS unit_factor,
+        COALESCE(prev.list_price, p.price) AS list_price,
+        CASE
+          WHEN COALESCE((i->>'price_override')::BOOLEAN, FALSE) THEN (i->>'unit_price')::BIGINT
+          ELSE COALESCE(prev.unit_price, p.price)
+        END AS unit_price,
+        GREATEST(0, COALESCE((i->>'discount')::BIGINT, 0)) AS manual_discount,
+        COALESCE(prev.created_at, NOW()) AS created_at
+      FROM jsonb_array_elements(v_items) AS i
+      JOIN public.products p ON p.id = (i->>'product_id')::UUID
+      LEFT JOIN jsonb_to_recordset(v_old) AS prev(
+        id UUID, product_name TEXT, unit_name TEXT, unit_factor INTEGER, list_price BIGINT, unit_price BIGINT,
+        created_at TIMESTAMPTZ
+      ) ON prev.id = (i->>'order_item_id')::UUID
+    ) AS priced
+    LEFT JOIN LATERAL public.best_price_rule(priced.product_id, priced.unit_price, priced.quantity) AS rule
+      ON priced.unit_price = priced.list_price
+  ) AS line;
+
+  SELECT COALESCE(SUM(subtotal), 0) INTO v_subtotal FROM public.order_items WHERE order_id = p_order_id;
+  v_order_discount := LEAST(v_order.discount, v_subtotal);
+
+  PERFORM public.spread_order_discount(p_order_id, v_order_discount, v_inclusive);
+
+  SELECT v_subtotal - v_order_discount + CASE WHEN v_inclusive THEN 0 ELSE COALESCE(SUM(tax_amount), 0) END
+  INTO v_total
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  -- Money already taken is never silently reduced; that goes through a return
+  IF v_order.paid_amount > v_total THEN
+    RAISE EXCEPTION 'The new total % is less than the % already paid; return the items instead', v_total, v_order.paid_amount;
+  END IF;
+
+  v_payment_status := public.derive_payment_status(v_total, v_order.paid_amount);
+  IF v_payment_status <> v_order.payment_status
+     AND NOT public.order_status_transition_allowed('payment_status', v_order.payment_status, v_payment_status) THEN
+    RAISE EXCEPTION 'This order is fully paid; sell the extra items as a new order';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_name', COALESCE(cur.product_name, prev.product_name),
+    'from_quantity', COALESCE(prev.quantity, 0),
+    'to_quantity', COALESCE(cur.quantity, 0),
+    'from_unit_price', prev.unit_price,
+    'to_unit_price', cur.unit_price,
+    'from_subtotal', COALESCE(prev.subtotal, 0),
+    'to_subtotal', COALESCE(cur.subtotal, 0)
+  ) ORDER BY COALESCE(cur.created_at, prev.created_at)), '[]'::JSONB)
+  INTO v_changes
+  FROM (SELECT * FROM public.order_items WHERE order_id = p_order_id) AS cur
+  FULL JOIN jsonb_to_recordset(v_old) AS prev(
+    id UUID, product_name TEXT, quantity INTEGER, unit_price BIGINT, subtotal BIGINT, created_at TIMESTAMPTZ
+  ) ON prev.id = cur.id
+  WHERE prev.id IS NULL OR cur.id IS NULL
+     OR prev.quantity <> cur.quantity
+     OR prev.unit_price <> cur.unit_price
+     OR prev.subtotal <> cur.subtotal;
+
+  IF jsonb_array_length(v_changes) = 0 THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  PERFORM set_config('app.status_note', 'Order amended: ' || v_reason, true);
+  UPDATE public.orders o
+  SET
+    discount = v_order_discount,
+    tax = totals.tax,
+    total_amount = v_total,
+    payment_status = v_payment_status
+  FROM (
+    SELECT COALESCE(SUM(tax_amount), 0) AS tax FROM public.order_items WHERE order_id = p_order_id
+  ) AS totals
+  WHERE o.id = p_order_id;
+  PERFORM set_config('app.status_note', '', true);
+
+  -- Only the difference moves: removed or reduced lines go back on the shelf
+  -- before increased and added lines are taken off it
+  FOR v_line IN
+    SELECT
+      COALESCE(cur.id, prev.id) AS id,
+      COALESCE(cur.product_id, prev.product_id) AS product_id,
+      COALESCE(cur.quantity * cur.unit_factor, 0) - COALESCE(prev.quantity * prev.unit_factor, 0) AS quantity
+    FROM (SELECT * FROM public.order_items WHERE order_id = p_order_id) AS cur
+    FULL JOIN jsonb_to_recordset(v_old) AS prev(id UUID, product_id UUID, quantity INTEGER, unit_factor INTEGER)
+      ON prev.id = cur.id
+    ORDER BY 3
+  LOOP
+    IF v_line.quantity < 0 THEN
+      PERFORM public.release_order_item_stock(
+        v_line.id, v_line.product_id, -v_line.quantity, 'sale', 'sellable',
+        'Order amended: ' || v_reason, 'order', p_order_id, v_order.order_number
+      );
+    ELSIF v_line.quantity > 0 THEN
+      PERFORM public.take_order_item_stock(
+        v_line.id, v_line.product_id, v_line.quantity, 'Order amended: ' || v_reason, p_order_id, v_order.order_number
+      );
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.order_amendments (
+    order_id, reason, changes, total_before, total_after, approved_by, approval_reason
+  )
+  VALUES (
+    p_order_id, v_reason, v_changes, v_order.total_amount, v_total,
+    v_approved_by, NULLIF(array_to_string(v_reasons, '; '), '')
+  )
+  RETURNING id INTO v_amendment_id;
+
+  RETURN v_amendment_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_order(p_order_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Order % has already been voided', v_order.order_number;
+  END IF;
+  IF NULLIF(TRIM(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void an order';
+  END IF;
+  -- The drawer has to give the money back first, through a return
+  IF v_order.paid_amount > v_order.refunded_amount THEN
+    RAISE EXCEPTION 'Refund the % still held on this order before voiding it', v_order.paid_amount - v_order.refunded_amount;
+  END IF;
+
+  -- Cancelling already restocked everything; returns restocked their own lines
+  IF v_order.status <> 'cancelled' THEN
+    PERFORM public.release_order_item_stock(
+      oi.id, oi.product_id, (oi.quantity - COALESCE(ret.quantity, 0)) * oi.unit_factor, 'sale', 'sellable',
+      'Order voided: ' || TRIM(p_reason), 'order', p_order_id, v_order.order_number
+    )
+    FROM public.order_items oi
+    LEFT JOIN (
+      SELECT order_item_id, SUM(quantity) AS quantity
+      FROM public.order_return_items
+      GROUP BY order_item_id
+    ) AS ret ON ret.order_item_id = oi.id
+    WHERE oi.order_id = p_order_id AND oi.product_id IS NOT NULL;
+  END IF;
+
+  UPDATE public.orders
+  SET voided_at = NOW(), voided_by = auth.uid(), void_reason = TRIM(p_reason)
+  WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restrict_order_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only administrators can delete orders; void the order instead';
+  END IF;
+  IF OLD.status <> 'pending' OR OLD.paid_amount > 0 OR OLD.invoice_number IS NOT NULL OR OLD.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Only draft orders can be deleted; void order % instead', OLD.order_number;
+  END IF;
+
+  PERFORM public.release_order_item_stock(
+    id, product_id, quantity * unit_factor, 'sale', 'sellable', 'Draft order deleted', 'order', OLD.id, OLD.order_number
+  )
+  FROM public.order_items
+  WHERE order_id = OLD.id AND product_id IS NOT NULL;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable read access for authenticated users" ON public.stock_movements
+  FOR SELECT USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable insert for authenticated users" ON public.stock_movements
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
@@ -0,0 +1,377 @@
+-- ===========================================
+-- 🧪 LOTS AND EXPIRY DATES
+-- ===========================================
+-- Medicines arrive in lots, each with its own expiry date. A lot's quantity is
+-- the part of the product's sellable stock known to come from it; stock booked
+-- in before lots were used (or without one) stays outside any lot. Sales take
+-- from the lot expiring first, never from an expired lot, and record which lots
+-- each order line took so a recalled lot can be traced to its customers.
+
+CREATE TABLE public.product_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lot_number TEXT NOT NULL CHECK (TRIM(lot_number) <> ''),
+  expiry_date DATE NOT NULL,
+  -- Sellable base units on hand from this lot; only changed by stock movements
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_product_batches_lot ON public.product_batches(product_id, LOWER(lot_number));
+CREATE INDEX idx_product_batches_expiry ON public.product_batches(expiry_date) WHERE quantity > 0;
+
+CREATE TRIGGER update_product_batches_updated_at
+  BEFORE UPDATE ON public.product_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quarantined movements still name their lot, but only sellable ones change it
+ALTER TABLE public.stock_movements
+ADD COLUMN batch_id UUID REFERENCES public.product_batches(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_stock_movements_batch ON public.stock_movements(batch_id) WHERE batch_id IS NOT NULL;
+
+-- The lots an order line took, and how many of each it still holds.
+-- Amending an order deletes and re-inserts its lines under the same ids, so
+-- the link to the line is only checked when the transaction commits.
+CREATE TABLE public.order_item_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) DEFERRABLE INITIALLY DEFERRED,
+  batch_id UUID NOT NULL REFERENCES public.product_batches(id) ON DELETE CASCADE,
+  -- Base units
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (order_item_id, batch_id)
+);
+
+CREATE INDEX idx_order_item_batches_batch ON public.order_item_batches(batch_id);
+
+-- ===========================================
+-- ⚙️ LEDGER TRIGGERS
+-- ===========================================
+
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product public.products%ROWTYPE;
+  v_batch public.product_batches%ROWTYPE;
+  v_in_lots INTEGER;
+BEGIN
+  SELECT * INTO v_product FROM public.products WHERE id = NEW.product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  NEW.balance_after := CASE
+    WHEN NEW.bucket = 'quarantine' THEN COALESCE(v_product.quarantine_stock, 0)
+    ELSE COALESCE(v_product.stock, 0)
+  END + NEW.quantity;
+  IF NEW.balance_after < 0 THEN
+    RAISE EXCEPTION 'Not enough % stock of % (% on hand)',
+      CASE WHEN NEW.bucket = 'quarantine' THEN 'quarantined' ELSE 'sellable' END,
+      v_product.name,
+      NEW.balance_after - NEW.quantity;
+  END IF;
+
+  IF NEW.batch_id IS NOT NULL THEN
+    SELECT * INTO v_batch FROM public.product_batches WHERE id = NEW.batch_id FOR UPDATE;
+    IF NOT FOUND OR v_batch.product_id <> NEW.product_id THEN
+      RAISE EXCEPTION 'Lot does not belong to %', v_product.name;
+    END IF;
+    IF NEW.bucket = 'sellable' AND NEW.quantity < 0 THEN
+      IF NEW.movement_type = 'sale' AND v_batch.expiry_date <= CURRENT_DATE THEN
+        RAISE EXCEPTION 'Lot % of % expired on % and cannot be sold', v_batch.lot_number, v_product.name, v_batch.expiry_date;
+      END IF;
+      IF v_batch.quantity + NEW.quantity < 0 THEN
+        RAISE EXCEPTION 'Not enough of lot % of % (% on hand)', v_batch.lot_number, v_product.name, v_batch.quantity;
+      END IF;
+    END IF;
+  ELSIF NEW.bucket = 'sellable' AND NEW.quantity < 0 THEN
+    -- Stock outside any lot is what remains once every lot is accounted for
+    SELECT COALESCE(SUM(quantity), 0) INTO v_in_lots FROM public.product_batches WHERE product_id = NEW.product_id;
+    IF NEW.balance_after < v_in_lots THEN
+      RAISE EXCEPTION 'Only % of % are outside a lot; choose the lot to take from',
+        GREATEST(COALESCE(v_product.stock, 0) - v_in_lots, 0), v_product.name;
+    END IF;
+  END IF;
+
+  -- Lets the guards tell these updates apart from a direct edit
+  PERFORM set_config('app.stock_movement', 'on', true);
+  IF NEW.bucket = 'quarantine' THEN
+    UPDATE public.products SET quarantine_stock = NEW.balance_after WHERE id = NEW.product_id;
+  ELSE
+    UPDATE public.products SET stock = NEW.balance_after WHERE id = NEW.product_id;
+    IF NEW.batch_id IS NOT NULL THEN
+      UPDATE public.product_batches SET quantity = quantity + NEW.quantity WHERE id = NEW.batch_id;
+    END IF;
+  END IF;
+  PERFORM set_config('app.stock_movement', '', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.guard_batch_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_setting('app.stock_movement', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.quantity <> 0 THEN
+      RAISE EXCEPTION 'New lots start empty; book stock into them with a purchase receipt';
+    END IF;
+  ELSIF NEW.quantity IS DISTINCT FROM OLD.quantity THEN
+    RAISE EXCEPTION 'Lot % can only change through a stock movement', OLD.lot_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_batch_quantity
+  BEFORE INSERT OR UPDATE OF quantity ON public.product_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_batch_quantity();
+
+-- ===========================================
+-- 📦 ORDER LINES AND LOTS
+-- ===========================================
+-- The order line helpers from 023 now take and give back lots, so checkout,
+-- returns, amendments, voids and cancellations follow without changes.
+
+-- Takes base units of a line's product off the shelf: unexpired lots first,
+-- earliest expiry first, then stock kept outside any lot.
+CREATE OR REPLACE FUNCTION public.take_order_item_stock(
+  p_order_item_id UUID,
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_order_id UUID,
+  p_order_number TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_batch RECORD;
+  v_left INTEGER := p_quantity;
+  v_take INTEGER;
+  v_outside_lots INTEGER;
+BEGIN
+  IF p_product_id IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+  -- Product before lots, the same order the ledger trigger locks them in
+  PERFORM 1 FROM public.products WHERE id = p_product_id FOR UPDATE;
+
+  FOR v_batch IN
+    SELECT id, quantity
+    FROM public.product_batches
+    WHERE product_id = p_product_id AND quantity > 0 AND expiry_date > CURRENT_DATE
+    ORDER BY expiry_date, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_take := LEAST(v_left, v_batch.quantity);
+
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (p_product_id, v_batch.id, 'sale', -v_take, p_reason, 'order', p_order_id, p_order_number);
+
+    INSERT INTO public.order_item_batches (order_item_id, batch_id, quantity)
+    VALUES (p_order_item_id, v_batch.id, v_take)
+    ON CONFLICT (order_item_id, batch_id) DO UPDATE
+    SET quantity = public.order_item_batches.quantity + EXCLUDED.quantity;
+
+    v_left := v_left - v_take;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    SELECT p.stock - COALESCE((SELECT SUM(b.quantity) FROM public.product_batches b WHERE b.product_id = p.id), 0)
+    INTO v_outside_lots
+    FROM public.products p
+    WHERE p.id = p_product_id;
+
+    IF v_left > v_outside_lots THEN
+      RAISE EXCEPTION 'Not enough unexpired stock of %',
+        (SELECT name FROM public.products WHERE id = p_product_id);
+    END IF;
+
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, reason, reference_type, reference_id, reference_number)
+    VALUES (p_product_id, 'sale', -v_left, p_reason, 'order', p_order_id, p_order_number);
+  END IF;
+END;
+$$;
+
+-- Puts base units of a line back: into the lots the line took, latest expiry
+-- first, and anything it did not take from a lot back outside the lots.
+-- p_quantity is BIGINT because returns and voids pass quantities derived from SUM().
+CREATE OR REPLACE FUNCTION public.release_order_item_stock(
+  p_order_item_id UUID,
+  p_product_id UUID,
+  p_quantity BIGINT,
+  p_movement_type TEXT,
+  p_bucket TEXT,
+  p_reason TEXT,
+  p_reference_type TEXT,
+  p_reference_id UUID,
+  p_reference_number TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_taken RECORD;
+  v_left INTEGER := p_quantity;
+  v_give INTEGER;
+BEGIN
+  IF p_product_id IS NULL OR p_quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  FOR v_taken IN
+    SELECT a.id, a.batch_id, a.quantity
+    FROM public.order_item_batches a
+    JOIN public.product_batches b ON b.id = a.batch_id
+    WHERE a.order_item_id = p_order_item_id
+    ORDER BY b.expiry_date DESC, b.created_at DESC
+    FOR UPDATE OF a
+  LOOP
+    EXIT WHEN v_left = 0;
+    v_give := LEAST(v_left, v_taken.quantity);
+
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (
+      p_product_id, v_taken.batch_id, p_movement_type, p_bucket, v_give, p_reason,
+      p_reference_type, p_reference_id, p_reference_number
+    );
+
+    IF v_give = v_taken.quantity THEN
+      DELETE FROM public.order_item_batches WHERE id = v_taken.id;
+    ELSE
+      UPDATE public.order_item_batches SET quantity = quantity - v_give WHERE id = v_taken.id;
+    END IF;
+
+    v_left := v_left - v_give;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    INSERT INTO public.stock_movements (
+      product_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (
+      p_product_id, p_movement_type, p_bucket, v_left, p_reason, p_reference_type, p_reference_id, p_reference_number
+    );
+  END IF;
+END;
+$$;
+
+-- ===========================================
+-- ✍️ MANUAL MOVEMENTS
+-- ===========================================
+-- p_payload mirrors StockMovementInput in app/actions/stock.ts:
+-- {
+--   "product_id": uuid,
+--   "movement_type": "purchase_receipt" | "adjustment" | "transfer" | "write_off",
+--   "quantity": int,                       -- base units; signed for adjustments only
+--   "bucket": "sellable" | "quarantine",   -- write-offs: where the stock is taken from
+--   "batch_id": uuid | null,               -- existing lot the movement is for
+--   "lot_number": text | null,             -- receipts: lot to book into, created if new
+--   "expiry_date": date | null,            -- required when lot_number is a new lot
+--   "reason": text,
+--   "reference_number": text | null        -- supplier delivery note, report number, ...
+-- }
+-- Transfers move quarantined returns back onto the shelf, as a pair of rows.
+-- Sales and returns are only ever recorded by their order and return.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id UUID := (p_payload->>'product_id')::UUID;
+  v_type TEXT := p_payload->>'movement_type';
+  v_quantity INTEGER := COALESCE((p_payload->>'quantity')::INTEGER, 0);
+  v_bucket TEXT := COALESCE(NULLIF(p_payload->>'bucket', ''), 'sellable');
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reason', '')), '');
+  v_reference TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reference_number', '')), '');
+  v_batch_id UUID := NULLIF(p_payload->>'batch_id', '')::UUID;
+  v_lot_number TEXT := NULLIF(TRIM(COALESCE(p_payload->>'lot_number', '')), '');
+  v_expiry_date DATE := NULLIF(p_payload->>'expiry_date', '')::DATE;
+  v_batch public.product_batches%ROWTYPE;
+  v_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF v_type IS NULL OR v_type NOT IN ('purchase_receipt', 'adjustment', 'transfer', 'write_off') THEN
+    RAISE EXCEPTION 'Sales and returns are recorded through their orders';
+  END IF;
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+  IF v_quantity = 0 OR (v_type <> 'adjustment' AND v_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  -- Receiving the same lot number again adds to that lot
+  IF v_lot_number IS NOT NULL THEN
+    IF v_type <> 'purchase_receipt' THEN
+      RAISE EXCEPTION 'New lots are booked in with a purchase receipt';
+    END IF;
+    SELECT * INTO v_batch
+    FROM public.product_batches
+    WHERE product_id = v_product_id AND LOWER(lot_number) = LOWER(v_lot_number);
+    IF FOUND THEN
+      IF v_expiry_date IS NOT NULL AND v_expiry_date <> v_batch.expiry_date THEN
+        RAISE EXCEPTION 'Lot % is already recorded as expiring on %', v_batch.lot_number, v_batch.expiry_date;
+      END IF;
+      v_batch_id := v_batch.id;
+    ELSE
+      IF v_expiry_date IS NULL THEN
+        RAISE EXCEPTION 'An expiry date is required for lot %', v_lot_number;
+      END IF;
+      INSERT INTO public.product_batches (product_id, lot_number, expiry_date)
+      VALUES (v_product_id, v_lot_number, v_expiry_date)
+      RETURNING id INTO v_batch_id;
+    END IF;
+  END IF;
+
+  IF v_type = 'transfer' THEN
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES
+      (v_product_id, v_batch_id, 'transfer', 'quarantine', -v_quantity, v_reason, 'transfer', v_transfer_id, v_reference),
+      (v_product_id, v_batch_id, 'transfer', 'sellable', v_quantity, v_reason, 'transfer', v_transfer_id, v_reference);
+  ELSE
+    INSERT INTO public.stock_movements (product_id, batch_id, movement_type, bucket, quantity, reason, reference_number)
+    VALUES (
+      v_product_id,
+      v_batch_id,
+      v_type,
+      CASE WHEN v_type = 'write_off' THEN v_bucket ELSE 'sellable' END,
+      CASE WHEN v_type = 'write_off' THEN -v_quantity ELSE v_quantity END,
+      v_reason,
+      v_reference
+    );
+  END IF;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.product_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_item_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.product_batches
+  FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Enable all access for authenticated users" ON public.order_item_batches
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,115 @@
+-- ===========================================
+-- ⏳ EXPIRY ALERTS
+-- ===========================================
+-- Lots are flagged when they expire within one of the store's alert windows,
+-- in days. Near-expiry stock can be discounted with a price rule, written off,
+-- or sent back to the supplier as a supplier return movement.
+
+ALTER TABLE public.store_settings
+ADD COLUMN expiry_alert_days INTEGER[] NOT NULL DEFAULT '{30,60,90}'
+  CHECK (cardinality(expiry_alert_days) BETWEEN 1 AND 5 AND 0 < ALL (expiry_alert_days));
+
+ALTER TABLE public.stock_movements
+DROP CONSTRAINT stock_movements_movement_type_check,
+ADD CONSTRAINT stock_movements_movement_type_check CHECK (movement_type IN (
+  'sale', 'return', 'purchase_receipt', 'adjustment', 'transfer', 'write_off', 'supplier_return'
+));
+
+-- ===========================================
+-- ✍️ MANUAL MOVEMENTS
+-- ===========================================
+-- p_payload mirrors StockMovementInput in app/actions/stock.ts:
+-- {
+--   "product_id": uuid,
+--   "movement_type": "purchase_receipt" | "adjustment" | "transfer" | "write_off" | "supplier_return",
+--   "quantity": int,                       -- base units; signed for adjustments only
+--   "bucket": "sellable" | "quarantine",   -- write-offs: where the stock is taken from
+--   "batch_id": uuid | null,               -- existing lot the movement is for
+--   "lot_number": text | null,             -- receipts: lot to book into, created if new
+--   "expiry_date": date | null,            -- required when lot_number is a new lot
+--   "supplier_id": uuid | null,            -- supplier returns: who the stock goes back to
+--   "reason": text,
+--   "reference_number": text | null        -- supplier delivery note, report number, ...
+-- }
+-- Transfers move quarantined returns back onto the shelf, as a pair of rows.
+-- Sales and returns are only ever recorded by their order and return.
+CREATE OR REPLACE FUNCTION public.record_stock_movement(p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id UUID := (p_payload->>'product_id')::UUID;
+  v_type TEXT := p_payload->>'movement_type';
+  v_quantity INTEGER := COALESCE((p_payload->>'quantity')::INTEGER, 0);
+  v_bucket TEXT := COALESCE(NULLIF(p_payload->>'bucket', ''), 'sellable');
+  v_reason TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reason', '')), '');
+  v_reference TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reference_number', '')), '');
+  v_batch_id UUID := NULLIF(p_payload->>'batch_id', '')::UUID;
+  v_lot_number TEXT := NULLIF(TRIM(COALESCE(p_payload->>'lot_number', '')), '');
+  v_expiry_date DATE := NULLIF(p_payload->>'expiry_date', '')::DATE;
+  v_supplier_id UUID := NULLIF(p_payload->>'supplier_id', '')::UUID;
+  v_batch public.product_batches%ROWTYPE;
+  v_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF v_type IS NULL OR v_type NOT IN ('purchase_receipt', 'adjustment', 'transfer', 'write_off', 'supplier_return') THEN
+    RAISE EXCEPTION 'Sales and returns are recorded through their orders';
+  END IF;
+  IF v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+  IF v_quantity = 0 OR (v_type <> 'adjustment' AND v_quantity < 0) THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+  IF v_type = 'supplier_return' AND v_supplier_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the supplier the stock goes back to';
+  END IF;
+
+  -- Receiving the same lot number again adds to that lot
+  IF v_lot_number IS NOT NULL THEN
+    IF v_type <> 'purchase_receipt' THEN
+      RAISE EXCEPTION 'New lots are booked in with a purchase receipt';
+    END IF;
+    SELECT * INTO v_batch
+    FROM public.product_batches
+    WHERE product_id = v_product_id AND LOWER(lot_number) = LOWER(v_lot_number);
+    IF FOUND THEN
+      IF v_expiry_date IS NOT NULL AND v_expiry_date <> v_batch.expiry_date THEN
+        RAISE EXCEPTION 'Lot % is already recorded as expiring on %', v_batch.lot_number, v_batch.expiry_date;
+      END IF;
+      v_batch_id := v_batch.id;
+    ELSE
+      IF v_expiry_date IS NULL THEN
+        RAISE EXCEPTION 'An expiry date is required for lot %', v_lot_number;
+      END IF;
+      INSERT INTO public.product_batches (product_id, lot_number, expiry_date)
+      VALUES (v_product_id, v_lot_number, v_expiry_date)
+      RETURNING id INTO v_batch_id;
+    END IF;
+  END IF;
+
+  IF v_type = 'transfer' THEN
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, bucket, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES
+      (v_product_id, v_batch_id, 'transfer', 'quarantine', -v_quantity, v_reason, 'transfer', v_transfer_id, v_reference),
+      (v_product_id, v_batch_id, 'transfer', 'sellable', v_quantity, v_reason, 'transfer', v_transfer_id, v_reference);
+  ELSIF v_type = 'supplier_return' THEN
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (v_product_id, v_batch_id, 'supplier_return', -v_quantity, v_reason, 'supplier', v_supplier_id, v_reference);
+  ELSE
+    INSERT INTO public.stock_movements (product_id, batch_id, movement_type, bucket, quantity, reason, reference_number)
+    VALUES (
+      v_product_id,
+      v_batch_id,
+      v_type,
+      CASE WHEN v_type = 'write_off' THEN v_bucket ELSE 'sellable' END,
+      CASE WHEN v_type = 'write_off' THEN -v_quantity ELSE v_quantity END,
+      v_reason,
+      v_reference
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,259 @@
+-- ===========================================
+-- 📋 STOCK TAKES
+-- ===========================================
+-- A stock take (opname) freezes what the system expects on the shelf, one
+-- line per lot plus one for the stock outside any lot, so counting can go on
+-- while the shop keeps selling. Stock that moved between the start and a
+-- line's count, mostly sales, is recorded on the line when the count is saved
+-- and kept out of its variance. Once reviewed, each accepted variance is
+-- posted as an 'adjustment' movement referencing the stock take. Quarantined
+-- returns are not counted.
+
+ALTER TABLE public.document_number_formats
+DROP CONSTRAINT document_number_formats_document_type_check;
+
+ALTER TABLE public.document_number_formats
+ADD CONSTRAINT document_number_formats_document_type_check
+  CHECK (document_type IN ('order', 'invoice', 'refund', 'purchase_order', 'quotation', 'stock_take'));
+
+INSERT INTO public.document_number_formats (document_type, prefix) VALUES
+('stock_take', 'OPN');
+
+CREATE TABLE public.stock_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_number TEXT UNIQUE NOT NULL DEFAULT public.next_document_number('stock_take'),
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'posted', 'cancelled')),
+  -- Counts one category only; null counts every product
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  notes TEXT,
+  approved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  posted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  posted_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (status <> 'posted' OR posted_at IS NOT NULL)
+);
+
+CREATE TABLE public.stock_take_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id UUID NOT NULL REFERENCES public.stock_takes(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- Null for the product's stock outside any lot
+  batch_id UUID REFERENCES public.product_batches(id) ON DELETE CASCADE,
+  -- Base units on record when the stock take started
+  expected_quantity INTEGER NOT NULL,
+  -- Null until the line is counted; uncounted lines are left alone when posting
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  -- Stock on record when the count was saved less expected_quantity: negative
+  -- for what sold since the start
+  moved_quantity INTEGER NOT NULL DEFAULT 0,
+  -- Cost price at the start, for valuing the variance
+  unit_cost BIGINT,
+  -- Cleared in review to leave a variance unposted
+  approved BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_stock_takes_status ON public.stock_takes(status, created_at DESC);
+CREATE INDEX idx_stock_take_items_stock_take_id ON public.stock_take_items(stock_take_id);
+CREATE UNIQUE INDEX idx_stock_take_items_line
+  ON public.stock_take_items(stock_take_id, product_id, COALESCE(batch_id, '00000000-0000-0000-0000-000000000000'::UUID));
+
+CREATE TRIGGER update_stock_takes_updated_at
+  BEFORE UPDATE ON public.stock_takes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_stock_take_items_updated_at
+  BEFORE UPDATE ON public.stock_take_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- ⚙️ START STOCK TAKE
+-- ===========================================
+-- p_payload mirrors StockTakeInput in app/actions/stock-takes.ts:
+-- { "category_id": uuid | null, "notes": text | null }
+-- Every active product in scope gets a line for its stock outside lots, even
+-- when that is zero, so stock found on the shelf can still be counted.
+
+CREATE OR REPLACE FUNCTION public.start_stock_take(p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID;
+  v_category_id UUID := NULLIF(p_payload->>'category_id', '')::UUID;
+BEGIN
+  -- Two starts at once would both find no open stock take
+  LOCK TABLE public.stock_takes IN SHARE ROW EXCLUSIVE MODE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stock_takes
+    WHERE status = 'counting'
+      AND (category_id IS NULL OR v_category_id IS NULL OR category_id = v_category_id)
+  ) THEN
+    RAISE EXCEPTION 'A stock take covering these products is already being counted';
+  END IF;
+
+  INSERT INTO public.stock_takes (category_id, notes)
+  VALUES (v_category_id, NULLIF(TRIM(COALESCE(p_payload->>'notes', '')), ''))
+  RETURNING id INTO v_id;
+
+  -- Lock the products so no sale lands between reading stock and its lots
+  PERFORM 1 FROM public.products
+  WHERE status = 'active' AND (v_category_id IS NULL OR category_id = v_category_id)
+  FOR UPDATE;
+
+  INSERT INTO public.stock_take_items (stock_take_id, product_id, batch_id, expected_quantity, unit_cost)
+  SELECT v_id, b.product_id, b.id, b.quantity, p.cost
+  FROM public.product_batches b
+  JOIN public.products p ON p.id = b.product_id
+  WHERE p.status = 'active'
+    AND (v_category_id IS NULL OR p.category_id = v_category_id)
+    AND b.quantity > 0;
+
+  INSERT INTO public.stock_take_items (stock_take_id, product_id, batch_id, expected_quantity, unit_cost)
+  SELECT
+    v_id,
+    p.id,
+    NULL,
+    COALESCE(p.stock, 0) - COALESCE((SELECT SUM(b.quantity) FROM public.product_batches b WHERE b.product_id = p.id), 0),
+    p.cost
+  FROM public.products p
+  WHERE p.status = 'active'
+    AND (v_category_id IS NULL OR p.category_id = v_category_id);
+
+  IF NOT EXISTS (SELECT 1 FROM public.stock_take_items WHERE stock_take_id = v_id) THEN
+    RAISE EXCEPTION 'There are no active products to count';
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ===========================================
+-- ⚙️ SAVE COUNTS
+-- ===========================================
+-- p_payload mirrors saveStockTakeCounts in app/actions/stock-takes.ts:
+-- { "items": [{ id, counted_quantity: integer | null, approved: bool }] }
+
+CREATE OR REPLACE FUNCTION public.save_stock_take_counts(p_stock_take_id UUID, p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  SELECT status INTO v_status FROM public.stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+  IF v_status <> 'counting' THEN
+    RAISE EXCEPTION 'A % stock take cannot be changed', v_status;
+  END IF;
+
+  -- A new or changed count records how far the stock on record has moved
+  -- from the start; an unchanged one keeps what it recorded
+  UPDATE public.stock_take_items s
+  SET
+    counted_quantity = NULLIF(i->>'counted_quantity', '')::INTEGER,
+    approved = COALESCE((i->>'approved')::BOOLEAN, s.approved),
+    moved_quantity = CASE
+      WHEN NULLIF(i->>'counted_quantity', '') IS NULL THEN 0
+      WHEN s.counted_quantity IS NOT DISTINCT FROM NULLIF(i->>'counted_quantity', '')::INTEGER THEN s.moved_quantity
+      WHEN s.batch_id IS NULL THEN
+        COALESCE(p.stock, 0)
+        - COALESCE((SELECT SUM(b.quantity) FROM public.product_batches b WHERE b.product_id = p.id), 0)
+        - s.expected_quantity
+      ELSE COALESCE((SELECT b.quantity FROM public.product_batches b WHERE b.id = s.batch_id), 0) - s.expected_quantity
+    END
+  FROM jsonb_array_elements(COALESCE(p_payload->'items', '[]'::JSONB)) AS i, public.products p
+  WHERE s.id = (i->>'id')::UUID
+    AND s.stock_take_id = p_stock_take_id
+    AND p.id = s.product_id;
+END;
+$$;
+
+-- ===========================================
+-- ⚙️ POST STOCK TAKE
+-- ===========================================
+-- p_payload: { "approval": { "token": uuid } | null }   -- token from request_approval
+-- Each approved, counted line with a variance becomes one adjustment of
+-- counted - expected - moved, landing on top of whatever sold since the count.
+-- Posting any variance needs a supervisor.
+
+CREATE OR REPLACE FUNCTION public.post_stock_take(p_stock_take_id UUID, p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_take public.stock_takes%ROWTYPE;
+  v_item RECORD;
+  v_variances INTEGER;
+  v_approved_by UUID;
+BEGIN
+  SELECT * INTO v_take FROM public.stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found';
+  END IF;
+  IF v_take.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stock take is already %', v_take.status;
+  END IF;
+
+  SELECT COUNT(*) INTO v_variances
+  FROM public.stock_take_items
+  WHERE stock_take_id = p_stock_take_id
+    AND approved
+    AND counted_quantity IS NOT NULL
+    AND counted_quantity <> expected_quantity + moved_quantity;
+
+  IF v_variances > 0 THEN
+    v_approved_by := public.require_approval(ARRAY[v_variances || ' stock adjustment(s)'], p_payload->'approval');
+  END IF;
+
+  FOR v_item IN
+    SELECT * FROM public.stock_take_items
+    WHERE stock_take_id = p_stock_take_id
+      AND approved
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity + moved_quantity
+    ORDER BY product_id, batch_id NULLS LAST
+  LOOP
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (
+      v_item.product_id,
+      v_item.batch_id,
+      'adjustment',
+      v_item.counted_quantity - v_item.expected_quantity - v_item.moved_quantity,
+      'Stock take ' || v_take.stock_take_number,
+      'stock_take',
+      v_take.id,
+      v_take.stock_take_number
+    );
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET
+    status = 'posted',
+    approved_by = v_approved_by,
+    posted_by = auth.uid(),
+    posted_at = NOW()
+  WHERE id = p_stock_take_id;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.stock_takes
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable all access for authenticated users" ON public.stock_take_items
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,254 @@
+-- ===========================================
+-- 🚚 PURCHASE ORDERS
+-- ===========================================
+-- A purchase order lists what is bought from a supplier, in the unit it is
+-- bought in and at the agreed cost per unit. Nothing moves until goods arrive:
+-- each delivery is received against the order as purchase_receipt movements
+-- referencing it, into the lot printed on the packaging. Deliveries may come
+-- in parts; the order is received once every line has arrived in full.
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT UNIQUE NOT NULL DEFAULT public.next_document_number('purchase_order'),
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN (
+    'draft', 'sent', 'partially_received', 'received', 'cancelled'
+  )),
+  expected_date DATE,
+  total_amount BIGINT NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  cancelled_at TIMESTAMPTZ,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (status <> 'received' OR received_at IS NOT NULL)
+);
+
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  -- The unit bought in, kept like on order_items; null is the base unit
+  unit_name TEXT,
+  unit_factor INTEGER NOT NULL DEFAULT 1 CHECK (unit_factor > 0),
+  -- Both in the unit bought in
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  -- Agreed cost of one unit bought in
+  unit_cost BIGINT NOT NULL CHECK (unit_cost >= 0),
+  subtotal BIGINT NOT NULL DEFAULT 0,
+  position INTEGER NOT NULL DEFAULT 0,
+  CHECK (received_quantity <= quantity)
+);
+
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_orders_status ON public.purchase_orders(status, created_at DESC);
+CREATE INDEX idx_purchase_order_items_purchase_order_id ON public.purchase_order_items(purchase_order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ===========================================
+-- ⚙️ SAVE PURCHASE ORDER
+-- ===========================================
+-- p_payload mirrors the row built by savePurchaseOrder in app/actions/purchase-orders.ts:
+-- {
+--   "supplier_id": uuid, "expected_date": date | null, "notes": text | null,
+--   "items": [{ product_id, product_name, unit_name, unit_factor, quantity, unit_cost }]
+-- }
+-- Pass p_purchase_order_id to replace the lines of a draft or sent order.
+
+CREATE OR REPLACE FUNCTION public.save_purchase_order(p_purchase_order_id UUID, p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_id UUID := p_purchase_order_id;
+  v_status TEXT;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_payload->'items', '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one item';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.purchase_orders (supplier_id, expected_date, notes)
+    VALUES (
+      (p_payload->>'supplier_id')::UUID,
+      NULLIF(p_payload->>'expected_date', '')::DATE,
+      NULLIF(p_payload->>'notes', '')
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    SELECT status INTO v_status FROM public.purchase_orders WHERE id = v_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+    IF v_status NOT IN ('draft', 'sent') THEN
+      RAISE EXCEPTION 'A % purchase order cannot be edited', REPLACE(v_status, '_', ' ');
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET
+      supplier_id = (p_payload->>'supplier_id')::UUID,
+      expected_date = NULLIF(p_payload->>'expected_date', '')::DATE,
+      notes = NULLIF(p_payload->>'notes', '')
+    WHERE id = v_id;
+
+    DELETE FROM public.purchase_order_items WHERE purchase_order_id = v_id;
+  END IF;
+
+  INSERT INTO public.purchase_order_items (
+    purchase_order_id, product_id, product_name, unit_name, unit_factor, quantity, unit_cost, subtotal, position
+  )
+  SELECT
+    v_id,
+    (i->>'product_id')::UUID,
+    i->>'product_name',
+    NULLIF(i->>'unit_name', ''),
+    COALESCE((i->>'unit_factor')::INTEGER, 1),
+    (i->>'quantity')::INTEGER,
+    (i->>'unit_cost')::BIGINT,
+    (i->>'quantity')::INTEGER * (i->>'unit_cost')::BIGINT,
+    ordinality
+  FROM jsonb_array_elements(p_payload->'items') WITH ORDINALITY AS i;
+
+  UPDATE public.purchase_orders
+  SET total_amount = (SELECT COALESCE(SUM(subtotal), 0) FROM public.purchase_order_items WHERE purchase_order_id = v_id)
+  WHERE id = v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ===========================================
+-- ⚙️ RECEIVE PURCHASE ORDER
+-- ===========================================
+-- p_payload mirrors ReceivePurchaseOrderInput in app/actions/purchase-orders.ts:
+-- {
+--   "reference_number": text | null,   -- the supplier's delivery note
+--   "items": [{ id, quantity, lot_number: text | null, expiry_date: date | null }]
+-- }
+-- quantity is in the line's unit and books quantity x unit_factor base units.
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(p_purchase_order_id UUID, p_payload JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_po public.purchase_orders%ROWTYPE;
+  v_line JSONB;
+  v_item public.purchase_order_items%ROWTYPE;
+  v_quantity INTEGER;
+  v_lot_number TEXT;
+  v_expiry_date DATE;
+  v_batch public.product_batches%ROWTYPE;
+  v_batch_id UUID;
+  v_received INTEGER := 0;
+  v_reference TEXT := NULLIF(TRIM(COALESCE(p_payload->>'reference_number', '')), '');
+BEGIN
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+  -- Goods only arrive against an order the supplier has been sent
+  IF v_po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'A % purchase order cannot be received', v_po.status;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_payload->'items', '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_item
+    FROM public.purchase_order_items
+    WHERE id = (v_line->>'id')::UUID AND purchase_order_id = p_purchase_order_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on this purchase order';
+    END IF;
+    IF v_item.product_id IS NULL THEN
+      RAISE EXCEPTION '% has been deleted and cannot be received', v_item.product_name;
+    END IF;
+    IF v_quantity < 0 OR v_item.received_quantity + v_quantity > v_item.quantity THEN
+      RAISE EXCEPTION 'Only % more of % are on order', v_item.quantity - v_item.received_quantity, v_item.product_name;
+    END IF;
+
+    -- Receiving the same lot number again adds to that lot
+    v_lot_number := NULLIF(TRIM(COALESCE(v_line->>'lot_number', '')), '');
+    v_expiry_date := NULLIF(v_line->>'expiry_date', '')::DATE;
+    v_batch_id := NULL;
+    IF v_lot_number IS NOT NULL THEN
+      SELECT * INTO v_batch
+      FROM public.product_batches
+      WHERE product_id = v_item.product_id AND LOWER(lot_number) = LOWER(v_lot_number);
+      IF FOUND THEN
+        IF v_expiry_date IS NOT NULL AND v_expiry_date <> v_batch.expiry_date THEN
+          RAISE EXCEPTION 'Lot % is already recorded as expiring on %', v_batch.lot_number, v_batch.expiry_date;
+        END IF;
+        v_batch_id := v_batch.id;
+      ELSE
+        IF v_expiry_date IS NULL THEN
+          RAISE EXCEPTION 'An expiry date is required for lot %', v_lot_number;
+        END IF;
+        INSERT INTO public.product_batches (product_id, lot_number, expiry_date)
+        VALUES (v_item.product_id, v_lot_number, v_expiry_date)
+        RETURNING id INTO v_batch_id;
+      END IF;
+    END IF;
+
+    INSERT INTO public.stock_movements (
+      product_id, batch_id, movement_type, quantity, reason, reference_type, reference_id, reference_number
+    )
+    VALUES (
+      v_item.product_id,
+      v_batch_id,
+      'purchase_receipt',
+      v_quantity * v_item.unit_factor,
+      'Received on ' || v_po.po_number || COALESCE(' (' || v_reference || ')', ''),
+      'purchase_order',
+      v_po.id,
+      v_po.po_number
+    );
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = received_quantity + v_quantity
+    WHERE id = v_item.id;
+    v_received := v_received + 1;
+  END LOOP;
+
+  IF v_received = 0 THEN
+    RAISE EXCEPTION 'Enter a quantity received for at least one line';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.purchase_order_items
+    WHERE purchase_order_id = p_purchase_order_id AND received_quantity < quantity
+  ) THEN
+    UPDATE public.purchase_orders
+    SET status = 'partially_received'
+    WHERE id = p_purchase_order_id;
+  ELSE
+    UPDATE public.purchase_orders
+    SET status = 'received', received_at = NOW()
+    WHERE id = p_purchase_order_id;
+  END IF;
+END;
+$$;
+
+-- ===========================================
+-- 🔒 ROW LEVEL SECURITY (RLS)
+-- ===========================================
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Enable all access for authenticated users" ON public.purchase_orders
+  FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Enable all access for authenticated users" ON public.purchase_order_items
+  FOR ALL USING (auth.role() = 'authenticated');
@@ -0,0 +1,19 @@
+-- ===========================================
+-- 🔔 LOW STOCK ALERTS
+-- ===========================================
+-- Active products whose sellable stock is at or below their minimum, lowest
+-- against their minimum first. The comparison is between two columns, which
+-- the API's filters cannot express.
+
+CREATE OR REPLACE FUNCTION public.get_low_stock_products()
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM public.products
+  WHERE status = 'active' AND stock <= min_stock
+  ORDER BY stock - min_stock, name;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_low_stock_products() TO authenticated;
@@ -0,0 +1,88 @@
+-- Returns and voids put stock back through release_order_item_stock, whose
+-- quantities come from SUM() over the order's lines. Run with `supabase test db`.
+
+BEGIN;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES ('00000000-0000-0000-0000-0000000000a1', 'tester@example.com');
+SELECT set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-0000000000a1', true);
+
+-- Payments land in the tester's open drawer
+INSERT INTO public.cash_shifts (opening_float) VALUES (0);
+
+INSERT INTO public.customers (id, name) VALUES ('00000000-0000-0000-0000-0000000000c1', 'Test Customer');
+INSERT INTO public.products (id, name, sku, price, stock)
+VALUES ('00000000-0000-0000-0000-0000000000b1', 'Test Product', 'TEST-RETURN-VOID', 1000, 0);
+
+SELECT public.record_stock_movement(jsonb_build_object(
+  'product_id', '00000000-0000-0000-0000-0000000000b1',
+  'movement_type', 'purchase_receipt',
+  'quantity', 10,
+  'reason', 'Opening stock'
+));
+
+-- A walk-in sale paid in full completes at the till
+CREATE TEMP TABLE sale AS
+SELECT * FROM public.create_order_with_items(jsonb_build_object(
+  'items', jsonb_build_array(jsonb_build_object('product_id', '00000000-0000-0000-0000-0000000000b1', 'quantity', 3)),
+  'payments', jsonb_build_array(jsonb_build_object('method', 'cash', 'amount', 3000))
+));
+
+SELECT lives_ok(
+  format(
+    $$SELECT * FROM public.create_order_return(jsonb_build_object(
+      'order_id', %L,
+      'reason', 'Damaged box',
+      'refund_amount', 0,
+      'items', jsonb_build_array(jsonb_build_object(
+        'order_item_id', (SELECT id FROM public.order_items WHERE order_id = %L),
+        'quantity', 1
+      ))
+    ))$$,
+    (SELECT order_id FROM sale),
+    (SELECT order_id FROM sale)
+  ),
+  'a completed order can be returned'
+);
+
+SELECT is(
+  (SELECT stock FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  8,
+  'the returned unit is back on the shelf'
+);
+
+SELECT is(
+  (SELECT SUM(quantity)::INTEGER FROM public.stock_movements
+   WHERE product_id = '00000000-0000-0000-0000-0000000000b1' AND movement_type = 'return'),
+  1,
+  'the return is recorded in the movement ledger'
+);
+
+-- An unpaid account order holds nothing the drawer has to give back
+CREATE TEMP TABLE account_sale AS
+SELECT * FROM public.create_order_with_items(jsonb_build_object(
+  'customer_id', '00000000-0000-0000-0000-0000000000c1',
+  'items', jsonb_build_array(jsonb_build_object('product_id', '00000000-0000-0000-0000-0000000000b1', 'quantity', 2))
+));
+
+SELECT is(
+  (SELECT stock FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  6,
+  'the account sale takes its stock'
+);
+
+SELECT lives_ok(
+  format($$SELECT public.void_order(%L, 'Entered twice')$$, (SELECT order_id FROM account_sale)),
+  'an unpaid order can be voided'
+);
+
+SELECT is(
+  (SELECT stock FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000b1'),
+  8,
+  'voiding puts the sold stock back'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;